@@ -0,0 +1,566 @@
+/**
+ * BufferBackend unit tests: map plain buffers at fixed addresses and drive the same accessors the
+ * live-process suites cover. No target process and no kernel32.dll are involved, so this runs on any
+ * host Bun supports — including Linux CI.
+ *
+ * Run: bun test ./example/buffer-backend.unit.ts
+ */
+import { describe, expect, test } from 'bun:test';
+
+import { AccessError, BufferBackend, MemoryError, Module, Process, ResolveError, Signature, SignatureScanner } from '../index.ts';
+
+const PAGE_GUARD = 0x100;
+const PAGE_NOACCESS = 0x01;
+const PAGE_READONLY = 0x02;
+
+const make = (is32Bit = false) => {
+  const backend = new BufferBackend({ is32Bit, modules: [Module.from({ modBaseAddr: 0x40_0000n, modBaseSize: 0x3000, szExePath: 'C:\\game\\game.exe', szModule: 'game.exe' })], szExeFile: 'game.exe' });
+  const memory = Buffer.alloc(0x3000);
+
+  backend.map(0x40_0000n, memory);
+
+  return { backend, memory, process: new Process(backend) };
+};
+
+describe('attach', () => {
+  test('copies identity from the backend and enumerates its modules', () => {
+    const { process } = make();
+    expect(process.szExeFile).toBe('game.exe');
+    expect(process.hProcess).toBe(0n);
+    expect(process.is32Bit).toBe(false);
+    expect(process.modules['game.exe']!.modBaseAddr).toBe(0x40_0000n);
+    expect(process.modules['game.exe']!.modEndAddr).toBe(0x40_3000n);
+    expect(process.modules['game.exe']!.szExePath).toBe('C:\\game\\game.exe');
+  });
+});
+
+describe('scalars and structs', () => {
+  test('reads and writes land in the mapped buffer', () => {
+    const { memory, process } = make();
+    memory.writeUInt32LE(0xdeadbeef, 0x10);
+    expect(process.u32(0x40_0010n)).toBe(0xdeadbeef);
+    process.u64(0x40_0020n, 0x1122334455667788n);
+    expect(memory.readBigUInt64LE(0x20)).toBe(0x1122334455667788n);
+    process.vector3(0x40_0030n, { x: 1, y: 2, z: 3 });
+    expect(process.vector3(0x40_0030n)).toEqual({ x: 1, y: 2, z: 3 });
+  });
+
+  test('a read spanning two adjacent regions is stitched together', () => {
+    const backend = new BufferBackend();
+    backend.map(0x1000n, Buffer.from([0x01, 0x02])).map(0x1002n, Buffer.from([0x03, 0x04]));
+    expect(new Process(backend).u32(0x1000n)).toBe(0x04030201);
+  });
+
+  test('unmapped and protected accesses throw MemoryError', () => {
+    const { backend, process } = make();
+    backend.map(0x50_0000n, 0x10, PAGE_NOACCESS).map(0x50_1000n, 0x10, PAGE_READONLY);
+    expect(() => process.u32(0x10n)).toThrow(MemoryError);
+    expect(() => process.u32(0x50_0000n)).toThrow(MemoryError);
+    expect(() => process.u32(0x50_1000n, 1)).toThrow(MemoryError);
+    process.u32(0x50_1000n, 1, true); // force flips protection for the write, then restores it
+    expect(process.u32(0x50_1000n)).toBe(1);
+    expect(() => process.u32(0x50_1000n, 2)).toThrow(MemoryError);
+  });
+});
+
+describe('pointer machinery', () => {
+  test('follow resolves 8-byte links and detects null', () => {
+    const { memory, process } = make();
+    memory.writeBigUInt64LE(0x40_0100n, 0x10);
+    expect(process.follow(0x40_0000n, [0x10n, 0x20n])).toBe(0x40_0120n);
+    expect(process.follow(0x40_0000n, [0x18n, 0x00n])).toBe(-1n);
+  });
+
+  test('follow / vFunction read 4-byte links on a 32-bit backend', () => {
+    const { memory, process } = make(true);
+    memory.writeUInt32LE(0x40_0100, 0x10);
+    memory.writeUInt32LE(0xffff_ffff, 0x14); // would contaminate an 8-byte read
+    expect(process.follow(0x40_0000n, [0x10n, 0x08n])).toBe(0x40_0108n);
+    memory.writeUInt32LE(0x40_0200, 0x00);
+    memory.writeUInt32LE(0x1234, 0x208);
+    expect(process.vFunction(0x40_0000n, 2)).toBe(0x1234n);
+  });
+
+  test('indexOf and pattern find matches across regions', () => {
+    const { memory, process } = make();
+    memory.set([0xde, 0xad, 0xbe, 0xef], 0x2040);
+    process.protection(0x40_1000n, 0x1000, PAGE_READONLY); // splits the mapping into three regions
+    expect(process.query().filter(({ State }) => State === 0x1000)).toHaveLength(3);
+    expect(process.pattern('dead??ef', 0x40_0000n, 0x3000)).toBe(0x40_2040n);
+    expect(process.pattern('dead**ef', 0x40_0000n, 0x3000, true)).toEqual([0x40_2040n]);
+    expect(process.indexOf(Buffer.from([0xbe, 0xef]), 0x40_2000n, 0x100)).toBe(0x40_2042n);
+  });
+});
+
+describe('signatures', () => {
+  test('pattern() accepts IDA / x64dbg notation with byte and nibble wildcards', () => {
+    const { memory, process } = make();
+    memory.set([0x48, 0x8b, 0x05, 0x11, 0x22, 0x33, 0x44, 0x4c, 0x8d], 0x1800);
+    memory.set([0x48, 0x8b, 0x05, 0x11, 0x22, 0x33, 0x44, 0x5c, 0x8d], 0x2800);
+    expect(process.pattern('48 8B 05 ? ? ? ? 4? 8D', 0x40_0000n, 0x3000, true)).toEqual([0x40_1800n]);
+    expect(process.pattern('48 8b 05 ?? ?? ?? ?? ?c 8d', 0x40_0000n, 0x3000, true)).toEqual([0x40_1800n, 0x40_2800n]);
+    expect(process.pattern('488b05 ? ? ? ? 5? *d', 0x40_0000n, 0x3000)).toBe(0x40_2800n);
+    expect(process.pattern('48 8B 05 ? ? ? ? 6?', 0x40_0000n, 0x3000)).toBe(-1n);
+  });
+
+  test('a compiled Signature takes code-style bytes and mask and is reused across scans', () => {
+    const { memory, process } = make();
+    memory.set([0xe8, 0x01, 0x02, 0x03, 0x04, 0x48, 0x8b, 0xd8], 0x0100);
+    memory.set([0xe8, 0x05, 0x06, 0x07, 0x08, 0x48, 0x8b, 0xd8], 0x2100);
+    const signature = new Signature('\xE8\x00\x00\x00\x00\x48\x8B\xD8', 'x????xxx');
+    expect(signature.toString()).toBe('E8 ? ? ? ? 48 8B D8');
+    expect(new Signature(String.raw`\xE8\x00\x00\x00\x00\x48\x8B\xD8`, 'x????xxx').toString()).toBe('E8 ? ? ? ? 48 8B D8');
+    expect(new Signature(Buffer.from([0xe8, 0xff, 0x48]), 'x?x').bytes).toEqual(Buffer.from([0xe8, 0x00, 0x48]));
+    expect(process.pattern(signature, 0x40_0000n, 0x1000)).toBe(0x40_0100n);
+    expect(process.pattern(signature, 0x40_1000n, 0x2000)).toBe(0x40_2100n);
+    expect(signature.indexOf(memory, 0x101)).toBe(0x2100);
+  });
+
+  test('malformed signatures throw when compiled and match nothing when passed as strings', () => {
+    const { process } = make();
+    expect(new Signature('4? ?F *0 c3').toString()).toBe('4? ?F ?0 C3');
+    expect(() => new Signature('48 8')).toThrow('"8" is not a byte');
+    expect(() => new Signature('48 8G')).toThrow('"G" is neither a hex digit nor a wildcard');
+    expect(() => new Signature('? 4?')).toThrow('at least one byte must be fully specified');
+    expect(() => new Signature('\x48\x8B', 'x')).toThrow('1 characters for 2 bytes');
+    expect(() => new Signature('\x48', 'y')).toThrow('use x to match a byte');
+    expect(process.pattern('48 8 05' as string, 0x40_0000n, 0x3000)).toBe(-1n);
+    expect(process.pattern('' as string, 0x40_0000n, 0x3000, true)).toEqual([]);
+  });
+});
+
+describe('scan scopes', () => {
+  test('pattern() and indexOf() skip PAGE_NOACCESS and guard pages', () => {
+    const { memory, process } = make();
+    memory.set([0xde, 0xad, 0xbe, 0xef], 0x0040);
+    memory.set([0xde, 0xad, 0xbe, 0xef], 0x1040);
+    memory.set([0xde, 0xad, 0xbe, 0xef], 0x2040);
+    process.protection(0x40_1000n, 0x1000, PAGE_NOACCESS);
+    expect(process.pattern('deadbeef', 0x40_0000n, 0x3000, true)).toEqual([0x40_0040n, 0x40_2040n]);
+    process.protection(0x40_1000n, 0x1000, PAGE_READONLY | PAGE_GUARD);
+    process.protection(0x40_0000n, 0x1000, PAGE_NOACCESS);
+    expect(process.pattern('deadbeef', 0x40_0000n, 0x3000)).toBe(0x40_2040n);
+    expect(process.indexOf(Buffer.from([0xde, 0xad]), { module: 'game.exe' }, true)).toEqual([0x40_2040n]);
+  });
+
+  test('module, region, and range scopes keep the first-match and all-matches semantics', () => {
+    const { backend, memory, process } = make();
+    const heap = Buffer.alloc(0x1000);
+    backend.map(0x80_0000n, heap);
+    memory.set([0x48, 0x8b, 0x05], 0x1000);
+    memory.set([0x48, 0x8b, 0x05], 0x2000);
+    heap.set([0x48, 0x8b, 0x05], 0x0800);
+    process.protection(0x40_2000n, 0x1000, PAGE_READONLY);
+
+    expect(process.pattern('48 8B 05', { module: 'GAME.EXE' })).toBe(0x40_1000n);
+    expect(process.pattern('48 8B 05', { module: 'game.exe' }, true)).toEqual([0x40_1000n, 0x40_2000n]);
+    expect(process.pattern('48 8B 05', { modules: 'all' }, true)).toEqual([0x40_1000n, 0x40_2000n]);
+    expect(process.pattern('48 8B 05', { regions: {} }, true)).toEqual([0x40_1000n, 0x40_2000n, 0x80_0800n]);
+    expect(process.pattern('48 8B 05', { regions: { protect: PAGE_READONLY } }, true)).toEqual([0x40_2000n]);
+    expect(process.pattern('48 8B 05', { regions: { filter: ({ BaseAddress }) => BaseAddress >= 0x80_0000n } })).toBe(0x80_0800n);
+    expect(
+      process.pattern(
+        '48 8B 05',
+        {
+          ranges: [
+            { address: 0x80_0000n, length: 0x1000 },
+            { address: 0x40_0000n, length: 0x3000 },
+          ],
+        },
+        true,
+      ),
+    ).toEqual([0x80_0800n, 0x40_1000n, 0x40_2000n]);
+    expect(process.pattern('48 8B 06', { regions: {} })).toBe(-1n);
+    expect(process.indexOf(Buffer.from([0x8b, 0x05]), { ranges: [{ address: 0x40_1800n, length: 0x1000 }] })).toBe(0x40_2001n);
+    expect(() => process.pattern('48 8B 05', { module: 'client.dll' })).toThrow('Module not loaded: client.dll.');
+  });
+});
+
+describe('batch scans', () => {
+  test('SignatureScanner finds anchors that overlap or share suffixes in one pass', () => {
+    const scanner = new SignatureScanner({ long: 'AB CD EF ? 11', nibble: 'C? EF', short: 'EF', suffix: 'CD EF' });
+    const found: [string, number][] = [];
+    scanner.search(Buffer.from('00abcdef1111cdef00', 'hex'), (index, offset) => found.push([scanner.names[index]!, offset]));
+    expect(found.sort(([a, x], [b, y]) => x - y || a.localeCompare(b))).toEqual([
+      ['long', 1],
+      ['nibble', 2],
+      ['suffix', 2],
+      ['short', 3],
+      ['nibble', 6],
+      ['suffix', 6],
+      ['short', 7],
+    ]);
+    expect(scanner.length).toBe(5);
+    expect(() => new SignatureScanner({ broken: '48 8' })).toThrow('Invalid signature broken:');
+  });
+
+  test('scan() matches what pattern() finds, across chunk boundaries', () => {
+    const { memory, process } = make();
+    let seed = 0x1234_5678;
+    const random = () => ((seed = (Math.imul(seed, 0x41c6_4e6d) + 0x3039) >>> 0) >>> 0x10) & 0x03;
+    for (let index = 0; index < memory.length; index++) {
+      memory[index] = random();
+    }
+    process.protection(0x40_1000n, 0x1000, PAGE_READONLY); // three regions
+
+    const signatures = { a: '00 01 02 03', b: '01 ? 02', c: '03 03 03 03 03', d: '0? 02 ?3 01', e: '02 02 ? ? 02 02', f: '00 00 00 00 00 00 00 00' };
+    const report = process.scan(signatures, { module: 'game.exe' }, { chunkSize: 0x10, limit: Number.POSITIVE_INFINITY });
+
+    for (const [name, needle] of Object.entries(signatures)) {
+      expect([name, report.matches[name]]).toEqual([name, process.pattern(needle as string, 0x40_0000n, 0x3000, true)]);
+    }
+    expect(report.matches['b']!.length).toBeGreaterThan(0x10);
+  });
+
+  test('scan() reports unmatched and ambiguous signatures and keeps at most limit matches', () => {
+    const { memory, process } = make();
+    memory.set([0xde, 0xad, 0xbe, 0xef], 0x0100);
+    memory.set([0xde, 0xad, 0xbe, 0xef], 0x2100);
+    memory.set([0xca, 0xfe], 0x1800);
+    const report = process.scan({ cafe: 'CA FE', dead: new Signature('\xDE\xAD\x00\xEF', 'xx?x'), invalid: 'zz', missing: 'BA AD F0 0D' }, { regions: {} }, { limit: 0x01 });
+    expect(report.matches).toEqual({ cafe: [0x40_1800n], dead: [0x40_0100n], invalid: [], missing: [] });
+    expect(report.ambiguous).toEqual(['dead']);
+    expect(report.unmatched).toEqual(['invalid', 'missing']);
+
+    const scanner = new SignatureScanner({ dead: 'DE AD BE EF' });
+    expect(process.scan(scanner, { ranges: [{ address: 0x40_2000n, length: 0x1000 }] }).matches).toEqual({ dead: [0x40_2100n] });
+    expect(() => process.scan(scanner, { modules: 'all' }, { chunkSize: 0 })).toThrow(RangeError);
+  });
+});
+
+describe('streamed scans', () => {
+  test('indexOf() and pattern() find matches across chunk boundaries with small chunks', () => {
+    const { backend, memory } = make();
+    let seed = 0x0bad_f00d;
+    const random = () => ((seed = (Math.imul(seed, 0x41c6_4e6d) + 0x3039) >>> 0) >>> 0x10) & 0x03;
+    for (let index = 0; index < memory.length; index++) {
+      memory[index] = random();
+    }
+
+    const whole = new Process(backend);
+    const chunked = new Process(backend, { chunkSize: 0x07 });
+    expect(chunked.chunkSize).toBe(0x07);
+
+    const needle = Buffer.from([0x00, 0x01, 0x02, 0x03]);
+    const found = whole.indexOf(needle, 0x40_0000n, 0x3000, true);
+    expect(found.length).toBeGreaterThan(0x10);
+    expect(chunked.indexOf(needle, 0x40_0000n, 0x3000, true)).toEqual(found);
+    expect(chunked.indexOf(needle, { module: 'game.exe' }, true)).toEqual(found);
+    expect(chunked.indexOf(needle, 0x40_0000n, 0x3000)).toBe(found[0]!);
+
+    for (const pattern of ['01 ? 02 0? 03', '03 03 03 03 03', '02 02 ? ? 02 02']) {
+      expect([pattern, chunked.pattern(pattern, 0x40_0000n, 0x3000, true)]).toEqual([pattern, whole.pattern(pattern, 0x40_0000n, 0x3000, true)]);
+    }
+
+    expect(() => new Process(backend, { chunkSize: 0 })).toThrow(RangeError);
+  });
+
+  test('reads stay within one chunk plus the overlap', () => {
+    const { backend, memory } = make();
+    memory.set([0xde, 0xad, 0xbe, 0xef], 0x1ffe);
+
+    const sizes: number[] = [];
+    const read = backend.read.bind(backend);
+    backend.read = (lpBaseAddress, lpBuffer, nSize) => {
+      sizes.push(Number(nSize));
+      read(lpBaseAddress, lpBuffer, nSize);
+    };
+
+    const process = new Process(backend, { chunkSize: 0x100 });
+    expect(process.indexOf(Buffer.from([0xde, 0xad, 0xbe, 0xef]), 0x40_0000n, 0x3000)).toBe(0x40_1ffen);
+    expect(process.pattern('DE AD ? EF', { module: 'game.exe' }, true)).toEqual([0x40_1ffen]);
+    expect(Math.max(...sizes)).toBe(0x103);
+  });
+
+  test('a chunk that cannot be read whole is retried page by page', () => {
+    const { backend, memory } = make();
+    memory.set([0xde, 0xad, 0xbe, 0xef], 0x0ffe); // straddles into the unreadable page
+    memory.set([0xde, 0xad, 0xbe, 0xef], 0x2ffc);
+    memory.set([0xca, 0xfe], 0x0ff0);
+
+    const read = backend.read.bind(backend);
+    backend.read = (lpBaseAddress, lpBuffer, nSize) => {
+      if (lpBaseAddress < 0x40_2000n && lpBaseAddress + nSize > 0x40_1000n) {
+        throw new MemoryError('read', lpBaseAddress, 'flaky page');
+      }
+      read(lpBaseAddress, lpBuffer, nSize);
+    };
+
+    const process = new Process(backend, { chunkSize: 0x1800 });
+    expect(process.indexOf(Buffer.from([0xde, 0xad, 0xbe, 0xef]), 0x40_0000n, 0x3000, true)).toEqual([0x40_2ffcn]);
+    expect(process.indexOf(Buffer.from([0xca, 0xfe]), 0x40_0800n, 0x2800)).toBe(0x40_0ff0n);
+    expect(process.pattern('DE AD ? EF', { module: 'game.exe' }, true)).toEqual([0x40_2ffcn]);
+    expect(process.scan({ cafe: 'CA FE' }, { module: 'game.exe' }).matches).toEqual({ cafe: [0x40_0ff0n] });
+  });
+});
+
+describe('signature resolvers', () => {
+  const { add, deref, rip } = Signature;
+
+  // 48 8B 05 <rel32>: mov rax, [rip+0x0ff9] at 0x40_1000 reads the pointer at 0x40_2000.
+  const mov = () => {
+    const context = make();
+    context.memory.set([0x48, 0x8b, 0x05, 0xf9, 0x0f, 0x00, 0x00, 0x48, 0x85, 0xc0], 0x1000);
+    context.memory.writeBigUInt64LE(0x40_2100n, 0x2000);
+    return context;
+  };
+
+  test('resolve() applies add, rip, and deref steps to the first match', () => {
+    const { process } = mov();
+    const resolver = { module: 'GAME.EXE', pattern: '48 8B 05 ? ? ? ? 48 85 C0' };
+    expect(process.resolve(resolver)).toBe(0x40_1000n);
+    expect(process.resolve({ ...resolver, steps: [add(3), rip(4)] })).toBe(0x40_2000n);
+    expect(process.resolve({ ...resolver, steps: [add(3), rip(4), deref(), add(0x10)] })).toBe(0x40_2110n);
+    expect(process.resolve({ ...resolver, pattern: new Signature('\x48\x8B\x05\x00\x00\x00\x00', 'xxx????'), steps: [{ type: 'add', value: 3 }, { length: 4, type: 'rip' }, { type: 'deref' }] })).toBe(0x40_2100n);
+  });
+
+  test('resolve() reads 4-byte pointers and wraps addresses on a 32-bit target', () => {
+    const { memory, process } = make(true);
+    memory.set([0xa1, 0x00, 0x20, 0x40, 0x00, 0x85, 0xc0], 0x1000); // mov eax, [0x40_2000]
+    memory.writeUInt32LE(0x40_2100, 0x2000);
+    memory.writeUInt32LE(0xffff_ffff, 0x2004); // would contaminate an 8-byte read
+    expect(process.resolve({ module: 'game.exe', pattern: 'A1 ? ? ? ? 85 C0', steps: [add(1), deref(), deref()] })).toBe(0x40_2100n);
+    expect(process.resolve({ module: 'game.exe', pattern: 'A1 ? ? ? ? 85 C0', steps: [add(-0x40_1001)] })).toBe(0xffff_ffffn);
+  });
+
+  test('resolve() reports the failing step in a ResolveError', () => {
+    const { memory, process } = mov();
+    const resolver = { module: 'game.exe', pattern: '48 8B 05 ? ? ? ? 48 85 C0', steps: [add(3), rip(4), deref(), deref()] };
+    const failure = (run: () => unknown) => {
+      try {
+        run();
+      } catch (error) {
+        return error as ResolveError;
+      }
+      throw new Error('resolve() did not throw');
+    };
+
+    const empty = failure(() => process.resolve(resolver));
+    expect(empty).toBeInstanceOf(ResolveError);
+    expect(empty).toMatchObject({ address: 0x40_2100n, resolver, step: 3 });
+    expect(empty.message).toBe('Resolving 48 8B 05 ? ? ? ? 48 85 C0 in game.exe failed at step 3 (deref) from 0x402100: null pointer.');
+
+    memory.writeBigUInt64LE(0x50_0000n, 0x2100); // unmapped
+    expect(process.resolve(resolver)).toBe(0x50_0000n);
+    const fault = failure(() => process.resolve({ ...resolver, steps: [...resolver.steps, rip(4)] }));
+    expect(fault).toMatchObject({ address: 0x50_0000n, step: 4 });
+    expect(fault.cause).toBeInstanceOf(MemoryError);
+
+    expect(failure(() => process.resolve({ ...resolver, module: 'client.dll' })).message).toEndWith('failed: client.dll is not loaded.');
+    expect(failure(() => process.resolve({ ...resolver, pattern: 'CA FE BA BE' }))).toMatchObject({ address: undefined, step: undefined });
+    expect(failure(() => process.resolve({ ...resolver, pattern: 'CA FE BA BE' })).message).toEndWith('failed: no match in game.exe.');
+    expect(failure(() => process.resolve({ ...resolver, pattern: '48 8' as string })).message).toContain('"8" is not a byte');
+  });
+});
+
+describe('engine containers', () => {
+  test('tArrayU32 / utlVectorU32 on x64 headers', () => {
+    const { memory, process } = make();
+    memory.writeBigUInt64LE(0x40_0100n, 0x00);
+    memory.writeUInt32LE(3, 0x08);
+    new Uint32Array(memory.buffer, memory.byteOffset + 0x100, 3).set([10, 20, 30]);
+    expect([...process.tArrayU32(0x40_0000n)]).toEqual([10, 20, 30]);
+    memory.writeUInt32LE(2, 0x40);
+    memory.writeBigUInt64LE(0x40_0100n, 0x48);
+    expect([...process.utlVectorU32(0x40_0040n)]).toEqual([10, 20]);
+  });
+
+  test('tArrayChar / utlVectorU32 on x86 headers', () => {
+    const { memory, process } = make(true);
+    memory.writeUInt32LE(0x40_0100, 0x00);
+    memory.writeUInt32LE(6, 0x04);
+    memory.write('hello\0', 0x100, 'utf8');
+    expect(process.tArrayChar(0x40_0000n)).toBe('hello');
+    memory.writeUInt32LE(1, 0x40);
+    memory.writeUInt32LE(0x40_0200, 0x44);
+    memory.writeUInt32LE(0xcafe, 0x200);
+    expect([...process.utlVectorU32(0x40_0040n)]).toEqual([0xcafe]);
+  });
+});
+
+describe('memory management', () => {
+  test('alloc / free place and release private regions', () => {
+    const { process } = make();
+    const region = process.alloc(0x10);
+    process.u32(region, 0xfeedface);
+    expect(process.u32(region)).toBe(0xfeedface);
+    process.free(region);
+    expect(() => process.u32(region)).toThrow(MemoryError);
+  });
+
+  test('query walks free gaps and committed regions in order', () => {
+    const { process } = make();
+    const regions = process.query();
+    expect(regions.map(({ BaseAddress, State }) => [BaseAddress, Number(State)])).toEqual([
+      [0n, 0x1_0000],
+      [0x40_0000n, 0x1000],
+    ]);
+  });
+
+  test('call() is rejected because a buffer cannot run code', () => {
+    const { process } = make();
+    expect(() => process.call(0x40_0000n, { args: [], returns: 'void' } as const)).toThrow(MemoryError);
+  });
+});
+
+describe('read-only attach', () => {
+  test('reads work while every writing call throws AccessError and leaves the target untouched', () => {
+    const { backend, memory } = make();
+    const viewer = Process.from(backend, { readOnly: true });
+    memory.writeUInt32LE(0xdeadbeef, 0x10);
+    expect(viewer.readOnly).toBe(true);
+    expect(viewer.u32(0x40_0010n)).toBe(0xdeadbeef);
+    expect(() => viewer.u32(0x40_0010n, 0)).toThrow(AccessError);
+    expect(() => viewer.vector3(0x40_0010n, { x: 1, y: 2, z: 3 }, true)).toThrow(AccessError);
+    expect(() => viewer.string(0x40_0010n, 'hi')).toThrow(AccessError);
+    expect(() => viewer.alloc(0x10)).toThrow(AccessError);
+    expect(() => viewer.free(0x40_0000n)).toThrow(AccessError);
+    expect(() => viewer.protection(0x40_0000n, 0x10, PAGE_READONLY)).toThrow(AccessError);
+    expect(() => viewer.call(0x40_0000n, { args: [], returns: 'void' } as const)).toThrow('call is not allowed: the process was attached read-only.');
+    expect(memory.readUInt32LE(0x10)).toBe(0xdeadbeef);
+    expect(backend.query(0x40_0000n, Buffer.alloc(0x30))).toBe(true);
+    expect(new Process(backend).readOnly).toBe(false);
+  });
+
+  test('AccessError carries the operation and the missing rights', () => {
+    const error = new AccessError('VirtualAllocEx', ['PROCESS_VM_OPERATION']);
+    expect(error.what).toBe('VirtualAllocEx');
+    expect(error.missing).toEqual(['PROCESS_VM_OPERATION']);
+    expect(error.message).toBe('VirtualAllocEx requires PROCESS_VM_OPERATION, which the process handle was not opened with.');
+  });
+});
+
+describe('liveness', () => {
+  test('a backend without a live target is alive until closed, with no exit code', () => {
+    const { process } = make();
+    expect(process.isAlive).toBe(true);
+    expect(process.exitCode).toBeUndefined();
+    process.close();
+    expect(process.isAlive).toBe(false);
+  });
+
+  test('supervise() needs an attach function for a non-Kernel32 backend', () => {
+    const { process } = make();
+    expect(() => process.supervise()).toThrow('supervise() needs an attach function');
+    process.close();
+  });
+
+  test("a failing liveness check goes to 'error', or stops the poller when nobody listens", async () => {
+    const { backend } = make();
+    Object.assign(backend, {
+      isAlive: () => {
+        throw new Error('GetExitCodeProcess failed');
+      },
+    });
+
+    const process = new Process(backend, { pollInterval: 0x05 });
+    const failed = new Promise<unknown>((resolve) => process.once('error', resolve));
+    process.on('exit', () => {});
+    expect(await failed).toEqual(new Error('GetExitCodeProcess failed'));
+    process.close();
+
+    const quiet = new Process(backend, { pollInterval: 0x05 });
+    quiet.on('load', () => {});
+    await Bun.sleep(0x1e); // an escaped error would fail the test run
+    quiet.close();
+  });
+});
+
+describe('module events', () => {
+  const client = Module.from({ modBaseAddr: 0x7ff6_0000_0000n, modBaseSize: 0x4000, szModule: 'client.dll' });
+
+  test("refresh() emits 'unload' and then 'load' for the modules that changed", () => {
+    const { backend, process } = make();
+    const events: string[] = [];
+    process.on('load', ({ modBaseAddr, szModule }) => events.push(`load ${szModule} 0x${modBaseAddr.toString(16)}`));
+    process.on('unload', ({ szModule }) => events.push(`unload ${szModule}`));
+    process.refresh();
+    expect(events).toEqual([]);
+    backend.loadModule(client);
+    process.refresh();
+    backend
+      .unloadModule('client.dll')
+      .unloadModule('game.exe')
+      .loadModule(Module.from({ modBaseAddr: 0x7ff6_1000_0000n, modBaseSize: 0x4000, szModule: 'client.dll' }));
+    process.refresh();
+    expect(events).toEqual(['load client.dll 0x7ff600000000', 'unload game.exe', 'unload client.dll', 'load client.dll 0x7ff610000000']);
+    expect(Object.keys(process.modules)).toEqual(['client.dll']);
+    process.close();
+  });
+
+  test("'load' listeners poll the module list every pollInterval", async () => {
+    const { backend } = make();
+    const process = new Process(backend, { pollInterval: 0x05 });
+    const loaded = new Promise<Module>((resolve) => process.once('load', resolve));
+    backend.loadModule(client);
+    expect((await loaded).modBaseAddr).toBe(0x7ff6_0000_0000n);
+    expect(process.modules['client.dll']!.modBaseSize).toBe(0x4000);
+    process.close();
+  });
+
+  test('waitForModule() resolves once the module loads, matching names case-insensitively', async () => {
+    const { backend } = make();
+    const process = new Process(backend, { pollInterval: 0x05 });
+    expect((await process.waitForModule('GAME.EXE')).szModule).toBe('game.exe');
+    const waiting = process.waitForModule('Client.dll', { timeout: 0x1000 });
+    setTimeout(() => backend.loadModule(client), 0x14);
+    expect((await waiting).modBaseAddr).toBe(0x7ff6_0000_0000n);
+    process.close();
+  });
+
+  test('waitForModule() rejects on timeout and abort', async () => {
+    const { process } = make();
+    await expect(process.waitForModule('client.dll', { timeout: 0x14 })).rejects.toThrow('Timed out after 20 ms waiting for module client.dll.');
+    const controller = new AbortController();
+    const waiting = process.waitForModule('client.dll', { signal: controller.signal });
+    controller.abort(new Error('stopped'));
+    await expect(waiting).rejects.toThrow('stopped');
+    process.close();
+  });
+});
+
+describe('module lookup', () => {
+  const withDuplicates = () => {
+    const modules = [
+      Module.from({ modBaseAddr: 0x40_0000n, modBaseSize: 0x3000, szExePath: 'C:\\game\\game.exe', szModule: 'game.exe' }),
+      Module.from({ modBaseAddr: 0x7ffa_1000_0000n, modBaseSize: 0x5_0000, szExePath: 'C:\\game\\bin\\D3DCompiler_47.dll', szModule: 'D3DCompiler_47.dll' }),
+      Module.from({ modBaseAddr: 0x7ff9_0000_0000n, modBaseSize: 0x4_0000, szExePath: 'C:\\Windows\\System32\\d3dcompiler_47.dll', szModule: 'd3dcompiler_47.dll' }),
+    ];
+    const backend = new BufferBackend({ modules, szExeFile: 'game.exe' });
+
+    return { backend, process: new Process(backend) };
+  };
+
+  test('moduleList keeps modules that share a file name', () => {
+    const { process } = withDuplicates();
+    expect(process.moduleList.map(({ szExePath }) => szExePath)).toEqual(['C:\\game\\game.exe', 'C:\\game\\bin\\D3DCompiler_47.dll', 'C:\\Windows\\System32\\d3dcompiler_47.dll']);
+    expect(Object.keys(process.modules)).toEqual(['game.exe', 'D3DCompiler_47.dll', 'd3dcompiler_47.dll']);
+    process.close();
+  });
+
+  test('findModule() matches names case-insensitively and full paths with either separator', () => {
+    const { process } = withDuplicates();
+    expect(process.findModule('GAME.EXE')!.modBaseAddr).toBe(0x40_0000n);
+    expect(process.findModule('d3dcompiler_47.dll')!.szExePath).toBe('C:\\game\\bin\\D3DCompiler_47.dll');
+    expect(process.findModule('c:/windows/system32/D3DCOMPILER_47.dll')!.modBaseAddr).toBe(0x7ff9_0000_0000n);
+    expect(process.findModule('C:\\other\\game.exe')).toBeUndefined();
+    expect(process.findModule('missing.dll')).toBeUndefined();
+    process.close();
+  });
+
+  test('moduleAt() finds the module containing an address, and formatAddress() prints module+0xRVA', () => {
+    const { backend, process } = withDuplicates();
+    expect(process.moduleAt(0x40_0000n)!.szModule).toBe('game.exe');
+    expect(process.moduleAt(0x40_2fffn)!.szModule).toBe('game.exe');
+    expect(process.moduleAt(0x40_3000n)).toBeUndefined();
+    expect(process.moduleAt(0x7ff9_0003_ffffn)!.szExePath).toBe('C:\\Windows\\System32\\d3dcompiler_47.dll');
+    expect(process.moduleAt(0x7ffa_0000_0000n)).toBeUndefined();
+    expect(process.formatAddress(0x7ffa_1001_2345n)).toBe('D3DCompiler_47.dll+0x12345');
+    expect(process.formatAddress(0x40_0000n)).toBe('game.exe+0x0');
+    expect(process.formatAddress(0x1234n)).toBe('0x1234');
+    backend.loadModule(Module.from({ modBaseAddr: 0x1000n, modBaseSize: 0x1000, szModule: 'late.dll' }));
+    process.refresh();
+    expect(process.formatAddress(0x1234n)).toBe('late.dll+0x234');
+    process.close();
+  });
+});
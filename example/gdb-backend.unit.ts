@@ -0,0 +1,78 @@
+/**
+ * GdbBackend tests against `example/gdbstub.ts`, a stand-in GDB stub started through `serve.ts`.
+ *
+ * Run: bun test ./example/gdb-backend.unit.ts
+ */
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+
+import { GdbBackend, MemoryError, Process } from '../index.ts';
+import { serve, sockets, stopServers } from './serve.ts';
+
+describe.skipIf(!sockets)('GdbBackend', () => {
+  let address: string;
+  let guest: Process;
+
+  beforeAll(async () => {
+    address = await serve('./gdbstub.ts');
+    guest = new Process(new GdbBackend(address));
+  });
+
+  afterAll(() => {
+    guest?.close();
+
+    stopServers();
+  });
+
+  test('lists libraries with their PE SizeOfImage and detects the pointer width', () => {
+    expect(guest.is32Bit).toBe(false);
+    expect(guest.szExeFile).toBe('guest.exe');
+    expect(guest.modules['guest.exe']!.modBaseAddr).toBe(0x40_0000n);
+    expect(guest.modules['guest.exe']!.modBaseSize).toBe(0x2000);
+    expect(guest.modules['guest.exe']!.szExePath).toBe('C:\\guest\\guest.exe');
+    expect(guest.backend.threads?.()).toEqual([1, 2]);
+  });
+
+  test('reads through m packets, decoding run-length encoded replies', () => {
+    expect(guest.string(0x60_0000n, 0x20)).toBe('gdb stub marker');
+    expect(guest.follow(0x60_0000n, [0x40n, 0x04n])).toBe(0x40_1804n);
+    expect(guest.u16(0x40_1804n)).toBe(0x3713);
+    expect([...guest.buffer(0x40_0100n, 0x800)].every((byte) => byte === 0)).toBe(true); // spans chunks, all runs
+  });
+
+  test('writes through M packets', () => {
+    guest.u64(0x60_0080n, 0x1122_3344_5566_7788n);
+    expect(guest.u64(0x60_0080n)).toBe(0x1122_3344_5566_7788n);
+    expect(() => guest.u32(0x40_0000n, 1)).toThrow(MemoryError); // rom
+  });
+
+  test('fits M packets to PacketSize, counting a 64-bit address', () => {
+    const data = Buffer.alloc(0x1f8, 0x5a); // a full read chunk: (0x400 - 0x10) / 2
+    data.write('end', 0x1f5);
+    guest.write(0x7fff_f7a0_0000n, data);
+    expect(guest.buffer(0x7fff_f7a0_0000n, 0x1f8).equals(data)).toBe(true);
+  });
+
+  test('query() and pattern() walk the memory map', () => {
+    const regions = guest.query().filter(({ State }) => Number(State) === 0x1000);
+    expect(regions.map(({ BaseAddress, Protect, RegionSize }) => [BaseAddress, RegionSize, Number(Protect)])).toEqual([
+      [0x40_0000n, 0x2000n, 0x02],
+      [0x60_0000n, 0x1000n, 0x04],
+      [0x7fff_f7a0_0000n, 0x1000n, 0x04],
+    ]);
+    expect(guest.pattern('dead??ef1337', 0x40_0000n, 0x20_1000)).toBe(0x40_1800n);
+  });
+
+  test('unmapped reads, malformed replies, and allocation throw MemoryError', () => {
+    expect(() => guest.u32(0x90_0000n)).toThrow('E14');
+    expect(() => guest.u32(0xa0_0000n)).toThrow('the stub replied E.no such address');
+    expect(() => guest.u32(0xa0_0100n)).toThrow('the stub replied 0');
+    expect(() => guest.u32(0xa0_0200n)).toThrow('the stub replied zz');
+    expect(() => guest.u32(0xa0_0300n)).toThrow('the stub returned 5 bytes for 4');
+    expect(() => guest.alloc(0x10)).toThrow(MemoryError);
+  });
+
+  test('reads a 32-bit target description', async () => {
+    using guest32 = new Process(new GdbBackend(await serve('./gdbstub.ts', '--i386')));
+    expect(guest32.is32Bit).toBe(true);
+  });
+});
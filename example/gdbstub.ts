@@ -0,0 +1,184 @@
+/**
+ * A minimal GDB Remote Serial Protocol stub serving a BufferBackend — the stand-in target for
+ * `gdb-backend.unit.ts`. Prints the port it listens on (127.0.0.1) and serves until killed.
+ *
+ * Implements acks and QStartNoAckMode, `?`, `m`, `M`, `qSupported`, `qfThreadInfo` / `qsThreadInfo`,
+ * `qXfer:memory-map:read`, `qXfer:libraries:read`, `qXfer:features:read:target.xml`, and `D`.
+ * Replies are run-length encoded the way real stubs do, so clients must decode `x*n`. Packets longer
+ * than the advertised PacketSize (0x400, framing included) are refused with `E22`.
+ *
+ * Memory: a PE image (`C:\guest\guest.exe`, SizeOfImage 0x2000) at 0x400000 as `rom`, a
+ * 0x1000-byte `ram` page at 0x600000 holding `"gdb stub marker"` and a pointer back into the image,
+ * and a 0x1000-byte `ram` page at 0x7ffff7a00000. Reads at 0xa00000, 0xa00100, 0xa00200, and
+ * 0xa00300 get malformed replies: `E.<text>`, a lone character, non-hex text, and a byte more than
+ * asked for.
+ *
+ * Run: bun example/gdbstub.ts [--i386]
+ */
+import { ptr } from 'bun:ffi';
+
+import { BufferBackend } from '../index.ts';
+
+const i386 = process.argv.includes('--i386');
+
+const backend = new BufferBackend();
+const image = Buffer.alloc(0x2000);
+const ram = Buffer.alloc(0x1000);
+const high = Buffer.alloc(0x1000);
+
+const PacketSize = 0x400;
+
+image.write('MZ', 0x00);
+image.writeUInt32LE(0x80, 0x3c);
+image.write('PE\0\0', 0x80, 'latin1');
+image.writeUInt32LE(0x2000, 0x80 + 0x18 + 0x38); // SizeOfImage
+image.set([0xde, 0xad, 0xbe, 0xef, 0x13, 0x37], 0x1800);
+ram.write('gdb stub marker', 0x00);
+ram.writeBigUInt64LE(0x40_1800n, 0x40);
+
+backend.map(0x40_0000n, image, 0x02 /* PAGE_READONLY */).map(0x60_0000n, ram).map(0x7fff_f7a0_0000n, high);
+
+const documents: Record<string, string> = {
+  features: `<?xml version="1.0"?><target><architecture>${i386 ? 'i386' : 'i386:x86-64'}</architecture></target>`,
+  libraries: '<library-list><library name="C:\\guest\\guest.exe"><segment address="0x400000"/></library></library-list>',
+  'memory-map': '<memory-map><memory type="rom" start="0x400000" length="0x2000"/><memory type="ram" start="0x600000" length="0x1000"/><memory type="ram" start="0x7ffff7a00000" length="0x1000"/></memory-map>',
+};
+
+const malformed: Record<string, (length: number) => string> = {
+  a00000: () => 'E.no such address',
+  a00100: () => '0',
+  a00200: () => 'zz',
+  a00300: (length) => '00'.repeat(length + 0x01),
+};
+
+const checksum = (body: string) => [...Buffer.from(body, 'latin1')].reduce((sum, byte) => (sum + byte) & 0xff, 0);
+
+/**
+ * Run-length encodes a reply body, skipping the counts that would produce `#` or `$`.
+ */
+const encode = (body: string) =>
+  body.replace(/(.)\1{3,}/g, (run, character: string) => {
+    let out = '';
+
+    for (let remaining = run.length; remaining > 0; ) {
+      let repeat = Math.min(remaining - 1, 97);
+
+      while (repeat === 6 || repeat === 7) repeat--;
+
+      out += repeat >= 3 ? `${character}*${String.fromCharCode(repeat + 29)}` : character.repeat(repeat + 1);
+      remaining -= repeat + 1;
+    }
+
+    return out;
+  });
+
+const reply = (body: string) => {
+  const encoded = encode(body);
+
+  return `$${encoded}#${checksum(encoded).toString(16).padStart(2, '0')}`;
+};
+
+const handle = (packet: string): string => {
+  if (packet.startsWith('qSupported')) {
+    return `PacketSize=${PacketSize.toString(16)};QStartNoAckMode+;qXfer:memory-map:read+;qXfer:libraries:read+;qXfer:features:read+`;
+  }
+
+  if (packet === 'QStartNoAckMode' || packet === 'D') {
+    return 'OK';
+  }
+
+  if (packet === '?') {
+    return 'S05';
+  }
+
+  if (packet === 'qfThreadInfo') {
+    return 'm1,2';
+  }
+
+  if (packet === 'qsThreadInfo') {
+    return 'l';
+  }
+
+  const xfer = /^qXfer:([\w-]+):read:[^:]*:([0-9a-f]+),([0-9a-f]+)$/.exec(packet);
+
+  if (xfer !== null) {
+    const document = documents[xfer[1]!];
+
+    if (document === undefined) {
+      return '';
+    }
+
+    const offset = Number.parseInt(xfer[2]!, 16);
+    const length = Number.parseInt(xfer[3]!, 16);
+    const part = document.slice(offset, offset + length);
+
+    return `${offset + length >= document.length ? 'l' : 'm'}${part}`;
+  }
+
+  const memory = /^([mM])([0-9a-f]+),([0-9a-f]+)(?::([0-9a-f]*))?$/.exec(packet);
+
+  if (memory !== null) {
+    const address = BigInt(`0x${memory[2]}`);
+    const length = Number.parseInt(memory[3]!, 16);
+
+    if (memory[1] === 'm' && malformed[memory[2]!] !== undefined) {
+      return malformed[memory[2]!]!(length);
+    }
+
+    try {
+      if (memory[1] === 'm') {
+        const data = Buffer.alloc(length);
+
+        backend.read(address, ptr(data), BigInt(length));
+
+        return data.toString('hex');
+      }
+
+      const data = Buffer.from(memory[4]!, 'hex');
+
+      backend.write(address, ptr(data), BigInt(data.byteLength));
+
+      return 'OK';
+    } catch {
+      return 'E14';
+    }
+  }
+
+  return '';
+};
+
+const server = Bun.listen<{ ack: boolean; inbox: string }>({
+  hostname: '127.0.0.1',
+  port: 0,
+  socket: {
+    open(socket) {
+      socket.data = { ack: true, inbox: '' };
+    },
+    data(socket, chunk) {
+      socket.data.inbox += Buffer.from(chunk).toString('latin1');
+
+      let match: RegExpExecArray | null;
+
+      while ((match = /^[^$]*\$([^#]*)#([0-9a-f]{2})/.exec(socket.data.inbox)) !== null) {
+        socket.data.inbox = socket.data.inbox.slice(match[0].length);
+
+        if (checksum(match[1]!) !== Number.parseInt(match[2]!, 16)) {
+          socket.write('-');
+
+          continue;
+        }
+
+        // `$`, the body, and `#NN`; real stubs (QEMU) drop an overrun silently, this one says so.
+        const body = match[1]!.length + 0x04 > PacketSize ? 'E22' : handle(match[1]!);
+
+        socket.write(`${socket.data.ack ? '+' : ''}${reply(body)}`);
+
+        if (match[1] === 'QStartNoAckMode') {
+          socket.data.ack = false;
+        }
+      }
+    },
+  },
+});
+
+console.log(server.port);
@@ -0,0 +1,150 @@
+/**
+ * LinuxBackend tests against a live child: spawn a Bun process that parks a marker buffer and prints
+ * its address, then attach to it by PID and by name and drive the accessors through
+ * process_vm_readv/writev and /proc/<pid>/mem. Skipped on hosts other than Linux.
+ *
+ * Run: bun test ./example/linux-backend.unit.ts
+ */
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+
+import { LinuxBackend, Process } from '../index.ts';
+
+const linux = process.platform === 'linux';
+
+const script = `
+  const { ptr } = require('bun:ffi');
+  const marker = Buffer.alloc(0x10000);
+  marker.write('bun-memory-linux-marker');
+  marker.writeUInt32LE(0xdeadbeef, 0x40);
+  globalThis.marker = marker;
+  console.log(ptr(marker));
+  setInterval(() => {}, 1000);
+`;
+
+describe.skipIf(!linux)('LinuxBackend (live child process)', () => {
+  let child: ReturnType<typeof Bun.spawn>;
+  let marker: bigint;
+  let target: Process;
+
+  beforeAll(async () => {
+    child = Bun.spawn([process.execPath, '-e', script], { argv0: 'linux-target.exe', stderr: 'ignore', stdout: 'pipe' });
+
+    const reader = (child.stdout as ReadableStream<Uint8Array>).getReader();
+    const { value } = await reader.read();
+
+    reader.releaseLock();
+
+    marker = BigInt(new TextDecoder().decode(value).trim());
+    target = new Process(new LinuxBackend(child.pid));
+  });
+
+  afterAll(() => {
+    target?.close();
+    child?.kill();
+  });
+
+  test('attaches by PID and by argv[0] name', () => {
+    expect(target.th32ProcessID).toBe(child.pid);
+    expect(target.th32ParentProcessID).toBe(process.pid);
+    expect(target.cntThreads).toBeGreaterThanOrEqual(1);
+    expect(target.is32Bit).toBe(false);
+
+    using byName = new Process(new LinuxBackend('linux-target.exe'));
+    expect(byName.th32ProcessID).toBe(child.pid);
+    expect(byName.szExeFile).toBe('linux-target.exe');
+  });
+
+  test('reads and writes through process_vm_readv / process_vm_writev', () => {
+    expect(target.string(marker, 0x20)).toBe('bun-memory-linux-marker');
+    expect(target.u32(marker + 0x40n)).toBe(0xdeadbeef);
+    target.u32(marker + 0x44n, 0x1234_5678);
+    expect(target.u32(marker + 0x44n)).toBe(0x1234_5678);
+  });
+
+  test('falls back to /proc/<pid>/mem for a read-only page', () => {
+    const header = Object.values(target.modules).find(({ szExePath }) => szExePath.endsWith('/libc.so.6'));
+    expect(header).toBeDefined();
+    const magic = target.u32(header!.modBaseAddr);
+    expect(magic).toBe(0x464c_457f); // \x7fELF
+    target.u32(header!.modBaseAddr, magic); // process_vm_writev refuses r--p pages; /proc/<pid>/mem does not
+    expect(target.u32(header!.modBaseAddr)).toBe(magic);
+  });
+
+  test('query() maps /proc/<pid>/maps onto MEMORY_BASIC_INFORMATION', () => {
+    const region = target.query().find(({ BaseAddress, RegionSize }) => BaseAddress <= marker && marker < BaseAddress + RegionSize);
+    expect(region).toBeDefined();
+    expect(Number(region!.State)).toBe(0x1000); // MEM_COMMIT
+    expect(Number(region!.Protect)).toBe(0x04); // PAGE_READWRITE
+  });
+
+  test('pattern() and indexOf() find the marker', () => {
+    expect(target.pattern('efbeadde', marker, 0x1000)).toBe(marker + 0x40n);
+    expect(target.indexOf(Buffer.from('linux-marker'), marker, 0x100)).toBe(marker + 0x0bn);
+  });
+
+  test('alloc() is rejected', () => {
+    expect(() => target.alloc(0x10)).toThrow('cannot allocate');
+  });
+});
+
+describe.skipIf(!linux)('LinuxBackend liveness and supervision', () => {
+  const children: ReturnType<typeof Bun.spawn>[] = [];
+
+  const launch = async () => {
+    const child = Bun.spawn([process.execPath, '-e', script], { argv0: 'linux-restart.exe', stderr: 'ignore', stdout: 'pipe' });
+    const reader = (child.stdout as ReadableStream<Uint8Array>).getReader();
+    const { value } = await reader.read();
+
+    reader.releaseLock();
+    children.push(child);
+
+    return { child, marker: BigInt(new TextDecoder().decode(value).trim()) };
+  };
+
+  afterAll(() => {
+    for (const child of children) {
+      child.kill();
+    }
+  });
+
+  test("isAlive turns false and 'exit' fires once the target dies", async () => {
+    const { child } = await launch();
+    using target = new Process(new LinuxBackend(child.pid), { pollInterval: 0x14 });
+    expect(target.isAlive).toBe(true);
+
+    const exited = new Promise<number | undefined>((resolve) => target.once('exit', resolve));
+    child.kill();
+
+    expect(await exited).toBeUndefined(); // Linux cannot read another process's exit code
+    expect(target.isAlive).toBe(false);
+  });
+
+  test("supervise() re-attaches to the relaunched target and emits 'reattach'", async () => {
+    const first = await launch();
+    using target = new Process(new LinuxBackend(first.child.pid), { pollInterval: 0x14 }).supervise({
+      attach: ({ szExeFile }) => {
+        try {
+          return new LinuxBackend(szExeFile);
+        } catch {
+          return undefined;
+        }
+      },
+    });
+
+    const events: string[] = [];
+    const reattached = new Promise<number>((resolve) => target.on('reattach', ({ th32ProcessID }) => resolve(th32ProcessID)));
+    target.on('exit', () => events.push('exit'));
+
+    first.child.kill();
+    await first.child.exited;
+
+    const second = await launch();
+
+    expect(await reattached).toBe(first.child.pid);
+    expect(events).toEqual(['exit']);
+    expect(target.isAlive).toBe(true);
+    expect(target.th32ProcessID).toBe(second.child.pid);
+    expect(target.u32(second.marker + 0x40n)).toBe(0xdeadbeef);
+    expect(Object.keys(target.modules).length).toBeGreaterThan(0);
+  });
+});
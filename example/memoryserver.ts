@@ -0,0 +1,39 @@
+/**
+ * Serves an in-memory target through `MemoryServer` — the stand-in game box for
+ * `remote-process.unit.ts`. Prints the port it listens on (127.0.0.1) and serves until killed.
+ *
+ * Memory: `game.exe` at 0x400000 (0x2000 bytes, `deadbeef1337` at +0x1800), and a 0x1000-byte heap
+ * page at 0x600000 holding `"remote marker"`, a pointer to itself at +0x40, and 100 (i32) at +0x80.
+ *
+ * Run: bun example/memoryserver.ts [--read-only] [--token <token>] [--max-request-size <bytes>] [--chunk-size <bytes>]
+ */
+import { BufferBackend, MemoryServer, Module, Process } from '../index.ts';
+
+const option = (name: string) => {
+  const index = process.argv.indexOf(name);
+
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const backend = new BufferBackend({ modules: [Module.from({ modBaseAddr: 0x40_0000n, modBaseSize: 0x2000, szExePath: 'C:\\game\\game.exe', szModule: 'game.exe' })], szExeFile: 'game.exe' });
+const image = Buffer.alloc(0x2000);
+const heap = Buffer.alloc(0x1000);
+
+image.set([0xde, 0xad, 0xbe, 0xef, 0x13, 0x37], 0x1800);
+heap.write('remote marker', 0x00);
+heap.writeBigUInt64LE(0x60_0000n, 0x40);
+heap.writeInt32LE(100, 0x80);
+
+backend.map(0x40_0000n, image, 0x02 /* PAGE_READONLY */, 0x100_0000 /* MEM_IMAGE */).map(0x60_0000n, heap);
+
+const chunkSize = option('--chunk-size');
+const maxRequestSize = option('--max-request-size');
+const token = option('--token');
+
+const server = new MemoryServer(new Process(backend, chunkSize === undefined ? {} : { chunkSize: Number(chunkSize) }), {
+  readOnly: process.argv.includes('--read-only'),
+  ...(maxRequestSize === undefined ? {} : { maxRequestSize: Number(maxRequestSize) }),
+  ...(token === undefined ? {} : { token }),
+});
+
+console.log(server.port);
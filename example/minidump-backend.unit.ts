@@ -0,0 +1,93 @@
+/**
+ * MinidumpBackend unit tests over two hand-assembled fixture dumps in `example/fixtures/`:
+ *
+ * - `x64.dmp` — AMD64, pid 4242, two threads. Modules `game.exe` @ 0x140000000 (0x3000, only the
+ *   first 0x2000 captured) and `ntdll.dll` @ 0x7ffa00000000. Memory64ListStream plus a
+ *   MemoryInfoListStream that also lists a half-captured heap @ 0x20000000 and a reserved region
+ *   @ 0x30000000. `game.exe+0x1000` holds a string, `+0x1100` → heap `+0x10` → `game.exe+0x1200` (1337);
+ *   `ntdll.dll+0x400` holds `48 8B 05 11 22 33 44 C3`.
+ * - `x86.dmp` — x86, MemoryListStream only (ranges stored out of order), no region list. `old.exe`
+ *   @ 0x400000; `+0x1000` holds a 32-bit TArray header for `"hello"` at `+0x1100`.
+ *
+ * Run: bun test ./example/minidump-backend.unit.ts
+ */
+import { describe, expect, test } from 'bun:test';
+
+import { MemoryError, MinidumpBackend, Process } from '../index.ts';
+
+const fixture = (name: string) => new URL(`./fixtures/${name}`, import.meta.url).pathname;
+
+describe('x64 dump (Memory64ListStream, MemoryInfoListStream)', () => {
+  test('reads identity, architecture, and modules', () => {
+    using dump = new Process(new MinidumpBackend(fixture('x64.dmp')));
+    expect(dump.szExeFile).toBe('game.exe');
+    expect(dump.th32ProcessID).toBe(4242);
+    expect(dump.cntThreads).toBe(2);
+    expect(dump.is32Bit).toBe(false);
+    expect(dump.modules['game.exe']!.modBaseAddr).toBe(0x1_4000_0000n);
+    expect(dump.modules['ntdll.dll']!.szExePath).toBe('C:\\Windows\\System32\\ntdll.dll');
+  });
+
+  test('serves captured memory to the accessors, from a path or a buffer', async () => {
+    for (const source of [fixture('x64.dmp'), Buffer.from(await Bun.file(fixture('x64.dmp')).arrayBuffer())]) {
+      using dump = new Process(new MinidumpBackend(source));
+      expect(dump.string(0x1_4000_1000n, 0x20)).toBe('hello from the dump');
+      expect(dump.follow(0x1_4000_1000n, [0x100n, 0x10n, 0x00n])).toBe(0x1_4000_1200n);
+      expect(dump.u32(0x1_4000_1200n)).toBe(1337);
+    }
+  });
+
+  test('query() splits committed regions at the edge of the captured bytes', () => {
+    using dump = new Process(new MinidumpBackend(fixture('x64.dmp')));
+    const regions = dump.query().filter(({ State }) => Number(State) !== 0x1_0000);
+    expect(regions.map(({ BaseAddress, RegionSize, State }) => [BaseAddress, RegionSize, Number(State)])).toEqual([
+      [0x2000_0000n, 0x1000n, 0x1000],
+      [0x2000_1000n, 0x1000n, 0x2000],
+      [0x3000_0000n, 0x1_0000n, 0x2000],
+      [0x1_4000_0000n, 0x2000n, 0x1000],
+      [0x1_4000_2000n, 0x1000n, 0x2000],
+      [0x7ffa_0000_0000n, 0x1000n, 0x1000],
+    ]);
+  });
+
+  test('pattern() walks only the captured bytes; indexOf() searches a captured range', () => {
+    using dump = new Process(new MinidumpBackend(fixture('x64.dmp')));
+    const ntdll = dump.modules['ntdll.dll']!;
+    expect(dump.pattern('488b05????????c3', ntdll.modBaseAddr, ntdll.modBaseSize)).toBe(0x7ffa_0000_0400n);
+    expect(dump.indexOf(Buffer.from('from the'), 0x1_4000_0000n, 0x2000)).toBe(0x1_4000_1006n);
+  });
+
+  test('uncaptured reads and every mutation throw MemoryError', () => {
+    using dump = new Process(new MinidumpBackend(fixture('x64.dmp')));
+    expect(() => dump.u32(0x1_4000_2000n)).toThrow('not captured');
+    expect(() => dump.u32(0x1_4000_1ffen)).toThrow(MemoryError); // straddles the end of a range
+    expect(() => dump.u32(0x1_4000_1200n, 1)).toThrow('read-only');
+    expect(() => dump.u32(0x1_4000_1200n, 1, true)).toThrow('read-only');
+    expect(() => dump.alloc(0x10)).toThrow('read-only');
+    expect(() => dump.call(0x1_4000_1000n, { args: [], returns: 'void' } as const)).toThrow('read-only');
+  });
+});
+
+describe('x86 dump (MemoryListStream only)', () => {
+  test('detects 32-bit and reads 4-byte engine headers', () => {
+    using dump = new Process(new MinidumpBackend(fixture('x86.dmp')));
+    expect(dump.is32Bit).toBe(true);
+    expect(dump.th32ProcessID).toBe(0);
+    expect(dump.tArrayChar(0x40_1000n)).toBe('hello');
+    expect(dump.follow(0x40_1000n, [0x200n, 0x04n])).toBe(0x40_1004n);
+  });
+
+  test('query() reports one committed region per captured range', () => {
+    using dump = new Process(new MinidumpBackend(fixture('x86.dmp')));
+    const regions = dump.query().filter(({ State }) => Number(State) === 0x1000);
+    expect(regions.map(({ BaseAddress, Type }) => [BaseAddress, Number(Type)])).toEqual([
+      [0x40_0000n, 0x100_0000],
+      [0x40_1000n, 0x100_0000],
+    ]);
+  });
+});
+
+test('rejects a file that is not a minidump', () => {
+  expect(() => new MinidumpBackend(Buffer.alloc(0x40))).toThrow('MDMP');
+  expect(() => new MinidumpBackend(Buffer.from('MDMP'))).toThrow(RangeError);
+});
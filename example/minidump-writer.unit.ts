@@ -0,0 +1,176 @@
+/**
+ * Process.dump / MinidumpWriter unit tests: dump a BufferBackend address space (and a re-opened
+ * fixture dump) to a temporary file, then read it back through MinidumpBackend.
+ *
+ * Run: bun test ./example/minidump-writer.unit.ts
+ */
+import { afterAll, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { BufferBackend, MinidumpBackend, Module, Process } from '../index.ts';
+
+const MEM_IMAGE = 0x100_0000;
+const PAGE_GUARD = 0x100;
+const PAGE_NOACCESS = 0x01;
+const PAGE_READONLY = 0x02;
+const PAGE_READWRITE = 0x04;
+
+const directory = mkdtempSync(join(tmpdir(), 'bun-memory-dump-'));
+
+afterAll(() => rmSync(directory, { force: true, recursive: true }));
+
+const make = (is32Bit = false) => {
+  const backend = new BufferBackend({ is32Bit, modules: [Module.from({ modBaseAddr: 0x40_0000n, modBaseSize: 0x2000, szExePath: 'C:\\game\\game.exe', szModule: 'game.exe' })], szExeFile: 'game.exe', th32ProcessID: 77 });
+  const image = Buffer.alloc(0x2000);
+
+  image.write('MZ', 0x00);
+  image.writeUInt32LE(0x80, 0x3c);
+  image.write('PE\0\0', 0x80, 'latin1');
+  image.writeUInt16LE(is32Bit ? 0x014c : 0x8664, 0x84);
+  image.writeUInt32LE(0x6543_2100, 0x88); // TimeDateStamp
+  image.writeUInt32LE(0x0001_f00d, 0x80 + 0x58); // CheckSum
+  image.write('image data', 0x1000);
+
+  backend.map(0x40_0000n, image, PAGE_READONLY, MEM_IMAGE);
+  backend.map(0x60_0000n, Buffer.from('heap data'), PAGE_READWRITE);
+  backend.map(0x70_0000n, 0x1000, PAGE_NOACCESS);
+  backend.map(0x71_0000n, 0x1000, PAGE_READWRITE | PAGE_GUARD);
+
+  return new Process(backend);
+};
+
+describe('Process.dump', () => {
+  test('round-trips modules, identity, regions, and memory through MinidumpBackend', () => {
+    const path = join(directory, 'full.dmp');
+
+    make().dump(path);
+
+    using dump = new Process(new MinidumpBackend(path));
+    expect(dump.szExeFile).toBe('game.exe');
+    expect(dump.th32ProcessID).toBe(77);
+    expect(dump.is32Bit).toBe(false);
+    expect(dump.modules['game.exe']!.szExePath).toBe('C:\\game\\game.exe');
+    expect(dump.string(0x40_1000n, 0x10)).toBe('image data');
+    expect(dump.string(0x60_0000n, 0x09)).toBe('heap data');
+    // NOACCESS and guard pages are listed in the region map but their bytes are not captured.
+    expect(
+      dump
+        .query()
+        .map(({ BaseAddress, Protect, State }) => [BaseAddress, Number(State), Number(Protect)])
+        .filter(([, State]) => State !== 0x1_0000),
+    ).toEqual([
+      [0x40_0000n, 0x1000, PAGE_READONLY],
+      [0x60_0000n, 0x1000, PAGE_READWRITE],
+      [0x70_0000n, 0x2000, 0x00],
+      [0x71_0000n, 0x2000, 0x00],
+    ]);
+  });
+
+  test('writes the PE TimeDateStamp and CheckSum into the module list', async () => {
+    const path = join(directory, 'stamps.dmp');
+
+    make().dump(path);
+
+    const file = Buffer.from(await Bun.file(path).arrayBuffer());
+    const directoryRva = file.readUInt32LE(0x0c);
+    const moduleListRva = Array.from({ length: file.readUInt32LE(0x08) }, (_, index) => directoryRva + index * 0x0c)
+      .filter((entry) => file.readUInt32LE(entry) === 0x04)
+      .map((entry) => file.readUInt32LE(entry + 0x08))[0]!;
+
+    expect(file.readUInt32LE(moduleListRva + 0x04 + 0x0c)).toBe(0x0001_f00d);
+    expect(file.readUInt32LE(moduleListRva + 0x04 + 0x10)).toBe(0x6543_2100);
+  });
+
+  test('reserves the Memory64 descriptors before the data and flags full memory only when unfiltered', async () => {
+    const process = make();
+    const backend = process.backend as BufferBackend;
+    const read = backend.read.bind(backend);
+
+    backend.map(0x80_0000n, Buffer.alloc(0x4000, 0xaa), PAGE_READWRITE);
+    // The second page of the new region faults, so the per-page retry splits it in two.
+    Object.assign(backend, {
+      read: (address: bigint, buffer: Parameters<typeof read>[1], size: bigint) => {
+        if (address < 0x80_2000n && address + size > 0x80_1000n) {
+          throw new Error('fault');
+        }
+
+        return read(address, buffer, size);
+      },
+    });
+
+    const streams = async (name: string, options: Parameters<Process['dump']>[1] = {}) => {
+      process.dump(join(directory, name), options);
+
+      const file = Buffer.from(await Bun.file(join(directory, name)).arrayBuffer());
+      const entry = Array.from({ length: file.readUInt32LE(0x08) }, (_, index) => file.readUInt32LE(0x0c) + index * 0x0c).find((at) => file.readUInt32LE(at) === 0x09)!;
+
+      return { file, flags: file.readBigUInt64LE(0x18), rva: file.readUInt32LE(entry + 0x08), size: file.readUInt32LE(entry + 0x04) };
+    };
+
+    const { file, flags, rva, size } = await streams('reserved.dmp');
+    const count = Number(file.readBigUInt64LE(rva));
+
+    expect(flags).toBe(0x0802n);
+    expect(size).toBe(0x10 + count * 0x10);
+    expect(BigInt(rva + size)).toBeLessThanOrEqual(file.readBigUInt64LE(rva + 0x08)); // below BaseRva
+    expect(Array.from({ length: count }, (_, index) => [file.readBigUInt64LE(rva + 0x10 + index * 0x10), file.readBigUInt64LE(rva + 0x18 + index * 0x10)]).slice(-2)).toEqual([
+      [0x80_0000n, 0x1000n],
+      [0x80_2000n, 0x2000n],
+    ]);
+
+    using dump = new Process(new MinidumpBackend(join(directory, 'reserved.dmp')));
+    expect(dump.u8(0x80_2fffn)).toBe(0xaa);
+    expect(() => dump.u8(0x80_1000n)).toThrow();
+
+    expect((await streams('narrowed.dmp', { protect: PAGE_READWRITE })).flags).toBe(0x0800n);
+  });
+
+  test('filters by module, type, protection, and predicate', () => {
+    const process = make();
+    const capture = (name: string, options: Parameters<Process['dump']>[1]) => {
+      process.dump(join(directory, name), options);
+
+      using dump = new Process(new MinidumpBackend(join(directory, name)));
+      return [0x40_1000n, 0x60_0000n].map((address) => {
+        try {
+          return dump.u8(address) !== 0x00;
+        } catch {
+          return false;
+        }
+      });
+    };
+
+    expect(capture('module.dmp', { modules: ['game.exe'] })).toEqual([true, false]);
+    expect(capture('module-case.dmp', { modules: ['GAME.EXE'] })).toEqual([true, false]);
+    expect(capture('type.dmp', { type: MEM_IMAGE })).toEqual([true, false]);
+    expect(capture('protect.dmp', { protect: PAGE_READWRITE })).toEqual([false, true]);
+    expect(capture('filter.dmp', { filter: ({ BaseAddress }) => BaseAddress !== 0x40_0000n })).toEqual([false, true]);
+    expect(() => process.dump(join(directory, 'missing.dmp'), { modules: ['missing.dll'] })).toThrow('Module not found');
+  });
+
+  test('records a 32-bit target as x86', () => {
+    const path = join(directory, 'x86.dmp');
+    const backend = new BufferBackend({ is32Bit: true });
+
+    backend.map(0x1_0000n, Buffer.from([0x78, 0x56, 0x34, 0x12]));
+    new Process(backend).dump(path);
+
+    using dump = new Process(new MinidumpBackend(path));
+    expect(dump.is32Bit).toBe(true);
+    expect(dump.u32(0x1_0000n)).toBe(0x1234_5678);
+  });
+
+  test('includes thread IDs when asked and the backend can list them', () => {
+    const path = join(directory, 'threads.dmp');
+
+    using source = new Process(new MinidumpBackend(new URL('./fixtures/x64.dmp', import.meta.url).pathname));
+    source.dump(path, { threads: true });
+
+    using dump = new Process(new MinidumpBackend(path));
+    expect(dump.cntThreads).toBe(2);
+    expect(dump.u32(0x1_4000_1200n)).toBe(1337);
+    expect(dump.string(0x1_4000_1000n, 0x20)).toBe('hello from the dump');
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * PDB unit tests over the hand-assembled `example/fixtures/x64.pdb` and `x86.pdb` (MSF 7.00, block
+ * size 0x200), which match the CodeView records of `x64.dll` and `x86.dll`. Each holds publics for
+ * `CSource2Client::FrameStageNotify` (`+0x1010`), `Beta` (`+0x1020`), the `CSource2Client`
+ * constructor (`+0x1008`), `game::Tick` (`+0x1030`), `g_pGlobals` (`+0x3000`), and the `game::CBase`
+ * vftable (`+0x2368`); the global `g_tickCount` (`+0x3010`); procedure references to `game::Tick`
+ * (a.obj, 8 bytes) and `helper` (b.obj, `+0x1038`, 4 bytes); and section contributions of a.obj
+ * (`.text` 0x1000–0x1030, `.data` 0x3000–0x3020) and b.obj (`.text` 0x1030–0x1040).
+ *
+ * Run: bun test ./example/pdb.unit.ts
+ */
+import { afterAll, describe, expect, test } from 'bun:test';
+import { copyFileSync, mkdirSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { BufferBackend, Module, PDB, PEImage, Process } from '../index.ts';
+
+const fixtures = new URL('./fixtures/', import.meta.url).pathname;
+
+const directory = mkdtempSync(join(tmpdir(), 'bun-memory-pdb-'));
+
+afterAll(() => rmSync(directory, { force: true, recursive: true }));
+
+/**
+ * Maps a fixture DLL into a fresh target at `modBaseAddr`, with `szExePath` in `folder`.
+ */
+const load = (name: 'x64' | 'x86', modBaseAddr: bigint, folder = fixtures) => {
+  const file = readFileSync(join(fixtures, `${name}.dll`));
+  const image = new PEImage(file);
+  const mapped = Buffer.alloc(image.SizeOfImage);
+
+  file.copy(mapped, 0x00, 0x00, image.SizeOfHeaders);
+
+  for (const { PointerToRawData, SizeOfRawData, VirtualAddress } of image.sectionList) {
+    file.copy(mapped, VirtualAddress, PointerToRawData, PointerToRawData + SizeOfRawData);
+  }
+
+  const backend = new BufferBackend({ is32Bit: image.is32Bit, modules: [Module.from({ modBaseAddr, modBaseSize: mapped.length, szExePath: join(folder, `${name}.dll`), szModule: `${name}.dll` })], szExeFile: 'game.exe' });
+
+  backend.map(modBaseAddr, mapped);
+
+  return new Process(backend);
+};
+
+describe('PDB', () => {
+  test('reads the info stream, symbols, and section contributions', () => {
+    const pdb = new PDB(join(fixtures, 'x64.pdb'));
+    expect(pdb.guid).toBe(new PEImage(readFileSync(join(fixtures, 'x64.dll'))).codeView!.guid);
+    expect(pdb.age).toBe(0x02);
+    expect(pdb.symbols.map(({ kind, name, rva }) => [rva, kind, name])).toEqual([
+      [0x1008, 'public', 'CSource2Client::CSource2Client'],
+      [0x1010, 'public', 'CSource2Client::FrameStageNotify'],
+      [0x1020, 'public', 'Beta'],
+      [0x1030, 'function', 'game::Tick'],
+      [0x1030, 'public', 'game::Tick'],
+      [0x1038, 'function', 'helper'],
+      [0x2368, 'public', "game::CBase::`vftable'"],
+      [0x3000, 'public', 'g_pGlobals'],
+      [0x3010, 'data', 'g_tickCount'],
+    ]);
+    expect(pdb.contributions).toEqual([
+      { Characteristics: 0x6000_0020, module: 'C:\\build\\a.obj', rva: 0x1000, size: 0x30 },
+      { Characteristics: 0x6000_0020, module: 'C:\\build\\b.obj', rva: 0x1030, size: 0x10 },
+      { Characteristics: 0xc000_0040, module: 'C:\\build\\a.obj', rva: 0x3000, size: 0x20 },
+    ]);
+  });
+
+  test('finds symbols by undecorated or decorated name, preferring procedures', () => {
+    const pdb = new PDB(readFileSync(join(fixtures, 'x64.pdb')));
+    expect(pdb.find('CSource2Client::FrameStageNotify')).toEqual({ decoratedName: '?FrameStageNotify@CSource2Client@@UEAAXH@Z', kind: 'public', name: 'CSource2Client::FrameStageNotify', rva: 0x1010, size: undefined });
+    expect(pdb.find('?FrameStageNotify@CSource2Client@@UEAAXH@Z')!.rva).toBe(0x1010);
+    expect(pdb.find('game::Tick')).toMatchObject({ kind: 'function', size: 0x08 });
+    expect(pdb.find('?Tick@game@@YAXXZ')!.kind).toBe('public');
+    expect(pdb.find('Gamma')).toBeUndefined();
+  });
+
+  test('names the nearest symbol below an RVA, and its contribution', () => {
+    const pdb = new PDB(join(fixtures, 'x86.pdb'));
+    expect(pdb.symbolAt(0x1014)!.name).toBe('CSource2Client::FrameStageNotify');
+    expect(pdb.symbolAt(0x1030)!.kind).toBe('function');
+    expect(pdb.symbolAt(0x3018)!.name).toBe('g_tickCount');
+    expect(pdb.symbolAt(0x1000)).toBeUndefined();
+    expect(pdb.contributionAt(0x1034)!.module).toBe('C:\\build\\b.obj');
+    expect(pdb.contributionAt(0x1040)).toBeUndefined();
+  });
+
+  test('undecorates MSVC names', () => {
+    expect(PDB.undecorate('?FrameStageNotify@CSource2Client@@UEAAXW4ClientFrameStage_t@@@Z')).toBe('CSource2Client::FrameStageNotify');
+    expect(PDB.undecorate('?Inner@Outer@ns@@YAXXZ')).toBe('ns::Outer::Inner');
+    expect(PDB.undecorate('??1CBase@game@@UEAA@XZ')).toBe('game::CBase::~CBase');
+    expect(PDB.undecorate('??2@YAPEAX_K@Z')).toBe('??2@YAPEAX_K@Z'); // operator new stays decorated
+    expect(PDB.undecorate('?Get@?$CUtlVector@H@@QEAAHH@Z')).toBe('?Get@?$CUtlVector@H@@QEAAHH@Z');
+    expect(PDB.undecorate('memcpy')).toBe('memcpy');
+  });
+
+  test('finds a PDB in a symbol store and reads symbol search paths', () => {
+    const codeView = new PEImage(readFileSync(join(fixtures, 'x64.dll'))).codeView!;
+    const store = join(directory, 'store', 'x64.pdb', '1234ABCD56789ABCDEF00123456789AB2');
+    mkdirSync(store, { recursive: true });
+    copyFileSync(join(fixtures, 'x64.pdb'), join(store, 'x64.pdb'));
+    expect(PDB.locate(codeView, [join(directory, 'missing'), join(directory, 'store')])).toBe(join(store, 'x64.pdb'));
+    expect(PDB.locate(codeView, [fixtures])).toBe(join(fixtures, 'x64.pdb'));
+    expect(PDB.locate(codeView, [directory])).toBeUndefined();
+    expect(PDB.searchPath('srv*C:\\symbols*https://msdl.microsoft.com/download/symbols;D:\\pdbs;cache*E:\\cache;srv*https://symbols.example')).toEqual(['C:\\symbols', 'D:\\pdbs', 'E:\\cache']);
+  });
+
+  test('rejects files that are not PDBs', () => {
+    expect(() => new PDB(readFileSync(join(fixtures, 'x64.dll')))).toThrow('missing the MSF 7.00 signature');
+    expect(() => new PDB(readFileSync(join(fixtures, 'x64.pdb')).subarray(0x00, 0x400))).toThrow('Truncated PDB');
+  });
+});
+
+describe('process symbols', () => {
+  test('symbol() loads the PDB next to the module and resolves module!name', () => {
+    using game = load('x64', 0x7ff6_0000_0000n);
+    expect(game.symbol('x64.dll!CSource2Client::FrameStageNotify')).toBe(0x7ff6_0000_1010n);
+    expect(game.symbol('X64.DLL!g_tickCount')).toBe(0x7ff6_0000_3010n);
+    expect(() => game.symbol('x64.dll!Missing')).toThrow('x64.dll has no symbol Missing.');
+    expect(() => game.symbol('FrameStageNotify')).toThrow('module!name');
+  });
+
+  test('symbolAt() names addresses in modules with loaded symbols', () => {
+    using game = load('x86', 0x6f00_0000n);
+    expect(game.symbolAt(0x6f00_1014n)).toBeUndefined(); // not loaded yet
+    game.loadSymbols('x86.dll', join(fixtures, 'x86.pdb'));
+    expect(game.symbolAt(0x6f00_1014n)).toBe('x86.dll!CSource2Client::FrameStageNotify+0x4');
+    expect(game.symbolAt(0x6f00_1030n)).toBe('x86.dll!game::Tick');
+    expect(game.symbolAt(0x7000_0000n)).toBeUndefined();
+  });
+
+  test('loadSymbols() searches directories and refuses a PDB of another build', () => {
+    using game = load('x64', 0x7ff6_0000_0000n, directory);
+    expect(() => game.loadSymbols('x64.dll')).toThrow('No PDB found for x64.dll: x64.pdb 1234ABCD-5678-9ABC-DEF0-0123456789AB age 2.');
+    expect(game.loadSymbols('x64.dll', join(directory, 'store')).guid).toBe('1234ABCD-5678-9ABC-DEF0-0123456789AB');
+    expect(() => game.loadSymbols('x64.dll', join(fixtures, 'x86.pdb'))).toThrow('does not match x64.dll');
+  });
+});
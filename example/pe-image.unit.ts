@@ -0,0 +1,548 @@
+/**
+ * PEImage unit tests over two hand-assembled fixture DLLs in `example/fixtures/`:
+ *
+ * - `x64.dll` — PE32+, AMD64, ImageBase 0x180000000, entry point `+0x1010`.
+ * - `x86.dll` — PE32, i386, ImageBase 0x10000000, entry point `+0x1010`.
+ *
+ * Both link at 0x65000000, map to 0x4000 bytes with `.text` @ 0x1000, `.rdata` @ 0x2000, and
+ * `.data` @ 0x3000 (file alignment 0x200), and carry `48 8B 05 00 00 00 00 C3` at `+0x1010`. The
+ * export table (`+0x2100`, ordinal base 1) exports `Alpha` @ 0x1010, `Beta` @ 0x1020, ordinal 3 @
+ * 0x1030 by ordinal only, and forwards `Gamma` to `OTHER.Alpha` and `Delta` to `OTHER.#2`. They
+ * import `KERNEL32.dll!GetCurrentProcessId` and `KERNEL32.dll!#18` (IAT @ 0x2040), and delay-load
+ * `USER32.dll!MessageBoxW` (IAT @ 0x3000, pointing at the helper thunk @ `+0x1030`). Their MSVC
+ * RTTI (in each format) describes `game::CBase`, `IOther`, and `CDerived : game::CBase, IOther`
+ * (vtables @ 0x2368, 0x2380, 0x2390, and 0x23a8 for CDerived's IOther subobject); `CUnused` has a
+ * TypeDescriptor but no locator. A CodeView record names `C:\build\x64.pdb` (GUID
+ * 1234ABCD-5678-9ABC-DEF0-0123456789AB) and `C:\build\x86.pdb` (0BADF00D-1111-2222-3333-4444555566FF),
+ * both age 2. Base relocations (`+0x2500`) cover every absolute pointer. x64.dll's exception directory
+ * (`+0x2600`) covers 0x1008–0x1018 and 0x1020–0x103c; 0x1020 has a handler and 0x1028 is chained
+ * to it. The `module.pe` tests map them into a `BufferBackend` the way the loader would.
+ *
+ * Run: bun test ./example/pe-image.unit.ts
+ */
+import { describe, expect, test } from 'bun:test';
+import { readFileSync } from 'node:fs';
+
+import { AccessError, BufferBackend, ImageDirectoryEntry, Module, PEImage, Process, RTTI, Signature } from '../index.ts';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url).pathname);
+
+/**
+ * Lays a file-layout image out as the loader maps it: headers at 0, each section at its RVA.
+ */
+const map = (file: Buffer) => {
+  const image = new PEImage(file);
+  const mapped = Buffer.alloc(image.SizeOfImage);
+
+  file.copy(mapped, 0x00, 0x00, image.SizeOfHeaders);
+
+  for (const { PointerToRawData, SizeOfRawData, VirtualAddress } of image.sectionList) {
+    file.copy(mapped, VirtualAddress, PointerToRawData, PointerToRawData + SizeOfRawData);
+  }
+
+  return mapped;
+};
+
+/**
+ * Maps fixture images into a fresh target: `[file, szModule, modBaseAddr]` per module.
+ */
+const load = (is32Bit: boolean, ...images: [file: string, szModule: string, modBaseAddr: bigint][]) => {
+  const mapped = images.map(([file]) => map(fixture(file)));
+  const backend = new BufferBackend({ is32Bit, modules: images.map(([, szModule, modBaseAddr], index) => Module.from({ modBaseAddr, modBaseSize: mapped[index]!.length, szModule })), szExeFile: 'game.exe' });
+
+  images.forEach(([, , modBaseAddr], index) => backend.map(modBaseAddr, mapped[index]!));
+
+  return { mapped, process: new Process(backend) };
+};
+
+/**
+ * Builds a version 6 API set schema (the map a Windows PEB points at) from `[name, hashedLength,
+ * values]` sets. Each value is `[importer, host]`; the first is the set's default.
+ */
+const apiSetSchema = (...sets: [name: string, hashedLength: number, values: [importer: string, host: string][]][]) => {
+  const schema = Buffer.alloc(0x1000);
+  let cursor = 0x20 + sets.length * 0x18 + sets.reduce((count, [, , values]) => count + values.length, 0x00) * 0x14;
+
+  // Appends a UTF-16 name and stores its offset and byte length at `at`.
+  const name = (at: number, value: string) => {
+    schema.writeUInt32LE(cursor, at);
+    schema.writeUInt32LE(schema.write(value, cursor, 'utf16le'), at + 0x04);
+    cursor += value.length * 0x02;
+  };
+
+  schema.writeUInt32LE(0x06, 0x00);
+  schema.writeUInt32LE(schema.byteLength, 0x04);
+  schema.writeUInt32LE(sets.length, 0x0c);
+  schema.writeUInt32LE(0x20, 0x10);
+
+  let value = 0x20 + sets.length * 0x18;
+
+  sets.forEach(([set, hashedLength, values], index) => {
+    const entry = 0x20 + index * 0x18;
+    name(entry + 0x04, set);
+    schema.writeUInt32LE(hashedLength * 0x02, entry + 0x0c);
+    schema.writeUInt32LE(value, entry + 0x10);
+    schema.writeUInt32LE(values.length, entry + 0x14);
+
+    for (const [importer, host] of values) {
+      name(value + 0x04, importer);
+      name(value + 0x0c, host);
+      value += 0x14;
+    }
+  });
+
+  return schema;
+};
+
+describe('PEImage (file layout)', () => {
+  test('parses the PE32+ headers, data directories, and sections', () => {
+    const image = new PEImage(fixture('x64.dll'));
+    expect(image.is32Bit).toBe(false);
+    expect(image.Machine).toBe(0x8664);
+    expect(image.TimeDateStamp).toBe(0x6500_0000);
+    expect(image.SizeOfImage).toBe(0x4000);
+    expect(image.AddressOfEntryPoint).toBe(0x1010);
+    expect(image.CheckSum).toBe(0x0002_3456);
+    expect(image.ImageBase).toBe(0x1_8000_0000n);
+    expect(image.base).toBe(0x1_8000_0000n);
+    expect(image.entryPoint).toBe(0x1_8000_1010n);
+    expect(image.DataDirectory).toHaveLength(0x10);
+    expect(image.DataDirectory[ImageDirectoryEntry.Import]).toEqual({ Size: 0x28, VirtualAddress: 0x2000 });
+    expect(image.DataDirectory[ImageDirectoryEntry.Debug]).toEqual({ Size: 0x1c, VirtualAddress: 0x2400 });
+    expect(image.DataDirectory[ImageDirectoryEntry.BaseReloc]).toEqual({ Size: 0x30, VirtualAddress: 0x2500 });
+    expect(Object.keys(image.sections)).toEqual(['.text', '.rdata', '.data']);
+    expect(image.sections['.text']).toMatchObject({ Characteristics: 0x6000_0020, end: 0x1_8000_1040n, start: 0x1_8000_1000n, VirtualAddress: 0x1000, VirtualSize: 0x40 });
+    expect(image.sections['.data']!.PointerToRawData).toBe(0xc00);
+  });
+
+  test('parses PE32 headers, where ImageBase is 32-bit and the directories sit 0x10 earlier', () => {
+    const image = new PEImage(fixture('x86.dll'));
+    expect(image.is32Bit).toBe(true);
+    expect(image.Machine).toBe(0x014c);
+    expect(image.ImageBase).toBe(0x1000_0000n);
+    expect(image.CheckSum).toBe(0x0001_2345);
+    expect(image.DataDirectory[ImageDirectoryEntry.IAT]).toEqual({ Size: 0x0c, VirtualAddress: 0x2040 });
+    expect(image.sections['.rdata']!.start).toBe(0x1000_2000n);
+  });
+
+  test('translates RVAs through the section table, and honors an explicit base', () => {
+    const file = fixture('x64.dll');
+    const image = new PEImage(file, { base: 0x7ff6_0000_0000n });
+    expect(image.offsetOf(0x1010)).toBe(0x210);
+    expect(image.read(0x1010, 0x08)).toEqual(Buffer.from('488b0500000000c3', 'hex'));
+    expect(image.sections['.text']!.start).toBe(0x7ff6_0000_1000n);
+    expect(() => image.offsetOf(0x3800)).toThrow(RangeError);
+    expect(new PEImage(map(file), { mapped: true }).read(0x1010, 0x08)).toEqual(Buffer.from('488b0500000000c3', 'hex'));
+  });
+
+  test('rejects bytes that are not a PE image', () => {
+    expect(() => new PEImage(Buffer.alloc(0x400))).toThrow('no MZ signature');
+    const file = Buffer.from(fixture('x64.dll'));
+    file.writeUInt32LE(0x00, 0x80);
+    expect(() => new PEImage(file)).toThrow('no PE signature at e_lfanew 0x80');
+  });
+});
+
+describe('module.pe', () => {
+  test('reads the headers of a mapped module through its process', () => {
+    using game = load(false, ['x64.dll', 'x64.dll', 0x7ff6_0000_0000n]).process;
+    const pe = game.modules['x64.dll']!.pe;
+    expect(pe.base).toBe(0x7ff6_0000_0000n);
+    expect(pe.entryPoint).toBe(0x7ff6_0000_1010n);
+    expect(pe.sections['.text']!.start).toBe(0x7ff6_0000_1000n);
+    expect(game.pattern('488b05????????c3', pe.sections['.text']!.start, pe.sections['.text']!.VirtualSize)).toBe(0x7ff6_0000_1010n);
+    expect(game.modules['x64.dll']!.pe).toBe(pe); // parsed once
+  });
+
+  test('resolve() scans only the named section', () => {
+    using game = load(false, ['x64.dll', 'x64.dll', 0x7ff6_0000_0000n]).process;
+    const resolver = { module: 'x64.dll', pattern: '48 8B 05 ? ? ? ? C3', section: '.text', steps: [Signature.add(3), Signature.rip()] };
+    expect(game.resolve(resolver)).toBe(0x7ff6_0000_1017n); // rel32 0: the next instruction
+    expect(() => game.resolve({ ...resolver, section: '.rdata' })).toThrow('failed: no match in x64.dll .rdata.');
+    expect(() => game.resolve({ ...resolver, section: '.reloc' })).toThrow('failed: x64.dll has no .reloc section.');
+  });
+
+  test('pattern() scans a section of one module or of every module', () => {
+    using game = load(false, ['x64.dll', 'x64.dll', 0x7ff6_0000_0000n], ['x64.dll', 'copy.dll', 0x7ff5_0000_0000n]).process;
+    expect(game.pattern('48 8B 05 ? ? ? ? C3', { module: 'x64.dll', section: '.text' })).toBe(0x7ff6_0000_1010n);
+    expect(game.pattern('48 8B 05 ? ? ? ? C3', { module: 'x64.dll', section: '.rdata' })).toBe(-1n);
+    expect(game.pattern('48 8B 05 ? ? ? ? C3', { modules: 'all', section: '.text' }, true)).toEqual([0x7ff5_0000_1010n, 0x7ff6_0000_1010n]);
+    expect(game.indexOf(Buffer.from('.?AVCDerived@@', 'latin1'), { modules: 'all', section: '.data' }, true)).toHaveLength(2);
+    expect(() => game.pattern('48 8B 05', { module: 'x64.dll', section: '.reloc' })).toThrow('x64.dll has no .reloc section.');
+  });
+
+  test('reads a PE32 module in a 32-bit target', () => {
+    using game = load(true, ['x86.dll', 'x86.dll', 0x6f00_0000n]).process;
+    const pe = game.modules['x86.dll']!.pe;
+    expect(pe.is32Bit).toBe(true);
+    expect(pe.sections['.data']!.end).toBe(0x6f00_3100n);
+  });
+
+  test('reads the CodeView record that identifies the PDB', () => {
+    expect(new PEImage(fixture('x64.dll')).codeView).toEqual({ age: 0x02, guid: '1234ABCD-5678-9ABC-DEF0-0123456789AB', path: 'C:\\build\\x64.pdb' });
+    using game = load(true, ['x86.dll', 'x86.dll', 0x6f00_0000n]).process;
+    expect(game.modules['x86.dll']!.pe.codeView!.guid).toBe('0BADF00D-1111-2222-3333-4444555566FF');
+    const file = Buffer.from(fixture('x64.dll'));
+    file.writeUInt32LE(0x00, 0x80 + 0x18 + 0x70 + 0x06 * 0x08); // no debug directory
+    expect(new PEImage(file).codeView).toBeUndefined();
+  });
+
+  test('lists the guard function-pointer slots of the load configuration', () => {
+    expect(new PEImage(fixture('x64.dll')).guardSlots).toEqual([0x27a0, 0x27a8]);
+    using game = load(true, ['x86.dll', 'x86.dll', 0x6f00_0000n]).process;
+    expect(game.modules['x86.dll']!.pe.guardSlots).toEqual([0x2760, 0x2764]);
+    const file = Buffer.from(fixture('x64.dll'));
+    file.writeUInt32LE(0x78, 0x400 + 0x700); // too short for GuardCFDispatchFunctionPointer
+    expect(new PEImage(file).guardSlots).toEqual([0x27a0]);
+  });
+
+  test('an unbound module cannot read its headers', () => {
+    expect(() => Module.from({ modBaseAddr: 0x1000n, modBaseSize: 0x1000, szModule: 'loose.dll' }).pe).toThrow('loose.dll is not bound to a process');
+  });
+});
+
+describe('exports', () => {
+  test('lists named, ordinal-only, and forwarded exports', () => {
+    const image = new PEImage(fixture('x64.dll'));
+    expect(image.exports.map(({ Name, Ordinal }) => [Ordinal, Name])).toEqual([
+      [1, 'Alpha'],
+      [2, 'Beta'],
+      [3, undefined],
+      [4, 'Gamma'],
+      [5, 'Delta'],
+    ]);
+    expect(image.findExport('Beta')).toMatchObject({ address: 0x1_8000_1020n, forwarder: undefined, rva: 0x1020 });
+    expect(image.findExport(3)!.address).toBe(0x1_8000_1030n);
+    expect(image.findExport('Gamma')).toMatchObject({ address: undefined, forwarder: 'OTHER.Alpha' });
+    expect(image.findExport('gamma')).toBeUndefined();
+    expect(new PEImage(fixture('x86.dll')).findExport('Delta')!.forwarder).toBe('OTHER.#2');
+  });
+
+  test('getProcAddress resolves names and ordinals, and follows forwarders into the forwarding module', () => {
+    using game = load(false, ['x64.dll', 'x64.dll', 0x7ff6_0000_0000n], ['x64.dll', 'other.dll', 0x7ff7_0000_0000n]).process;
+    expect(game.getProcAddress('x64.dll', 'Alpha')).toBe(0x7ff6_0000_1010n);
+    expect(game.getProcAddress('X64.DLL', 3)).toBe(0x7ff6_0000_1030n);
+    expect(game.getProcAddress(game.modules['x64.dll']!, 'Gamma')).toBe(0x7ff7_0000_1010n);
+    expect(game.getProcAddress('x64.dll', 'Delta')).toBe(0x7ff7_0000_1020n);
+    expect(() => game.getProcAddress('x64.dll', 'Epsilon')).toThrow('x64.dll does not export Epsilon.');
+    expect(() => game.getProcAddress('missing.dll', 'Alpha')).toThrow('Module not loaded: missing.dll.');
+  });
+
+  test('getProcAddress works on a 32-bit target and reports an unloaded forwarding module', () => {
+    using game = load(true, ['x86.dll', 'x86.dll', 0x6f00_0000n]).process;
+    expect(game.getProcAddress('x86.dll', 'Beta')).toBe(0x6f00_1020n);
+    expect(() => game.getProcAddress('x86.dll', 'Gamma')).toThrow('Module not loaded: OTHER.dll.');
+  });
+
+  test("getProcAddress follows API set forwarders through the target's schema, or into kernelbase.dll", () => {
+    using game = load(false, ['x64.dll', 'x64.dll', 0x7ff6_0000_0000n], ['x64.dll', 'other.dll', 0x7ff7_0000_0000n], ['x64.dll', 'kernelbase.dll', 0x7ff8_0000_0000n]).process;
+    const image = game.modules['x64.dll']!;
+    // Forward Gamma to an API set: the forwarder string must lie inside the export directory, so grow it.
+    const exportDirectory = image.modBaseAddr + BigInt(game.u32(image.modBaseAddr + 0x3cn) + 0x18 + 0x70);
+    game.buffer(image.modBaseAddr + 0x2188n, Buffer.from('api-ms-win-core-test-l1-1-0.Alpha\0'));
+    game.u32(exportDirectory + 0x04n, 0xac);
+    game.u32(image.modBaseAddr + BigInt(game.u32(image.modBaseAddr + 0x211cn) + 0x03 * 0x04), 0x2188);
+    expect(game.getProcAddress('x64.dll', 'Gamma')).toBe(0x7ff8_0000_1010n); // no peb(): kernelbase.dll
+
+    const schema = apiSetSchema([
+      'api-ms-win-core-test-l1-1-1',
+      0x19,
+      [
+        ['', 'kernelbase.dll'],
+        ['x64.dll', 'OTHER.dll'],
+      ],
+    ]);
+    (game.backend as BufferBackend).map(0x10_0000n, 0x1000).map(0x20_0000n, schema);
+    game.u64(0x10_0068n, 0x20_0000n);
+    Object.assign(game.backend, { peb: () => 0x10_0000n });
+    game.refresh();
+    expect(game.getProcAddress('x64.dll', 'Gamma')).toBe(0x7ff7_0000_1010n); // any minor version; the host for x64.dll
+
+    apiSetSchema([
+      'api-ms-win-core-test-l1-1-1',
+      0x19,
+      [
+        ['', 'kernelbase.dll'],
+        ['game.exe', 'OTHER.dll'],
+      ],
+    ]).copy(schema);
+    game.refresh();
+    expect(game.getProcAddress('x64.dll', 'Gamma')).toBe(0x7ff8_0000_1010n); // the default host
+
+    apiSetSchema(['api-ms-win-core-test-l2-1-0', 0x19, [['', 'kernelbase.dll']]]).copy(schema);
+    game.refresh();
+    expect(() => game.getProcAddress('x64.dll', 'Gamma')).toThrow('API set api-ms-win-core-test-l1-1-0 has no host in the target.');
+  });
+
+  test('caches resolved addresses until refresh()', () => {
+    const { mapped, process: game } = load(false, ['x64.dll', 'x64.dll', 0x7ff6_0000_0000n]);
+    expect(game.getProcAddress('x64.dll', 'Alpha')).toBe(0x7ff6_0000_1010n);
+    const addressOfFunctions = mapped[0]!.readUInt32LE(0x2100 + 0x1c);
+    mapped[0]!.writeUInt32LE(0x1018, addressOfFunctions); // the target patches its export table
+    expect(game.getProcAddress('x64.dll', 'Alpha')).toBe(0x7ff6_0000_1010n);
+    game.refresh();
+    expect(game.getProcAddress('x64.dll', 'Alpha')).toBe(0x7ff6_0000_1018n);
+    game.close();
+  });
+});
+
+describe('imports', () => {
+  test('lists regular and delay-loaded imports with their IAT slots (PE32+)', () => {
+    expect(new PEImage(fixture('x64.dll')).imports).toEqual([
+      { delayed: false, dll: 'KERNEL32.dll', Name: 'GetCurrentProcessId', Ordinal: undefined, slot: 0x1_8000_2040n, target: 0x2080n }, // unbound: the hint/name RVA
+      { delayed: false, dll: 'KERNEL32.dll', Name: undefined, Ordinal: 0x12, slot: 0x1_8000_2048n, target: 0x8000_0000_0000_0012n },
+      { delayed: true, dll: 'USER32.dll', Name: 'MessageBoxW', Ordinal: undefined, slot: 0x1_8000_3000n, target: 0x1_8000_1030n },
+    ]);
+  });
+
+  test('reads 4-byte thunks in a PE32 image', () => {
+    const imports = new PEImage(fixture('x86.dll')).imports;
+    expect(imports.map(({ slot }) => slot)).toEqual([0x1000_2040n, 0x1000_2044n, 0x1000_3000n]);
+    expect(imports[1]!.Ordinal).toBe(0x12);
+    expect(imports[2]!.target).toBe(0x1000_1030n);
+  });
+
+  test('patchImport redirects a bound slot and restores it on dispose', () => {
+    const { mapped, process: game } = load(false, ['x64.dll', 'x64.dll', 0x7ff6_0000_0000n]);
+    mapped[0]!.writeBigUInt64LE(0x7ffa_0000_1234n, 0x2040); // the loader binds the IAT
+    {
+      using patch = game.patchImport('x64.dll', 'kernel32.dll', 'GetCurrentProcessId', 0x7ff6_0000_1020n);
+      expect(patch.slot).toBe(0x7ff6_0000_2040n);
+      expect(patch.original).toBe(0x7ffa_0000_1234n);
+      expect(game.modules['x64.dll']!.pe.imports[0]!.target).toBe(0x7ff6_0000_1020n);
+    }
+    expect(game.uPtr(0x7ff6_0000_2040n)).toBe(0x7ffa_0000_1234n);
+    const delayed = game.patchImport(game.modules['x64.dll']!, 'USER32.dll', 'MessageBoxW', 0x1234n);
+    expect(mapped[0]!.readBigUInt64LE(0x3000)).toBe(0x1234n);
+    delayed[Symbol.dispose]();
+    delayed[Symbol.dispose]();
+    expect(mapped[0]!.readBigUInt64LE(0x3000)).toBe(0x1_8000_1030n); // the fixture is not relocated, so this is still the preferred-base VA
+    expect(() => game.patchImport('x64.dll', 'KERNEL32.dll', 0x13, 0x00n)).toThrow('x64.dll does not import KERNEL32.dll!#19.');
+    expect(() => Process.from(game.backend, { readOnly: true }).patchImport('x64.dll', 'KERNEL32.dll', 0x12, 0x00n)).toThrow(AccessError);
+    game.close();
+  });
+});
+
+describe('rtti', () => {
+  test('finds classes, vtables, and bases through image-relative x64 locators', () => {
+    const { classes, classList } = new PEImage(fixture('x64.dll')).rtti;
+    expect(classList.map(({ name }) => name)).toEqual(['game::CBase', 'IOther', 'CDerived']);
+    expect(classes['game::CBase']).toEqual({ bases: [], decoratedName: '.?AVCBase@game@@', name: 'game::CBase', typeDescriptor: 0x1_8000_3020n, vtables: [{ address: 0x1_8000_2368n, locator: 0x1_8000_2200n, offset: 0x00 }] });
+    expect(classes.CDerived!.vtables).toEqual([
+      { address: 0x1_8000_2390n, locator: 0x1_8000_2240n, offset: 0x00 },
+      { address: 0x1_8000_23a8n, locator: 0x1_8000_2260n, offset: 0x08 },
+    ]);
+    expect(classes.CDerived!.bases).toEqual([
+      { decoratedName: '.?AVCBase@game@@', name: 'game::CBase', offset: 0x00, virtual: false },
+      { decoratedName: '.?AUIOther@@', name: 'IOther', offset: 0x08, virtual: false },
+    ]);
+    expect(classes.CUnused).toBeUndefined();
+  });
+
+  test('follows absolute x86 locators', () => {
+    const { classes } = new PEImage(fixture('x86.dll')).rtti;
+    expect(classes.IOther!.vtables).toEqual([{ address: 0x1000_2380n, locator: 0x1000_2220n, offset: 0x00 }]);
+    expect(classes.CDerived!.vtables.map(({ address, offset }) => [address, offset])).toEqual([
+      [0x1000_2390n, 0x00],
+      [0x1000_23a8n, 0x04],
+    ]);
+    expect(classes.CDerived!.bases.map(({ name, offset }) => [name, offset])).toEqual([
+      ['game::CBase', 0x00],
+      ['IOther', 0x04],
+    ]);
+  });
+
+  test('follows x86 locators in an unrelocated file opened at another base', () => {
+    const { classes } = new PEImage(fixture('x86.dll'), { base: 0x6f00_0000n }).rtti;
+    expect(classes.IOther!.vtables).toEqual([{ address: 0x6f00_2380n, locator: 0x6f00_2220n, offset: 0x00 }]);
+    expect(classes.CDerived!.vtables.map(({ address, offset }) => [address, offset])).toEqual([
+      [0x6f00_2390n, 0x00],
+      [0x6f00_23a8n, 0x04],
+    ]);
+    expect(classes.CDerived!.bases.map(({ name, offset }) => [name, offset])).toEqual([
+      ['game::CBase', 0x00],
+      ['IOther', 0x04],
+    ]);
+    expect(new PEImage(fixture('x64.dll'), { base: 0x7ff6_0000_0000n }).rtti.classes.IOther!.vtables[0]!.address).toBe(0x7ff6_0000_2380n);
+  });
+
+  test('undecorates nested names and leaves templates decorated', () => {
+    expect(RTTI.undecorate('.?AVC_CSPlayerPawn@@')).toBe('C_CSPlayerPawn');
+    expect(RTTI.undecorate('.?AVInner@Outer@ns@@')).toBe('ns::Outer::Inner');
+    expect(RTTI.undecorate('.?AV?$CUtlVector@H@@')).toBe('?$CUtlVector@H');
+  });
+
+  test('className identifies an object, or any subobject, by its vtable', () => {
+    // The fixtures are not relocated, so their absolute pointers need the preferred base.
+    using game = load(false, ['x64.dll', 'x64.dll', 0x1_8000_0000n]).process;
+    const object = game.alloc(0x10);
+    game.u64(object, 0x1_8000_2390n).u64(object + 0x08n, 0x1_8000_23a8n);
+    expect(game.className(object)).toBe('CDerived');
+    expect(game.className(object + 0x08n)).toBe('CDerived');
+    expect(game.vFunction(object, 0x01)).toBe(0x1_8000_1020n);
+    expect(game.modules['x64.dll']!.pe.rtti.classes.CDerived!.vtables[0]!.address).toBe(game.vTable(object));
+    game.u64(object, 0x1_8000_1000n); // not a vtable: slot -1 is not a locator
+    expect(game.className(object)).toBeUndefined();
+    game.u64(object, 0xdead_0000n); // unreadable
+    expect(game.className(object)).toBeUndefined();
+  });
+
+  test('className reads x86 locators in a 32-bit target', () => {
+    using game = load(true, ['x86.dll', 'x86.dll', 0x1000_0000n]).process;
+    const object = game.alloc(0x08);
+    game.u32(object, 0x1000_2368);
+    expect(game.className(object)).toBe('game::CBase');
+  });
+});
+
+describe('relocations and verify', () => {
+  /**
+   * Maps a fixture the way the loader does, relocated for `modBaseAddr`.
+   */
+  const relocated = (file: string, modBaseAddr: bigint) => {
+    const image = new PEImage(fixture(file)).map(modBaseAddr);
+    const backend = new BufferBackend({
+      is32Bit: file === 'x86.dll',
+      modules: [Module.from({ modBaseAddr, modBaseSize: image.length, szExePath: new URL(`./fixtures/${file}`, import.meta.url).pathname, szModule: file })],
+      szExeFile: 'game.exe',
+    });
+
+    backend.map(modBaseAddr, image);
+
+    return { image, process: new Process(backend) };
+  };
+
+  test('parses the base relocation table', () => {
+    const x64 = new PEImage(fixture('x64.dll')).relocations;
+    expect(x64).toHaveLength(15);
+    expect(x64.every(({ type }) => type === 0x0a)).toBe(true);
+    expect(x64[0]).toEqual({ rva: 0x2360, type: 0x0a });
+    const x86 = new PEImage(fixture('x86.dll')).relocations;
+    expect(x86).toHaveLength(39);
+    expect(x86.every(({ type }) => type === 0x03)).toBe(true);
+  });
+
+  test('map() lays sections out and relocates absolute pointers', () => {
+    const image = new PEImage(fixture('x64.dll'));
+    expect(image.map().readBigUInt64LE(0x2360)).toBe(0x1_8000_2200n);
+    expect(image.map(0x7ff6_0000_0000n).readBigUInt64LE(0x2360)).toBe(0x7ff6_0000_2200n);
+    expect(image.map(0x7ff6_0000_0000n).subarray(0x1010, 0x1018)).toEqual(Buffer.from('488b0500000000c3', 'hex'));
+    expect(new PEImage(fixture('x86.dll')).map(0x0f00_0000n).readUInt32LE(0x220c)).toBe(0x0f00_3020);
+  });
+
+  test('verify() reports nothing for a cleanly loaded module, IAT binding and writable sections included', () => {
+    const { image, process: game } = relocated('x64.dll', 0x7ff6_0000_0000n);
+    image.writeBigUInt64LE(0x7ffa_0000_1234n, 0x2040); // the loader binds the IAT
+    image.writeUInt32LE(0xdead_beef, 0x3010); // .data is writable
+    image.writeBigUInt64LE(0x7ffa_0000_5678n, 0x27a0); // CFG: the loader fills the guard slots in .rdata
+    image.writeBigUInt64LE(0x7ffa_0000_9abcn, 0x27a8);
+    expect(game.modules['x64.dll']!.verify()).toEqual([]);
+    expect(relocated('x86.dll', 0x6f00_0000n).process.modules['x86.dll']!.verify()).toEqual([]);
+    game.close();
+  });
+
+  test('verify() reports patched ranges with their original and current bytes', () => {
+    const { image, process: game } = relocated('x64.dll', 0x7ff6_0000_0000n);
+    Buffer.from('e911223344', 'hex').copy(image, 0x1010); // an inline hook
+    image[0x1017] = 0x90; // two unchanged bytes later: the same range
+    image.writeBigUInt64LE(0x7ff6_0000_1030n, 0x2368); // a vtable slot redirected
+    expect(game.modules['x64.dll']!.verify()).toEqual([
+      { address: 0x7ff6_0000_1010n, current: Buffer.from('e911223344000090', 'hex'), original: Buffer.from('488b0500000000c3', 'hex'), rva: 0x1010, section: '.text' },
+      { address: 0x7ff6_0000_2368n, current: Buffer.from('30', 'hex'), original: Buffer.from('10', 'hex'), rva: 0x2368, section: '.rdata' },
+    ]);
+    game.close();
+  });
+
+  test('verify() sees missing relocations, and takes an explicit file path', () => {
+    using game = load(false, ['x64.dll', 'x64.dll', 0x7ff6_0000_0000n]).process; // mapped without relocating
+    const diffs = game.modules['x64.dll']!.verify({ path: new URL('./fixtures/x64.dll', import.meta.url).pathname });
+    expect(diffs[0]).toMatchObject({ current: Buffer.from('800100', 'hex'), original: Buffer.from('00f67f', 'hex'), rva: 0x2363, section: '.rdata' }); // the high bytes of the first pointer
+    expect(diffs.every(({ section }) => section === '.rdata')).toBe(true);
+    expect(() => Module.from({ modBaseAddr: 0x1000n, modBaseSize: 0x1000, szModule: 'loose.dll' }).verify()).toThrow('loose.dll is not bound to a process');
+  });
+});
+
+describe('offline pattern scans', () => {
+  const path = (name: string) => new URL(`./fixtures/${name}`, import.meta.url).pathname;
+
+  test('pattern() reports matches as RVAs and as addresses at the chosen base', () => {
+    expect(new PEImage(path('x64.dll')).pattern('488b05????????c3')).toEqual({ address: 0x1_8000_1010n, rva: 0x1010, section: '.text' });
+    expect(new PEImage(path('x86.dll'), { base: 0x6f00_0000n }).pattern('488b05**000000c3')).toEqual({ address: 0x6f00_1010n, rva: 0x1010, section: '.text' });
+    expect(new PEImage(fixture('x64.dll')).pattern('deadbeef')).toBeUndefined();
+  });
+
+  test('pattern() searches only the named sections, one section at a time', () => {
+    const image = new PEImage(fixture('x64.dll'));
+    const names = image.pattern('2e3f4156', true); // `.?AV`: game::CBase, CDerived, CUnused
+    expect(names.map(({ rva, section }) => [section, rva])).toEqual([
+      ['.data', 0x3030],
+      ['.data', 0x3090],
+      ['.data', 0x30c0],
+    ]);
+    expect(image.pattern('2e3f4156', true, ['.text', '.rdata'])).toEqual([]);
+    expect(image.pattern('488b05', false, ['.rdata'])).toBeUndefined();
+  });
+
+  test('scan() reports unmatched and ambiguous signatures', () => {
+    const report = new PEImage(path('x64.dll'), { base: 0x7ff6_0000_0000n }).scan({ entry: '488b05????????c3', invalid: 'zz', missing: 'deadbeef', typeNames: '2e3f4156' });
+    expect(report.matches['entry']).toEqual([{ address: 0x7ff6_0000_1010n, rva: 0x1010, section: '.text' }]);
+    expect(report.matches['typeNames']).toHaveLength(3);
+    expect(report.ambiguous).toEqual(['typeNames']);
+    expect(report.unmatched).toEqual(['invalid', 'missing']);
+    expect(new PEImage(path('x86.dll')).scan({ entry: '488b05????????c3' }, ['.rdata']).unmatched).toEqual(['entry']);
+  });
+});
+
+describe('exception directory', () => {
+  test('parses the RUNTIME_FUNCTION table of x64 images only', () => {
+    const image = new PEImage(fixture('x64.dll'));
+    expect(image.DataDirectory[ImageDirectoryEntry.Exception]).toEqual({ Size: 0x48, VirtualAddress: 0x2600 });
+    expect(image.functions.map(({ BeginAddress, EndAddress }) => [BeginAddress, EndAddress])).toEqual([
+      [0x1008, 0x1010],
+      [0x1010, 0x1018],
+      [0x1020, 0x1028],
+      [0x1028, 0x1030],
+      [0x1030, 0x1038],
+      [0x1038, 0x103c],
+    ]);
+    expect(image.functions[0]).toEqual({ BeginAddress: 0x1008, end: 0x1_8000_1010n, EndAddress: 0x1010, start: 0x1_8000_1008n, UnwindInfoAddress: 0x2680 });
+    expect(new PEImage(fixture('x86.dll')).functions).toEqual([]);
+  });
+
+  test('functionAt() returns the containing function with its unwind info', () => {
+    const image = new PEImage(fixture('x64.dll'));
+    expect(image.functionAt(0x1_8000_1024n)).toEqual({
+      BeginAddress: 0x1020,
+      end: 0x1_8000_1028n,
+      EndAddress: 0x1028,
+      start: 0x1_8000_1020n,
+      UnwindInfoAddress: 0x2690,
+      unwind: { CountOfCodes: 0x01, Flags: 0x01, FrameOffset: 0x02, FrameRegister: 0x05, handler: 0x1_8000_1030n, parent: undefined, SizeOfProlog: 0x04, Version: 0x01 },
+    });
+    expect(image.functionAt(0x1_8000_1010n)!.unwind).toMatchObject({ Flags: 0x00, handler: undefined, SizeOfProlog: 0x00 });
+    for (const address of [0x1_8000_1000n, 0x1_8000_1018n, 0x1_8000_101fn, 0x1_8000_103cn]) {
+      expect(image.functionAt(address)).toBeUndefined();
+    }
+  });
+
+  test('functionAt() names the function a chained fragment belongs to', () => {
+    const { unwind } = new PEImage(fixture('x64.dll')).functionAt(0x1_8000_102fn)!;
+    expect(unwind.Flags).toBe(0x04);
+    expect(unwind.parent).toEqual({ BeginAddress: 0x1020, end: 0x1_8000_1028n, EndAddress: 0x1028, start: 0x1_8000_1020n, UnwindInfoAddress: 0x2690 });
+  });
+
+  test('functionsIn() lists the functions overlapping a range', () => {
+    const image = new PEImage(fixture('x64.dll'));
+    expect(image.functionsIn(0x1_8000_100cn, 0x1_8000_1021n).map(({ BeginAddress }) => BeginAddress)).toEqual([0x1008, 0x1010, 0x1020]);
+    expect(image.functionsIn(0x1_8000_1018n, 0x1_8000_1020n)).toEqual([]);
+    expect(image.functionsIn(0x1_8000_0000n, 0x1_8001_0000n)).toHaveLength(6);
+  });
+
+  test('module.functions and process.functionAt() read the mapped module', () => {
+    using game = load(false, ['x64.dll', 'x64.dll', 0x7ff6_0000_0000n]).process;
+    expect(game.modules['x64.dll']!.functions).toHaveLength(6);
+    expect(game.functionAt(0x7ff6_0000_1034n)).toMatchObject({ BeginAddress: 0x1030, end: 0x7ff6_0000_1038n, start: 0x7ff6_0000_1030n });
+    expect(game.functionAt(0x7ff6_0000_1026n)!.unwind.handler).toBe(0x7ff6_0000_1030n);
+    expect(game.functionAt(0x1234n)).toBeUndefined();
+  });
+});
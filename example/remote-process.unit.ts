@@ -0,0 +1,228 @@
+/**
+ * MemoryServer / RemoteProcess tests against `example/memoryserver.ts`, an in-memory target started
+ * through `serve.ts`.
+ *
+ * Run: bun test ./example/remote-process.unit.ts
+ */
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+
+import { AccessError, MemoryError, Process, RemoteBackend, RemoteProcess, Signature } from '../index.ts';
+import { Opcode, Status } from '../structs/MemoryServer.ts';
+import Socket from '../structs/Socket.ts';
+import { serve, sockets, stopServers } from './serve.ts';
+
+/**
+ * Sends one request frame on a raw connection and returns the response body.
+ */
+const exchange = (socket: Socket, body: Buffer) => {
+  const frame = Buffer.alloc(0x04 + body.byteLength);
+  const response = Buffer.alloc(0x1000);
+
+  frame.writeUInt32LE(body.byteLength, 0x00);
+  body.copy(frame, 0x04);
+  socket.send(frame);
+
+  let received = 0;
+
+  while (received < 0x04 || received < 0x04 + response.readUInt32LE(0x00)) {
+    received += socket.recv(response.subarray(received));
+  }
+
+  return response.subarray(0x04, 0x04 + response.readUInt32LE(0x00));
+};
+
+describe.skipIf(!sockets)('RemoteProcess', () => {
+  const clients: Process[] = [];
+
+  let game: RemoteProcess;
+  let gameAddress: string;
+  let limited: string;
+  let readOnly: string;
+  let tiny: string;
+  let tokened: string;
+
+  beforeAll(async () => {
+    gameAddress = await serve('./memoryserver.ts');
+    game = new RemoteProcess(gameAddress);
+    limited = await serve('./memoryserver.ts', '--max-request-size', '256');
+    readOnly = await serve('./memoryserver.ts', '--read-only');
+    tiny = await serve('./memoryserver.ts', '--max-request-size', '128', '--chunk-size', '13');
+    tokened = await serve('./memoryserver.ts', '--token', 'hunter2');
+
+    clients.push(game);
+  });
+
+  afterAll(() => {
+    for (const client of clients) {
+      client.close();
+    }
+
+    stopServers();
+  });
+
+  test('attaches with the served identity and module list', () => {
+    expect(game.szExeFile).toBe('game.exe');
+    expect(game.is32Bit).toBe(false);
+    expect(game.readOnly).toBe(false);
+    expect(game.modules['game.exe']!.modBaseAddr).toBe(0x40_0000n);
+    expect(game.modules['game.exe']!.szExePath).toBe('C:\\game\\game.exe');
+  });
+
+  test('accessors, batched reads, and batched writes', () => {
+    expect(game.cString(0x60_0000n, 0x20).toString()).toBe('remote marker');
+    expect(game.i32(0x60_0080n)).toBe(100);
+
+    const [marker, missing, health] = game.readMany([
+      { address: 0x60_0000n, length: 0x06 },
+      { address: 0x10n, length: 0x04 },
+      { address: 0x60_0080n, length: 0x04 },
+    ]);
+
+    expect((marker as Buffer).toString()).toBe('remote');
+    expect(missing).toBeInstanceOf(MemoryError);
+    expect((missing as MemoryError).address).toBe(0x10n);
+    expect((health as Buffer).readInt32LE()).toBe(100);
+
+    game.writeMany([
+      { address: 0x60_0084n, data: new Int32Array([50]) },
+      { address: 0x60_0088n, data: new Float32Array([1.5]) },
+    ]);
+
+    expect(game.i32(0x60_0084n)).toBe(50);
+    expect(game.f32(0x60_0088n)).toBe(1.5);
+    expect(() => game.u32(0x40_0000n, 1)).toThrow(MemoryError); // PAGE_READONLY on the server
+  });
+
+  test('query, pattern, and follow run on the server', () => {
+    const regions = game.query();
+
+    expect(regions.map(({ BaseAddress }) => BaseAddress)).toContain(0x60_0000n);
+    expect(regions.find(({ BaseAddress }) => BaseAddress === 0x40_0000n)!.RegionSize).toBe(0x2000n);
+
+    expect(game.pattern('deadbeef??37', 0x40_0000n, 0x2000)).toBe(0x40_1800n);
+    expect(game.pattern('deadbeef??37', 0x40_0000n, 0x2000, true)).toEqual([0x40_1800n]);
+    expect(game.pattern('cafebabe', 0x40_0000n, 0x2000)).toBe(-1n);
+    expect(game.pattern('DE AD B? EF ? 3?', 0x40_0000n, 0x2000)).toBe(0x40_1800n);
+    expect(
+      game.pattern(
+        'DE AD BE EF',
+        {
+          ranges: [
+            { address: 0x60_0000n, length: 0x100 },
+            { address: 0x40_0000n, length: 0x2000 },
+          ],
+        },
+        true,
+      ),
+    ).toEqual([0x40_1800n]);
+    expect(game.pattern(new Signature('\xDE\xAD\xBE\xEF\x00\x37', 'xxxx?x'), 0x40_0000n, 0x2000, true)).toEqual([0x40_1800n]);
+
+    expect(game.follow(0x60_0000n, [0x40n, 0x40n, 0x80n])).toBe(0x60_0080n);
+    expect(game.follow(0x60_0000n, [0x48n, 0x80n])).toBe(-1n);
+  });
+
+  test('a plain Process over RemoteBackend uses the same server', () => {
+    const plain = new Process(new RemoteBackend(readOnly));
+
+    clients.push(plain);
+
+    expect(plain.follow(0x60_0000n, [0x40n, 0x80n])).toBe(0x60_0080n);
+    expect(plain.pattern('1337', 0x40_0000n, 0x2000)).toBe(0x40_1804n);
+    expect(() => plain.i32(0x60_0080n, 0)).toThrow('the server is read-only'); // refused by the server
+  });
+
+  test('a read-only server refuses writes and protection changes', () => {
+    const viewer = new RemoteProcess(readOnly);
+
+    clients.push(viewer);
+
+    expect(viewer.readOnly).toBe(true);
+    expect(viewer.i32(0x60_0080n)).toBe(100);
+    expect(() => viewer.i32(0x60_0080n, 0)).toThrow(AccessError);
+    expect(() => viewer.protection(0x60_0000n, 0x1000, 0x04)).toThrow(AccessError);
+    expect(viewer.i32(0x60_0080n)).toBe(100);
+  });
+
+  test('tokens are checked before anything else', () => {
+    expect(() => new RemoteProcess(tokened)).toThrow('unauthorized');
+    expect(() => new RemoteProcess(tokened, { token: 'hunter3' })).toThrow('The token was rejected');
+
+    const trusted = new RemoteProcess(tokened, { token: 'hunter2' });
+
+    clients.push(trusted);
+
+    expect(trusted.i32(0x60_0080n)).toBe(100);
+  });
+
+  test('a Write batch that does not fill its frame exactly is refused before anything is written', () => {
+    const [host, port] = gameAddress.split(':') as [string, string];
+    const socket = new Socket(host, Number(port));
+    const hello = Buffer.alloc(0x03);
+
+    hello.writeUInt8(Opcode.Hello, 0x00);
+    hello.writeUInt16LE(0x01, 0x01);
+
+    const write = (count: number, entries: [address: bigint, length: number, data: number[]][], trailer: number[] = []) => {
+      const header = Buffer.alloc(0x05);
+
+      header.writeUInt8(Opcode.Write, 0x00);
+      header.writeUInt32LE(count, 0x01);
+
+      const parts = entries.map(([address, length, data]) => {
+        const entry = Buffer.alloc(0x0c + data.length);
+
+        entry.writeBigUInt64LE(address, 0x00);
+        entry.writeUInt32LE(length, 0x08);
+        entry.set(data, 0x0c);
+
+        return entry;
+      });
+
+      return exchange(socket, Buffer.concat([header, ...parts, Buffer.from(trailer)]));
+    };
+
+    try {
+      expect(exchange(socket, hello)[0x00]).toBe(Status.Ok);
+      expect(write(0x01, [[0x60_0080n, 0x08, [0x01, 0x02, 0x03, 0x04]]]).toString('utf8', 0x01)).toBe('Malformed request.'); // truncated
+      expect(write(0x01, [[0x60_0080n, 0x04, [0x01, 0x02, 0x03, 0x04]]], [0xff])[0x00]).toBe(Status.Failed); // trailing bytes
+      expect(write(0x02, [[0x60_0080n, 0x04, [0x01, 0x02, 0x03, 0x04]]])[0x00]).toBe(Status.Failed); // a count past the last entry
+      expect(game.i32(0x60_0080n)).toBe(100);
+      expect(write(0x01, [[0x60_0088n, 0x04, [0x01, 0x02, 0x03, 0x04]]])[0x00]).toBe(Status.Ok);
+      expect(game.u32(0x60_0088n)).toBe(0x0403_0201);
+    } finally {
+      socket.close();
+    }
+  });
+
+  test('requests over the size limit are refused', () => {
+    const small = new RemoteProcess(limited);
+
+    clients.push(small);
+
+    expect(small.maxRequestSize).toBe(256);
+    expect(small.buffer(0x60_0000n, 0x100).byteLength).toBe(0x100);
+    expect(() => small.buffer(0x60_0000n, 0x101)).toThrow('the request exceeds the server size limit');
+    expect(() =>
+      small.readMany([
+        { address: 0x60_0000n, length: 0x80 },
+        { address: 0x60_0080n, length: 0x81 },
+      ]),
+    ).toThrow(MemoryError);
+    expect(small.i32(0x60_0080n)).toBe(100); // the connection survives a refused batch
+    expect(() => small.buffer(0x60_0000n, Buffer.alloc(0x200))).toThrow(); // an oversized frame ends the connection
+  });
+
+  test('pattern and query responses over the size limit are refused', () => {
+    const small = new RemoteProcess(tiny);
+
+    clients.push(small);
+
+    expect(small.pattern('1337', 0x40_0000n, 0x2000, true)).toEqual([0x40_1804n]); // scanned in 13-byte windows
+    expect(small.pattern('deadbeef1337', 0x40_0000n, 0x2000, true)).toEqual([0x40_1800n]); // across a window boundary
+    expect(small.pattern('0000', 0x60_0000n, 0x1000, false)).toBe(0x60_000dn); // the first match is not capped
+    expect(() => small.pattern('0000', 0x60_0000n, 0x1000, true)).toThrow('the request exceeds the server size limit');
+    expect((small.backend as RemoteBackend).regions(0x00n, 0x02).length).toBe(0x02);
+    expect(() => small.query()).toThrow('the request exceeds the server size limit');
+    expect(small.i32(0x60_0080n)).toBe(100); // the connection survives
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * RecordingBackend / ReplayBackend unit tests: record a session against a BufferBackend, then serve
+ * the trace back in sequential and address mode and compare what the accessors return.
+ *
+ * Run: bun test ./example/replay-backend.unit.ts
+ */
+import { afterAll, describe, expect, test } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { BufferBackend, MemoryError, Module, Process, ReplayBackend, type TraceEvent } from '../index.ts';
+
+const directory = mkdtempSync(join(tmpdir(), 'bun-memory-trace-'));
+
+afterAll(() => rmSync(directory, { force: true, recursive: true }));
+
+/**
+ * Runs the same reads against any Process, so recorded and replayed results can be compared.
+ */
+const session = (process: Process) => ({
+  follow: process.follow(0x40_0000n, [0x10n, 0x08n]),
+  list: [...process.utlLinkedListU64(0x40_0200n)],
+  name: process.tArrayChar(0x40_0040n),
+  regions: process.query().length,
+  value: process.u32(0x40_0108n),
+});
+
+const record = (name: string) => {
+  const backend = new BufferBackend({ modules: [Module.from({ modBaseAddr: 0x40_0000n, modBaseSize: 0x1000, szModule: 'game.exe' })], szExeFile: 'game.exe', th32ProcessID: 99 });
+  const memory = Buffer.alloc(0x1000);
+
+  memory.writeBigUInt64LE(0x40_0100n, 0x10); // follow: [0x400010] → 0x400100, + 0x08
+  memory.writeUInt32LE(0xc0ffee, 0x108);
+  memory.writeBigUInt64LE(0x40_0080n, 0x40); // TArray<char> { data, count }
+  memory.writeUInt32LE(0x06, 0x48);
+  memory.write('trace\0', 0x80);
+  memory.writeUInt16LE(0x02, 0x202); // UtlLinkedList { capacity: 2, elements: 0x400300, head: 1 }
+  memory.writeBigUInt64LE(0x40_0300n, 0x208);
+  memory.writeUInt16LE(0x01, 0x210);
+  memory.writeBigUInt64LE(0x22n, 0x300); // [0] value 0x22, next 0xffff
+  memory.writeUInt16LE(0xffff, 0x30a);
+  memory.writeBigUInt64LE(0x11n, 0x310); // [1] value 0x11, next 0
+  memory.writeUInt16LE(0x00, 0x31a);
+
+  backend.map(0x40_0000n, memory);
+
+  const path = join(directory, name);
+  const process = Process.record(backend, path);
+  const result = session(process);
+
+  expect(() => process.u32(0x90_0000n)).toThrow(MemoryError);
+
+  process.close();
+
+  return { path, result };
+};
+
+describe('RecordingBackend', () => {
+  test('writes an attach line, then one NDJSON event per call', () => {
+    const { path } = record('lines.ndjson');
+    const events = readFileSync(path, 'utf8')
+      .trimEnd()
+      .split('\n')
+      .map((line) => JSON.parse(line) as TraceEvent);
+
+    expect(events[0]).toMatchObject({ t: 'attach', szExeFile: 'game.exe', th32ProcessID: 99, version: 1 });
+    expect(events[1]).toMatchObject({ t: 'modules', modules: [{ modBaseAddr: '0x400000', modBaseSize: 0x1000, szModule: 'game.exe' }] });
+    expect(events.filter(({ t }) => t === 'read').length).toBeGreaterThan(4);
+    expect(events.at(-1)).toMatchObject({ t: 'read', address: '0x900000', size: '0x4' });
+    expect(events.at(-1)).toHaveProperty('error');
+  });
+});
+
+describe('ReplayBackend', () => {
+  test('sequential mode serves the session byte-for-byte, recorded failures included', () => {
+    const { path, result } = record('sequential.ndjson');
+    const replay = new Process(new ReplayBackend(path));
+
+    expect(result).toEqual({ follow: 0x40_0108n, list: [0x11n, 0x22n], name: 'trace', regions: 2, value: 0xc0ffee });
+    expect(replay.szExeFile).toBe('game.exe');
+    expect(replay.modules['game.exe']!.modBaseAddr).toBe(0x40_0000n);
+    expect(session(replay)).toEqual(result);
+    expect(() => replay.u32(0x90_0000n)).toThrow('recorded failure');
+    expect(() => replay.u32(0x40_0000n)).toThrow('the trace has ended');
+  });
+
+  test('sequential mode reports where a run diverges from the trace', () => {
+    const { path } = record('diverge.ndjson');
+    const replay = new Process(new ReplayBackend(path));
+
+    expect(() => replay.u32(0x40_0108n)).toThrow(/diverged at line 3: expected read of 0x8 bytes at 0x400010/);
+  });
+
+  test('address mode serves reads in any order and layers writes on top', () => {
+    const { path, result } = record('address.ndjson');
+    const replay = new Process(new ReplayBackend(path, { mode: 'address' }));
+
+    expect(replay.u32(0x40_0108n)).toBe(result.value);
+    expect(replay.tArrayChar(0x40_0040n)).toBe(result.name);
+    expect(replay.follow(0x40_0000n, [0x10n, 0x08n])).toBe(result.follow);
+    expect(replay.query()).toHaveLength(result.regions);
+    expect(() => replay.u32(0x40_0500n)).toThrow('not read in the trace');
+
+    replay.u32(0x40_0108n, 0x1234);
+    expect(replay.u32(0x40_0108n)).toBe(0x1234);
+  });
+
+  test('address mode checks the other calls against the event they are served', () => {
+    const backend = new ReplayBackend(
+      [
+        { t: 'attach', cntThreads: 1, is32Bit: false, pcPriClassBase: 8, szExeFile: 'game.exe', th32ParentProcessID: 1, th32ProcessID: 99, version: 1 },
+        { t: 'protect', address: '0x400000', previous: 0x02, protect: 0x04, size: '0x1000' },
+        { t: 'free', address: '0x500000' },
+      ],
+      { mode: 'address' },
+    );
+
+    expect(() => backend.protect(0xdead_0000n, 0x1000n, 0x04)).toThrow('trace diverged: the next recorded protect is protect of 0x1000 bytes at 0x400000');
+    expect(() => backend.protect(0x40_0000n, 0x2000n, 0x04)).toThrow(MemoryError);
+    expect(backend.protect(0x40_0000n, 0x1000n, 0x04)).toBe(0x02); // a divergence does not consume the event
+    expect(() => backend.free(0x60_0000n)).toThrow('trace diverged');
+    backend.free(0x50_0000n);
+    expect(() => backend.free(0x50_0000n)).toThrow('the trace has no further free events');
+  });
+
+  test('rejects a trace without an attach line', () => {
+    expect(() => new ReplayBackend([{ t: 'threads', threads: [] }])).toThrow('attach');
+  });
+});
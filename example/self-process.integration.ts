@@ -9,7 +9,7 @@
 import { afterAll, describe, expect, test } from 'bun:test';
 import { FFIType, ptr } from 'bun:ffi';
 
-import Process from '../index.ts';
+import Process, { AccessError, AmbiguousProcessError } from '../index.ts';
 import Win32Error from '../structs/Win32Error.ts';
 
 const self = new Process(process.pid);
@@ -35,6 +35,73 @@ describe('attach', () => {
   });
 });
 
+describe('process list', () => {
+  test('lists the current process without opening it, by name, glob, RegExp, or predicate', () => {
+    const entry = Process.list(({ th32ProcessID }) => th32ProcessID === process.pid)[0]!;
+    expect(entry.szExeFile).toBe(self.szExeFile);
+    expect(entry.th32ParentProcessID).toBe(self.th32ParentProcessID);
+    expect(Process.list(self.szExeFile.toUpperCase()).some(({ th32ProcessID }) => th32ProcessID === process.pid)).toBe(true);
+    expect(Process.list(`${self.szExeFile.slice(0, 2)}*`).some(({ th32ProcessID }) => th32ProcessID === process.pid)).toBe(true);
+    expect(Process.list(new RegExp(`^${self.szExeFile.replace('.', '\\.')}$`, 'i')).length).toBeGreaterThan(0);
+    expect(Process.list('no-such-process-*.exe')).toEqual([]);
+  });
+
+  test('tree nests the current process under its parent', () => {
+    const [parent] = Process.tree(({ th32ProcessID }) => th32ProcessID === self.th32ParentProcessID);
+    expect(parent?.children.some(({ th32ProcessID }) => th32ProcessID === process.pid)).toBe(true);
+    const seen = new Set<number>();
+    const walk = (nodes: ReturnType<typeof Process.tree>): void => nodes.forEach((node) => (expect(seen.has(node.th32ProcessID)).toBe(false), seen.add(node.th32ProcessID), walk(node.children)));
+    walk(Process.tree());
+    expect(seen.size).toBe(Process.list().length); // every process appears exactly once
+  });
+
+  test('attaches from an entry, and refuses to guess between same-named processes', () => {
+    const entry = Process.list(({ th32ProcessID }) => th32ProcessID === process.pid)[0]!;
+    const attached = new Process(entry);
+    expect(attached.th32ProcessID).toBe(process.pid);
+    attached.close();
+    const child = Bun.spawn([process.execPath, '-e', 'setTimeout(() => {}, 10_000)']);
+    try {
+      const name = self.szExeFile;
+      let caught: unknown;
+      try {
+        new Process(name).close();
+      } catch (error) {
+        caught = error;
+      }
+      if (!(caught instanceof AmbiguousProcessError)) throw new Error('expected an AmbiguousProcessError');
+      expect(caught.candidates.map(({ th32ProcessID }) => th32ProcessID)).toContain(child.pid);
+    } finally {
+      child.kill();
+    }
+  });
+});
+
+describe('lifecycle', () => {
+  test('waitFor resolves for a running process and rejects on timeout or abort', async () => {
+    const attached = await Process.waitFor(process.pid, { readOnly: true });
+    expect(attached.th32ProcessID).toBe(process.pid);
+    expect(attached.isAlive).toBe(true);
+    expect(attached.exitCode).toBeUndefined();
+    attached.close();
+    await expect(Process.waitFor('no-such-process.exe', { pollInterval: 10, timeout: 50 })).rejects.toThrow('Timed out after 50 ms');
+    const controller = new AbortController();
+    const waiting = Process.waitFor('no-such-process.exe', { pollInterval: 10, signal: controller.signal });
+    controller.abort(new Error('stopped'));
+    await expect(waiting).rejects.toThrow('stopped');
+  });
+
+  test("reports the exit code and emits 'exit' when the target exits", async () => {
+    const child = Bun.spawn([process.execPath, '-e', 'setTimeout(() => process.exit(7), 500)']);
+    const target = await Process.waitFor(child.pid, { pollInterval: 20 });
+    const exitCode = await new Promise<number | undefined>((resolve) => target.once('exit', resolve));
+    expect(exitCode).toBe(7);
+    expect(target.isAlive).toBe(false);
+    expect(target.exitCode).toBe(7);
+    target.close();
+  });
+});
+
 describe('scalars', () => {
   test('bool', () => {
     const buffer = Buffer.alloc(4);
@@ -417,6 +484,40 @@ describe('memory management', () => {
   });
 });
 
+describe('access rights', () => {
+  test('a narrowed handle names the right an operation is missing', () => {
+    const reader = new Process(process.pid, { access: 0x0010 /* PROCESS_VM_READ */ });
+    const buffer = Buffer.from([0x2a]);
+    try {
+      expect(reader.u8(at(buffer))).toBe(0x2a);
+      expect(() => reader.u8(at(buffer), 0)).toThrow(AccessError);
+      expect(() => reader.u8(at(buffer), 0)).toThrow('WriteProcessMemory requires PROCESS_VM_OPERATION | PROCESS_VM_WRITE');
+      expect(() => reader.query()).toThrow('VirtualQueryEx requires PROCESS_QUERY_INFORMATION');
+      expect(buffer[0]).toBe(0x2a);
+      // PROCESS_QUERY_LIMITED_INFORMATION is always added, so liveness polling still works.
+      expect(reader.isAlive).toBe(true);
+      reader.on('exit', () => {});
+    } finally {
+      reader.close();
+    }
+  });
+
+  test('readOnly refuses writes, alloc, and call before the OS is reached', () => {
+    const viewer = Process.from(process.pid, { readOnly: true });
+    const buffer = Buffer.from([0x2a]);
+    try {
+      expect(viewer.readOnly).toBe(true);
+      expect(viewer.query().length).toBeGreaterThan(0);
+      expect(() => viewer.u8(at(buffer), 0, true)).toThrow('write is not allowed: the process was attached read-only.');
+      expect(() => viewer.alloc(0x1000)).toThrow(AccessError);
+      expect(() => viewer.call(0x1000n, { args: [], returns: FFIType.void } as const)).toThrow(AccessError);
+      expect(buffer[0]).toBe(0x2a);
+    } finally {
+      viewer.close();
+    }
+  });
+});
+
 describe('remote call', () => {
   test('call() executes a remote function (mov eax, 0x1337; ret)', () => {
     const fn = self.alloc(0x10, 0x40 /* PAGE_EXECUTE_READWRITE */);
@@ -431,6 +532,37 @@ describe('remote call', () => {
     expect(self.call(fn, { args: [FFIType.u32], returns: FFIType.u32 } as const, 0x1234)).toBe(0x1234);
     self.free(fn);
   });
+
+  test('call() runs an export resolved by getProcAddress, including a forwarded one', () => {
+    const getCurrentProcessId = self.getProcAddress('kernel32.dll', 'GetCurrentProcessId');
+    expect(self.call(getCurrentProcessId, { args: [], returns: FFIType.u32 } as const)).toBe(process.pid);
+    expect(self.modules['KERNEL32.DLL']?.pe.Machine ?? self.modules['kernel32.dll']!.pe.Machine).toBe(0x8664);
+    expect(self.getProcAddress('kernel32.dll', 'HeapAlloc')).toBe(self.getProcAddress('ntdll.dll', 'RtlAllocateHeap')); // NTDLL.RtlAllocateHeap
+    expect(self.backend.peb!()).toBeGreaterThan(0x00n);
+    expect(self.getProcAddress('kernel32.dll', 'AddDllDirectory')).toBe(self.getProcAddress('kernelbase.dll', 'AddDllDirectory')); // api-ms-win-core-libraryloader-l1-1-0.AddDllDirectory
+  });
+
+  test('lists the IAT of the executable and patches a slot reversibly', () => {
+    const executable = self.modules[self.szExeFile]!;
+    const imports = executable.pe.imports.filter(({ delayed, dll, Name }) => !delayed && dll.toLowerCase() === 'kernel32.dll' && Name !== undefined);
+    expect(imports.length).toBeGreaterThan(0);
+    const entry = imports[0]!;
+    expect(self.uPtr(entry.slot)).toBe(entry.target);
+    {
+      // Store the pointer the slot already holds: the write path is exercised without redirecting a live import.
+      using patch = self.patchImport(executable, entry.dll, entry.Name!, entry.target);
+      expect(patch.original).toBe(entry.target);
+    }
+    expect(self.uPtr(entry.slot)).toBe(entry.target);
+  });
+});
+
+describe('module integrity', () => {
+  test('verify() finds kernel32.dll unmodified, its CFG guard slots included', () => {
+    const kernel32 = self.findModule('kernel32.dll')!;
+    expect(kernel32.pe.guardSlots.length).toBeGreaterThan(0);
+    expect(kernel32.verify()).toEqual([]);
+  });
 });
 
 describe('reliability', () => {
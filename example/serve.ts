@@ -0,0 +1,40 @@
+/**
+ * Shared harness for the tests that talk to a stand-in server (`gdbstub.ts`, `memoryserver.ts`).
+ * `Socket` calls block, so a server cannot share the test's event loop: each one runs as a child
+ * process and prints the port it listens on (127.0.0.1) as its first line of stdout.
+ */
+import type { Subprocess } from 'bun';
+
+/**
+ * Servers started by `serve()` and not yet stopped.
+ */
+const servers: Subprocess[] = [];
+
+/**
+ * Whether `Socket` supports this platform, and so whether the server tests can run.
+ */
+export const sockets = process.platform === 'linux' || process.platform === 'win32';
+
+/**
+ * Starts `script` (a path relative to `example/`) with `args` and waits for its port.
+ * @returns The `127.0.0.1:<port>` address it listens on.
+ */
+export const serve = async (script: string, ...args: string[]) => {
+  const server = Bun.spawn([process.execPath, new URL(script, import.meta.url).pathname, ...args], { stderr: 'inherit', stdout: 'pipe' });
+  const reader = server.stdout.getReader();
+  const { value } = await reader.read();
+
+  reader.releaseLock();
+  servers.push(server);
+
+  return `127.0.0.1:${new TextDecoder().decode(value).trim()}`;
+};
+
+/**
+ * Kills every server `serve()` started.
+ */
+export const stopServers = () => {
+  for (const server of servers.splice(0x00)) {
+    server.kill();
+  }
+};
@@ -1,8 +1,79 @@
 import './runtime/extensions';
 
+import AccessError from './structs/AccessError';
+import AmbiguousProcessError from './structs/AmbiguousProcessError';
+import BufferBackend from './structs/BufferBackend';
+import GdbBackend from './structs/GdbBackend';
+import Kernel32Backend from './structs/Kernel32Backend';
+import LinuxBackend from './structs/LinuxBackend';
+import MemoryError from './structs/MemoryError';
+import MemoryServer from './structs/MemoryServer';
+import MinidumpBackend from './structs/MinidumpBackend';
+import MinidumpWriter from './structs/MinidumpWriter';
 import Module from './structs/Module';
+import PDB from './structs/PDB';
+import PEImage, { ImageDirectoryEntry } from './structs/PEImage';
 import Process from './structs/Process';
+import RecordingBackend from './structs/RecordingBackend';
+import RemoteBackend from './structs/RemoteBackend';
+import RemoteProcess from './structs/RemoteProcess';
+import ReplayBackend from './structs/ReplayBackend';
+import ResolveError from './structs/ResolveError';
+import RTTI from './structs/RTTI';
+import Signature from './structs/Signature';
+import SignatureScanner from './structs/SignatureScanner';
 
 export default Process;
-export { Module, Process };
-export type { CallArguments, CallPointer, CallReturn, CallSignature } from './types/Process';
+export {
+  AccessError,
+  AmbiguousProcessError,
+  BufferBackend,
+  GdbBackend,
+  ImageDirectoryEntry,
+  Kernel32Backend,
+  LinuxBackend,
+  MemoryError,
+  MemoryServer,
+  MinidumpBackend,
+  MinidumpWriter,
+  Module,
+  PDB,
+  PEImage,
+  Process,
+  RecordingBackend,
+  RemoteBackend,
+  RemoteProcess,
+  ReplayBackend,
+  ResolveError,
+  RTTI,
+  Signature,
+  SignatureScanner,
+};
+export type { Backend } from './types/Backend';
+export type { PDBContribution, PDBSymbol } from './types/PDB';
+export type { ImportPatch, PECodeView, PEDataDirectory, PEExport, PEFunction, PEImport, PEMatch, PERelocation, PESection, PEUnwindInfo, SectionDiff, SignatureReport } from './types/PE';
+export type {
+  CallArguments,
+  CallPointer,
+  CallReturn,
+  CallSignature,
+  DumpOptions,
+  PatternByte,
+  PatternNibble,
+  PatternString,
+  PatternWildcard,
+  ProcessEntry,
+  ProcessEvents,
+  ProcessFilter,
+  ProcessOptions,
+  ProcessTreeNode,
+  RegionFilter,
+  ScanRange,
+  ScanScope,
+  SuperviseOptions,
+  WaitForModuleOptions,
+  WaitForOptions,
+} from './types/Process';
+export type { RTTIBaseClass, RTTIClass, RTTIVTable } from './types/RTTI';
+export type { ResolveStep, ScanOptions, ScanReport, SignatureResolver } from './types/Signature';
+export type { TraceEvent, TraceModule } from './types/Trace';
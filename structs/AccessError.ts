@@ -0,0 +1,55 @@
+/**
+ * Represents an operation refused before it reached the OS: the process handle lacks a right the
+ * operation needs, or the `Process` was attached read-only.
+ *
+ * @example
+ * ```ts
+ * import AccessError from './AccessError';
+ * throw new AccessError('WriteProcessMemory', ['PROCESS_VM_WRITE']);
+ * ```
+ */
+class AccessError extends Error {
+  /**
+   * Names of the access rights the handle lacks, or empty when a read-only `Process` refused the operation.
+   * @example
+   * ```ts
+   * if (error instanceof AccessError) {
+   *   console.log(error.missing); // ['PROCESS_VM_OPERATION']
+   * }
+   * ```
+   */
+  public readonly missing: readonly string[];
+
+  /**
+   * Name of the refused operation.
+   * @example
+   * ```ts
+   * if (error instanceof AccessError) {
+   *   console.log(error.what);
+   * }
+   * ```
+   */
+  public readonly what: string;
+
+  /**
+   * Creates a new AccessError.
+   * @param what Name of the refused operation (e.g., "VirtualAllocEx" or "write").
+   * @param missing Names of the missing access rights; empty for a read-only refusal.
+   * @example
+   * ```ts
+   * throw new AccessError('alloc', []);
+   * ```
+   */
+  constructor(what: string, missing: readonly string[]) {
+    super(missing.length !== 0 ? `${what} requires ${missing.join(' | ')}, which the process handle was not opened with.` : `${what} is not allowed: the process was attached read-only.`);
+
+    this.missing = missing;
+    this.name = 'AccessError';
+    this.what = what;
+
+    Error.captureStackTrace?.(this, AccessError);
+  }
+}
+
+export default AccessError;
+export { AccessError };
@@ -0,0 +1,64 @@
+import type { ProcessEntry } from '../types/Process';
+
+/**
+ * Represents an attach by executable name that matched more than one running process.
+ *
+ * Attaching never picks one of them silently; choose from `candidates` and attach by PID or entry.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   new Process('chrome.exe');
+ * } catch (error) {
+ *   if (error instanceof AmbiguousProcessError) {
+ *     const newest = error.candidates.at(-1)!;
+ *     new Process(newest);
+ *   }
+ * }
+ * ```
+ */
+class AmbiguousProcessError extends Error {
+  /**
+   * The matching processes, in snapshot order.
+   * @example
+   * ```ts
+   * if (error instanceof AmbiguousProcessError) {
+   *   console.log(error.candidates.map(({ th32ProcessID }) => th32ProcessID));
+   * }
+   * ```
+   */
+  public readonly candidates: readonly ProcessEntry[];
+
+  /**
+   * The executable name that matched them.
+   * @example
+   * ```ts
+   * if (error instanceof AmbiguousProcessError) {
+   *   console.log(error.szExeFile);
+   * }
+   * ```
+   */
+  public readonly szExeFile: string;
+
+  /**
+   * Creates a new AmbiguousProcessError.
+   * @param szExeFile Executable name that was asked for.
+   * @param candidates The processes it matched.
+   * @example
+   * ```ts
+   * throw new AmbiguousProcessError('chrome.exe', Process.list('chrome.exe'));
+   * ```
+   */
+  constructor(szExeFile: string, candidates: readonly ProcessEntry[]) {
+    super(`${candidates.length} processes are named ${szExeFile} (PIDs ${candidates.map(({ th32ProcessID }) => th32ProcessID).join(', ')}); attach by PID or by an entry from Process.list().`);
+
+    this.candidates = candidates;
+    this.name = 'AmbiguousProcessError';
+    this.szExeFile = szExeFile;
+
+    Error.captureStackTrace?.(this, AmbiguousProcessError);
+  }
+}
+
+export default AmbiguousProcessError;
+export { AmbiguousProcessError };
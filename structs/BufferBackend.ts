@@ -0,0 +1,333 @@
+import { type Pointer, toArrayBuffer } from 'bun:ffi';
+
+import { MemoryAllocationType, MemoryProtection } from '@bun-win32/kernel32';
+
+import type { Backend } from '../types/Backend';
+import MemoryBasicInformation from './MemoryBasicInformation';
+import MemoryError from './MemoryError';
+import type Module from './Module';
+
+const MEM_FREE = 0x0001_0000;
+const MEM_PRIVATE = 0x0002_0000;
+
+const PageReadable =
+  MemoryProtection.PAGE_READONLY | MemoryProtection.PAGE_READWRITE | MemoryProtection.PAGE_WRITECOPY | MemoryProtection.PAGE_EXECUTE_READ | MemoryProtection.PAGE_EXECUTE_READWRITE | MemoryProtection.PAGE_EXECUTE_WRITECOPY;
+const PageWritable = MemoryProtection.PAGE_READWRITE | MemoryProtection.PAGE_WRITECOPY | MemoryProtection.PAGE_EXECUTE_READWRITE | MemoryProtection.PAGE_EXECUTE_WRITECOPY;
+
+/**
+ * A committed range of a BufferBackend address space.
+ */
+type Region = {
+  allocationBase: bigint;
+  allocationProtect: number;
+  base: bigint;
+  buffer: Buffer;
+  protect: number;
+  type: number;
+};
+
+/**
+ * An in-memory `Process` backend that serves plain buffers as a fake address space.
+ *
+ * Regions are mapped at chosen addresses (or placed by `alloc`), honor page protection on reads and
+ * writes, and split on `protect` like real pages do, so struct readers, `follow`, `pattern`, the
+ * engine containers, and 32-bit width handling can be unit-tested without a target process.
+ * Mapped buffers are shared, not copied: writes through the Process land in the caller's buffer.
+ *
+ * @example
+ * ```ts
+ * const backend = new BufferBackend({ is32Bit: true });
+ * backend.map(0x10000n, Buffer.from([0x78, 0x56, 0x34, 0x12]));
+ *
+ * const process = new Process(backend);
+ * process.u32(0x10000n); // 0x12345678
+ * ```
+ */
+class BufferBackend implements Backend {
+  /**
+   * Creates an empty address space.
+   * @param options Architecture, identity, and initial module list of the fake target.
+   * @example
+   * ```ts
+   * const backend = new BufferBackend({ modules: [Module.from({ modBaseAddr: 0x400000n, modBaseSize: 0x1000, szModule: 'game.exe' })] });
+   * ```
+   */
+  constructor(options: { is32Bit?: boolean; modules?: readonly Module[]; szExeFile?: string; th32ProcessID?: number } = {}) {
+    this.is32Bit = options.is32Bit ?? false;
+    this.szExeFile = options.szExeFile ?? '';
+    this.th32ProcessID = options.th32ProcessID ?? 0;
+
+    this.#modules = [...(options.modules ?? [])];
+  }
+
+  /**
+   * Modules reported by modules().
+   */
+  readonly #modules: Module[];
+
+  /**
+   * Committed regions, sorted by base address and never overlapping.
+   */
+  readonly #regions: Region[] = [];
+
+  public readonly cntThreads = 0;
+  public readonly hProcess = 0n;
+  public readonly is32Bit: boolean;
+  public readonly pcPriClassBase = 0;
+  public readonly szExeFile: string;
+  public readonly th32ParentProcessID = 0;
+  public readonly th32ProcessID: number;
+
+  /**
+   * Maps a buffer into the address space.
+   * @param address Base address of the new region.
+   * @param bufferOrLength Buffer to share, or a length to allocate zero-filled.
+   * @param protect Page protection (defaults to PAGE_READWRITE).
+   * @param type Region type reported by query() (defaults to MEM_PRIVATE).
+   * @returns This instance.
+   * @throws If the region overlaps an existing one.
+   * @example
+   * ```ts
+   * backend.map(0x10000n, 0x1000, MemoryProtection.PAGE_READONLY);
+   * ```
+   */
+  public map(address: bigint, bufferOrLength: Buffer | number, protect: number = MemoryProtection.PAGE_READWRITE, type: number = MEM_PRIVATE): this {
+    const buffer = typeof bufferOrLength === 'number' ? Buffer.alloc(bufferOrLength) : bufferOrLength;
+
+    if (buffer.byteLength === 0) {
+      throw new RangeError('A mapped region must not be empty.');
+    }
+
+    const end = address + BigInt(buffer.byteLength);
+    const index = this.#regions.findIndex((region) => region.base >= address);
+    const previous = this.#regions[(index === -1 ? this.#regions.length : index) - 1];
+    const next = index === -1 ? undefined : this.#regions[index];
+
+    if ((previous !== undefined && previous.base + BigInt(previous.buffer.byteLength) > address) || (next !== undefined && next.base < end)) {
+      throw new MemoryError('map', address, 'range overlaps a mapped region');
+    }
+
+    const region = { allocationBase: address, allocationProtect: protect, base: address, buffer, protect, type };
+
+    this.#regions.splice(index === -1 ? this.#regions.length : index, 0, region);
+
+    return this;
+  }
+
+  /**
+   * Adds a module to the list modules() reports, as if the target had just loaded it.
+   * @param module The module.
+   * @returns This instance.
+   * @example
+   * ```ts
+   * backend.loadModule(Module.from({ modBaseAddr: 0x7ff6_0000_0000n, modBaseSize: 0x4000, szModule: 'client.dll' }));
+   * ```
+   */
+  public loadModule(module: Module): this {
+    this.#modules.push(module);
+
+    return this;
+  }
+
+  /**
+   * Removes every module of a name from the list modules() reports, as if the target had unloaded it.
+   * Mapped memory is left alone.
+   * @param szModule Module name.
+   * @returns This instance.
+   * @example
+   * ```ts
+   * backend.unloadModule('client.dll');
+   * ```
+   */
+  public unloadModule(szModule: string): this {
+    for (let index = this.#modules.length - 1; index >= 0; index--) {
+      if (this.#modules[index]!.szModule === szModule) {
+        this.#modules.splice(index, 1);
+      }
+    }
+
+    return this;
+  }
+
+  public alloc(dwSize: bigint, flProtect: number): bigint {
+    const last = this.#regions.at(-1);
+    const end = last === undefined ? 0x1_0000n : last.base + BigInt(last.buffer.byteLength);
+    const address = (end + 0xffffn) & ~0xffffn;
+
+    this.map(address, Number((dwSize + 0xfffn) & ~0xfffn), flProtect);
+
+    return address;
+  }
+
+  public close(): void {
+    return;
+  }
+
+  public execute(lpStartAddress: bigint): void {
+    throw new MemoryError('execute', lpStartAddress, 'a BufferBackend cannot run code');
+  }
+
+  public free(lpAddress: bigint): void {
+    const length = this.#regions.length;
+
+    for (let index = length - 1; index >= 0; index--) {
+      if (this.#regions[index]!.allocationBase === lpAddress) {
+        this.#regions.splice(index, 1);
+      }
+    }
+
+    if (this.#regions.length === length) {
+      throw new MemoryError('free', lpAddress, 'address is not an allocation base');
+    }
+
+    return;
+  }
+
+  public modules(): Module[] {
+    return [...this.#modules];
+  }
+
+  public protect(lpAddress: bigint, dwSize: bigint, flNewProtect: number): number {
+    // Protection is tracked per byte range rather than per page, so mapped buffers need no alignment.
+    const start = lpAddress;
+    const end = lpAddress + dwSize;
+
+    this.#span('protect', start, dwSize);
+
+    this.#split(start);
+    this.#split(end);
+
+    let previous: number | undefined;
+
+    for (const region of this.#regions) {
+      if (region.base >= start && region.base < end) {
+        previous ??= region.protect;
+        region.protect = flNewProtect;
+      }
+    }
+
+    return previous!;
+  }
+
+  public query(lpAddress: bigint, lpBuffer: Buffer): boolean {
+    for (const region of this.#regions) {
+      const end = region.base + BigInt(region.buffer.byteLength);
+
+      if (end <= lpAddress) {
+        continue;
+      }
+
+      if (region.base <= lpAddress) {
+        MemoryBasicInformation.encode(lpBuffer, {
+          AllocationBase: region.allocationBase,
+          AllocationProtect: region.allocationProtect,
+          BaseAddress: region.base,
+          Protect: region.protect,
+          RegionSize: end - region.base,
+          State: MemoryAllocationType.MEM_COMMIT,
+          Type: region.type,
+        });
+
+        return true;
+      }
+
+      MemoryBasicInformation.encode(lpBuffer, { AllocationBase: 0n, AllocationProtect: 0, BaseAddress: lpAddress, Protect: MemoryProtection.PAGE_NOACCESS, RegionSize: region.base - lpAddress, State: MEM_FREE, Type: 0 });
+
+      return true;
+    }
+
+    return false;
+  }
+
+  public read(lpBaseAddress: bigint, lpBuffer: Pointer, nSize: bigint): void {
+    if (nSize === 0n) {
+      return;
+    }
+
+    const target = new Uint8Array(toArrayBuffer(lpBuffer, 0, Number(nSize)));
+    let offset = 0;
+
+    for (const { buffer, start, end } of this.#span('read', lpBaseAddress, nSize, PageReadable)) {
+      target.set(buffer.subarray(start, end), offset);
+      offset += end - start;
+    }
+
+    return;
+  }
+
+  public write(lpBaseAddress: bigint, lpBuffer: Pointer, nSize: bigint): void {
+    if (nSize === 0n) {
+      return;
+    }
+
+    const source = new Uint8Array(toArrayBuffer(lpBuffer, 0, Number(nSize)));
+    let offset = 0;
+
+    for (const { buffer, start, end } of this.#span('write', lpBaseAddress, nSize, PageWritable)) {
+      buffer.set(source.subarray(offset, offset + end - start), start);
+      offset += end - start;
+    }
+
+    return;
+  }
+
+  /**
+   * Resolves a byte range to the region slices that back it.
+   * @throws If any byte is unmapped or, when `access` is given, lacks that protection.
+   */
+  #span(what: string, address: bigint, length: bigint, access?: number): { buffer: Buffer; end: number; start: number }[] {
+    const end = address + length;
+    const slices: { buffer: Buffer; end: number; start: number }[] = [];
+
+    let cursor = address;
+
+    for (const region of this.#regions) {
+      const regionEnd = region.base + BigInt(region.buffer.byteLength);
+
+      if (regionEnd <= cursor) {
+        continue;
+      }
+
+      if (region.base > cursor) {
+        break;
+      }
+
+      if (access !== undefined && ((region.protect & access) === 0 || (region.protect & MemoryProtection.PAGE_GUARD) !== 0)) {
+        throw new MemoryError(what, cursor, access === PageWritable ? 'page is not writable' : 'page is not readable');
+      }
+
+      const sliceEnd = regionEnd < end ? regionEnd : end;
+
+      slices.push({ buffer: region.buffer, end: Number(sliceEnd - region.base), start: Number(cursor - region.base) });
+
+      cursor = sliceEnd;
+
+      if (cursor === end) {
+        return slices;
+      }
+    }
+
+    throw new MemoryError(what, cursor, 'address is not mapped');
+  }
+
+  /**
+   * Splits the region containing `address` so that a region boundary falls on it.
+   */
+  #split(address: bigint): void {
+    const index = this.#regions.findIndex((region) => region.base < address && region.base + BigInt(region.buffer.byteLength) > address);
+
+    if (index === -1) {
+      return;
+    }
+
+    const region = this.#regions[index]!;
+    const offset = Number(address - region.base);
+
+    this.#regions.splice(index, 1, { ...region, buffer: region.buffer.subarray(0, offset) }, { ...region, base: address, buffer: region.buffer.subarray(offset) });
+
+    return;
+  }
+}
+
+export default BufferBackend;
+export { BufferBackend };
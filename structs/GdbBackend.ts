@@ -0,0 +1,527 @@
+import { type Pointer, ptr, toArrayBuffer } from 'bun:ffi';
+
+import { MemoryAllocationType, MemoryProtection } from '@bun-win32/kernel32';
+
+import type { Backend } from '../types/Backend';
+import MemoryBasicInformation from './MemoryBasicInformation';
+import MemoryError from './MemoryError';
+import Module from './Module';
+import Socket from './Socket';
+
+const MEM_FREE = 0x0001_0000;
+const MEM_PRIVATE = 0x0002_0000;
+
+/**
+ * A well-formed `m` reply: hex digits in pairs.
+ */
+const HexBytes = /^(?:[\da-f]{2})+$/i;
+
+/**
+ * Characters an `M` packet spends on framing and separators: `$M,:#NN`.
+ */
+const MemoryWriteOverhead = 0x07;
+
+/**
+ * Page protection for each `<memory type>` of a GDB memory map.
+ */
+const ProtectionByMemoryType: Readonly<Record<string, number>> = {
+  flash: MemoryProtection.PAGE_READONLY,
+  ram: MemoryProtection.PAGE_READWRITE,
+  rom: MemoryProtection.PAGE_READONLY,
+};
+
+/**
+ * A region of the stub's memory map.
+ */
+type Region = {
+  end: bigint;
+  protect: number;
+  start: bigint;
+};
+
+/**
+ * A `Process` backend for targets behind a GDB Remote Serial Protocol stub — QEMU (`-s` / `-gdb`),
+ * console emulators, VM debug ports, or `gdbserver`.
+ *
+ * Memory moves through `m` / `M` packets, split to fit the stub's `PacketSize` (an `M` packet's
+ * address and length count against it, as in gdb). Regions come from
+ * `qXfer:memory-map:read` (`ram` is reported as PAGE_READWRITE, `rom` and `flash` as PAGE_READONLY)
+ * and modules from `qXfer:libraries:read`; a module's size is its PE `SizeOfImage` when it has a PE
+ * header, otherwise the memory-map region it starts in. Stubs without a memory map report no regions,
+ * so `pattern()` finds nothing there while direct reads still work. Thread IDs come from
+ * `qfThreadInfo`, and the pointer width from the target description when the stub offers one.
+ *
+ * A GDB stub cannot allocate or run code on request, so `alloc`, `free`, and `execute` throw;
+ * `protect` reports the mapped protection unchanged, since stub writes bypass page protection.
+ * `close()` detaches (`D`), which resumes a halted guest.
+ *
+ * @example
+ * ```ts
+ * const guest = new Process(new GdbBackend('127.0.0.1:1234'));
+ * guest.u32(0x80001000n);
+ * ```
+ */
+class GdbBackend implements Backend {
+  /**
+   * Connects to a stub and reads its memory map, libraries, and target description.
+   * @param address `host:port` of the stub (IPv4 or `localhost`).
+   * @param options `is32Bit` overrides the detected pointer width, `szExeFile` names the target, and
+   *   `timeout` bounds each round trip in milliseconds (defaults to 5000).
+   * @throws If the connection or the handshake fails.
+   * @example
+   * ```ts
+   * const backend = new GdbBackend('localhost:1234', { is32Bit: true, szExeFile: 'guest' });
+   * ```
+   */
+  constructor(address: string, options: { is32Bit?: boolean; szExeFile?: string; timeout?: number } = {}) {
+    const separator = address.lastIndexOf(':');
+
+    this.#socket = new Socket(address.slice(0, separator), Number(address.slice(separator + 0x01)), options);
+
+    try {
+      const features = this.#packet('qSupported:xmlRegisters=i386').toString('latin1').split(';');
+
+      for (const feature of features) {
+        if (feature.startsWith('PacketSize=')) {
+          this.#packetSize = Number.parseInt(feature.slice(0x0b), 0x10);
+          this.#chunkSize = Math.max(0x10, Math.min(0x1000, (this.#packetSize - 0x10) >>> 1));
+        } else if (feature.endsWith('+')) {
+          this.#features.add(feature.slice(0, -1));
+        }
+      }
+
+      if (this.#features.has('QStartNoAckMode') && this.#packet('QStartNoAckMode').toString('latin1') === 'OK') {
+        this.#ack = false;
+      }
+
+      this.#packet('?');
+
+      this.#regions = this.#memoryMap();
+
+      this.is32Bit = options.is32Bit ?? this.#detect32Bit();
+      this.szExeFile = options.szExeFile ?? this.modules()[0]?.szModule ?? '';
+    } catch (error) {
+      this.#socket.close();
+
+      throw error;
+    }
+  }
+
+  /**
+   * Regex patterns for the stub's XML documents.
+   */
+  static readonly #Patterns = {
+    Architecture: /<architecture>([^<]*)<\/architecture>/,
+    Attribute: /([\w-]+)="([^"]*)"/g,
+    Entity: /&(amp|apos|gt|lt|quot);/g,
+    Library: /<library\s([^>]*)>([\s\S]*?)<\/library>/g,
+    Memory: /<memory\s([^>]*?)\/?>/g,
+    PathSeparator: /[\\/]/,
+    Segment: /<(?:section|segment)\b([^>]*)\/?>/,
+  };
+
+  /**
+   * Whether packets are still acknowledged (cleared by QStartNoAckMode).
+   */
+  #ack = true;
+
+  /**
+   * Largest number of bytes moved by one `m` / `M` packet.
+   */
+  #chunkSize = 0x800;
+
+  /**
+   * Largest packet the stub accepts, framing included (its `PacketSize`, or what `#chunkSize`
+   * assumes when it reports none).
+   */
+  #packetSize = 0x1010;
+
+  /**
+   * Features the stub reported as supported (`qXfer:memory-map:read`, …).
+   */
+  readonly #features = new Set<string>();
+
+  /**
+   * Bytes received but not yet parsed into a packet.
+   */
+  #inbox = Buffer.alloc(0);
+
+  /**
+   * The stub's memory map, sorted by start address.
+   */
+  readonly #regions: Region[];
+
+  /**
+   * Receive buffer.
+   */
+  readonly #Scratch4096 = Buffer.allocUnsafe(0x1000);
+
+  readonly #socket: Socket;
+
+  public readonly cntThreads = 0;
+  public readonly hProcess = 0n;
+  public readonly is32Bit: boolean;
+  public readonly pcPriClassBase = 0;
+  public readonly szExeFile: string;
+  public readonly th32ParentProcessID = 0;
+  public readonly th32ProcessID = 0;
+
+  public alloc(): bigint {
+    throw new MemoryError('alloc', 0n, 'a GDB stub cannot allocate memory');
+  }
+
+  public close(): void {
+    try {
+      this.#packet('D');
+    } catch {
+      // The stub may already be gone; closing must still release the socket.
+    } finally {
+      this.#socket.close();
+    }
+
+    return;
+  }
+
+  public execute(lpStartAddress: bigint): void {
+    throw new MemoryError('execute', lpStartAddress, 'a GDB stub cannot run code on request');
+  }
+
+  public free(lpAddress: bigint): void {
+    throw new MemoryError('free', lpAddress, 'a GDB stub cannot free memory');
+  }
+
+  public modules(): Module[] {
+    if (!this.#features.has('qXfer:libraries:read')) {
+      return [];
+    }
+
+    const modules: Module[] = [];
+    const header = Buffer.alloc(0x40);
+
+    for (const [, attributes, body] of this.#xfer('libraries').matchAll(GdbBackend.#Patterns.Library)) {
+      const name = GdbBackend.#attributes(attributes!).name ?? '';
+      const segment = GdbBackend.#Patterns.Segment.exec(body!);
+
+      if (segment === null) {
+        continue;
+      }
+
+      const modBaseAddr = BigInt(GdbBackend.#attributes(segment[1]!).address ?? '0');
+      const region = this.#regions.find(({ end, start }) => start <= modBaseAddr && modBaseAddr < end);
+
+      let modBaseSize = region === undefined ? 0 : Number(region.end - modBaseAddr);
+
+      try {
+        this.read(modBaseAddr, ptr(header), 0x40n);
+
+        if (header.readUInt16LE(0x00) === 0x5a4d) {
+          // IMAGE_OPTIONAL_HEADER.SizeOfImage sits at +0x38 in both PE32 and PE32+.
+          this.read(modBaseAddr + BigInt(header.readUInt32LE(0x3c) + 0x18 + 0x38), ptr(header), 0x04n);
+
+          modBaseSize = header.readUInt32LE(0x00);
+        }
+      } catch {
+        // Unreadable header: keep the memory-map estimate.
+      }
+
+      modules.push(Module.from({ modBaseAddr, modBaseSize, szExePath: name, szModule: name.split(GdbBackend.#Patterns.PathSeparator).at(-1)! }));
+    }
+
+    return modules;
+  }
+
+  public protect(lpAddress: bigint): number {
+    const region = this.#regions.find(({ end, start }) => start <= lpAddress && lpAddress < end);
+
+    if (region === undefined) {
+      throw new MemoryError('protect', lpAddress, 'address is not in the memory map');
+    }
+
+    return region.protect;
+  }
+
+  public query(lpAddress: bigint, lpBuffer: Buffer): boolean {
+    for (const region of this.#regions) {
+      if (region.end <= lpAddress) {
+        continue;
+      }
+
+      if (region.start > lpAddress) {
+        MemoryBasicInformation.encode(lpBuffer, { AllocationBase: 0n, AllocationProtect: 0, BaseAddress: lpAddress, Protect: MemoryProtection.PAGE_NOACCESS, RegionSize: region.start - lpAddress, State: MEM_FREE, Type: 0 });
+
+        return true;
+      }
+
+      MemoryBasicInformation.encode(lpBuffer, { BaseAddress: region.start, Protect: region.protect, RegionSize: region.end - region.start, State: MemoryAllocationType.MEM_COMMIT, Type: MEM_PRIVATE });
+
+      return true;
+    }
+
+    return false;
+  }
+
+  public read(lpBaseAddress: bigint, lpBuffer: Pointer, nSize: bigint): void {
+    if (nSize === 0n) {
+      return;
+    }
+
+    const target = new Uint8Array(toArrayBuffer(lpBuffer, 0, Number(nSize)));
+
+    for (let offset = 0; offset < target.byteLength; ) {
+      const address = lpBaseAddress + BigInt(offset);
+      const length = Math.min(this.#chunkSize, target.byteLength - offset);
+      const reply = this.#packet(`m${address.toString(16)},${length.toString(16)}`).toString('latin1');
+
+      // A stub may return fewer bytes than asked for, but not none or more; anything that is not hex
+      // is an error (`E` plus two hex digits, or `E.<text>`).
+      if (reply.length === 0) {
+        throw new MemoryError('read', address, 'the stub returned no data');
+      }
+
+      if (!HexBytes.test(reply)) {
+        throw new MemoryError('read', address, `the stub replied ${reply.slice(0x00, 0x40)}`);
+      }
+
+      if (reply.length / 0x02 > length) {
+        throw new MemoryError('read', address, `the stub returned ${reply.length / 0x02} bytes for ${length}`);
+      }
+
+      const data = Buffer.from(reply, 'hex');
+
+      target.set(data, offset);
+      offset += data.byteLength;
+    }
+
+    return;
+  }
+
+  public threads(): number[] {
+    const threads: number[] = [];
+
+    for (let reply = this.#packet('qfThreadInfo').toString('latin1'); reply.startsWith('m'); reply = this.#packet('qsThreadInfo').toString('latin1')) {
+      // Multiprocess stubs report `p<pid>.<tid>`; keep the thread part.
+      threads.push(
+        ...reply
+          .slice(0x01)
+          .split(',')
+          .map((id) => Number.parseInt(id.split('.').at(-1)!, 0x10)),
+      );
+    }
+
+    return threads;
+  }
+
+  public write(lpBaseAddress: bigint, lpBuffer: Pointer, nSize: bigint): void {
+    if (nSize === 0n) {
+      return;
+    }
+
+    const source = Buffer.from(toArrayBuffer(lpBuffer, 0, Number(nSize)));
+
+    for (let offset = 0; offset < source.byteLength; ) {
+      const address = lpBaseAddress + BigInt(offset);
+      const remaining = Math.min(this.#chunkSize, source.byteLength - offset);
+
+      // The address and length fields eat into the packet; the length's digits are counted for the
+      // largest length possible, which only shortens the packet further.
+      const capacity = Math.floor((this.#packetSize - MemoryWriteOverhead - address.toString(16).length - remaining.toString(16).length) / 0x02);
+      const data = source.subarray(offset, offset + Math.max(0x01, Math.min(remaining, capacity)));
+      const reply = this.#packet(`M${address.toString(16)},${data.byteLength.toString(16)}:${data.toString('hex')}`).toString('latin1');
+
+      if (reply !== 'OK') {
+        throw new MemoryError('write', address, `the stub replied ${reply || 'nothing'}`);
+      }
+
+      offset += data.byteLength;
+    }
+
+    return;
+  }
+
+  /**
+   * Parses the `name="value"` attributes of an XML tag, decoding entities.
+   */
+  static #attributes(text: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const entities: Record<string, string> = { amp: '&', apos: "'", gt: '>', lt: '<', quot: '"' };
+
+    for (const [, name, value] of text.matchAll(GdbBackend.#Patterns.Attribute)) {
+      attributes[name!] = value!.replace(GdbBackend.#Patterns.Entity, (_, entity: string) => entities[entity]!);
+    }
+
+    return attributes;
+  }
+
+  /**
+   * Reads the pointer width from the target description's `<architecture>`, defaulting to 64-bit.
+   */
+  #detect32Bit(): boolean {
+    if (!this.#features.has('qXfer:features:read')) {
+      return false;
+    }
+
+    try {
+      const architecture = GdbBackend.#Patterns.Architecture.exec(this.#xfer('features', 'target.xml'))?.[1];
+
+      return architecture !== undefined && !architecture.includes('64');
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Reads and parses the stub's memory map.
+   */
+  #memoryMap(): Region[] {
+    if (!this.#features.has('qXfer:memory-map:read')) {
+      return [];
+    }
+
+    const regions: Region[] = [];
+
+    for (const [, text] of this.#xfer('memory-map').matchAll(GdbBackend.#Patterns.Memory)) {
+      const { length, start, type } = GdbBackend.#attributes(text!);
+
+      if (length === undefined || start === undefined) {
+        continue;
+      }
+
+      regions.push({ end: BigInt(start) + BigInt(length), protect: ProtectionByMemoryType[type ?? ''] ?? MemoryProtection.PAGE_READWRITE, start: BigInt(start) });
+    }
+
+    return regions.sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+  }
+
+  /**
+   * Sends one packet and returns the stub's reply, unescaped and run-length decoded.
+   * @throws If the connection drops or a round trip times out.
+   */
+  #packet(payload: string): Buffer {
+    const body = Buffer.from(payload, 'latin1');
+
+    let checksum = 0;
+
+    for (const byte of body) {
+      checksum = (checksum + byte) & 0xff;
+    }
+
+    const packet = Buffer.from(`$${payload}#${checksum.toString(16).padStart(2, '0')}`, 'latin1');
+
+    this.#socket.send(packet);
+
+    while (true) {
+      const reply = this.#receive();
+
+      if (reply === '-') {
+        this.#socket.send(packet);
+
+        continue;
+      }
+
+      if (reply === '+') {
+        continue;
+      }
+
+      if (this.#ack) {
+        this.#socket.send(Buffer.from('+'));
+      }
+
+      return reply;
+    }
+  }
+
+  /**
+   * Takes the next ack (`+` / `-`) or complete packet from the connection, receiving as needed.
+   */
+  #receive(): Buffer | '+' | '-' {
+    while (true) {
+      const inbox = this.#inbox;
+
+      // Skip anything before the next ack or packet start (e.g. a stray ^C echo).
+      let start = 0;
+
+      while (start < inbox.byteLength && inbox[start] !== 0x24 /* $ */ && inbox[start] !== 0x2b /* + */ && inbox[start] !== 0x2d /* - */) {
+        start++;
+      }
+
+      if (start < inbox.byteLength && inbox[start] !== 0x24) {
+        this.#inbox = inbox.subarray(start + 0x01);
+
+        return inbox[start] === 0x2b ? '+' : '-';
+      }
+
+      const hash = inbox.indexOf(0x23 /* # */, start);
+
+      if (start < inbox.byteLength && hash !== -1 && hash + 0x02 < inbox.byteLength) {
+        this.#inbox = inbox.subarray(hash + 0x03);
+
+        return GdbBackend.#decode(inbox.subarray(start + 0x01, hash));
+      }
+
+      const received = this.#socket.recv(this.#Scratch4096);
+
+      if (received === 0) {
+        throw new Error('The GDB stub closed the connection.');
+      }
+
+      this.#inbox = Buffer.concat([inbox.subarray(start), this.#Scratch4096.subarray(0, received)]);
+    }
+  }
+
+  /**
+   * Reads a whole `qXfer` object, following `m` (more) replies until an `l` (last) one.
+   * @throws If the stub rejects the transfer.
+   */
+  #xfer(object: string, annex = ''): string {
+    const parts: Buffer[] = [];
+    const length = this.#chunkSize * 0x02;
+
+    for (let offset = 0; ; ) {
+      const reply = this.#packet(`qXfer:${object}:read:${annex}:${offset.toString(16)},${length.toString(16)}`);
+
+      if (reply[0] !== 0x6d /* m */ && reply[0] !== 0x6c /* l */) {
+        throw new Error(`qXfer:${object}:read failed: ${reply.toString('latin1') || 'not supported'}.`);
+      }
+
+      parts.push(reply.subarray(0x01));
+      offset += reply.byteLength - 0x01;
+
+      if (reply[0] === 0x6c || reply.byteLength === 0x01) {
+        return Buffer.concat(parts).toString('utf8');
+      }
+    }
+  }
+
+  /**
+   * Undoes the binary escaping (`}` then byte ^ 0x20) and run-length encoding (`x*n`: n - 29 more
+   * copies of x) of a packet body.
+   */
+  static #decode(body: Buffer): Buffer {
+    if (!body.includes(0x7d) && !body.includes(0x2a)) {
+      return Buffer.from(body);
+    }
+
+    const bytes: number[] = [];
+
+    for (let index = 0; index < body.byteLength; index++) {
+      const byte = body[index]!;
+
+      if (byte === 0x7d /* } */) {
+        bytes.push(body[++index]! ^ 0x20);
+      } else if (byte === 0x2a /* * */ && bytes.length !== 0) {
+        const previous = bytes.at(-1)!;
+
+        for (let count = body[++index]! - 0x1d; count > 0; count--) {
+          bytes.push(previous);
+        }
+      } else {
+        bytes.push(byte);
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+}
+
+export default GdbBackend;
+export { GdbBackend };
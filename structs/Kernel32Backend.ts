@@ -0,0 +1,473 @@
+import '../runtime/extensions';
+
+import { dlopen, type FFIFunction, FFIType, type Library, type Pointer, ptr } from 'bun:ffi';
+
+import Kernel32, { MemoryAllocationType, ProcessAccessRights, ToolhelpSnapshotFlags } from '@bun-win32/kernel32';
+
+import type { Backend } from '../types/Backend';
+import type { ProcessEntry } from '../types/Process';
+import AccessError from './AccessError';
+import AmbiguousProcessError from './AmbiguousProcessError';
+import Module from './Module';
+import Scratch from './Scratch';
+import Win32Error from './Win32Error';
+
+const NtDllSymbols = {
+  NtQueryInformationProcess: { args: [FFIType.u64, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+} as const satisfies Record<string, FFIFunction>;
+
+const ERROR_INVALID_PARAMETER = 0x57;
+const INFINITE = 0xffff_ffff;
+const INVALID_HANDLE_VALUE = 0xffff_ffff_ffff_ffffn;
+const STILL_ACTIVE = 0x0000_0103;
+const WAIT_FAILED = 0xffff_ffff;
+const WAIT_OBJECT_0 = 0x0000_0000;
+
+const ProcessBasicInformation = 0x00;
+const ReplaceTrailingNull = /\0+$/;
+
+/**
+ * Rights CreateRemoteThread needs on the process handle.
+ */
+const CreateRemoteThreadAccess =
+  ProcessAccessRights.PROCESS_CREATE_THREAD | ProcessAccessRights.PROCESS_QUERY_INFORMATION | ProcessAccessRights.PROCESS_VM_OPERATION | ProcessAccessRights.PROCESS_VM_READ | ProcessAccessRights.PROCESS_VM_WRITE;
+
+/**
+ * Rights GetExitCodeProcess accepts on the process handle; either one is enough.
+ */
+const GetExitCodeProcessAccess = ProcessAccessRights.PROCESS_QUERY_INFORMATION | ProcessAccessRights.PROCESS_QUERY_LIMITED_INFORMATION;
+
+/**
+ * Rights WriteProcessMemory needs on the process handle.
+ */
+const WriteProcessMemoryAccess = ProcessAccessRights.PROCESS_VM_OPERATION | ProcessAccessRights.PROCESS_VM_WRITE;
+
+/**
+ * ntdll symbols, bound on first use; only peb() needs them.
+ */
+let ntdll: Library<typeof NtDllSymbols>['symbols'] | undefined;
+
+/**
+ * The default `Process` backend: a live Windows process driven through `@bun-win32/kernel32`.
+ *
+ * FFI symbols are preloaded on first construction rather than at import, so the package can be
+ * imported (and run against other backends) on hosts without kernel32.dll.
+ *
+ * The process handle is opened with the requested access rights (PROCESS_ALL_ACCESS by default).
+ * Each call checks the rights its Win32 API needs before making it, and throws an `AccessError`
+ * naming any that are missing.
+ *
+ * @example
+ * ```ts
+ * const backend = new Kernel32Backend('cs2.exe');
+ * const cs2 = new Process(backend);
+ * ```
+ */
+class Kernel32Backend implements Backend {
+  /**
+   * Opens a process by PID, executable name, or an entry from `Kernel32Backend.list()`.
+   * @param identifier Process ID, executable name, or a process entry.
+   * @param options `access`: `ProcessAccessRights` to open the handle with (defaults to
+   *   PROCESS_ALL_ACCESS). PROCESS_QUERY_LIMITED_INFORMATION is always added, since attaching needs it.
+   * @throws If the process cannot be found or opened, or AmbiguousProcessError if several processes
+   *   share the executable name.
+   * @example
+   * ```ts
+   * const backend = new Kernel32Backend('cs2.exe');
+   * const reader = new Kernel32Backend('cs2.exe', { access: ProcessAccessRights.PROCESS_VM_READ | ProcessAccessRights.PROCESS_QUERY_INFORMATION });
+   * ```
+   */
+  constructor(identifier: ProcessEntry | number | string, options: { access?: number } = {}) {
+    const candidates = Kernel32Backend.list().filter(({ szExeFile, th32ProcessID }) =>
+      typeof identifier === 'number'
+        ? identifier === th32ProcessID
+        : typeof identifier === 'string'
+          ? identifier === szExeFile
+          : // An entry must still name the same executable, so a recycled PID is not attached by mistake.
+            identifier.th32ProcessID === th32ProcessID && identifier.szExeFile === szExeFile,
+    );
+
+    if (candidates.length > 1) {
+      throw new AmbiguousProcessError(String(identifier), candidates);
+    }
+
+    const entry = candidates[0];
+
+    if (entry === undefined) {
+      throw new Error(`Process not found: ${typeof identifier === 'object' ? `${identifier.szExeFile} (${identifier.th32ProcessID})` : identifier}.`);
+    }
+
+    const desiredAccess = (options.access ?? ProcessAccessRights.PROCESS_ALL_ACCESS) | ProcessAccessRights.PROCESS_QUERY_LIMITED_INFORMATION;
+    const inheritHandle = 0;
+
+    const hProcess = Kernel32.OpenProcess(desiredAccess, inheritHandle, entry.th32ProcessID);
+
+    if (hProcess === 0n) {
+      throw new Win32Error('OpenProcess', Kernel32.GetLastError());
+    }
+
+    this.access = desiredAccess;
+    this.cntThreads = entry.cntThreads;
+    this.hProcess = hProcess;
+    this.pcPriClassBase = entry.pcPriClassBase;
+    this.szExeFile = entry.szExeFile;
+    this.th32ParentProcessID = entry.th32ParentProcessID;
+    this.th32ProcessID = entry.th32ProcessID;
+
+    const machineBuffer = Buffer.allocUnsafe(0x04);
+    const bIsWow64Process2 = Kernel32.IsWow64Process2(hProcess, ptr(machineBuffer), ptr(machineBuffer, 0x02));
+
+    if (!bIsWow64Process2) {
+      const lastError = Kernel32.GetLastError();
+
+      Kernel32.CloseHandle(hProcess);
+
+      throw new Win32Error('IsWow64Process2', lastError);
+    }
+
+    // pProcessMachine is IMAGE_FILE_MACHINE_UNKNOWN (0) for a native process; a non-zero
+    // WOW64 machine (e.g. IMAGE_FILE_MACHINE_I386) means a 32-bit target with 32-bit pointers.
+    this.is32Bit = machineBuffer.readUInt16LE(0x00) !== 0x0000;
+  }
+
+  /**
+   * Lists the running processes from a Toolhelp snapshot, without opening any of them.
+   * @returns One entry per process, in snapshot order.
+   * @throws If the snapshot cannot be taken.
+   * @example
+   * ```ts
+   * const pids = Kernel32Backend.list().map(({ th32ProcessID }) => th32ProcessID);
+   * ```
+   */
+  public static list(): ProcessEntry[] {
+    Kernel32Backend.#preload();
+
+    const dwFlags = ToolhelpSnapshotFlags.TH32CS_SNAPPROCESS;
+
+    const hSnapshot = Kernel32.CreateToolhelp32Snapshot(dwFlags, 0);
+
+    if (hSnapshot === INVALID_HANDLE_VALUE) {
+      throw new Win32Error('CreateToolhelp32Snapshot', Kernel32.GetLastError());
+    }
+
+    using snapshot = { handle: hSnapshot, [Symbol.dispose]: () => Kernel32.CloseHandle(hSnapshot) };
+
+    const lppeBuffer = Buffer.allocUnsafe(0x238 /* sizeof(PROCESSENTRY32W) */);
+    /* */ lppeBuffer.writeUInt32LE(0x238 /* sizeof(PROCESSENTRY32W) */);
+
+    const lppe = lppeBuffer.ptr;
+
+    const bProcess32FirstW = Kernel32.Process32FirstW(snapshot.handle, lppe);
+
+    if (!bProcess32FirstW) {
+      throw new Win32Error('Process32FirstW', Kernel32.GetLastError());
+    }
+
+    const entries: ProcessEntry[] = [];
+
+    do {
+      entries.push({
+        cntThreads: lppeBuffer.readUInt32LE(0x1c),
+        pcPriClassBase: lppeBuffer.readInt32LE(0x24),
+        szExeFile: lppeBuffer.toString('utf16le', 0x2c, 0x234).replace(ReplaceTrailingNull, ''),
+        th32ParentProcessID: lppeBuffer.readUInt32LE(0x20),
+        th32ProcessID: lppeBuffer.readUInt32LE(0x08),
+      });
+    } while (Kernel32.Process32NextW(snapshot.handle, lppe));
+
+    return entries;
+  }
+
+  /**
+   * Preloads the FFI symbols on first use, to avoid lazy-loading overhead during hot paths.
+   */
+  static #preload(): void {
+    Kernel32.Preload([
+      'CloseHandle',
+      'CreateRemoteThread',
+      'CreateToolhelp32Snapshot',
+      'GetExitCodeProcess',
+      'GetLastError',
+      'IsWow64Process2',
+      'Module32FirstW',
+      'Module32NextW',
+      'OpenProcess',
+      'Process32FirstW',
+      'Process32NextW',
+      'ReadProcessMemory',
+      'Thread32First',
+      'Thread32Next',
+      'VirtualAllocEx',
+      'VirtualFreeEx',
+      'VirtualProtectEx',
+      'VirtualQueryEx',
+      'WaitForSingleObject',
+      'WriteProcessMemory',
+    ]);
+
+    return;
+  }
+
+  /**
+   * Reusable MODULEENTRY32W buffer for module enumeration.
+   */
+  readonly #Scratch1080 = new Scratch(0x438);
+
+  /**
+   * Out-param for the previous protection in protect() and the exit code in exitCode().
+   */
+  readonly #Scratch4 = new Scratch(0x04);
+
+  /**
+   * `ProcessAccessRights` the process handle was opened with.
+   */
+  public readonly access: number;
+
+  public readonly cntThreads: number;
+  public readonly hProcess: bigint;
+  public readonly is32Bit: boolean;
+  public readonly pcPriClassBase: number;
+  public readonly szExeFile: string;
+  public readonly th32ParentProcessID: number;
+  public readonly th32ProcessID: number;
+
+  public alloc(dwSize: bigint, flProtect: number): bigint {
+    this.#require('VirtualAllocEx', ProcessAccessRights.PROCESS_VM_OPERATION);
+
+    const flAllocationType = MemoryAllocationType.MEM_COMMIT | MemoryAllocationType.MEM_RESERVE;
+    const lpAddress = 0n;
+
+    const lpBaseAddress = Kernel32.VirtualAllocEx(this.hProcess, lpAddress, dwSize, flAllocationType, flProtect);
+
+    if (lpBaseAddress === 0n) {
+      throw new Win32Error('VirtualAllocEx', Kernel32.GetLastError());
+    }
+
+    return lpBaseAddress;
+  }
+
+  public close(): void {
+    Kernel32.CloseHandle(this.hProcess);
+
+    return;
+  }
+
+  public execute(lpStartAddress: bigint): void {
+    this.#require('CreateRemoteThread', CreateRemoteThreadAccess);
+
+    const hThread = Kernel32.CreateRemoteThread(this.hProcess, null, 0n, lpStartAddress, 0n, 0x00, null);
+
+    if (hThread === 0n) {
+      throw new Win32Error('CreateRemoteThread', Kernel32.GetLastError());
+    }
+
+    using thread = { handle: hThread, [Symbol.dispose]: () => Kernel32.CloseHandle(hThread) };
+
+    const waitResult = Kernel32.WaitForSingleObject(thread.handle, INFINITE);
+
+    if (waitResult === WAIT_FAILED) {
+      throw new Win32Error('WaitForSingleObject', Kernel32.GetLastError());
+    }
+
+    if (waitResult !== WAIT_OBJECT_0) {
+      throw new Error(`WaitForSingleObject returned ${waitResult}.`);
+    }
+
+    return;
+  }
+
+  public exitCode(): number | undefined {
+    if ((this.access & GetExitCodeProcessAccess) === 0) {
+      this.#require('GetExitCodeProcess', ProcessAccessRights.PROCESS_QUERY_LIMITED_INFORMATION);
+    }
+
+    const lpExitCode = this.#Scratch4;
+
+    if (!Kernel32.GetExitCodeProcess(this.hProcess, lpExitCode.ptr)) {
+      throw new Win32Error('GetExitCodeProcess', Kernel32.GetLastError());
+    }
+
+    const exitCode = lpExitCode.u32[0x00]!;
+
+    // A process that exits with STILL_ACTIVE itself reads as running; Windows offers no way to tell them apart.
+    return exitCode === STILL_ACTIVE ? undefined : exitCode;
+  }
+
+  public free(lpAddress: bigint): void {
+    this.#require('VirtualFreeEx', ProcessAccessRights.PROCESS_VM_OPERATION);
+
+    const dwFreeType = MemoryAllocationType.MEM_RELEASE;
+    const dwSize = 0x00n;
+
+    const bVirtualFreeEx = !!Kernel32.VirtualFreeEx(this.hProcess, lpAddress, dwSize, dwFreeType);
+
+    if (!bVirtualFreeEx) {
+      throw new Win32Error('VirtualFreeEx', Kernel32.GetLastError());
+    }
+
+    return;
+  }
+
+  public isAlive(): boolean {
+    return this.exitCode() === undefined;
+  }
+
+  public modules(): Module[] {
+    const dwFlags = ToolhelpSnapshotFlags.TH32CS_SNAPMODULE | ToolhelpSnapshotFlags.TH32CS_SNAPMODULE32;
+
+    const hSnapshot = Kernel32.CreateToolhelp32Snapshot(dwFlags, this.th32ProcessID)!;
+
+    if (hSnapshot === INVALID_HANDLE_VALUE) {
+      throw new Win32Error('CreateToolhelp32Snapshot', Kernel32.GetLastError());
+    }
+
+    using snapshot = { handle: hSnapshot, [Symbol.dispose]: () => Kernel32.CloseHandle(hSnapshot) };
+
+    const lpme = this.#Scratch1080;
+    const lpmeBuffer = lpme.buffer;
+    /* */ lpmeBuffer.writeUInt32LE(0x438 /* sizeof(MODULEENTRY32W) */);
+
+    const bModule32FirstW = Kernel32.Module32FirstW(snapshot.handle, lpme.ptr);
+
+    if (!bModule32FirstW) {
+      throw new Win32Error('Module32FirstW', Kernel32.GetLastError());
+    }
+
+    const modules: Module[] = [];
+
+    do {
+      const buffer = Buffer.allocUnsafe(0x438);
+      lpmeBuffer.copy(buffer);
+
+      modules.push(new Module(buffer));
+    } while (Kernel32.Module32NextW(snapshot.handle, lpme.ptr));
+
+    return modules;
+  }
+
+  public peb(): bigint {
+    // ProcessBasicInformation needs only PROCESS_QUERY_LIMITED_INFORMATION, which every handle holds.
+    ntdll ??= dlopen('ntdll.dll', NtDllSymbols).symbols;
+
+    // PROCESS_BASIC_INFORMATION: ExitStatus, PebBaseAddress, ... The PEB is the native (64-bit) one, even for a WOW64 target.
+    const information = Buffer.alloc(0x30);
+
+    const status = ntdll.NtQueryInformationProcess(this.hProcess, ProcessBasicInformation, ptr(information), information.byteLength, null);
+
+    if (status < 0) {
+      throw new Error(`NtQueryInformationProcess failed with NTSTATUS 0x${(status >>> 0).toString(16).padStart(0x08, '0')}.`);
+    }
+
+    return information.readBigUInt64LE(0x08);
+  }
+
+  public protect(lpAddress: bigint, dwSize: bigint, flNewProtect: number): number {
+    this.#require('VirtualProtectEx', ProcessAccessRights.PROCESS_VM_OPERATION);
+
+    const lpflOldProtect = this.#Scratch4.ptr;
+
+    const bVirtualProtectEx = Kernel32.VirtualProtectEx(this.hProcess, lpAddress, dwSize, flNewProtect, lpflOldProtect);
+
+    if (!bVirtualProtectEx) {
+      throw new Win32Error('VirtualProtectEx', Kernel32.GetLastError());
+    }
+
+    return this.#Scratch4.u32[0x00]!;
+  }
+
+  public query(lpAddress: bigint, lpBuffer: Buffer): boolean {
+    this.#require('VirtualQueryEx', ProcessAccessRights.PROCESS_QUERY_INFORMATION);
+
+    const dwLength = 0x30n; /* sizeof(MEMORY_BASIC_INFORMATION) */
+
+    // Re-pin ptr(lpBuffer) every call: the GC can relocate a buffer's backing store between the
+    // caller's iterations, so a cached pointer would go stale and corrupt a region walk.
+    if (Kernel32.VirtualQueryEx(this.hProcess, lpAddress, ptr(lpBuffer), dwLength) === dwLength) {
+      return true;
+    }
+
+    const lastError = Kernel32.GetLastError();
+
+    // VirtualQueryEx reports ERROR_INVALID_PARAMETER once lpAddress is above the highest
+    // user-mode address, which is the normal end of a walk rather than a failure.
+    if (lastError === ERROR_INVALID_PARAMETER) {
+      return false;
+    }
+
+    throw new Win32Error('VirtualQueryEx', lastError);
+  }
+
+  public read(lpBaseAddress: bigint, lpBuffer: Pointer, nSize: bigint): void {
+    this.#require('ReadProcessMemory', ProcessAccessRights.PROCESS_VM_READ);
+
+    const bReadProcessMemory = !!Kernel32.ReadProcessMemory(this.hProcess, lpBaseAddress, lpBuffer, nSize, null);
+
+    if (!bReadProcessMemory) {
+      throw new Win32Error('ReadProcessMemory', Kernel32.GetLastError());
+    }
+
+    return;
+  }
+
+  public threads(): number[] {
+    // A thread snapshot always spans every process; the PID argument is ignored.
+    const hSnapshot = Kernel32.CreateToolhelp32Snapshot(ToolhelpSnapshotFlags.TH32CS_SNAPTHREAD, 0);
+
+    if (hSnapshot === INVALID_HANDLE_VALUE) {
+      throw new Win32Error('CreateToolhelp32Snapshot', Kernel32.GetLastError());
+    }
+
+    using snapshot = { handle: hSnapshot, [Symbol.dispose]: () => Kernel32.CloseHandle(hSnapshot) };
+
+    const lpteBuffer = Buffer.allocUnsafe(0x1c /* sizeof(THREADENTRY32) */);
+    /* */ lpteBuffer.writeUInt32LE(0x1c /* sizeof(THREADENTRY32) */);
+
+    const lpte = lpteBuffer.ptr;
+
+    const bThread32First = Kernel32.Thread32First(snapshot.handle, lpte);
+
+    if (!bThread32First) {
+      throw new Win32Error('Thread32First', Kernel32.GetLastError());
+    }
+
+    const threads: number[] = [];
+
+    do {
+      if (lpteBuffer.readUInt32LE(0x0c /* th32OwnerProcessID */) === this.th32ProcessID) {
+        threads.push(lpteBuffer.readUInt32LE(0x08 /* th32ThreadID */));
+      }
+    } while (Kernel32.Thread32Next(snapshot.handle, lpte));
+
+    return threads;
+  }
+
+  public write(lpBaseAddress: bigint, lpBuffer: Pointer, nSize: bigint): void {
+    this.#require('WriteProcessMemory', WriteProcessMemoryAccess);
+
+    const bWriteProcessMemory = !!Kernel32.WriteProcessMemory(this.hProcess, lpBaseAddress, lpBuffer, nSize, null);
+
+    if (!bWriteProcessMemory) {
+      throw new Win32Error('WriteProcessMemory', Kernel32.GetLastError());
+    }
+
+    return;
+  }
+
+  /**
+   * Throws an AccessError naming the rights in `rights` that the handle was not opened with.
+   */
+  #require(what: string, rights: number): void {
+    if ((this.access & rights) === rights) {
+      return;
+    }
+
+    const missing = Object.entries(ProcessAccessRights)
+      .filter((entry): entry is [string, number] => typeof entry[1] === 'number' && entry[0] !== 'PROCESS_ALL_ACCESS' && (rights & ~this.access & entry[1]) !== 0)
+      .map(([name]) => name);
+
+    throw new AccessError(what, missing);
+  }
+}
+
+export default Kernel32Backend;
+export { Kernel32Backend };
@@ -0,0 +1,468 @@
+import { closeSync, openSync, readdirSync, readFileSync, readSync, writeSync } from 'node:fs';
+
+import { dlopen, type FFIFunction, FFIType, type Library, type Pointer, ptr, toArrayBuffer } from 'bun:ffi';
+
+import { MemoryAllocationType, MemoryProtection } from '@bun-win32/kernel32';
+
+import type { Backend } from '../types/Backend';
+import MemoryBasicInformation from './MemoryBasicInformation';
+import MemoryError from './MemoryError';
+import Module from './Module';
+import Scratch from './Scratch';
+
+const MEM_FREE = 0x0001_0000;
+const MEM_IMAGE = 0x0100_0000;
+const MEM_MAPPED = 0x0004_0000;
+const MEM_PRIVATE = 0x0002_0000;
+
+/**
+ * Page protection for each `rwx` triple of a /proc/<pid>/maps line.
+ */
+const ProtectionByPermissions: Readonly<Record<string, number>> = {
+  '---': MemoryProtection.PAGE_NOACCESS,
+  '--x': MemoryProtection.PAGE_EXECUTE,
+  '-w-': MemoryProtection.PAGE_READWRITE,
+  '-wx': MemoryProtection.PAGE_EXECUTE_READWRITE,
+  'r--': MemoryProtection.PAGE_READONLY,
+  'r-x': MemoryProtection.PAGE_EXECUTE_READ,
+  'rw-': MemoryProtection.PAGE_READWRITE,
+  rwx: MemoryProtection.PAGE_EXECUTE_READWRITE,
+};
+
+/**
+ * One line of /proc/<pid>/maps.
+ */
+type Mapping = {
+  end: bigint;
+  inode: number;
+  offset: bigint;
+  path: string;
+  permissions: string;
+  start: bigint;
+};
+
+const LibCSymbols = {
+  process_vm_readv: { args: [FFIType.i32, FFIType.ptr, FFIType.u64, FFIType.ptr, FFIType.u64, FFIType.u64], returns: FFIType.i64 },
+  process_vm_writev: { args: [FFIType.i32, FFIType.ptr, FFIType.u64, FFIType.ptr, FFIType.u64, FFIType.u64], returns: FFIType.i64 },
+} as const satisfies Record<string, FFIFunction>;
+
+/**
+ * libc symbols, bound on first construction; null when libc cannot be opened.
+ */
+let libc: Library<typeof LibCSymbols>['symbols'] | null | undefined;
+
+/**
+ * A `Process` backend for Linux targets, including Windows games running under Wine or Proton.
+ *
+ * Memory moves through `process_vm_readv`/`process_vm_writev`, falling back to `/proc/<pid>/mem`
+ * when those are unavailable or refuse a range (e.g. a write to a read-only page). Regions come from
+ * `/proc/<pid>/maps`; modules are the mapped ELF and PE images, so DLLs that Wine maps show up under
+ * their Windows names (`client.dll`). Both interfaces need ptrace access to the target (same user, and
+ * a descendant of the caller unless `kernel.yama.ptrace_scope` is 0).
+ *
+ * Linux offers no way to allocate, free, or run code in another process without injecting a
+ * syscall, so `alloc`, `free`, and `execute` throw. `protect` reports the current protection and
+ * leaves it unchanged: `/proc/<pid>/mem` writes already bypass page protection, which keeps
+ * `force` writes working.
+ *
+ * @example
+ * ```ts
+ * const cs2 = new Process(new LinuxBackend('cs2.exe'));
+ * const client = cs2.modules['client.dll'];
+ * ```
+ */
+class LinuxBackend implements Backend {
+  /**
+   * Attaches to a process by PID or name.
+   * @param identifier Process ID, or a name matched against the basename of `argv[0]` (which is the
+   *   Windows executable for Wine processes) and the kernel `comm`.
+   * @param options Overrides the detected pointer width.
+   * @throws If the process cannot be found.
+   * @example
+   * ```ts
+   * const backend = new LinuxBackend('cs2.exe');
+   * ```
+   */
+  constructor(identifier: number | string, options: { is32Bit?: boolean } = {}) {
+    if (libc === undefined) {
+      try {
+        libc = dlopen('libc.so.6', LibCSymbols).symbols;
+      } catch {
+        libc = null;
+      }
+    }
+
+    const pids =
+      typeof identifier === 'number'
+        ? [identifier]
+        : readdirSync('/proc')
+            .filter((name) => LinuxBackend.#Patterns.Pid.test(name))
+            .map(Number);
+
+    for (const pid of pids) {
+      let comm: string;
+      let argv0: string;
+
+      try {
+        comm = readFileSync(`/proc/${pid}/comm`, 'utf8').trimEnd();
+        argv0 = readFileSync(`/proc/${pid}/cmdline`, 'utf8').split('\0', 1)[0]!;
+      } catch {
+        continue;
+      }
+
+      const name = argv0.split(LinuxBackend.#Patterns.PathSeparator).at(-1)!;
+
+      if (typeof identifier === 'string' && identifier !== name && (identifier.length > 0x0f || identifier !== comm)) {
+        continue;
+      }
+
+      // /proc/<pid>/stat: "pid (comm) state ppid …"; comm may itself contain spaces or parentheses.
+      const stat = readFileSync(`/proc/${pid}/stat`, 'utf8');
+      const fields = stat.slice(stat.lastIndexOf(')') + 0x02).split(' ');
+
+      this.cntThreads = Number(fields[0x11]);
+      this.szExeFile = typeof identifier === 'string' ? identifier : name || comm;
+      this.th32ParentProcessID = Number(fields[0x01]);
+      this.th32ProcessID = pid;
+
+      this.#startTime = fields[0x13]!;
+
+      this.is32Bit = options.is32Bit ?? this.#detect32Bit();
+
+      return;
+    }
+
+    throw new Error(`Process not found: ${identifier}.`);
+  }
+
+  /**
+   * Regex patterns for /proc parsing.
+   */
+  static readonly #Patterns = {
+    Mapping: /^([0-9a-f]+)-([0-9a-f]+) (\S{4}) ([0-9a-f]+) \S+ (\d+)\s*(.*)$/,
+    PathSeparator: /[\\/]/,
+    Pid: /^\d+$/,
+  };
+
+  /**
+   * File descriptor of /proc/<pid>/mem, opened on first fallback.
+   */
+  #fd: number | undefined;
+
+  /**
+   * Paths of file-backed mappings with executable pages — the loaded images.
+   */
+  #images = new Set<string>();
+
+  /**
+   * The parsed maps file, re-read whenever a region walk restarts.
+   */
+  #mappings: Mapping[] = [];
+
+  /**
+   * Address of the previous query(), to detect the start of a new walk.
+   */
+  #queryAddress = -1n;
+
+  /**
+   * Two iovec structs (local @0x00, remote @0x10) for process_vm_readv/writev.
+   */
+  readonly #Scratch32 = new Scratch(0x20);
+
+  /**
+   * Start time from /proc/<pid>/stat, which tells a recycled PID from the attached process.
+   */
+  readonly #startTime: string;
+
+  public readonly cntThreads: number;
+  public readonly hProcess = 0n;
+  public readonly is32Bit: boolean;
+  public readonly pcPriClassBase = 0;
+  public readonly szExeFile: string;
+  public readonly th32ParentProcessID: number;
+  public readonly th32ProcessID: number;
+
+  public alloc(): bigint {
+    throw new MemoryError('alloc', 0n, 'a LinuxBackend cannot allocate in another process');
+  }
+
+  public close(): void {
+    if (this.#fd !== undefined) {
+      closeSync(this.#fd);
+
+      this.#fd = undefined;
+    }
+
+    return;
+  }
+
+  public execute(lpStartAddress: bigint): void {
+    throw new MemoryError('execute', lpStartAddress, 'a LinuxBackend cannot run code in another process');
+  }
+
+  public free(lpAddress: bigint): void {
+    throw new MemoryError('free', lpAddress, 'a LinuxBackend cannot free memory in another process');
+  }
+
+  public isAlive(): boolean {
+    let stat: string;
+
+    try {
+      stat = readFileSync(`/proc/${this.th32ProcessID}/stat`, 'utf8');
+    } catch {
+      return false;
+    }
+
+    const fields = stat.slice(stat.lastIndexOf(')') + 0x02).split(' ');
+
+    // A zombie (Z) or dying (X) task has exited; its parent just has not reaped it yet.
+    return fields[0x00] !== 'Z' && fields[0x00] !== 'X' && fields[0x13] === this.#startTime;
+  }
+
+  public modules(): Module[] {
+    const images = new Map<string, { end: bigint; start: bigint }>();
+
+    for (const { end, inode, offset, path, start } of this.#maps()) {
+      if (inode === 0 || path === '') {
+        continue;
+      }
+
+      const image = images.get(path);
+
+      if (image === undefined) {
+        // An image's first mapping covers file offset 0 (its ELF or DOS header).
+        if (offset === 0n) {
+          images.set(path, { end, start });
+        }
+
+        continue;
+      }
+
+      image.end = end > image.end ? end : image.end;
+    }
+
+    const modules: Module[] = [];
+    const magic = Buffer.alloc(0x04);
+
+    for (const [path, { end, start }] of images) {
+      try {
+        this.read(start, ptr(magic), 0x04n);
+      } catch {
+        continue;
+      }
+
+      // Keep ELF objects (\x7fELF) and PE images (MZ); skip fonts, locales, and other mapped data.
+      if (magic.readUInt32LE(0x00) !== 0x464c_457f && magic.readUInt16LE(0x00) !== 0x5a4d) {
+        continue;
+      }
+
+      modules.push(Module.from({ modBaseAddr: start, modBaseSize: Number(end - start), szExePath: path, szModule: path.split('/').at(-1)! }));
+    }
+
+    return modules;
+  }
+
+  public protect(lpAddress: bigint): number {
+    const mapping = this.#maps().find(({ end, start }) => start <= lpAddress && lpAddress < end);
+
+    if (mapping === undefined) {
+      throw new MemoryError('protect', lpAddress, 'address is not mapped');
+    }
+
+    return ProtectionByPermissions[mapping.permissions.slice(0, 3)]!;
+  }
+
+  public query(lpAddress: bigint, lpBuffer: Buffer): boolean {
+    // pattern() and Process.query() walk upward; re-read the maps only when a new walk begins, so a
+    // walk over thousands of regions parses the file once instead of once per region.
+    if (lpAddress <= this.#queryAddress || this.#mappings.length === 0) {
+      this.#maps();
+    }
+
+    this.#queryAddress = lpAddress;
+
+    for (const { end, path, permissions, start } of this.#mappings) {
+      if (end <= lpAddress) {
+        continue;
+      }
+
+      if (start > lpAddress) {
+        MemoryBasicInformation.encode(lpBuffer, { AllocationBase: 0n, AllocationProtect: 0, BaseAddress: lpAddress, Protect: MemoryProtection.PAGE_NOACCESS, RegionSize: start - lpAddress, State: MEM_FREE, Type: 0 });
+
+        return true;
+      }
+
+      const rwx = permissions.slice(0, 3);
+      const type = path === '' || path.startsWith('[') ? MEM_PRIVATE : this.#images.has(path) ? MEM_IMAGE : MEM_MAPPED;
+
+      MemoryBasicInformation.encode(lpBuffer, {
+        BaseAddress: start,
+        // A PROT_NONE mapping is how Linux (and Wine) reserves address space without committing it.
+        Protect: rwx === '---' ? 0 : ProtectionByPermissions[rwx]!,
+        RegionSize: end - start,
+        State: rwx === '---' ? MemoryAllocationType.MEM_RESERVE : MemoryAllocationType.MEM_COMMIT,
+        Type: type,
+      });
+
+      return true;
+    }
+
+    return false;
+  }
+
+  public read(lpBaseAddress: bigint, lpBuffer: Pointer, nSize: bigint): void {
+    if (nSize === 0n) {
+      return;
+    }
+
+    if (libc && this.#transfer(libc.process_vm_readv, lpBaseAddress, lpBuffer, nSize) === nSize) {
+      return;
+    }
+
+    const view = new Uint8Array(toArrayBuffer(lpBuffer, 0, Number(nSize)));
+
+    try {
+      if (readSync(this.#open(), view, 0, view.byteLength, Number(lpBaseAddress)) === view.byteLength) {
+        return;
+      }
+    } catch (error) {
+      throw new MemoryError('read', lpBaseAddress, (error as Error).message);
+    }
+
+    throw new MemoryError('read', lpBaseAddress, 'short read from /proc/<pid>/mem');
+  }
+
+  public threads(): number[] {
+    return readdirSync(`/proc/${this.th32ProcessID}/task`).map(Number);
+  }
+
+  public write(lpBaseAddress: bigint, lpBuffer: Pointer, nSize: bigint): void {
+    if (nSize === 0n) {
+      return;
+    }
+
+    if (libc && this.#transfer(libc.process_vm_writev, lpBaseAddress, lpBuffer, nSize) === nSize) {
+      return;
+    }
+
+    const view = new Uint8Array(toArrayBuffer(lpBuffer, 0, Number(nSize)));
+
+    try {
+      if (writeSync(this.#open(), view, 0, view.byteLength, Number(lpBaseAddress)) === view.byteLength) {
+        return;
+      }
+    } catch (error) {
+      throw new MemoryError('write', lpBaseAddress, (error as Error).message);
+    }
+
+    throw new MemoryError('write', lpBaseAddress, 'short write to /proc/<pid>/mem');
+  }
+
+  /**
+   * Reads the pointer width from the main PE image (Wine) or, failing that, the ELF class of the executable.
+   */
+  #detect32Bit(): boolean {
+    const main = this.modules().find(({ szModule }) => szModule === this.szExeFile);
+    const header = Buffer.alloc(0x40);
+
+    try {
+      if (main !== undefined) {
+        this.read(main.modBaseAddr, ptr(header), 0x40n);
+
+        if (header.readUInt16LE(0x00) === 0x5a4d) {
+          const lfanew = header.readUInt32LE(0x3c);
+
+          this.read(main.modBaseAddr + BigInt(lfanew), ptr(header), 0x08n);
+
+          return header.readUInt16LE(0x04) === 0x014c; /* IMAGE_FILE_MACHINE_I386 */
+        }
+      }
+
+      const fd = openSync(`/proc/${this.th32ProcessID}/exe`, 'r');
+
+      try {
+        readSync(fd, header, 0, 0x05, 0);
+      } finally {
+        closeSync(fd);
+      }
+
+      return header[0x04] === 0x01; /* ELFCLASS32 */
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Parses /proc/<pid>/maps into #mappings and #images, dropping kernel-only ranges such as [vsyscall].
+   */
+  #maps(): Mapping[] {
+    const images = new Set<string>();
+    const mappings: Mapping[] = [];
+
+    let text: string;
+
+    try {
+      text = readFileSync(`/proc/${this.th32ProcessID}/maps`, 'utf8');
+    } catch (error) {
+      throw new MemoryError('query', 0n, (error as Error).message);
+    }
+
+    for (const line of text.split('\n')) {
+      const match = LinuxBackend.#Patterns.Mapping.exec(line);
+
+      if (match === null || match[6] === '[vsyscall]') {
+        continue;
+      }
+
+      const inode = Number(match[5]);
+      const path = match[6]!;
+      const permissions = match[3]!;
+
+      if (inode !== 0 && permissions[2] === 'x') {
+        images.add(path);
+      }
+
+      mappings.push({ end: BigInt(`0x${match[2]}`), inode, offset: BigInt(`0x${match[4]}`), path, permissions, start: BigInt(`0x${match[1]}`) });
+    }
+
+    this.#images = images;
+    this.#mappings = mappings;
+
+    return mappings;
+  }
+
+  /**
+   * Opens /proc/<pid>/mem for reading and, where permitted, writing.
+   */
+  #open(): number {
+    if (this.#fd === undefined) {
+      const path = `/proc/${this.th32ProcessID}/mem`;
+
+      try {
+        this.#fd = openSync(path, 'r+');
+      } catch {
+        this.#fd = openSync(path, 'r');
+      }
+    }
+
+    return this.#fd;
+  }
+
+  /**
+   * Moves `nSize` bytes with one process_vm_readv/writev call.
+   * @returns Bytes transferred, or -1n on failure.
+   */
+  #transfer(syscall: Library<typeof LibCSymbols>['symbols']['process_vm_readv'], address: bigint, lpBuffer: Pointer, nSize: bigint): bigint {
+    const iov = this.#Scratch32;
+
+    iov.u64[0x00] = BigInt(lpBuffer);
+    iov.u64[0x01] = nSize;
+    iov.u64[0x02] = address;
+    iov.u64[0x03] = nSize;
+
+    return syscall(this.th32ProcessID, iov.ptr, 0x01n, ptr(iov.buffer, 0x10), 0x01n, 0x00n) as bigint;
+  }
+}
+
+export default LinuxBackend;
+export { LinuxBackend };
@@ -38,6 +38,45 @@ class MemoryBasicInformation {
     this.ptr = ptr(this.buffer);
   }
 
+  /**
+   * Builds a cached MemoryBasicInformation from plain fields, for backends without VirtualQueryEx.
+   * @param fields Region fields; AllocationBase and AllocationProtect default to BaseAddress and Protect.
+   * @returns A MemoryBasicInformation backed by a freshly encoded buffer.
+   * @example
+   * ```ts
+   * const mbi = MemoryBasicInformation.from({ BaseAddress: 0x10000n, Protect: 0x04, RegionSize: 0x1000n, State: 0x1000, Type: 0x20000 });
+   * ```
+   */
+  public static from(fields: { AllocationBase?: bigint; AllocationProtect?: number; BaseAddress: bigint; Protect: number; RegionSize: bigint; State: number; Type: number }): MemoryBasicInformation {
+    const buffer = Buffer.alloc(0x30);
+
+    MemoryBasicInformation.encode(buffer, fields);
+
+    return new MemoryBasicInformation(buffer);
+  }
+
+  /**
+   * Encodes region fields into a 48-byte MEMORY_BASIC_INFORMATION buffer in place.
+   * @param buffer Destination buffer (at least 0x30 bytes).
+   * @param fields Region fields; AllocationBase and AllocationProtect default to BaseAddress and Protect.
+   * @example
+   * ```ts
+   * MemoryBasicInformation.encode(lpBuffer, { BaseAddress: 0x10000n, Protect: 0x04, RegionSize: 0x1000n, State: 0x1000, Type: 0x20000 });
+   * ```
+   */
+  public static encode(buffer: Buffer, fields: { AllocationBase?: bigint; AllocationProtect?: number; BaseAddress: bigint; Protect: number; RegionSize: bigint; State: number; Type: number }): void {
+    buffer.fill(0x00, 0x00, 0x30);
+    buffer.writeBigUInt64LE(fields.BaseAddress, 0x00);
+    buffer.writeBigUInt64LE(fields.AllocationBase ?? fields.BaseAddress, 0x08);
+    buffer.writeUInt32LE(fields.AllocationProtect ?? fields.Protect, 0x10);
+    buffer.writeBigUInt64LE(fields.RegionSize, 0x18);
+    buffer.writeUInt32LE(fields.State, 0x20);
+    buffer.writeUInt32LE(fields.Protect, 0x24);
+    buffer.writeUInt32LE(fields.Type, 0x28);
+
+    return;
+  }
+
   get AllocationBase(): bigint {
     return this.#cached ? (this.#AllocationBase ??= this.buffer.readBigUInt64LE(0x08)) : this.buffer.readBigUInt64LE(0x08);
   }
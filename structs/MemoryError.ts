@@ -0,0 +1,58 @@
+/**
+ * Represents a failed memory operation reported by a non-Win32 backend.
+ *
+ * The counterpart of `Win32Error` for backends that have no Win32 error code to report, such as
+ * an access to unmapped memory in a `BufferBackend`.
+ *
+ * @example
+ * ```ts
+ * import MemoryError from './MemoryError';
+ * throw new MemoryError('read', 0x1000n, 'address is not mapped');
+ * ```
+ */
+class MemoryError extends Error {
+  /**
+   * Address the failed operation targeted.
+   * @example
+   * ```ts
+   * if (error instanceof MemoryError) {
+   *   console.log(error.address.toString(16));
+   * }
+   * ```
+   */
+  public readonly address: bigint;
+
+  /**
+   * Name of the failed operation.
+   * @example
+   * ```ts
+   * if (error instanceof MemoryError) {
+   *   console.log(error.what);
+   * }
+   * ```
+   */
+  public readonly what: string;
+
+  /**
+   * Creates a new MemoryError.
+   * @param what Name of the failed operation (e.g., "read").
+   * @param address Address the operation targeted.
+   * @param reason Why the operation failed.
+   * @example
+   * ```ts
+   * throw new MemoryError('write', 0x1000n, 'page is not writable');
+   * ```
+   */
+  constructor(what: string, address: bigint, reason: string) {
+    super(`${what} failed at 0x${address.toString(16)}: ${reason}.`);
+
+    this.address = address;
+    this.name = 'MemoryError';
+    this.what = what;
+
+    Error.captureStackTrace?.(this, MemoryError);
+  }
+}
+
+export default MemoryError;
+export { MemoryError };
@@ -0,0 +1,526 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+
+import type { Socket as BunSocket, TCPSocketListener } from 'bun';
+import { ptr } from 'bun:ffi';
+
+import MemoryBasicInformation from './MemoryBasicInformation';
+import type Process from './Process';
+import Signature from './Signature';
+
+/**
+ * Request opcodes of the memory protocol.
+ */
+const Opcode = {
+  Follow: 0x07,
+  Hello: 0x01,
+  Modules: 0x05,
+  Pattern: 0x06,
+  Protect: 0x08,
+  Query: 0x04,
+  Read: 0x02,
+  Write: 0x03,
+} as const;
+
+/**
+ * Response statuses of the memory protocol.
+ */
+const Status = {
+  Failed: 0x01,
+  Ok: 0x00,
+  ReadOnly: 0x03,
+  TooLarge: 0x04,
+  Unauthorized: 0x02,
+  Unsupported: 0x05,
+} as const;
+
+/**
+ * Protocol version exchanged in the hello.
+ */
+const ProtocolVersion = 0x01;
+
+/**
+ * Per-connection state.
+ */
+type Connection = {
+  authorized: boolean;
+  inbox: Buffer;
+  outbox: Buffer[];
+};
+
+/**
+ * Serves an attached `Process` to `RemoteProcess` clients over TCP.
+ *
+ * Every message is a frame: a u32 little-endian body length, then the body. A request body is an
+ * opcode byte and its operands; a response body is a status byte and its result (or a UTF-8 error
+ * message). All integers are little-endian and addresses are u64.
+ *
+ * | Opcode        | Request                                              | Response                                                        |
+ * | ------------- | ---------------------------------------------------- | --------------------------------------------------------------- |
+ * | Hello `0x01`  | u16 version, token (UTF-8)                           | u16 version, u8 is32Bit, u8 readOnly, u32 maxRequestSize, u32 pid, u32 parent pid, u32 threads, i32 priority, szExeFile |
+ * | Read `0x02`   | u32 count, count × (u64 address, u32 length)          | per entry: u8 0 + bytes, or u8 1 + u16 length + message          |
+ * | Write `0x03`  | u32 count, count × (u64 address, u32 length, bytes)   | —                                                                |
+ * | Query `0x04`  | u64 address, u32 limit (0: to the end)                | u32 count, count × 48-byte MEMORY_BASIC_INFORMATION             |
+ * | Modules `0x05`| —                                                    | u32 count, count × (u64 base, u32 size, u16 + name, u16 + path)  |
+ * | Pattern `0x06`| u64 address, u32 length, u8 all, pattern (ASCII)      | u32 count, count × u64 address                                  |
+ * | Follow `0x07` | u64 address, u32 count, count × i64 offset            | u64 address (-1 when a pointer is null)                          |
+ * | Protect `0x08`| u64 address, u64 size, u32 protection                 | u32 previous protection                                          |
+ *
+ * The hello must come first and carry the server's token, when one is set; any other request
+ * before it is answered `Unauthorized` and the connection is closed. A read-only server answers
+ * Write and Protect with `ReadOnly`. Frames longer than `maxRequestSize` are answered `TooLarge`
+ * and end the connection. A Read batch whose total length exceeds the limit, and a Pattern or Query
+ * whose matches or regions would outgrow it, are refused `TooLarge`. A Write batch whose entries
+ * do not fill its frame exactly is refused as malformed before anything is written.
+ *
+ * @example
+ * ```ts
+ * const server = new MemoryServer(new Process('cs2.exe'), { hostname: '0.0.0.0', port: 7878, readOnly: true, token: 'secret' });
+ * // … later
+ * server.stop();
+ * ```
+ */
+class MemoryServer {
+  /**
+   * Starts listening.
+   * @param process Process to serve. The server does not close it.
+   * @param options `hostname` (defaults to 127.0.0.1) and `port` (defaults to 0, any free port) to
+   *   listen on, `token` clients must present, `readOnly` to refuse writes and protection changes,
+   *   and `maxRequestSize`, the largest request frame, Read batch, and Pattern or Query response in
+   *   bytes (defaults to 16 MiB).
+   * @throws If the address cannot be bound.
+   * @example
+   * ```ts
+   * const server = new MemoryServer(process, { port: 7878, token: 'secret' });
+   * console.log(server.port);
+   * ```
+   */
+  constructor(process: Process, options: { hostname?: string; maxRequestSize?: number; port?: number; readOnly?: boolean; token?: string } = {}) {
+    this.#process = process;
+
+    this.maxRequestSize = options.maxRequestSize ?? 0x100_0000;
+    this.readOnly = options.readOnly ?? false;
+
+    this.#token = options.token === undefined ? undefined : MemoryServer.#digest(options.token);
+
+    this.#listener = Bun.listen<Connection>({
+      hostname: options.hostname ?? '127.0.0.1',
+      port: options.port ?? 0,
+      socket: {
+        data: (socket, chunk) => this.#receive(socket, chunk),
+        drain: (socket) => this.#flush(socket),
+        open: (socket) => {
+          socket.data = { authorized: false, inbox: Buffer.alloc(0), outbox: [] };
+        },
+      },
+    });
+
+    this.port = this.#listener.port;
+  }
+
+  readonly #listener: TCPSocketListener<Connection>;
+
+  readonly #process: Process;
+
+  /**
+   * SHA-256 of the expected token, or undefined when the server is open.
+   */
+  readonly #token: Buffer | undefined;
+
+  /**
+   * Largest request frame, and largest Read batch total, the server accepts.
+   */
+  public readonly maxRequestSize: number;
+
+  /**
+   * TCP port the server listens on.
+   */
+  public readonly port: number;
+
+  /**
+   * Whether writes and protection changes are refused.
+   */
+  public readonly readOnly: boolean;
+
+  /**
+   * Stops listening and drops every connection. The served process stays open.
+   * @example
+   * ```ts
+   * server.stop();
+   * ```
+   */
+  public stop(): void {
+    this.#listener.stop(true);
+
+    return;
+  }
+
+  /**
+   * Hashes a token so comparisons run in constant time regardless of its length.
+   */
+  static #digest(token: string): Buffer {
+    return createHash('sha256').update(token, 'utf8').digest();
+  }
+
+  /**
+   * Builds a response frame.
+   */
+  static #frame(status: number, ...parts: Buffer[]): Buffer {
+    const length = parts.reduce((total, part) => total + part.byteLength, 0x01);
+    const header = Buffer.allocUnsafe(0x05);
+
+    header.writeUInt32LE(length, 0x00);
+    header.writeUInt8(status, 0x04);
+
+    return Buffer.concat([header, ...parts]);
+  }
+
+  /**
+   * Builds a failure frame carrying a message.
+   */
+  static #failure(status: number, message: string): Buffer {
+    return MemoryServer.#frame(status, Buffer.from(message, 'utf8'));
+  }
+
+  /**
+   * Writes queued response bytes until the socket pushes back.
+   */
+  #flush(socket: BunSocket<Connection>): void {
+    const { outbox } = socket.data;
+
+    while (outbox.length !== 0) {
+      const head = outbox[0]!;
+      const written = socket.write(head);
+
+      if (written < head.byteLength) {
+        outbox[0] = head.subarray(Math.max(written, 0));
+
+        return;
+      }
+
+      outbox.shift();
+    }
+
+    return;
+  }
+
+  /**
+   * Answers one request body.
+   */
+  #handle(connection: Connection, body: Buffer): Buffer {
+    const opcode = body[0x00];
+
+    if (opcode === Opcode.Hello) {
+      return this.#hello(connection, body);
+    }
+
+    if (!connection.authorized) {
+      return MemoryServer.#failure(Status.Unauthorized, 'The hello must come first.');
+    }
+
+    if (this.readOnly && (opcode === Opcode.Protect || opcode === Opcode.Write)) {
+      return MemoryServer.#failure(Status.ReadOnly, 'The server is read-only.');
+    }
+
+    try {
+      switch (opcode) {
+        case Opcode.Follow: {
+          const count = body.readUInt32LE(0x09);
+          const offsets = Array.from({ length: count }, (_, index) => body.readBigInt64LE(0x0d + index * 0x08));
+          const result = Buffer.allocUnsafe(0x08);
+
+          result.writeBigInt64LE(this.#process.follow(body.readBigUInt64LE(0x01), offsets));
+
+          return MemoryServer.#frame(Status.Ok, result);
+        }
+        case Opcode.Modules:
+          return MemoryServer.#frame(Status.Ok, this.#modules());
+        case Opcode.Pattern:
+          return this.#pattern(body);
+        case Opcode.Protect: {
+          const result = Buffer.allocUnsafe(0x04);
+
+          result.writeUInt32LE(this.#process.protection(body.readBigUInt64LE(0x01), Number(body.readBigUInt64LE(0x09)), body.readUInt32LE(0x11)) >>> 0);
+
+          return MemoryServer.#frame(Status.Ok, result);
+        }
+        case Opcode.Query:
+          return this.#query(body.readBigUInt64LE(0x01), body.readUInt32LE(0x09));
+        case Opcode.Read:
+          return this.#read(body);
+        case Opcode.Write:
+          return this.#write(body);
+        default:
+          return MemoryServer.#failure(Status.Unsupported, `Unknown opcode 0x${(opcode ?? 0).toString(16)}.`);
+      }
+    } catch (error) {
+      return MemoryServer.#failure(Status.Failed, (error as Error).message);
+    }
+  }
+
+  /**
+   * Checks the token and describes the target.
+   */
+  #hello(connection: Connection, body: Buffer): Buffer {
+    const version = body.readUInt16LE(0x01);
+
+    if (version !== ProtocolVersion) {
+      return MemoryServer.#failure(Status.Unsupported, `Protocol version ${version} is not supported.`);
+    }
+
+    if (this.#token !== undefined && !timingSafeEqual(this.#token, MemoryServer.#digest(body.toString('utf8', 0x03)))) {
+      return MemoryServer.#failure(Status.Unauthorized, 'The token was rejected.');
+    }
+
+    connection.authorized = true;
+
+    const process = this.#process;
+    const result = Buffer.allocUnsafe(0x18);
+
+    result.writeUInt16LE(ProtocolVersion, 0x00);
+    result.writeUInt8(process.is32Bit ? 0x01 : 0x00, 0x02);
+    result.writeUInt8(this.readOnly ? 0x01 : 0x00, 0x03);
+    result.writeUInt32LE(this.maxRequestSize, 0x04);
+    result.writeUInt32LE(process.th32ProcessID, 0x08);
+    result.writeUInt32LE(process.th32ParentProcessID, 0x0c);
+    result.writeUInt32LE(process.cntThreads, 0x10);
+    result.writeInt32LE(process.pcPriClassBase, 0x14);
+
+    return MemoryServer.#frame(Status.Ok, result, Buffer.from(process.szExeFile, 'utf8'));
+  }
+
+  /**
+   * Serializes the target's current modules.
+   */
+  #modules(): Buffer {
+    const modules = this.#process.backend.modules();
+    const parts: Buffer[] = [Buffer.allocUnsafe(0x04)];
+
+    parts[0]!.writeUInt32LE(modules.length, 0x00);
+
+    for (const { modBaseAddr, modBaseSize, szExePath, szModule } of modules) {
+      const name = Buffer.from(szModule, 'utf8');
+      const path = Buffer.from(szExePath, 'utf8');
+      const entry = Buffer.allocUnsafe(0x10 + name.byteLength + path.byteLength);
+
+      entry.writeBigUInt64LE(modBaseAddr, 0x00);
+      entry.writeUInt32LE(modBaseSize, 0x08);
+      entry.writeUInt16LE(name.byteLength, 0x0c);
+      entry.set(name, 0x0e);
+      entry.writeUInt16LE(path.byteLength, 0x0e + name.byteLength);
+      entry.set(path, 0x10 + name.byteLength);
+
+      parts.push(entry);
+    }
+
+    return Buffer.concat(parts);
+  }
+
+  /**
+   * Serves a Pattern request. An all-matches scan runs one `chunkSize` window at a time (each
+   * widened by the pattern's length, so a match across windows is still found) and is refused
+   * `TooLarge` as soon as its matches would outgrow `maxRequestSize`.
+   */
+  #pattern(body: Buffer): Buffer {
+    const [needle, address, length] = [body.toString('latin1', 0x0e), body.readBigUInt64LE(0x01), body.readUInt32LE(0x09)] as const;
+    const addresses: bigint[] = [];
+
+    if (body[0x0d] === 0x00) {
+      addresses.push(...[this.#process.pattern(needle, address, length)].filter((match) => match !== -1n));
+    } else {
+      let signature: Signature;
+
+      try {
+        signature = new Signature(needle);
+      } catch {
+        // Malformed: matches nothing, as it would locally.
+        return MemoryServer.#frame(Status.Ok, Buffer.alloc(0x04));
+      }
+
+      const limit = Math.floor(this.maxRequestSize / 0x08);
+      const window = this.#process.chunkSize;
+
+      for (let offset = 0; offset < length; offset += window) {
+        const start = address + BigInt(offset);
+        const end = start + BigInt(Math.min(window, length - offset));
+
+        for (const match of this.#process.pattern(signature, start, Math.min(window + signature.length - 0x01, length - offset), true)) {
+          if (match >= end) {
+            break;
+          }
+
+          if (addresses.length === limit) {
+            return MemoryServer.#failure(Status.TooLarge, `The pattern matches more than ${limit} times; the limit is ${this.maxRequestSize} bytes.`);
+          }
+
+          addresses.push(match);
+        }
+      }
+    }
+
+    const result = Buffer.allocUnsafe(0x04 + addresses.length * 0x08);
+
+    result.writeUInt32LE(addresses.length, 0x00);
+    addresses.forEach((match, index) => result.writeBigUInt64LE(match, 0x04 + index * 0x08));
+
+    return MemoryServer.#frame(Status.Ok, result);
+  }
+
+  /**
+   * Walks the region map from an address, up to `limit` regions (0 for all of them). Refused
+   * `TooLarge` once the regions would outgrow `maxRequestSize`.
+   */
+  #query(lpAddress: bigint, limit: number): Buffer {
+    const mbi = new MemoryBasicInformation();
+    const parts: Buffer[] = [Buffer.allocUnsafe(0x04)];
+    const maximum = Math.floor(this.maxRequestSize / 0x30);
+
+    while ((limit === 0 || parts.length <= limit) && this.#process.backend.query(lpAddress, mbi.buffer)) {
+      if (parts.length > maximum) {
+        return MemoryServer.#failure(Status.TooLarge, `The region map holds more than ${maximum} regions; the limit is ${this.maxRequestSize} bytes.`);
+      }
+
+      parts.push(Buffer.from(mbi.buffer));
+
+      lpAddress = mbi.BaseAddress + mbi.RegionSize;
+    }
+
+    parts[0]!.writeUInt32LE(parts.length - 0x01, 0x00);
+
+    return MemoryServer.#frame(Status.Ok, ...parts);
+  }
+
+  /**
+   * Serves a Read batch; each entry succeeds or fails on its own.
+   */
+  #read(body: Buffer): Buffer {
+    const count = body.readUInt32LE(0x01);
+
+    let total = 0;
+
+    for (let index = 0; index < count; index++) {
+      total += body.readUInt32LE(0x0d + index * 0x0c);
+    }
+
+    if (total > this.maxRequestSize) {
+      return MemoryServer.#failure(Status.TooLarge, `The batch reads ${total} bytes; the limit is ${this.maxRequestSize}.`);
+    }
+
+    const parts: Buffer[] = [];
+
+    for (let index = 0; index < count; index++) {
+      const address = body.readBigUInt64LE(0x05 + index * 0x0c);
+      const data = Buffer.allocUnsafe(0x01 + body.readUInt32LE(0x0d + index * 0x0c));
+
+      try {
+        if (data.byteLength !== 0x01) {
+          this.#process.backend.read(address, ptr(data, 0x01), BigInt(data.byteLength - 0x01));
+        }
+
+        data.writeUInt8(0x00, 0x00);
+
+        parts.push(data);
+      } catch (error) {
+        const message = Buffer.from((error as Error).message, 'utf8').subarray(0, 0xffff);
+        const header = Buffer.allocUnsafe(0x03);
+
+        header.writeUInt8(0x01, 0x00);
+        header.writeUInt16LE(message.byteLength, 0x01);
+
+        parts.push(header, message);
+      }
+    }
+
+    return MemoryServer.#frame(Status.Ok, ...parts);
+  }
+
+  /**
+   * Serves a Write batch, stopping at the first range that fails. The entries are checked against
+   * the frame before anything is written, so a truncated batch (or one with trailing bytes) writes
+   * nothing rather than part of a range.
+   */
+  #write(body: Buffer): Buffer {
+    const count = body.readUInt32LE(0x01);
+    const entries: { address: bigint; data: Buffer }[] = [];
+
+    let offset = 0x05;
+
+    for (let index = 0; index < count; index++) {
+      if (offset + 0x0c > body.byteLength) {
+        return MemoryServer.#failure(Status.Failed, 'Malformed request.');
+      }
+
+      const length = body.readUInt32LE(offset + 0x08);
+
+      if (offset + 0x0c + length > body.byteLength) {
+        return MemoryServer.#failure(Status.Failed, 'Malformed request.');
+      }
+
+      entries.push({ address: body.readBigUInt64LE(offset), data: body.subarray(offset + 0x0c, offset + 0x0c + length) });
+
+      offset += 0x0c + length;
+    }
+
+    if (offset !== body.byteLength) {
+      return MemoryServer.#failure(Status.Failed, 'Malformed request.');
+    }
+
+    for (const { address, data } of entries) {
+      this.#process.write(address, data);
+    }
+
+    return MemoryServer.#frame(Status.Ok);
+  }
+
+  /**
+   * Buffers received bytes and answers each complete request frame.
+   */
+  #receive(socket: BunSocket<Connection>, chunk: Buffer): void {
+    const connection = socket.data;
+
+    connection.inbox = connection.inbox.byteLength === 0 ? Buffer.from(chunk) : Buffer.concat([connection.inbox, chunk]);
+
+    while (connection.inbox.byteLength >= 0x04) {
+      const length = connection.inbox.readUInt32LE(0x00);
+
+      if (length > this.maxRequestSize) {
+        connection.outbox.push(MemoryServer.#failure(Status.TooLarge, `The request is ${length} bytes; the limit is ${this.maxRequestSize}.`));
+        this.#flush(socket);
+        socket.end();
+
+        return;
+      }
+
+      if (connection.inbox.byteLength < 0x04 + length) {
+        break;
+      }
+
+      const body = connection.inbox.subarray(0x04, 0x04 + length);
+
+      connection.inbox = connection.inbox.subarray(0x04 + length);
+
+      let response: Buffer;
+
+      try {
+        response = this.#handle(connection, body);
+      } catch {
+        response = MemoryServer.#failure(Status.Failed, 'Malformed request.');
+      }
+
+      connection.outbox.push(response);
+
+      if (!connection.authorized) {
+        this.#flush(socket);
+        socket.end();
+
+        return;
+      }
+    }
+
+    this.#flush(socket);
+
+    return;
+  }
+}
+
+export default MemoryServer;
+export { MemoryServer, Opcode, Status };
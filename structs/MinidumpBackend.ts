@@ -0,0 +1,472 @@
+import { closeSync, openSync, readSync } from 'node:fs';
+
+import { type Pointer, ptr, toArrayBuffer } from 'bun:ffi';
+
+import { MemoryAllocationType, MemoryProtection } from '@bun-win32/kernel32';
+
+import type { Backend } from '../types/Backend';
+import MemoryBasicInformation from './MemoryBasicInformation';
+import MemoryError from './MemoryError';
+import Module from './Module';
+
+const MEM_FREE = 0x0001_0000;
+const MEM_IMAGE = 0x0100_0000;
+const MEM_PRIVATE = 0x0002_0000;
+
+/**
+ * MINIDUMP_STREAM_TYPE values of the streams MinidumpBackend reads and MinidumpWriter writes.
+ */
+const StreamType = {
+  MemoryInfoListStream: 0x10,
+  MemoryListStream: 0x05,
+  Memory64ListStream: 0x09,
+  MiscInfoStream: 0x0f,
+  ModuleListStream: 0x04,
+  SystemInfoStream: 0x07,
+  ThreadListStream: 0x03,
+} as const;
+
+/**
+ * A memory range whose bytes were captured in the dump.
+ */
+type Range = {
+  base: bigint;
+  end: bigint;
+  rva: bigint;
+};
+
+/**
+ * A region reported by query().
+ */
+type Region = {
+  allocationBase: bigint;
+  allocationProtect: number;
+  base: bigint;
+  end: bigint;
+  protect: number;
+  state: number;
+  type: number;
+};
+
+/**
+ * A read-only `Process` backend over a Windows minidump (`.dmp`) file.
+ *
+ * Parses the header and stream directory, then the module list, the memory lists (`MemoryListStream`
+ * for small dumps, `Memory64ListStream` for full-memory dumps), the system info (architecture), the
+ * memory info list (regions), the thread list, and the misc info (process ID). Memory bytes stay in
+ * the file and are read on demand, so multi-gigabyte full dumps open instantly.
+ *
+ * `query()` reports the dump's region list when it has one, otherwise one committed region per
+ * captured range. Committed memory whose bytes were not captured is reported as `MEM_RESERVE`, so
+ * `pattern()` and `indexOf()` scan exactly what the dump holds. Reads of uncaptured memory throw
+ * `MemoryError`; writes, `alloc`, `free`, `protect`, and `call` throw because a dump is read-only.
+ *
+ * @example
+ * ```ts
+ * const crash = new Process(new MinidumpBackend('cs2-crash.dmp'));
+ * const client = crash.modules['client.dll'];
+ * crash.u32(client.modBaseAddr + 0x1234n);
+ * ```
+ */
+class MinidumpBackend implements Backend {
+  /**
+   * Opens a minidump.
+   * @param source Path of the `.dmp` file, or its contents.
+   * @param options Overrides the detected pointer width.
+   * @throws If the file is not a minidump or lacks a memory list.
+   * @example
+   * ```ts
+   * const backend = new MinidumpBackend('cs2-crash.dmp');
+   * const fromBytes = new MinidumpBackend(await Bun.file('cs2-crash.dmp').bytes().then(Buffer.from));
+   * ```
+   */
+  constructor(source: Buffer | string, options: { is32Bit?: boolean } = {}) {
+    this.#source = typeof source === 'string' ? openSync(source, 'r') : source;
+
+    try {
+      const header = this.#at(0n, 0x20);
+
+      if (header.readUInt32LE(0x00) !== 0x504d_444d /* 'MDMP' */) {
+        throw new Error('Not a minidump: missing the MDMP signature.');
+      }
+
+      const numberOfStreams = header.readUInt32LE(0x08);
+      const directory = this.#at(BigInt(header.readUInt32LE(0x0c)), numberOfStreams * 0x0c);
+      const streams = new Map<number, Buffer>();
+
+      for (let offset = 0; offset < directory.byteLength; offset += 0x0c) {
+        const streamType = directory.readUInt32LE(offset);
+
+        // Dumps may carry unused (type 0) entries; the first stream of each type wins.
+        if (!streams.has(streamType)) {
+          streams.set(streamType, this.#at(BigInt(directory.readUInt32LE(offset + 0x08)), directory.readUInt32LE(offset + 0x04)));
+        }
+      }
+
+      this.#modules = this.#parseModules(streams.get(StreamType.ModuleListStream));
+      this.#ranges = this.#parseRanges(streams.get(StreamType.Memory64ListStream), streams.get(StreamType.MemoryListStream));
+      this.#regions = this.#parseRegions(streams.get(StreamType.MemoryInfoListStream));
+
+      const misc = streams.get(StreamType.MiscInfoStream);
+      const systemInfo = streams.get(StreamType.SystemInfoStream);
+      const threads = streams.get(StreamType.ThreadListStream);
+
+      // MINIDUMP_THREAD_LIST: a count, then 0x30-byte MINIDUMP_THREAD entries led by ThreadId.
+      this.#threads = threads === undefined ? [] : Array.from({ length: threads.readUInt32LE(0x00) }, (_, index) => threads.readUInt32LE(0x04 + index * 0x30));
+
+      this.cntThreads = this.#threads.length;
+      this.szExeFile = this.#modules[0]?.szModule ?? '';
+      // MINIDUMP_MISC_INFO.ProcessId is valid only with MINIDUMP_MISC1_PROCESS_ID set in Flags1.
+      this.th32ProcessID = misc !== undefined && (misc.readUInt32LE(0x04) & 0x01) !== 0 ? misc.readUInt32LE(0x08) : 0;
+      this.is32Bit = options.is32Bit ?? this.#detect32Bit(systemInfo);
+    } catch (error) {
+      this.close();
+
+      throw error;
+    }
+  }
+
+  /**
+   * Loaded modules, main executable first.
+   */
+  readonly #modules: Module[];
+
+  /**
+   * Captured memory ranges, sorted by base address.
+   */
+  readonly #ranges: Range[];
+
+  /**
+   * Regions reported by query(), sorted by base address.
+   */
+  readonly #regions: Region[];
+
+  /**
+   * The dump contents, or the descriptor of the open file.
+   */
+  #source: Buffer | number | undefined;
+
+  /**
+   * Thread IDs from the thread list.
+   */
+  readonly #threads: number[];
+
+  public readonly cntThreads: number;
+  public readonly hProcess = 0n;
+  public readonly is32Bit: boolean;
+  public readonly pcPriClassBase = 0;
+  public readonly szExeFile: string;
+  public readonly th32ParentProcessID = 0;
+  public readonly th32ProcessID: number;
+
+  public alloc(): bigint {
+    throw new MemoryError('alloc', 0n, 'a minidump is read-only');
+  }
+
+  public close(): void {
+    if (typeof this.#source === 'number') {
+      closeSync(this.#source);
+    }
+
+    this.#source = undefined;
+
+    return;
+  }
+
+  public execute(lpStartAddress: bigint): void {
+    throw new MemoryError('execute', lpStartAddress, 'a minidump is read-only');
+  }
+
+  public free(lpAddress: bigint): void {
+    throw new MemoryError('free', lpAddress, 'a minidump is read-only');
+  }
+
+  public modules(): Module[] {
+    return [...this.#modules];
+  }
+
+  public protect(lpAddress: bigint): number {
+    throw new MemoryError('protect', lpAddress, 'a minidump is read-only');
+  }
+
+  public query(lpAddress: bigint, lpBuffer: Buffer): boolean {
+    for (const region of this.#regions) {
+      if (region.end <= lpAddress) {
+        continue;
+      }
+
+      if (region.base <= lpAddress) {
+        MemoryBasicInformation.encode(lpBuffer, {
+          AllocationBase: region.allocationBase,
+          AllocationProtect: region.allocationProtect,
+          BaseAddress: region.base,
+          Protect: region.protect,
+          RegionSize: region.end - region.base,
+          State: region.state,
+          Type: region.type,
+        });
+
+        return true;
+      }
+
+      MemoryBasicInformation.encode(lpBuffer, { AllocationBase: 0n, AllocationProtect: 0, BaseAddress: lpAddress, Protect: MemoryProtection.PAGE_NOACCESS, RegionSize: region.base - lpAddress, State: MEM_FREE, Type: 0 });
+
+      return true;
+    }
+
+    return false;
+  }
+
+  public read(lpBaseAddress: bigint, lpBuffer: Pointer, nSize: bigint): void {
+    if (nSize === 0n) {
+      return;
+    }
+
+    if (this.#source === undefined) {
+      throw new MemoryError('read', lpBaseAddress, 'the minidump is closed');
+    }
+
+    const end = lpBaseAddress + nSize;
+    const target = new Uint8Array(toArrayBuffer(lpBuffer, 0, Number(nSize)));
+
+    let cursor = lpBaseAddress;
+
+    for (let index = this.#search(lpBaseAddress); index < this.#ranges.length; index++) {
+      const range = this.#ranges[index]!;
+
+      if (range.base > cursor) {
+        break;
+      }
+
+      const sliceEnd = range.end < end ? range.end : end;
+
+      this.#copy(target.subarray(Number(cursor - lpBaseAddress), Number(sliceEnd - lpBaseAddress)), range.rva + (cursor - range.base));
+
+      cursor = sliceEnd;
+
+      if (cursor === end) {
+        return;
+      }
+    }
+
+    throw new MemoryError('read', cursor, 'address was not captured in the dump');
+  }
+
+  public threads(): number[] {
+    return [...this.#threads];
+  }
+
+  public write(lpBaseAddress: bigint): void {
+    throw new MemoryError('write', lpBaseAddress, 'a minidump is read-only');
+  }
+
+  /**
+   * Reads `length` bytes at file offset `rva` into a new buffer.
+   */
+  #at(rva: bigint, length: number): Buffer {
+    const buffer = Buffer.alloc(length);
+
+    this.#copy(buffer, rva);
+
+    return buffer;
+  }
+
+  /**
+   * Fills `target` from file offset `rva`.
+   * @throws If the file ends first.
+   */
+  #copy(target: Uint8Array, rva: bigint): void {
+    const source = this.#source!;
+
+    const copied =
+      typeof source === 'number' //
+        ? readSync(source, target, 0, target.byteLength, Number(rva))
+        : source.copy(target, 0, Number(rva), Number(rva) + target.byteLength);
+
+    if (copied !== target.byteLength) {
+      throw new RangeError(`Truncated minidump: ${target.byteLength} bytes at 0x${rva.toString(16)} run past the end of the file.`);
+    }
+
+    return;
+  }
+
+  /**
+   * Reads the pointer width from the main image's PE header, falling back to the dump's architecture.
+   *
+   * A 64-bit debugger dumping a WOW64 process records AMD64, so the header is the better witness.
+   */
+  #detect32Bit(systemInfo: Buffer | undefined): boolean {
+    const main = this.#modules[0];
+    const header = Buffer.alloc(0x40);
+
+    if (main !== undefined) {
+      try {
+        this.read(main.modBaseAddr, ptr(header), 0x40n);
+
+        if (header.readUInt16LE(0x00) === 0x5a4d) {
+          const lfanew = header.readUInt32LE(0x3c);
+
+          this.read(main.modBaseAddr + BigInt(lfanew), ptr(header), 0x08n);
+
+          return header.readUInt16LE(0x04) === 0x014c; /* IMAGE_FILE_MACHINE_I386 */
+        }
+      } catch {
+        // The header page was not captured; fall through to the recorded architecture.
+      }
+    }
+
+    return systemInfo !== undefined && systemInfo.readUInt16LE(0x00) === 0x0000; /* PROCESSOR_ARCHITECTURE_INTEL */
+  }
+
+  /**
+   * Parses MINIDUMP_MODULE_LIST: a count, then 0x6c-byte MINIDUMP_MODULE entries naming their MINIDUMP_STRING.
+   */
+  #parseModules(stream: Buffer | undefined): Module[] {
+    if (stream === undefined) {
+      return [];
+    }
+
+    const modules: Module[] = [];
+    const numberOfModules = stream.readUInt32LE(0x00);
+
+    for (let index = 0, offset = 0x04; index < numberOfModules; index++, offset += 0x6c) {
+      const nameRva = BigInt(stream.readUInt32LE(offset + 0x14));
+      const name = this.#at(nameRva + 0x04n, this.#at(nameRva, 0x04).readUInt32LE(0x00)).toString('utf16le');
+
+      modules.push(
+        Module.from({
+          modBaseAddr: stream.readBigUInt64LE(offset + 0x00),
+          modBaseSize: stream.readUInt32LE(offset + 0x08),
+          szExePath: name,
+          szModule: name.split(/[\\/]/).at(-1)!,
+        }),
+      );
+    }
+
+    return modules;
+  }
+
+  /**
+   * Parses the captured ranges from MINIDUMP_MEMORY64_LIST (contiguous data from BaseRva) or, failing
+   * that, MINIDUMP_MEMORY_LIST (one location descriptor per range).
+   * @throws If the dump has neither.
+   */
+  #parseRanges(memory64: Buffer | undefined, memory: Buffer | undefined): Range[] {
+    const ranges: Range[] = [];
+
+    if (memory64 !== undefined) {
+      const numberOfMemoryRanges = Number(memory64.readBigUInt64LE(0x00));
+
+      let rva = memory64.readBigUInt64LE(0x08);
+
+      for (let index = 0, offset = 0x10; index < numberOfMemoryRanges; index++, offset += 0x10) {
+        const base = memory64.readBigUInt64LE(offset + 0x00);
+        const dataSize = memory64.readBigUInt64LE(offset + 0x08);
+
+        ranges.push({ base, end: base + dataSize, rva });
+
+        rva += dataSize;
+      }
+    } else if (memory !== undefined) {
+      const numberOfMemoryRanges = memory.readUInt32LE(0x00);
+
+      for (let index = 0, offset = 0x04; index < numberOfMemoryRanges; index++, offset += 0x10) {
+        const base = memory.readBigUInt64LE(offset + 0x00);
+
+        ranges.push({ base, end: base + BigInt(memory.readUInt32LE(offset + 0x08)), rva: BigInt(memory.readUInt32LE(offset + 0x0c)) });
+      }
+    } else {
+      throw new Error('Minidump has no MemoryListStream or Memory64ListStream.');
+    }
+
+    return ranges.filter(({ base, end }) => end > base).sort((a, b) => (a.base < b.base ? -1 : a.base > b.base ? 1 : 0));
+  }
+
+  /**
+   * Builds the query() regions from MINIDUMP_MEMORY_INFO_LIST, splitting committed regions at the
+   * edges of the captured ranges; without that stream, each captured range becomes one region.
+   */
+  #parseRegions(memoryInfo: Buffer | undefined): Region[] {
+    if (memoryInfo === undefined) {
+      return this.#ranges.map(({ base, end }) => {
+        const image = this.#modules.some(({ modBaseAddr, modEndAddr }) => modBaseAddr <= base && base < modEndAddr);
+
+        return { allocationBase: base, allocationProtect: MemoryProtection.PAGE_READONLY, base, end, protect: MemoryProtection.PAGE_READONLY, state: MemoryAllocationType.MEM_COMMIT, type: image ? MEM_IMAGE : MEM_PRIVATE };
+      });
+    }
+
+    const sizeOfHeader = memoryInfo.readUInt32LE(0x00);
+    const sizeOfEntry = memoryInfo.readUInt32LE(0x04);
+    const numberOfEntries = Number(memoryInfo.readBigUInt64LE(0x08));
+
+    const regions: Region[] = [];
+
+    for (let index = 0, offset = sizeOfHeader; index < numberOfEntries; index++, offset += sizeOfEntry) {
+      // MINIDUMP_MEMORY_INFO has the MEMORY_BASIC_INFORMATION64 layout.
+      const info: Region = {
+        allocationBase: memoryInfo.readBigUInt64LE(offset + 0x08),
+        allocationProtect: memoryInfo.readUInt32LE(offset + 0x10),
+        base: memoryInfo.readBigUInt64LE(offset + 0x00),
+        end: memoryInfo.readBigUInt64LE(offset + 0x00) + memoryInfo.readBigUInt64LE(offset + 0x18),
+        protect: memoryInfo.readUInt32LE(offset + 0x24),
+        state: memoryInfo.readUInt32LE(offset + 0x20),
+        type: memoryInfo.readUInt32LE(offset + 0x28),
+      };
+
+      if (info.state !== MemoryAllocationType.MEM_COMMIT) {
+        regions.push(info);
+
+        continue;
+      }
+
+      let cursor = info.base;
+
+      for (let rangeIndex = this.#search(info.base); rangeIndex < this.#ranges.length; rangeIndex++) {
+        const range = this.#ranges[rangeIndex]!;
+
+        if (range.base >= info.end) {
+          break;
+        }
+
+        if (range.base > cursor) {
+          regions.push({ ...info, base: cursor, end: range.base, protect: 0, state: MemoryAllocationType.MEM_RESERVE });
+        }
+
+        const end = range.end < info.end ? range.end : info.end;
+
+        regions.push({ ...info, base: range.base > cursor ? range.base : cursor, end });
+
+        cursor = end;
+      }
+
+      if (cursor < info.end) {
+        regions.push({ ...info, base: cursor, end: info.end, protect: 0, state: MemoryAllocationType.MEM_RESERVE });
+      }
+    }
+
+    return regions.filter(({ base, end }) => end > base).sort((a, b) => (a.base < b.base ? -1 : a.base > b.base ? 1 : 0));
+  }
+
+  /**
+   * Returns the index of the first captured range that ends after `address`.
+   */
+  #search(address: bigint): number {
+    let low = 0;
+    let high = this.#ranges.length;
+
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+
+      if (this.#ranges[middle]!.end <= address) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    return low;
+  }
+}
+
+export default MinidumpBackend;
+export { MinidumpBackend, StreamType };
@@ -0,0 +1,404 @@
+import { closeSync, openSync, writeSync } from 'node:fs';
+
+import { ptr } from 'bun:ffi';
+
+import { MemoryAllocationType, MemoryProtection } from '@bun-win32/kernel32';
+
+import type { Backend } from '../types/Backend';
+import type { DumpOptions } from '../types/Process';
+import MemoryBasicInformation from './MemoryBasicInformation';
+import { StreamType } from './MinidumpBackend';
+import type Module from './Module';
+
+/**
+ * Bytes read from the target per call while streaming memory into the dump.
+ */
+const ChunkSize = 0x10_0000;
+
+/**
+ * Granularity of the per-page retry when a chunk cannot be read whole.
+ */
+const PageSize = 0x1000;
+
+/**
+ * A captured memory range of the Memory64ListStream.
+ */
+type Range = {
+  base: bigint;
+  size: bigint;
+};
+
+/**
+ * Serializes a backend's current state into a Windows minidump (`.dmp`) file.
+ *
+ * The dump carries a ModuleListStream (with each image's PE timestamp and checksum, so debuggers can
+ * fetch symbols), a SystemInfoStream (AMD64 or x86 from `is32Bit`), a MiscInfoStream (process ID), a
+ * MemoryInfoListStream with every region `query()` reports, a Memory64ListStream with the selected
+ * committed regions, and optionally a ThreadListStream of thread IDs. Memory is streamed to disk in
+ * 1 MiB chunks; pages that cannot be read are left out rather than failing the dump. The memory
+ * descriptors are reserved ahead of the data, so captures past 4 GiB stay addressable, and the
+ * header claims MiniDumpWithFullMemory only when no option narrowed the capture.
+ *
+ * The output opens in WinDbg and in `MinidumpBackend`.
+ *
+ * @example
+ * ```ts
+ * MinidumpWriter.write('cs2.dmp', new Kernel32Backend('cs2.exe'), { type: 0x1000000 });
+ * ```
+ */
+class MinidumpWriter {
+  /**
+   * Writes a minidump of `backend` to `path`, replacing any existing file.
+   * @param path Destination file.
+   * @param backend Target to capture.
+   * @param options Region filters and whether to include threads.
+   * @example
+   * ```ts
+   * MinidumpWriter.write('cs2.dmp', cs2.backend, { modules: ['client.dll'] });
+   * ```
+   */
+  public static write(path: string, backend: Backend, options: DumpOptions = {}): void {
+    const modules = backend.modules();
+    const regions = MinidumpWriter.#regions(backend);
+    const selected = MinidumpWriter.#select(regions, modules, options);
+    const threads = options.threads ? (backend.threads?.() ?? []) : undefined;
+
+    const head: Buffer[] = [];
+    const directory: { rva: number; size: number; streamType: number }[] = [];
+    const numberOfStreams = threads === undefined ? 0x05 : 0x06;
+
+    let rva = 0x20 + numberOfStreams * 0x0c;
+
+    const append = (buffer: Buffer): number => {
+      const padding = -rva & 0x07;
+
+      if (padding !== 0) {
+        head.push(Buffer.alloc(padding));
+        rva += padding;
+      }
+
+      const at = rva;
+
+      head.push(buffer);
+      rva += buffer.byteLength;
+
+      return at;
+    };
+
+    // A stream's trailing bytes (e.g. the strings it points at) are written with it but not counted in its size.
+    const stream = (streamType: number, buffer: Buffer, size: number = buffer.byteLength): void => {
+      directory.push({ rva: append(buffer), size, streamType });
+
+      return;
+    };
+
+    // ModuleListStream: the 0x6c-byte MINIDUMP_MODULE entries, followed by their MINIDUMP_STRING names.
+    const moduleList = Buffer.alloc(0x04 + modules.length * 0x6c);
+    const moduleListRva = rva + (-rva & 0x07);
+    const names: Buffer[] = [];
+
+    moduleList.writeUInt32LE(modules.length, 0x00);
+
+    let nameRva = moduleListRva + moduleList.byteLength;
+
+    for (const [index, module] of modules.entries()) {
+      const offset = 0x04 + index * 0x6c;
+      const name = MinidumpWriter.#string(module.szExePath || module.szModule);
+      const { checkSum, timeDateStamp } = MinidumpWriter.#imageStamps(backend, module.modBaseAddr);
+
+      moduleList.writeBigUInt64LE(module.modBaseAddr, offset + 0x00);
+      moduleList.writeUInt32LE(module.modBaseSize, offset + 0x08);
+      moduleList.writeUInt32LE(checkSum, offset + 0x0c);
+      moduleList.writeUInt32LE(timeDateStamp, offset + 0x10);
+      moduleList.writeUInt32LE(nameRva, offset + 0x14);
+
+      names.push(name);
+      nameRva += name.byteLength;
+    }
+
+    stream(StreamType.ModuleListStream, Buffer.concat([moduleList, ...names]), moduleList.byteLength);
+
+    // SystemInfoStream: MINIDUMP_SYSTEM_INFO, with an empty CSDVersion string right after it.
+    const systemInfo = Buffer.alloc(0x38);
+
+    systemInfo.writeUInt16LE(backend.is32Bit ? 0x0000 /* PROCESSOR_ARCHITECTURE_INTEL */ : 0x0009 /* PROCESSOR_ARCHITECTURE_AMD64 */, 0x00);
+    systemInfo.writeUInt8(0x01, 0x06); // NumberOfProcessors
+    systemInfo.writeUInt8(0x01, 0x07); // VER_NT_WORKSTATION
+    systemInfo.writeUInt32LE(0x0a, 0x08); // MajorVersion
+    systemInfo.writeUInt32LE(0x02, 0x14); // VER_PLATFORM_WIN32_NT
+    systemInfo.writeUInt32LE(rva + (-rva & 0x07) + systemInfo.byteLength, 0x18);
+
+    stream(StreamType.SystemInfoStream, Buffer.concat([systemInfo, MinidumpWriter.#string('')]), systemInfo.byteLength);
+
+    // MiscInfoStream: MINIDUMP_MISC_INFO with only MINIDUMP_MISC1_PROCESS_ID.
+    const misc = Buffer.alloc(0x18);
+
+    misc.writeUInt32LE(misc.byteLength, 0x00);
+    misc.writeUInt32LE(0x01, 0x04);
+    misc.writeUInt32LE(backend.th32ProcessID, 0x08);
+
+    stream(StreamType.MiscInfoStream, misc);
+
+    // MemoryInfoListStream: MINIDUMP_MEMORY_INFO shares the MEMORY_BASIC_INFORMATION64 layout.
+    const memoryInfo = Buffer.alloc(0x10 + regions.length * 0x30);
+
+    memoryInfo.writeUInt32LE(0x10, 0x00);
+    memoryInfo.writeUInt32LE(0x30, 0x04);
+    memoryInfo.writeBigUInt64LE(BigInt(regions.length), 0x08);
+
+    for (const [index, region] of regions.entries()) {
+      region.buffer.copy(memoryInfo, 0x10 + index * 0x30, 0x00, 0x30);
+      memoryInfo.writeUInt32LE(0x00, 0x10 + index * 0x30 + 0x14); // __alignment1 (PartitionId)
+      memoryInfo.writeUInt32LE(0x00, 0x10 + index * 0x30 + 0x2c); // __alignment2
+    }
+
+    stream(StreamType.MemoryInfoListStream, memoryInfo);
+
+    // ThreadListStream: MINIDUMP_THREAD entries carrying only ThreadId.
+    if (threads !== undefined) {
+      const threadList = Buffer.alloc(0x04 + threads.length * 0x30);
+
+      threadList.writeUInt32LE(threads.length, 0x00);
+
+      for (const [index, threadId] of threads.entries()) {
+        threadList.writeUInt32LE(threadId, 0x04 + index * 0x30);
+      }
+
+      stream(StreamType.ThreadListStream, threadList);
+    }
+
+    // Memory64ListStream: LOCATION_DESCRIPTOR.Rva is 32-bit, so the descriptors go in the head, before
+    // the data (which BaseRva reaches past 4 GiB). Which ranges are readable is only known once the
+    // data is written, so the table is sized for the most the per-page retry can leave: every other page.
+    const maxRanges = selected.reduce((total, { size }) => total + Math.ceil(Math.ceil(Number(size) / PageSize) / 0x02), 0);
+    const memory64 = Buffer.alloc(0x10 + maxRanges * 0x10);
+    const memory64Rva = append(memory64);
+
+    // Without a narrowing option, every readable committed page is captured.
+    const full = options.filter === undefined && options.modules === undefined && options.protect === undefined && options.type === undefined;
+
+    const fd = openSync(path, 'w');
+
+    try {
+      // Memory data goes straight after the head.
+      const baseRva = BigInt(rva + (-rva & 0x07));
+
+      if (baseRva !== BigInt(rva)) {
+        head.push(Buffer.alloc(Number(baseRva) - rva));
+      }
+
+      const header = Buffer.alloc(0x20 + numberOfStreams * 0x0c);
+
+      header.writeUInt32LE(0x504d_444d /* 'MDMP' */, 0x00);
+      header.writeUInt32LE(0xa793 /* MINIDUMP_VERSION */, 0x04);
+      header.writeUInt32LE(numberOfStreams, 0x08);
+      header.writeUInt32LE(0x20, 0x0c);
+      header.writeUInt32LE(Math.floor(Date.now() / 0x3e8), 0x14);
+      header.writeBigUInt64LE(full ? 0x0802n /* MiniDumpWithFullMemory | MiniDumpWithFullMemoryInfo */ : 0x0800n /* MiniDumpWithFullMemoryInfo */, 0x18);
+
+      let position = 0;
+
+      position += writeSync(fd, header, 0, header.byteLength, position);
+
+      for (const buffer of head) {
+        position += writeSync(fd, buffer, 0, buffer.byteLength, position);
+      }
+
+      const ranges = MinidumpWriter.#capture(fd, position, backend, selected);
+      const memory64Size = 0x10 + ranges.length * 0x10;
+
+      memory64.writeBigUInt64LE(BigInt(ranges.length), 0x00);
+      memory64.writeBigUInt64LE(baseRva, 0x08);
+
+      for (const [index, { base, size }] of ranges.entries()) {
+        memory64.writeBigUInt64LE(base, 0x10 + index * 0x10);
+        memory64.writeBigUInt64LE(size, 0x18 + index * 0x10);
+      }
+
+      writeSync(fd, memory64, 0, memory64Size, memory64Rva);
+
+      directory.push({ rva: memory64Rva, size: memory64Size, streamType: StreamType.Memory64ListStream });
+
+      const entries = Buffer.alloc(directory.length * 0x0c);
+
+      for (const [index, { rva, size, streamType }] of directory.entries()) {
+        entries.writeUInt32LE(streamType, index * 0x0c + 0x00);
+        entries.writeUInt32LE(size, index * 0x0c + 0x04);
+        entries.writeUInt32LE(rva, index * 0x0c + 0x08);
+      }
+
+      writeSync(fd, entries, 0, entries.byteLength, 0x20);
+    } finally {
+      closeSync(fd);
+    }
+
+    return;
+  }
+
+  /**
+   * Streams the selected regions into the file at `position`, retrying page by page when a chunk
+   * cannot be read, and returns the contiguous ranges that made it in.
+   */
+  static #capture(fd: number, position: number, backend: Backend, selected: Range[]): Range[] {
+    const chunk = Buffer.allocUnsafe(ChunkSize);
+    const ranges: Range[] = [];
+
+    const keep = (address: bigint, length: number): void => {
+      position += writeSync(fd, chunk, 0, length, position);
+
+      const last = ranges.at(-1);
+
+      if (last !== undefined && last.base + last.size === address) {
+        last.size += BigInt(length);
+      } else {
+        ranges.push({ base: address, size: BigInt(length) });
+      }
+
+      return;
+    };
+
+    const lpBuffer = ptr(chunk);
+
+    for (const { base, size } of selected) {
+      const end = base + size;
+
+      for (let address = base; address < end; address += BigInt(ChunkSize)) {
+        const length = Number(end - address < BigInt(ChunkSize) ? end - address : BigInt(ChunkSize));
+
+        try {
+          backend.read(address, lpBuffer, BigInt(length));
+
+          keep(address, length);
+
+          continue;
+        } catch {
+          // Fall through to the per-page retry.
+        }
+
+        for (let page = 0; page < length; page += PageSize) {
+          const pageLength = Math.min(PageSize, length - page);
+
+          try {
+            backend.read(address + BigInt(page), lpBuffer, BigInt(pageLength));
+          } catch {
+            continue;
+          }
+
+          keep(address + BigInt(page), pageLength);
+        }
+      }
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Reads an image's PE TimeDateStamp and CheckSum, or zeros when its header is unreadable.
+   */
+  static #imageStamps(backend: Backend, modBaseAddr: bigint): { checkSum: number; timeDateStamp: number } {
+    const header = Buffer.alloc(0x60);
+
+    try {
+      backend.read(modBaseAddr, ptr(header), 0x40n);
+
+      if (header.readUInt16LE(0x00) !== 0x5a4d) {
+        return { checkSum: 0, timeDateStamp: 0 };
+      }
+
+      // IMAGE_NT_HEADERS: Signature, IMAGE_FILE_HEADER (TimeDateStamp @ +0x08), then the optional header (CheckSum @ +0x40).
+      backend.read(modBaseAddr + BigInt(header.readUInt32LE(0x3c)), ptr(header), 0x60n);
+
+      return { checkSum: header.readUInt32LE(0x58), timeDateStamp: header.readUInt32LE(0x08) };
+    } catch {
+      return { checkSum: 0, timeDateStamp: 0 };
+    }
+  }
+
+  /**
+   * Walks every region the backend reports.
+   */
+  static #regions(backend: Backend): MemoryBasicInformation[] {
+    const lpBuffer = Buffer.allocUnsafe(0x30);
+    const regions: MemoryBasicInformation[] = [];
+
+    let lpAddress = 0n;
+
+    while (backend.query(lpAddress, lpBuffer)) {
+      const region = new MemoryBasicInformation(Buffer.from(lpBuffer));
+
+      regions.push(region);
+
+      lpAddress = region.BaseAddress + region.RegionSize;
+    }
+
+    return regions;
+  }
+
+  /**
+   * Picks the committed, readable regions that pass the options, clipped to the requested modules.
+   */
+  static #select(regions: MemoryBasicInformation[], modules: Module[], options: DumpOptions): Range[] {
+    const bounds = options.modules?.map((name) => {
+      const module = modules.find(({ szModule }) => szModule.toLowerCase() === name.toLowerCase());
+
+      if (module === undefined) {
+        throw new Error(`Module not found: ${name}.`);
+      }
+
+      return { end: module.modEndAddr, start: module.modBaseAddr };
+    });
+
+    const selected: Range[] = [];
+
+    for (const region of regions) {
+      const protect = region.Protect;
+
+      if (region.State !== MemoryAllocationType.MEM_COMMIT || protect === MemoryProtection.PAGE_NOACCESS || (protect & MemoryProtection.PAGE_GUARD) !== 0) {
+        continue;
+      }
+
+      if ((options.protect !== undefined && (protect & options.protect) === 0) || (options.type !== undefined && (region.Type & options.type) === 0)) {
+        continue;
+      }
+
+      if (options.filter !== undefined && !options.filter(region)) {
+        continue;
+      }
+
+      const start = region.BaseAddress;
+      const end = start + region.RegionSize;
+
+      if (bounds === undefined) {
+        selected.push({ base: start, size: end - start });
+
+        continue;
+      }
+
+      for (const bound of bounds) {
+        const clippedStart = start > bound.start ? start : bound.start;
+        const clippedEnd = end < bound.end ? end : bound.end;
+
+        if (clippedStart < clippedEnd) {
+          selected.push({ base: clippedStart, size: clippedEnd - clippedStart });
+        }
+      }
+    }
+
+    return selected.sort((a, b) => (a.base < b.base ? -1 : a.base > b.base ? 1 : 0));
+  }
+
+  /**
+   * Encodes a MINIDUMP_STRING: a byte length, then null-terminated UTF-16LE.
+   */
+  static #string(value: string): Buffer {
+    const buffer = Buffer.alloc(0x04 + value.length * 0x02 + 0x02);
+
+    buffer.writeUInt32LE(value.length * 0x02, 0x00);
+    buffer.write(value, 0x04, 'utf16le');
+
+    return buffer;
+  }
+}
+
+export default MinidumpWriter;
+export { MinidumpWriter };
@@ -1,3 +1,17 @@
+import { readFileSync } from 'node:fs';
+
+import type { PEFunction, PEUnwindInfo, SectionDiff } from '../types/PE';
+import PEImage, { ImageDirectoryEntry } from './PEImage';
+import type Process from './Process';
+
+const IMAGE_SCN_MEM_WRITE = 0x8000_0000;
+
+/**
+ * Matching bytes that end a differing range in verify(); shorter matching runs are folded into it,
+ * so a patched instruction reads as one range even where a byte happens to be unchanged.
+ */
+const DiffGap = 0x04;
+
 const ReplaceTrailingNull = /\0+$/;
 
 /**
@@ -6,6 +20,9 @@ const ReplaceTrailingNull = /\0+$/;
  * Properties are lazily parsed from the buffer on first access,
  * then the getter is replaced with a direct value property.
  *
+ * Modules in `process.modules` are bound to their process, so `pe` can read the image's headers
+ * from the target on first access.
+ *
  * @example
  * ```ts
  * const cs2 = new Process('cs2.exe');
@@ -16,8 +33,80 @@ const ReplaceTrailingNull = /\0+$/;
 class Module {
   readonly #buffer: Buffer;
 
-  constructor(buffer: Buffer) {
+  /**
+   * Process the image is read through, set by `bind`.
+   */
+  readonly #process: Process | undefined;
+
+  constructor(buffer: Buffer, process?: Process) {
     this.#buffer = buffer;
+    this.#process = process;
+  }
+
+  /**
+   * Builds a Module from plain fields, for backends that do not enumerate through Toolhelp.
+   * @param fields Base address, size, name, and optional path / handle of the module.
+   * @returns A Module backed by a freshly encoded MODULEENTRY32W buffer.
+   * @example
+   * ```ts
+   * const client = Module.from({ modBaseAddr: 0x7ff600000000n, modBaseSize: 0x1000, szModule: 'client.dll' });
+   * ```
+   */
+  public static from(fields: { hModule?: bigint; modBaseAddr: bigint; modBaseSize: number; szExePath?: string; szModule: string }): Module {
+    const buffer = Buffer.alloc(0x438);
+
+    buffer.writeUInt32LE(0x438 /* sizeof(MODULEENTRY32W) */, 0x00);
+    buffer.writeBigUInt64LE(fields.modBaseAddr, 0x18);
+    buffer.writeUInt32LE(fields.modBaseSize, 0x20);
+    buffer.writeBigUInt64LE(fields.hModule ?? fields.modBaseAddr, 0x28);
+    buffer.write(fields.szModule.slice(0, 0xff), 0x30, 'utf16le');
+    buffer.write((fields.szExePath ?? fields.szModule).slice(0, 0x103), 0x230, 'utf16le');
+
+    return new Module(buffer);
+  }
+
+  /**
+   * Returns a copy of this module bound to the process it was enumerated from. `Process.refresh()`
+   * binds every module it lists.
+   * @param process Process whose memory holds the image.
+   * @returns A new Module over the same MODULEENTRY32W buffer.
+   * @example
+   * ```ts
+   * const bound = Module.from({ modBaseAddr: 0x40_0000n, modBaseSize: 0x3000, szModule: 'game.exe' }).bind(game);
+   * console.log(bound.pe.sections);
+   * ```
+   */
+  public bind(process: Process): Module {
+    return new Module(this.#buffer, process);
+  }
+
+  /**
+   * Finds the function containing an address through the module's x64 exception directory, with its
+   * unwind information; see `pe.functionAt()`.
+   * @param address Absolute address.
+   * @returns The containing function, or undefined.
+   * @throws If the module is not bound to a process.
+   * @example
+   * ```ts
+   * const fn = cs2.modules['client.dll']!.functionAt(address);
+   * console.log(fn && `client.dll+0x${fn.BeginAddress.toString(16)} (${fn.EndAddress - fn.BeginAddress} bytes)`);
+   * ```
+   */
+  public functionAt(address: bigint): (PEFunction & { readonly unwind: PEUnwindInfo }) | undefined {
+    return this.pe.functionAt(address);
+  }
+
+  /**
+   * Gets the function ranges of the module's x64 exception directory (`.pdata`), sorted by address;
+   * empty for x86 modules. See `pe.functions`.
+   * @throws If the module is not bound to a process.
+   * @example
+   * ```ts
+   * const large = cs2.modules['client.dll']!.functions.filter(({ EndAddress, BeginAddress }) => EndAddress - BeginAddress >= 0x100);
+   * ```
+   */
+  get functions(): readonly PEFunction[] {
+    return this.pe.functions;
   }
 
   get hModule(): bigint {
@@ -52,6 +141,26 @@ class Module {
     return value;
   }
 
+  /**
+   * Gets the PE headers of the mapped image, read through the owning process on first access.
+   * @throws If the module is not bound to a process or its headers are not a PE image.
+   * @example
+   * ```ts
+   * const client = cs2.modules['client.dll']!;
+   * console.log(client.pe.Machine, client.pe.TimeDateStamp, client.pe.sections['.text']!.start);
+   * ```
+   */
+  get pe(): PEImage {
+    const process = this.#bound();
+
+    const base = this.modBaseAddr;
+    const value = new PEImage((rva, length) => process.buffer(base + BigInt(rva), length), { base });
+
+    Object.defineProperty(this, 'pe', { configurable: false, value });
+
+    return value;
+  }
+
   get szExePath(): string {
     const value = this.#buffer.toString('utf16le', 0x230, 0x438).replace(ReplaceTrailingNull, '');
 
@@ -67,6 +176,98 @@ class Module {
 
     return value;
   }
+
+  /**
+   * Compares the module's read-only sections in memory with its file: maps the file at `szExePath`
+   * the way the loader does, applies base relocations for `modBaseAddr`, and reports every range
+   * whose bytes differ — inline hooks, patches, or a file updated since the module loaded. Writable
+   * sections are skipped, and so are the import address table and the load configuration's guard
+   * function-pointer slots (`pe.guardSlots`), which the loader fills in.
+   * @param options `path`: the file to compare against, when `szExePath` is not readable here.
+   * @returns The differing ranges, by section and address; empty when the module matches its file.
+   * @throws If the module is not bound to a process, the file cannot be read, or a section cannot be read.
+   * @example
+   * ```ts
+   * const hooks = cs2.modules['client.dll']!.verify().filter(({ section }) => section === '.text');
+   * ```
+   */
+  public verify(options: { path?: string } = {}): SectionDiff[] {
+    const process = this.#bound();
+
+    const file = new PEImage(readFileSync(options.path ?? this.szExePath));
+    const expected = file.map(this.modBaseAddr);
+    const iat = file.DataDirectory[ImageDirectoryEntry.IAT] ?? { Size: 0x00, VirtualAddress: 0x00 };
+    const width = file.is32Bit ? 0x04 : 0x08;
+
+    // The loader binds the IAT and, under CFG, points the guard slots at its own check and dispatch
+    // routines, so these are expected to hold whatever they hold.
+    const loaderWritten = [...(iat.VirtualAddress !== 0x00 ? [{ end: iat.VirtualAddress + iat.Size, start: iat.VirtualAddress }] : []), ...file.guardSlots.map((rva) => ({ end: rva + width, start: rva }))];
+
+    const diffs: SectionDiff[] = [];
+
+    for (const { Characteristics, Name, VirtualAddress, VirtualSize } of file.sectionList) {
+      if ((Characteristics & IMAGE_SCN_MEM_WRITE) !== 0x00) {
+        continue;
+      }
+
+      const length = Math.min(VirtualSize, file.SizeOfImage - VirtualAddress);
+      const current = process.buffer(this.modBaseAddr + BigInt(VirtualAddress), length);
+      const original = Buffer.from(expected.subarray(VirtualAddress, VirtualAddress + length));
+
+      for (const range of loaderWritten) {
+        const start = Math.max(range.start - VirtualAddress, 0x00);
+        const end = Math.min(range.end - VirtualAddress, length);
+
+        if (start < end) {
+          current.copy(original, start, start, end);
+        }
+      }
+
+      for (let index = 0x00; index < length; index++) {
+        if (current[index] === original[index]) {
+          continue;
+        }
+
+        const start = index;
+        let end = index + 0x01;
+
+        for (let matching = 0x00; index < length && matching < DiffGap; index++) {
+          if (current[index] === original[index]) {
+            matching++;
+          } else {
+            matching = 0x00;
+            end = index + 0x01;
+          }
+        }
+
+        index = end;
+
+        diffs.push(
+          Object.freeze({
+            address: this.modBaseAddr + BigInt(VirtualAddress + start),
+            current: current.subarray(start, end),
+            original: original.subarray(start, end),
+            rva: VirtualAddress + start,
+            section: Name,
+          }),
+        );
+      }
+    }
+
+    return diffs;
+  }
+
+  /**
+   * Returns the process the module is bound to.
+   * @throws If the module is not bound.
+   */
+  #bound(): Process {
+    if (this.#process === undefined) {
+      throw new Error(`${this.szModule} is not bound to a process; use a module from process.modules or module.bind(process).`);
+    }
+
+    return this.#process;
+  }
 }
 
 export default Module;
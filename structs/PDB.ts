@@ -0,0 +1,584 @@
+import { closeSync, existsSync, openSync, readSync } from 'node:fs';
+import { join, win32 } from 'node:path';
+
+import type { PDBContribution, PDBSymbol } from '../types/PDB';
+import type { PECodeView } from '../types/PE';
+import PEImage from './PEImage';
+
+const MSF_MAGIC = Buffer.from('Microsoft C/C++ MSF 7.00\r\n\x1aDS\0\0\0', 'latin1');
+
+/**
+ * Fixed stream indices of a PDB.
+ */
+const PdbStream = {
+  DBI: 0x03,
+  Info: 0x01,
+} as const;
+
+/**
+ * CodeView symbol record kinds (SYM_ENUM_e) the reader resolves.
+ */
+const SymbolKind = {
+  S_GDATA32: 0x110d,
+  S_GPROC32: 0x1110,
+  S_GPROC32_ID: 0x1147,
+  S_LDATA32: 0x110c,
+  S_LPROC32: 0x110f,
+  S_LPROC32_ID: 0x1146,
+  S_LPROCREF: 0x1127,
+  S_PROCREF: 0x1125,
+  S_PUB32: 0x110e,
+} as const;
+
+/**
+ * Section contribution substream versions: V60 entries are 0x1c bytes, V2 entries add ISectCoff.
+ */
+const DBISCVersion2 = 0xf131_51e4;
+const DBISCVersion60 = 0xf12e_ba2d;
+
+/**
+ * Index of the section header stream in the DBI optional debug header.
+ */
+const DbgHeaderSectionHdr = 0x05;
+
+/**
+ * Sort rank of each kind at the same RVA: the most descriptive name first.
+ */
+const KindRank = { data: 0x01, function: 0x00, public: 0x02 } as const;
+
+/**
+ * One module (compiland) of the DBI ModInfo substream.
+ */
+type ModInfo = {
+  ModuleName: string;
+  ModuleSymStream: number;
+};
+
+/**
+ * A stream of the MSF directory: its size and the blocks that hold it, in order.
+ */
+type Stream = {
+  blocks: number[];
+  size: number;
+};
+
+/**
+ * A program database (PDB 7.0 / MSF 7.00) reader for the symbols that name addresses: public
+ * symbols, global and module-local data, and the procedures that global procedure references point
+ * at, plus the DBI section contributions.
+ *
+ * Addresses are kept as RVAs, translated from segment:offset through the PDB's copy of the image's
+ * section headers, so one PDB serves the module at any base. The file (path or contents) is read
+ * once on construction; nothing stays open.
+ *
+ * @example
+ * ```ts
+ * const pdb = new PDB('C:/symbols/client.pdb');
+ * console.log(pdb.guid, pdb.age, pdb.find('CSource2Client::FrameStageNotify')?.rva);
+ *
+ * cs2.loadSymbols('client.dll', 'C:/symbols');
+ * const frameStageNotify = cs2.symbol('client.dll!CSource2Client::FrameStageNotify');
+ * ```
+ */
+class PDB {
+  /**
+   * Reads a PDB.
+   * @param source Path of the `.pdb` file, or its contents.
+   * @throws If the file is not an MSF 7.00 PDB, or lacks the streams that locate symbols.
+   * @example
+   * ```ts
+   * const pdb = new PDB('client.pdb');
+   * const fromBytes = new PDB(readFileSync('client.pdb'));
+   * ```
+   */
+  constructor(source: Buffer | string) {
+    this.#source = typeof source === 'string' ? openSync(source, 'r') : source;
+
+    try {
+      const superBlock = this.#at(0x00, 0x38);
+
+      if (!superBlock.subarray(0x00, 0x20).equals(MSF_MAGIC)) {
+        throw new Error('Not a PDB: missing the MSF 7.00 signature.');
+      }
+
+      this.#blockSize = superBlock.readUInt32LE(0x20);
+
+      const NumDirectoryBytes = superBlock.readUInt32LE(0x2c);
+      const BlockMapAddr = superBlock.readUInt32LE(0x34);
+
+      const directoryBlocks = this.#at(BlockMapAddr * this.#blockSize, Math.ceil(NumDirectoryBytes / this.#blockSize) * 0x04);
+      const directory = this.#blocks(
+        Array.from({ length: directoryBlocks.length / 0x04 }, (_, index) => directoryBlocks.readUInt32LE(index * 0x04)),
+        NumDirectoryBytes,
+      );
+
+      const NumStreams = directory.readUInt32LE(0x00);
+
+      let cursor = 0x04 + NumStreams * 0x04;
+
+      for (let index = 0; index < NumStreams; index++) {
+        const size = directory.readUInt32LE(0x04 + index * 0x04);
+        // A nil stream (size 0xffffffff) has no blocks.
+        const count = size === 0xffff_ffff ? 0x00 : Math.ceil(size / this.#blockSize);
+
+        this.#streams.push({ blocks: Array.from({ length: count }, (_, block) => directory.readUInt32LE(cursor + block * 0x04)), size: size === 0xffff_ffff ? 0x00 : size });
+
+        cursor += count * 0x04;
+      }
+
+      // PDB info stream: Version, Signature, Age, then the GUID.
+      const info = this.#stream(PdbStream.Info, 0x00, 0x1c);
+
+      this.age = info.readUInt32LE(0x08);
+      this.guid = PEImage.formatGuid(info.subarray(0x0c, 0x1c));
+
+      const dbi = this.#stream(PdbStream.DBI);
+
+      if (dbi.length < 0x40 || dbi.readInt32LE(0x00) !== -1) {
+        throw new Error('Not a PDB: the DBI stream has no header.');
+      }
+
+      const SymRecordStream = dbi.readUInt16LE(0x14);
+      const ModInfoSize = dbi.readInt32LE(0x18);
+      const SectionContributionSize = dbi.readInt32LE(0x1c);
+      // The optional debug header follows ModInfo, the section contributions, the section map, the
+      // file info, the type server map, and the EC substream.
+      const dbgHeaderOffset = 0x40 + ModInfoSize + SectionContributionSize + dbi.readInt32LE(0x20) + dbi.readInt32LE(0x24) + dbi.readInt32LE(0x28) + dbi.readInt32LE(0x34);
+      const OptionalDbgHeaderSize = dbi.readInt32LE(0x30);
+
+      const sectionHdrStream = OptionalDbgHeaderSize > DbgHeaderSectionHdr * 0x02 ? dbi.readUInt16LE(dbgHeaderOffset + DbgHeaderSectionHdr * 0x02) : 0xffff;
+
+      if (sectionHdrStream === 0xffff) {
+        throw new Error('PDB has no section header stream to translate segment offsets.');
+      }
+
+      const sectionHeaders = this.#stream(sectionHdrStream);
+
+      // IMAGE_SECTION_HEADER.VirtualAddress, per 1-based segment.
+      this.#segments = Array.from({ length: Math.floor(sectionHeaders.length / 0x28) }, (_, index) => sectionHeaders.readUInt32LE(index * 0x28 + 0x0c));
+
+      const modules = PDB.#modInfo(dbi.subarray(0x40, 0x40 + ModInfoSize));
+
+      this.contributions = Object.freeze(this.#contributions(dbi.subarray(0x40 + ModInfoSize, 0x40 + ModInfoSize + SectionContributionSize), modules));
+      this.symbols = Object.freeze(this.#symbols(this.#stream(SymRecordStream), modules));
+    } finally {
+      if (typeof this.#source === 'number') {
+        closeSync(this.#source);
+      }
+
+      this.#source = undefined;
+    }
+  }
+
+  /**
+   * Regex patterns for undecorating names and reading symbol search paths.
+   */
+  static readonly #Patterns = {
+    // ?name@scope@…@@ (rest) — or ??0 / ??1 / ??_7 with a class name. Templates (?$) and
+    // back-references (digits) do not match and stay decorated.
+    Decorated: /^\?(\?0|\?1|\?_7)?([A-Za-z_$][\w$]*)@((?:[A-Za-z_$][\w$]*@)*)@/,
+    Url: /^[a-z][a-z0-9+.-]*:\/\//i,
+  };
+
+  /**
+   * MSF block size.
+   */
+  readonly #blockSize: number;
+
+  /**
+   * Symbols by name and by decorated name, built on the first find().
+   */
+  #byName: Map<string, PDBSymbol> | undefined;
+
+  /**
+   * Section RVAs by 0-based segment index.
+   */
+  readonly #segments: number[];
+
+  /**
+   * File descriptor or bytes, until the constructor finishes.
+   */
+  #source: Buffer | number | undefined;
+
+  /**
+   * The MSF stream directory.
+   */
+  readonly #streams: Stream[] = [];
+
+  /** PDB age from the info stream; matches `PECodeView.age` of the image it was built with. */
+  public readonly age: number;
+  /** Section contributions, sorted by RVA. */
+  public readonly contributions: readonly PDBContribution[];
+  /** PDB signature GUID from the info stream; matches `PECodeView.guid`. */
+  public readonly guid: string;
+  /** Every resolved symbol, sorted by RVA (functions, then data, then publics at the same RVA). */
+  public readonly symbols: readonly PDBSymbol[];
+
+  /**
+   * Finds the section contribution that covers an RVA.
+   * @param rva RVA to look up.
+   * @returns The contribution, or undefined if none covers it.
+   * @example
+   * ```ts
+   * console.log(pdb.contributionAt(0x1234)?.module);
+   * ```
+   */
+  public contributionAt(rva: number): PDBContribution | undefined {
+    const index = PDB.#floor(this.contributions, rva);
+    const contribution = index === -1 ? undefined : this.contributions[index];
+
+    return contribution !== undefined && rva < contribution.rva + contribution.size ? contribution : undefined;
+  }
+
+  /**
+   * Finds a symbol by undecorated or decorated name. When names repeat (overloads, or a function
+   * listed as both a procedure and a public symbol), functions win over data, data over publics,
+   * then the lower RVA.
+   * @param name `game::Tick` or `?Tick@game@@YAXXZ`.
+   * @returns The symbol, or undefined.
+   * @example
+   * ```ts
+   * const rva = pdb.find('CSource2Client::FrameStageNotify')?.rva;
+   * ```
+   */
+  public find(name: string): PDBSymbol | undefined {
+    if (this.#byName === undefined) {
+      this.#byName = new Map();
+
+      for (const symbol of this.symbols.toSorted((a, b) => KindRank[a.kind] - KindRank[b.kind] || a.rva - b.rva)) {
+        if (!this.#byName.has(symbol.name)) {
+          this.#byName.set(symbol.name, symbol);
+        }
+
+        if (!this.#byName.has(symbol.decoratedName)) {
+          this.#byName.set(symbol.decoratedName, symbol);
+        }
+      }
+    }
+
+    return this.#byName.get(name);
+  }
+
+  /**
+   * Finds the symbol at or nearest below an RVA.
+   * @param rva RVA to look up.
+   * @returns The symbol, or undefined if no symbol precedes the RVA.
+   * @example
+   * ```ts
+   * const symbol = pdb.symbolAt(rva);
+   * console.log(`${symbol!.name}+0x${(rva - symbol!.rva).toString(16)}`);
+   * ```
+   */
+  public symbolAt(rva: number): PDBSymbol | undefined {
+    let index = PDB.#floor(this.symbols, rva);
+
+    if (index === -1) {
+      return undefined;
+    }
+
+    // Step back to the first (best-ranked) symbol at that RVA.
+    while (index > 0 && this.symbols[index - 1]!.rva === this.symbols[index]!.rva) {
+      index--;
+    }
+
+    return this.symbols[index];
+  }
+
+  /**
+   * Looks for an image's PDB on this machine: at the path the linker recorded, then in each
+   * directory as a symbol store (`<dir>/<name>.pdb/<GUID><age>/<name>.pdb`, the layout `symchk` and
+   * debugger caches use) and as a flat folder (`<dir>/<name>.pdb`).
+   * @param codeView The image's CodeView record.
+   * @param directories Directories to search.
+   * @returns Path of the first candidate that exists, or undefined.
+   * @example
+   * ```ts
+   * const path = PDB.locate(client.pe.codeView!, ['C:/symbols']);
+   * ```
+   */
+  public static locate(codeView: PECodeView, directories: readonly string[]): string | undefined {
+    const name = win32.basename(codeView.path);
+    const key = `${codeView.guid.replaceAll('-', '')}${codeView.age.toString(16).toUpperCase()}`;
+
+    const candidates = [codeView.path, ...directories.flatMap((directory) => [join(directory, name, key, name), join(directory, name)])];
+
+    return candidates.find((candidate) => existsSync(candidate));
+  }
+
+  /**
+   * Lists the local directories of a `_NT_SYMBOL_PATH`-style search path: plain entries, and the
+   * cache directories of `srv*` / `cache*` entries (download URLs are skipped).
+   * @param symbolPath The search path, e.g. `srv*C:\symbols*https://msdl.microsoft.com/download/symbols`.
+   * @returns The directories, in order.
+   * @example
+   * ```ts
+   * const directories = PDB.searchPath(process.env._NT_SYMBOL_PATH ?? '');
+   * ```
+   */
+  public static searchPath(symbolPath: string): string[] {
+    return symbolPath
+      .split(';')
+      .flatMap((entry) => {
+        const parts = entry.split('*');
+
+        return parts.length === 1 ? parts : parts.filter((part, index) => index !== 0 && part.length !== 0 && !PDB.#Patterns.Url.test(part));
+      })
+      .filter((directory) => directory.length !== 0);
+  }
+
+  /**
+   * Undecorates the qualified name of an MSVC-decorated symbol: `?Tick@game@@YAXXZ` becomes
+   * `game::Tick`, constructors and destructors (`??0X@@`, `??1X@@`) become `X::X` and `X::~X`, and
+   * vftables (`??_7X@@6B@`) become ``X::`vftable'``. Names that are not decorated are returned as
+   * they are; names using templates, back-references, or other operators keep their decorated form.
+   * @param decoratedName Decorated name.
+   * @returns The undecorated name.
+   * @example
+   * ```ts
+   * PDB.undecorate('?FrameStageNotify@CSource2Client@@UEAAXW4ClientFrameStage_t@@@Z'); // 'CSource2Client::FrameStageNotify'
+   * ```
+   */
+  public static undecorate(decoratedName: string): string {
+    const match = PDB.#Patterns.Decorated.exec(decoratedName);
+
+    if (match === null) {
+      return decoratedName;
+    }
+
+    const first = match[2]!;
+    const scopes = match[3]!.length === 0 ? [] : match[3]!.slice(0x00, -0x01).split('@').reverse();
+
+    switch (match[1]) {
+      case '?0':
+        return [...scopes, first, first].join('::');
+      case '?1':
+        return [...scopes, first, `~${first}`].join('::');
+      case '?_7':
+        return [...scopes, first, "`vftable'"].join('::');
+      default:
+        return [...scopes, first].join('::');
+    }
+  }
+
+  /**
+   * Reads `length` bytes at a file offset.
+   * @throws If the file ends first.
+   */
+  #at(offset: number, length: number): Buffer {
+    const source = this.#source!;
+    const buffer = Buffer.alloc(length);
+
+    const copied =
+      typeof source === 'number' //
+        ? readSync(source, buffer, 0, length, offset)
+        : source.copy(buffer, 0, Math.min(offset, source.length), offset + length);
+
+    if (copied !== length) {
+      throw new RangeError(`Truncated PDB: ${length} bytes at 0x${offset.toString(16)} run past the end of the file.`);
+    }
+
+    return buffer;
+  }
+
+  /**
+   * Reads the first `size` bytes spread over a list of blocks.
+   */
+  #blocks(blocks: number[], size: number): Buffer {
+    return Buffer.concat(
+      blocks.map((block) => this.#at(block * this.#blockSize, this.#blockSize)),
+      size,
+    );
+  }
+
+  /**
+   * Parses the section contribution substream.
+   */
+  #contributions(substream: Buffer, modules: ModInfo[]): PDBContribution[] {
+    const contributions: PDBContribution[] = [];
+
+    if (substream.length < 0x04) {
+      return contributions;
+    }
+
+    const version = substream.readUInt32LE(0x00);
+    const stride = version === DBISCVersion2 ? 0x20 : version === DBISCVersion60 ? 0x1c : 0x00;
+
+    for (let offset = 0x04; stride !== 0x00 && offset + stride <= substream.length; offset += stride) {
+      const rva = this.#rva(substream.readUInt16LE(offset), substream.readInt32LE(offset + 0x04));
+
+      if (rva === undefined) {
+        continue;
+      }
+
+      contributions.push(
+        Object.freeze({
+          Characteristics: substream.readUInt32LE(offset + 0x0c),
+          module: modules[substream.readUInt16LE(offset + 0x10)]?.ModuleName ?? '',
+          rva,
+          size: substream.readInt32LE(offset + 0x08),
+        }),
+      );
+    }
+
+    return contributions.sort((a, b) => a.rva - b.rva);
+  }
+
+  /**
+   * Reads the procedure a procedure reference points at in a module's symbol stream.
+   */
+  #procedure(module: ModInfo | undefined, offset: number): PDBSymbol | undefined {
+    if (module === undefined || module.ModuleSymStream === 0xffff) {
+      return undefined;
+    }
+
+    const header = this.#stream(module.ModuleSymStream, offset, 0x04);
+    const record = this.#stream(module.ModuleSymStream, offset + 0x04, header.readUInt16LE(0x00) - 0x02);
+
+    switch (header.readUInt16LE(0x02)) {
+      case SymbolKind.S_GPROC32:
+      case SymbolKind.S_GPROC32_ID:
+      case SymbolKind.S_LPROC32:
+      case SymbolKind.S_LPROC32_ID: {
+        // PROCSYM32: Parent, End, Next, Len, DbgStart, DbgEnd, TypeIndex, Offset, Segment, Flags, Name.
+        const rva = this.#rva(record.readUInt16LE(0x20), record.readUInt32LE(0x1c));
+        const name = PDB.#cString(record, 0x23);
+
+        return rva === undefined ? undefined : { decoratedName: name, kind: 'function', name, rva, size: record.readUInt32LE(0x0c) };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Translates a 1-based segment and an offset to an RVA, or undefined for an absolute or unknown segment.
+   */
+  #rva(segment: number, offset: number): number | undefined {
+    const VirtualAddress = this.#segments[segment - 0x01];
+
+    return VirtualAddress === undefined ? undefined : VirtualAddress + offset;
+  }
+
+  /**
+   * Reads a stream, or `length` bytes of it from `offset`, fetching only the blocks that hold them.
+   */
+  #stream(index: number, offset = 0x00, length?: number): Buffer {
+    const stream = this.#streams[index];
+
+    if (stream === undefined) {
+      throw new RangeError(`PDB has no stream ${index}.`);
+    }
+
+    const end = length === undefined ? stream.size : offset + length;
+
+    if (end > stream.size) {
+      throw new RangeError(`0x${(end - offset).toString(16)} bytes at 0x${offset.toString(16)} lie outside the 0x${stream.size.toString(16)}-byte stream ${index}.`);
+    }
+
+    const first = Math.floor(offset / this.#blockSize);
+    const bytes = this.#blocks(stream.blocks.slice(first, Math.ceil(end / this.#blockSize)), Math.ceil(end / this.#blockSize) * this.#blockSize);
+
+    return bytes.subarray(offset - first * this.#blockSize, end - first * this.#blockSize);
+  }
+
+  /**
+   * Walks the symbol record stream: publics and global data directly, procedure references through
+   * the module streams they point into.
+   */
+  #symbols(records: Buffer, modules: ModInfo[]): PDBSymbol[] {
+    const symbols: PDBSymbol[] = [];
+
+    for (let offset = 0x00; offset + 0x04 <= records.length; ) {
+      const RecordLen = records.readUInt16LE(offset);
+      const record = records.subarray(offset + 0x04, offset + 0x02 + RecordLen);
+
+      switch (records.readUInt16LE(offset + 0x02)) {
+        case SymbolKind.S_PUB32:
+        case SymbolKind.S_GDATA32:
+        case SymbolKind.S_LDATA32: {
+          // PUBSYM32 (Flags, Offset, Segment, Name) and DATASYM32 (TypeIndex, Offset, Segment, Name) line up.
+          const rva = this.#rva(record.readUInt16LE(0x08), record.readUInt32LE(0x04));
+          const decoratedName = PDB.#cString(record, 0x0a);
+
+          if (rva !== undefined) {
+            const kind = records.readUInt16LE(offset + 0x02) === SymbolKind.S_PUB32 ? 'public' : 'data';
+
+            symbols.push(Object.freeze({ decoratedName, kind, name: PDB.undecorate(decoratedName), rva, size: undefined }));
+          }
+
+          break;
+        }
+
+        case SymbolKind.S_LPROCREF:
+        case SymbolKind.S_PROCREF: {
+          // REFSYM2: SumName, SymOffset, a 1-based module index, Name.
+          const procedure = this.#procedure(modules[record.readUInt16LE(0x08) - 0x01], record.readUInt32LE(0x04));
+
+          if (procedure !== undefined) {
+            symbols.push(Object.freeze(procedure));
+          }
+
+          break;
+        }
+      }
+
+      offset += RecordLen + 0x02;
+    }
+
+    return symbols.sort((a, b) => a.rva - b.rva || KindRank[a.kind] - KindRank[b.kind]);
+  }
+
+  /**
+   * Reads a NUL-terminated UTF-8 string from a record.
+   */
+  static #cString(record: Buffer, offset: number): string {
+    const terminator = record.indexOf(0x00, offset);
+
+    return record.toString('utf8', offset, terminator !== -1 ? terminator : record.length);
+  }
+
+  /**
+   * Binary-searches a list sorted by `rva` for the last entry at or below an RVA; -1 if none.
+   */
+  static #floor(list: readonly { rva: number }[], rva: number): number {
+    let low = 0;
+    let high = list.length - 1;
+    let found = -1;
+
+    while (low <= high) {
+      const middle = (low + high) >>> 1;
+
+      if (list[middle]!.rva <= rva) {
+        found = middle;
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Parses the DBI ModInfo substream: a 0x40-byte header per module, then its module and object
+   * file names, padded to 4 bytes.
+   */
+  static #modInfo(substream: Buffer): ModInfo[] {
+    const modules: ModInfo[] = [];
+
+    for (let offset = 0x00; offset + 0x40 <= substream.length; ) {
+      const ModuleName = PDB.#cString(substream, offset + 0x40);
+      const objFileNameOffset = offset + 0x40 + Buffer.byteLength(ModuleName) + 0x01;
+      const ObjFileName = PDB.#cString(substream, objFileNameOffset);
+
+      modules.push({ ModuleName, ModuleSymStream: substream.readUInt16LE(offset + 0x22) });
+
+      offset = (objFileNameOffset + Buffer.byteLength(ObjFileName) + 0x01 + 0x03) & ~0x03;
+    }
+
+    return modules;
+  }
+}
+
+export default PDB;
+export { PDB };
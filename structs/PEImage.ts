@@ -0,0 +1,1016 @@
+import { readFileSync } from 'node:fs';
+
+import { MemoryProtection } from '@bun-win32/kernel32';
+
+import type { PECodeView, PEDataDirectory, PEExport, PEFunction, PEImport, PEMatch, PERelocation, PESection, PEUnwindInfo, SignatureReport } from '../types/PE';
+import type { PatternString } from '../types/Process';
+import BufferBackend from './BufferBackend';
+import Process from './Process';
+import RTTI from './RTTI';
+import type Signature from './Signature';
+import type SignatureScanner from './SignatureScanner';
+
+/**
+ * Indexes into `PEImage.DataDirectory` (IMAGE_DIRECTORY_ENTRY_*).
+ */
+const ImageDirectoryEntry = {
+  Architecture: 0x07,
+  BaseReloc: 0x05,
+  BoundImport: 0x0b,
+  ComDescriptor: 0x0e,
+  Debug: 0x06,
+  DelayImport: 0x0d,
+  Exception: 0x03,
+  Export: 0x00,
+  GlobalPtr: 0x08,
+  IAT: 0x0c,
+  Import: 0x01,
+  LoadConfig: 0x0a,
+  Resource: 0x02,
+  Security: 0x04,
+  TLS: 0x09,
+} as const;
+
+const CV_SIGNATURE_RSDS = 0x5344_5352; // RSDS
+const IMAGE_DEBUG_TYPE_CODEVIEW = 0x02;
+const IMAGE_DOS_SIGNATURE = 0x5a4d; // MZ
+const IMAGE_FILE_MACHINE_AMD64 = 0x8664;
+const IMAGE_NT_OPTIONAL_HDR32_MAGIC = 0x010b;
+const IMAGE_NT_OPTIONAL_HDR64_MAGIC = 0x020b;
+const IMAGE_NT_SIGNATURE = 0x0000_4550; // PE\0\0
+const IMAGE_REL_BASED_ABSOLUTE = 0x00;
+const IMAGE_REL_BASED_DIR64 = 0x0a;
+const IMAGE_REL_BASED_HIGH = 0x01;
+const IMAGE_REL_BASED_HIGHLOW = 0x03;
+const IMAGE_REL_BASED_LOW = 0x02;
+const MEM_IMAGE = 0x0100_0000;
+const UNW_FLAG_CHAININFO = 0x04;
+const UNW_FLAG_EHANDLER = 0x01;
+const UNW_FLAG_UHANDLER = 0x02;
+
+const ReplaceTrailingNull = /\0+$/;
+
+/**
+ * IMAGE_LOAD_CONFIG_DIRECTORY fields holding the address of a function-pointer slot that the loader
+ * fills in, as [PE32, PE32+] offsets: GuardCFCheckFunctionPointer, GuardCFDispatchFunctionPointer,
+ * GuardRFFailureRoutineFunctionPointer, GuardRFVerifyStackPointerFunctionPointer,
+ * GuardXFGCheckFunctionPointer, GuardXFGDispatchFunctionPointer, GuardXFGTableDispatchFunctionPointer,
+ * and GuardMemcpyFunctionPointer.
+ */
+const GuardSlotFields = [
+  [0x48, 0x70],
+  [0x4c, 0x78],
+  [0x84, 0xd8],
+  [0x90, 0xe8],
+  [0xac, 0x118],
+  [0xb0, 0x120],
+  [0xb4, 0x128],
+  [0xbc, 0x138],
+] as const;
+
+/**
+ * Parsed headers of a PE image (PE32 or PE32+): the file header, the optional header fields that
+ * locate things, the data directories, and the section table.
+ *
+ * The source is either a mapped image read through a function (as `module.pe` reads the target),
+ * or a Buffer. A Buffer holds the on-disk file layout unless `mapped` says it is a memory image;
+ * file-layout RVAs are translated through the section table. Headers are parsed on construction,
+ * and `read` serves any other RVA on demand. `pattern` and `scan` run the `Process.pattern` engine
+ * over the sections, so signatures can be checked against a file with no process at all.
+ *
+ * @example
+ * ```ts
+ * const image = new PEImage(await Bun.file('client.dll').bytes().then(Buffer.from));
+ * console.log(image.Machine.toString(16), Object.keys(image.sections));
+ *
+ * const client = cs2.modules['client.dll']!;
+ * const text = client.pe.sections['.text']!;
+ * ```
+ */
+class PEImage {
+  /**
+   * Parses the headers of a PE image.
+   * @param source A file path, file bytes, mapped image bytes (with `mapped: true`), or a function
+   *   reading `length` bytes of the mapped image at an RVA.
+   * @param options `base`: absolute address the image is mapped at (defaults to its preferred
+   *   `ImageBase`). `mapped`: whether a Buffer source is laid out as in memory.
+   * @throws If the bytes are not a PE image.
+   * @example
+   * ```ts
+   * const image = new PEImage(readFileSync('client.dll'));
+   * const fromPath = new PEImage('C:/game/bin/win64/client.dll', { base: 0x7ffa_0000_0000n });
+   * const mapped = new PEImage((rva, length) => cs2.buffer(base + BigInt(rva), length), { base });
+   * ```
+   */
+  constructor(source: Buffer | string | ((rva: number, length: number) => Buffer), options: { base?: bigint; mapped?: boolean } = {}) {
+    if (typeof source === 'function') {
+      this.#extent = (rva) => 0x1000 - (rva & 0xfff);
+      this.#source = source;
+    } else {
+      const bytes = typeof source === 'string' ? readFileSync(source) : source;
+
+      if (options.mapped === true) {
+        this.#extent = (rva) => bytes.length - rva;
+        this.#source = (rva, length) => PEImage.#slice(bytes, rva, length);
+      } else {
+        this.#extent = (rva) => bytes.length - this.offsetOf(rva);
+        this.#source = (rva, length) => PEImage.#slice(bytes, this.offsetOf(rva), length);
+      }
+    }
+
+    const dosHeader = this.#source(0x00, 0x40);
+
+    if (dosHeader.readUInt16LE(0x00) !== IMAGE_DOS_SIGNATURE) {
+      throw new Error('Not a PE image: the DOS header has no MZ signature.');
+    }
+
+    const e_lfanew = dosHeader.readUInt32LE(0x3c);
+    const fileHeader = this.#source(e_lfanew, 0x18);
+
+    if (fileHeader.readUInt32LE(0x00) !== IMAGE_NT_SIGNATURE) {
+      throw new Error(`Not a PE image: no PE signature at e_lfanew 0x${e_lfanew.toString(16)}.`);
+    }
+
+    const NumberOfSections = fileHeader.readUInt16LE(0x06);
+    const SizeOfOptionalHeader = fileHeader.readUInt16LE(0x14);
+
+    const headers = this.#source(e_lfanew, 0x18 + SizeOfOptionalHeader + NumberOfSections * 0x28);
+    const optionalHeader = headers.subarray(0x18, 0x18 + SizeOfOptionalHeader);
+    const magic = optionalHeader.readUInt16LE(0x00);
+
+    if (magic !== IMAGE_NT_OPTIONAL_HDR32_MAGIC && magic !== IMAGE_NT_OPTIONAL_HDR64_MAGIC) {
+      throw new Error(`Not a PE image: unknown optional header magic 0x${magic.toString(16)}.`);
+    }
+
+    this.is32Bit = magic === IMAGE_NT_OPTIONAL_HDR32_MAGIC;
+
+    this.Characteristics = fileHeader.readUInt16LE(0x16);
+    this.Machine = fileHeader.readUInt16LE(0x04);
+    this.TimeDateStamp = fileHeader.readUInt32LE(0x08);
+
+    this.AddressOfEntryPoint = optionalHeader.readUInt32LE(0x10);
+    this.CheckSum = optionalHeader.readUInt32LE(0x40);
+    this.ImageBase = this.is32Bit ? BigInt(optionalHeader.readUInt32LE(0x1c)) : optionalHeader.readBigUInt64LE(0x18);
+    this.SizeOfHeaders = optionalHeader.readUInt32LE(0x3c);
+    this.SizeOfImage = optionalHeader.readUInt32LE(0x38);
+
+    this.base = options.base ?? this.ImageBase;
+
+    // PE32 has the 4-byte BaseOfData and a 4-byte ImageBase where PE32+ has an 8-byte ImageBase,
+    // and 4-byte rather than 8-byte stack/heap sizes, so its directories start 0x10 bytes earlier.
+    const NumberOfRvaAndSizes = optionalHeader.readUInt32LE(this.is32Bit ? 0x5c : 0x6c);
+    const dataDirectoryOffset = this.is32Bit ? 0x60 : 0x70;
+    const DataDirectory: PEDataDirectory[] = [];
+
+    for (let index = 0; index < Math.min(NumberOfRvaAndSizes, 0x10); index++) {
+      const offset = dataDirectoryOffset + index * 0x08;
+
+      DataDirectory.push(Object.freeze({ Size: optionalHeader.readUInt32LE(offset + 0x04), VirtualAddress: optionalHeader.readUInt32LE(offset) }));
+    }
+
+    this.DataDirectory = Object.freeze(DataDirectory);
+
+    const sectionList: PESection[] = [];
+    const sections: Record<string, PESection> = {};
+
+    for (let index = 0; index < NumberOfSections; index++) {
+      const offset = 0x18 + SizeOfOptionalHeader + index * 0x28;
+
+      const Name = headers.toString('utf8', offset, offset + 0x08).replace(ReplaceTrailingNull, '');
+      const SizeOfRawData = headers.readUInt32LE(offset + 0x10);
+      const VirtualAddress = headers.readUInt32LE(offset + 0x0c);
+      // A VirtualSize of 0 (some linkers) means the section spans its raw data.
+      const VirtualSize = headers.readUInt32LE(offset + 0x08) || SizeOfRawData;
+
+      const start = this.base + BigInt(VirtualAddress);
+
+      const section: PESection = Object.freeze({
+        Characteristics: headers.readUInt32LE(offset + 0x24),
+        end: start + BigInt(VirtualSize),
+        Name,
+        PointerToRawData: headers.readUInt32LE(offset + 0x14),
+        SizeOfRawData,
+        start,
+        VirtualAddress,
+        VirtualSize,
+      });
+
+      sectionList.push(section);
+
+      // Names can repeat; the map keeps the first, `sectionList` keeps them all.
+      sections[Name] ??= section;
+    }
+
+    this.sectionList = Object.freeze(sectionList);
+    this.sections = Object.freeze(sections);
+  }
+
+  /**
+   * Bytes one read at an RVA can safely cover: to the end of a Buffer source, or of the page.
+   */
+  readonly #extent: (rva: number) => number;
+
+  /**
+   * Exports by name and by ordinal, built on the first findExport().
+   */
+  #exportsByKey: Map<number | string, PEExport> | undefined;
+
+  /**
+   * The sections mapped at `base` in a BufferBackend, built on the first pattern() or scan().
+   */
+  #scanner: Process | undefined;
+
+  /**
+   * Finds a byte pattern in the image's sections with the `Process.pattern` engine, in any of its
+   * notations or as a compiled `Signature`. Each section is scanned on its own, as laid out in memory, so a match never
+   * spans two sections. The sections are copied once, on the first pattern() or scan(), and
+   * searched unrelocated: wildcard absolute addresses, as signatures do anyway.
+   * @param needle Pattern to search for (e.g., 'deadbeef', 'dead**ef', 'DE AD ? EF', 'DE A? ?? EF').
+   * @param all If true, returns every match. If false or omitted, returns the first match.
+   * @param sections Names of the sections to search (defaults to all of them).
+   * @returns The first match or undefined; with `all`, every match in address order.
+   * @example
+   * ```ts
+   * const client = new PEImage('client.dll', { base: 0x7ffa_0000_0000n });
+   * const match = client.pattern('48 8B 05 ? ? ? ? 48 85 C0', false, ['.text']);
+   * console.log(match?.rva.toString(16), match?.address.toString(16));
+   * ```
+   */
+  public pattern<S extends string>(needle: PatternString<S> | Signature, all?: false, sections?: readonly string[]): PEMatch | undefined;
+  public pattern<S extends string>(needle: PatternString<S> | Signature, all: true, sections?: readonly string[]): PEMatch[];
+  public pattern(needle: Signature | string, all: boolean = false, sections?: readonly string[]): PEMatch | PEMatch[] | undefined {
+    const scanner = this.#scan();
+    const matches: PEMatch[] = [];
+
+    for (const { Name, VirtualAddress, VirtualSize } of this.sectionList) {
+      const length = Math.min(VirtualSize, this.SizeOfImage - VirtualAddress);
+
+      if (length <= 0x00 || (sections !== undefined && !sections.includes(Name))) {
+        continue;
+      }
+
+      const start = this.base + BigInt(VirtualAddress);
+      const addresses = all ? scanner.pattern(needle, start, length, true) : [scanner.pattern(needle, start, length)].filter((address) => address !== -1n);
+
+      for (const address of addresses) {
+        matches.push(Object.freeze({ address, rva: Number(address - this.base), section: Name }));
+      }
+
+      if (!all && matches.length !== 0) {
+        return matches[0];
+      }
+    }
+
+    return all ? matches : undefined;
+  }
+
+  /**
+   * Reads `length` bytes of the image at an RVA.
+   */
+  readonly #source: (rva: number, length: number) => Buffer;
+
+  /** RVA of the entry point, or 0 when the image has none. */
+  public readonly AddressOfEntryPoint: number;
+  /** Absolute address the image is mapped at. */
+  public readonly base: bigint;
+  /** `IMAGE_FILE_*` flags of the file header. */
+  public readonly Characteristics: number;
+  /** Checksum from the optional header (0 for most user-mode images). */
+  public readonly CheckSum: number;
+  /** The data directories, indexed by `ImageDirectoryEntry`. */
+  public readonly DataDirectory: readonly PEDataDirectory[];
+  /** Preferred base address from the optional header. */
+  public readonly ImageBase: bigint;
+  /** Whether the optional header is PE32 (a 32-bit image) rather than PE32+. */
+  public readonly is32Bit: boolean;
+  /** `IMAGE_FILE_MACHINE_*` value, e.g. 0x8664 (x64) or 0x014c (x86). */
+  public readonly Machine: number;
+  /** Every section header, in table order. */
+  public readonly sectionList: readonly PESection[];
+  /** Section headers by name; the first of any repeated name. */
+  public readonly sections: Readonly<Record<string, PESection>>;
+  /** Combined size of the headers, rounded to the file alignment. */
+  public readonly SizeOfHeaders: number;
+  /** Size of the mapped image. */
+  public readonly SizeOfImage: number;
+  /** Link time, in seconds since the Unix epoch. */
+  public readonly TimeDateStamp: number;
+
+  /**
+   * Gets the CodeView (RSDS) record of the debug directory, parsed on first access: the GUID, age,
+   * and path that identify the image's PDB. Undefined when the image has none.
+   * @example
+   * ```ts
+   * const { guid, age, path } = cs2.modules['client.dll']!.pe.codeView!;
+   * ```
+   */
+  public get codeView(): PECodeView | undefined {
+    const { Size, VirtualAddress } = this.DataDirectory[ImageDirectoryEntry.Debug] ?? { Size: 0x00, VirtualAddress: 0x00 };
+
+    let value: PECodeView | undefined;
+
+    if (VirtualAddress !== 0x00) {
+      const directory = this.read(VirtualAddress, Size - (Size % 0x1c));
+
+      // IMAGE_DEBUG_DIRECTORY entries are 0x1c bytes; Type at 0x0c, SizeOfData at 0x10, AddressOfRawData at 0x14.
+      for (let offset = 0x00; offset < directory.length && value === undefined; offset += 0x1c) {
+        const AddressOfRawData = directory.readUInt32LE(offset + 0x14);
+        const SizeOfData = directory.readUInt32LE(offset + 0x10);
+
+        // Records that are not mapped (AddressOfRawData 0) and pre-RSDS (NB10) records are skipped.
+        if (directory.readUInt32LE(offset + 0x0c) !== IMAGE_DEBUG_TYPE_CODEVIEW || AddressOfRawData === 0x00 || SizeOfData < 0x18) {
+          continue;
+        }
+
+        const record = this.read(AddressOfRawData, SizeOfData);
+
+        if (record.readUInt32LE(0x00) !== CV_SIGNATURE_RSDS) {
+          continue;
+        }
+
+        const terminator = record.indexOf(0x00, 0x18);
+
+        value = Object.freeze({
+          age: record.readUInt32LE(0x14),
+          guid: PEImage.formatGuid(record.subarray(0x04, 0x14)),
+          path: record.toString('utf8', 0x18, terminator !== -1 ? terminator : record.length),
+        });
+      }
+    }
+
+    Object.defineProperty(this, 'codeView', { configurable: false, value });
+
+    return value;
+  }
+
+  /**
+   * Gets the absolute address of the entry point, or undefined when the image has none.
+   * @example
+   * ```ts
+   * console.log(cs2.modules['cs2.exe']!.pe.entryPoint);
+   * ```
+   */
+  public get entryPoint(): bigint | undefined {
+    return this.AddressOfEntryPoint === 0 ? undefined : this.base + BigInt(this.AddressOfEntryPoint);
+  }
+
+  /**
+   * Gets the export table, parsed on first access: every exported function with its ordinal, its
+   * name (if any), and its absolute address or forwarder string.
+   * @example
+   * ```ts
+   * const kernel32 = cs2.modules['KERNEL32.DLL']!;
+   * console.log(kernel32.pe.exports.length, kernel32.pe.exports.find(({ Name }) => Name === 'LoadLibraryW')?.address);
+   * ```
+   */
+  public get exports(): readonly PEExport[] {
+    const { Size, VirtualAddress } = this.DataDirectory[ImageDirectoryEntry.Export] ?? { Size: 0x00, VirtualAddress: 0x00 };
+    const exports: PEExport[] = [];
+
+    if (VirtualAddress !== 0x00) {
+      const directory = this.read(VirtualAddress, 0x28);
+
+      const Base = directory.readUInt32LE(0x10);
+      const NumberOfFunctions = directory.readUInt32LE(0x14);
+      const NumberOfNames = directory.readUInt32LE(0x18);
+
+      const functions = NumberOfFunctions === 0 ? Buffer.alloc(0) : this.read(directory.readUInt32LE(0x1c), NumberOfFunctions * 0x04);
+      const names = NumberOfNames === 0 ? Buffer.alloc(0) : this.read(directory.readUInt32LE(0x20), NumberOfNames * 0x04);
+      const nameOrdinals = NumberOfNames === 0 ? Buffer.alloc(0) : this.read(directory.readUInt32LE(0x24), NumberOfNames * 0x02);
+
+      const namesByIndex = new Map<number, string>();
+
+      for (let index = 0; index < NumberOfNames; index++) {
+        namesByIndex.set(nameOrdinals.readUInt16LE(index * 0x02), this.#cString(names.readUInt32LE(index * 0x04)));
+      }
+
+      for (let index = 0; index < NumberOfFunctions; index++) {
+        const rva = functions.readUInt32LE(index * 0x04);
+
+        // Unused slots in a sparse ordinal range are zero.
+        if (rva === 0x00) {
+          continue;
+        }
+
+        // An RVA inside the export directory itself points at a forwarder string rather than code.
+        const forwarded = rva >= VirtualAddress && rva < VirtualAddress + Size;
+
+        exports.push(
+          Object.freeze({
+            address: forwarded ? undefined : this.base + BigInt(rva),
+            forwarder: forwarded ? this.#cString(rva) : undefined,
+            Name: namesByIndex.get(index),
+            Ordinal: Base + index,
+            rva,
+          }),
+        );
+      }
+    }
+
+    const value = Object.freeze(exports);
+
+    Object.defineProperty(this, 'exports', { configurable: false, value });
+
+    return value;
+  }
+
+  /**
+   * Finds an export by name or ordinal.
+   * @param nameOrOrdinal Exported name (case-sensitive) or biased ordinal.
+   * @returns The export, or undefined if the image does not export it.
+   * @example
+   * ```ts
+   * const loadLibraryW = kernel32.pe.findExport('LoadLibraryW')?.address;
+   * const byOrdinal = kernel32.pe.findExport(0x01);
+   * ```
+   */
+  public findExport(nameOrOrdinal: number | string): PEExport | undefined {
+    if (this.#exportsByKey === undefined) {
+      this.#exportsByKey = new Map();
+
+      for (const entry of this.exports) {
+        this.#exportsByKey.set(entry.Ordinal, entry);
+
+        if (entry.Name !== undefined) {
+          this.#exportsByKey.set(entry.Name, entry);
+        }
+      }
+    }
+
+    return this.#exportsByKey.get(nameOrOrdinal);
+  }
+
+  /**
+   * Finds the function containing an absolute address through the exception directory, with its
+   * unwind information. For an address in a chained fragment (a block the compiler moved out of its
+   * function), the fragment is returned and `unwind.parent` names the function it belongs to.
+   * @param address Absolute address.
+   * @returns The containing function and its UNWIND_INFO, or undefined when no entry covers the address.
+   * @example
+   * ```ts
+   * const fn = cs2.modules['client.dll']!.pe.functionAt(crashAddress);
+   * console.log(fn?.start.toString(16), fn?.unwind.SizeOfProlog);
+   * ```
+   */
+  public functionAt(address: bigint): (PEFunction & { readonly unwind: PEUnwindInfo }) | undefined {
+    const functions = this.functions;
+    const index = PEImage.#firstEndingAfter(functions, address);
+    const entry = functions[index];
+
+    if (entry === undefined || address < entry.start) {
+      return undefined;
+    }
+
+    return Object.freeze({ ...entry, unwind: this.#unwindInfo(entry.UnwindInfoAddress) });
+  }
+
+  /**
+   * Gets the x64 exception directory (`.pdata`), parsed on first access: one RUNTIME_FUNCTION per
+   * function or function fragment, sorted by address. Leaf functions that touch neither the stack
+   * nor non-volatile registers have no entry. Empty for x86 images (which unwind through SEH
+   * chains instead) and for other machines.
+   * @example
+   * ```ts
+   * const { functions } = cs2.modules['client.dll']!.pe;
+   * console.log(`${functions.length} functions`);
+   * ```
+   */
+  public get functions(): readonly PEFunction[] {
+    const { Size, VirtualAddress } = this.DataDirectory[ImageDirectoryEntry.Exception] ?? { Size: 0x00, VirtualAddress: 0x00 };
+    const functions: PEFunction[] = [];
+
+    if (this.Machine === IMAGE_FILE_MACHINE_AMD64 && VirtualAddress !== 0x00) {
+      const table = this.read(VirtualAddress, Size - (Size % 0x0c));
+
+      for (let offset = 0x00; offset + 0x0c <= table.length; offset += 0x0c) {
+        const BeginAddress = table.readUInt32LE(offset);
+        const EndAddress = table.readUInt32LE(offset + 0x04);
+
+        functions.push(
+          Object.freeze({
+            BeginAddress,
+            end: this.base + BigInt(EndAddress),
+            EndAddress,
+            start: this.base + BigInt(BeginAddress),
+            UnwindInfoAddress: table.readUInt32LE(offset + 0x08),
+          }),
+        );
+      }
+
+      // The loader requires the table sorted; a malformed one should not break the binary searches.
+      functions.sort((a, b) => a.BeginAddress - b.BeginAddress);
+    }
+
+    const value = Object.freeze(functions);
+
+    Object.defineProperty(this, 'functions', { configurable: false, value });
+
+    return value;
+  }
+
+  /**
+   * Lists the functions that overlap an absolute address range, in address order.
+   * @param start First address of the range.
+   * @param end End of the range (exclusive).
+   * @returns Every RUNTIME_FUNCTION with `start < end` and `end > start`.
+   * @example
+   * ```ts
+   * const text = client.pe.sections['.text']!;
+   * const firstPage = client.pe.functionsIn(text.start, text.start + 0x1000n);
+   * ```
+   */
+  public functionsIn(start: bigint, end: bigint): PEFunction[] {
+    const functions = this.functions;
+    const result: PEFunction[] = [];
+
+    for (let index = PEImage.#firstEndingAfter(functions, start); index < functions.length && functions[index]!.start < end; index++) {
+      result.push(functions[index]!);
+    }
+
+    return result;
+  }
+
+  /**
+   * Gets the RVAs of the load configuration's guard function-pointer slots (CFG and XFG check and
+   * dispatch, RFG, guarded memcpy), parsed on first access. The loader overwrites these slots in a
+   * CFG-enabled process even though they sit in read-only data (`.00cfg`, `.rdata`). Each slot is a
+   * pointer wide (4 or 8 bytes by `is32Bit`); fields the image's load configuration is too short
+   * to hold, or that are zero, are left out.
+   * @example
+   * ```ts
+   * const { base, guardSlots } = cs2.modules['kernel32.dll']!.pe;
+   * for (const rva of guardSlots) {
+   *   console.log(cs2.formatAddress(cs2.uPtr(base + BigInt(rva)))); // e.g. ntdll.dll+0x9f4a0
+   * }
+   * ```
+   */
+  public get guardSlots(): readonly number[] {
+    const { VirtualAddress } = this.DataDirectory[ImageDirectoryEntry.LoadConfig] ?? { VirtualAddress: 0x00 };
+    const slots: number[] = [];
+
+    if (VirtualAddress !== 0x00) {
+      // The structure's own Size field says which fields it has; the directory's Size may differ.
+      const config = this.read(VirtualAddress, Math.min(this.read(VirtualAddress, 0x04).readUInt32LE(0x00), 0x1000));
+      const width = this.is32Bit ? 0x04 : 0x08;
+
+      for (const [offset32, offset64] of GuardSlotFields) {
+        const offset = this.is32Bit ? offset32 : offset64;
+
+        if (offset + width > config.length) {
+          continue;
+        }
+
+        const address = this.is32Bit ? BigInt(config.readUInt32LE(offset)) : config.readBigUInt64LE(offset);
+
+        if (address === 0n) {
+          continue;
+        }
+
+        // A file holds the address at ImageBase, a loaded image relocated to base.
+        const rva = Number(address - (address >= this.base && address < this.base + BigInt(this.SizeOfImage) ? this.base : this.ImageBase));
+
+        if (rva >= 0x00 && rva + width <= this.SizeOfImage) {
+          slots.push(rva);
+        }
+      }
+    }
+
+    const value = Object.freeze(slots);
+
+    Object.defineProperty(this, 'guardSlots', { configurable: false, value });
+
+    return value;
+  }
+
+  /**
+   * Gets the imported functions — the import directory, then the delay-load directory — with each
+   * IAT slot and the pointer it holds. Read afresh on every access, so `target` is always current.
+   * @example
+   * ```ts
+   * for (const { dll, Name, Ordinal, slot, target } of cs2.modules['client.dll']!.pe.imports) {
+   *   console.log(`${dll}!${Name ?? `#${Ordinal}`} @ ${slot.toString(16)} -> ${target.toString(16)}`);
+   * }
+   * ```
+   */
+  public get imports(): PEImport[] {
+    const imports: PEImport[] = [];
+
+    const { VirtualAddress: importDirectory } = this.DataDirectory[ImageDirectoryEntry.Import] ?? { VirtualAddress: 0x00 };
+
+    if (importDirectory !== 0x00) {
+      // IMAGE_IMPORT_DESCRIPTOR: OriginalFirstThunk@0x00, Name@0x0c, FirstThunk@0x10; a zeroed one ends the table.
+      for (let offset = importDirectory; ; offset += 0x14) {
+        const descriptor = this.read(offset, 0x14);
+
+        const FirstThunk = descriptor.readUInt32LE(0x10);
+        const Name = descriptor.readUInt32LE(0x0c);
+
+        if (FirstThunk === 0x00 && Name === 0x00) {
+          break;
+        }
+
+        // Without an OriginalFirstThunk (old linkers), the names are only in the unbound IAT.
+        this.#thunks(imports, this.#cString(Name), descriptor.readUInt32LE(0x00) || FirstThunk, FirstThunk, false, (rva) => rva);
+      }
+    }
+
+    const { VirtualAddress: delayDirectory } = this.DataDirectory[ImageDirectoryEntry.DelayImport] ?? { VirtualAddress: 0x00 };
+
+    if (delayDirectory !== 0x00) {
+      // IMAGE_DELAYLOAD_DESCRIPTOR: Attributes@0x00, DllNameRVA@0x04, ImportAddressTableRVA@0x0c, ImportNameTableRVA@0x10.
+      for (let offset = delayDirectory; ; offset += 0x20) {
+        const descriptor = this.read(offset, 0x20);
+
+        const DllNameRVA = descriptor.readUInt32LE(0x04);
+
+        if (DllNameRVA === 0x00) {
+          break;
+        }
+
+        // Attributes bit 0 marks RVAs; descriptors from pre-VC7 linkers hold 32-bit VAs instead.
+        const toRva = (descriptor.readUInt32LE(0x00) & 0x01) !== 0x00 ? (rva: number) => rva : (va: number) => va - Number(this.ImageBase);
+
+        this.#thunks(imports, this.#cString(toRva(DllNameRVA)), toRva(descriptor.readUInt32LE(0x10)), toRva(descriptor.readUInt32LE(0x0c)), true, toRva);
+      }
+    }
+
+    return imports;
+  }
+
+  /**
+   * Lays the image out the way the loader maps it: the headers at 0, each section's raw data at its
+   * RVA (zero-filled to its virtual size), then the base relocations applied for the difference
+   * between `base` and `ImageBase`. The source is taken to hold unrelocated bytes, as a file does.
+   * @param base Absolute address to relocate for (defaults to `this.base`).
+   * @returns A fresh `SizeOfImage`-byte buffer.
+   * @example
+   * ```ts
+   * const client = cs2.modules['client.dll']!;
+   * const expected = new PEImage(readFileSync(client.szExePath)).map(client.modBaseAddr);
+   * ```
+   */
+  public map(base: bigint = this.base): Buffer {
+    const image = Buffer.alloc(this.SizeOfImage);
+
+    this.read(0x00, Math.min(this.SizeOfHeaders, this.SizeOfImage)).copy(image, 0x00);
+
+    for (const { SizeOfRawData, VirtualAddress, VirtualSize } of this.sectionList) {
+      const length = Math.min(SizeOfRawData, VirtualSize, this.SizeOfImage - VirtualAddress);
+
+      if (length > 0x00) {
+        this.read(VirtualAddress, length).copy(image, VirtualAddress);
+      }
+    }
+
+    const delta = base - this.ImageBase;
+
+    if (delta === 0x00n) {
+      return image;
+    }
+
+    for (const { rva, type } of this.relocations) {
+      switch (type) {
+        case IMAGE_REL_BASED_DIR64:
+          image.writeBigUInt64LE(BigInt.asUintN(0x40, image.readBigUInt64LE(rva) + delta), rva);
+          break;
+        case IMAGE_REL_BASED_HIGH:
+          image.writeUInt16LE((image.readUInt16LE(rva) + Number((delta >> 0x10n) & 0xffffn)) & 0xffff, rva);
+          break;
+        case IMAGE_REL_BASED_HIGHLOW:
+          image.writeUInt32LE(Number((BigInt(image.readUInt32LE(rva)) + delta) & 0xffff_ffffn), rva);
+          break;
+        case IMAGE_REL_BASED_LOW:
+          image.writeUInt16LE((image.readUInt16LE(rva) + Number(delta & 0xffffn)) & 0xffff, rva);
+          break;
+      }
+    }
+
+    return image;
+  }
+
+  /**
+   * Translates an RVA to an offset in the file layout.
+   * @param rva Relative virtual address.
+   * @returns The file offset.
+   * @throws RangeError if the RVA lies in no section's raw data.
+   * @example
+   * ```ts
+   * const offset = image.offsetOf(image.AddressOfEntryPoint);
+   * ```
+   */
+  public offsetOf(rva: number): number {
+    // sectionList is unset while the constructor reads the headers, which sit at offset == RVA.
+    if (this.sectionList === undefined || rva < this.SizeOfHeaders) {
+      return rva;
+    }
+
+    for (const { PointerToRawData, SizeOfRawData, VirtualAddress } of this.sectionList) {
+      if (rva >= VirtualAddress && rva < VirtualAddress + SizeOfRawData) {
+        return PointerToRawData + (rva - VirtualAddress);
+      }
+    }
+
+    throw new RangeError(`RVA 0x${rva.toString(16)} has no bytes in the file.`);
+  }
+
+  /**
+   * Reads bytes of the image at an RVA.
+   * @param rva Relative virtual address.
+   * @param length Bytes to read.
+   * @returns The bytes (a view into a Buffer source; a fresh read otherwise).
+   * @example
+   * ```ts
+   * const header = client.pe.read(0x00, 0x40);
+   * ```
+   */
+  public read(rva: number, length: number): Buffer {
+    return this.#source(rva, length);
+  }
+
+  /**
+   * Gets the base relocations, parsed on first access, in table order.
+   * @example
+   * ```ts
+   * console.log(new PEImage(readFileSync('client.dll')).relocations.length);
+   * ```
+   */
+  public get relocations(): readonly PERelocation[] {
+    const { Size, VirtualAddress } = this.DataDirectory[ImageDirectoryEntry.BaseReloc] ?? { Size: 0x00, VirtualAddress: 0x00 };
+    const relocations: PERelocation[] = [];
+
+    if (VirtualAddress !== 0x00) {
+      const table = this.read(VirtualAddress, Size);
+
+      // IMAGE_BASE_RELOCATION blocks: a page RVA and the block size, then u16 entries of a 4-bit
+      // type over a 12-bit page offset.
+      for (let offset = 0x00; offset + 0x08 <= table.length; ) {
+        const PageRVA = table.readUInt32LE(offset);
+        const SizeOfBlock = table.readUInt32LE(offset + 0x04);
+
+        if (SizeOfBlock < 0x08) {
+          break;
+        }
+
+        for (let entry = offset + 0x08; entry + 0x02 <= Math.min(offset + SizeOfBlock, table.length); entry += 0x02) {
+          const value = table.readUInt16LE(entry);
+
+          if (value >> 0x0c !== IMAGE_REL_BASED_ABSOLUTE) {
+            relocations.push(Object.freeze({ rva: PageRVA + (value & 0xfff), type: value >> 0x0c }));
+          }
+        }
+
+        offset += SizeOfBlock;
+      }
+    }
+
+    const value = Object.freeze(relocations);
+
+    Object.defineProperty(this, 'relocations', { configurable: false, value });
+
+    return value;
+  }
+
+  /**
+   * Gets the image's MSVC RTTI, scanned on first access: every polymorphic class with its vtables
+   * and base classes.
+   * @example
+   * ```ts
+   * const pawn = cs2.modules['client.dll']!.pe.rtti.classes['C_CSPlayerPawn']!;
+   * console.log(pawn.vtables[0]!.address.toString(16));
+   * ```
+   */
+  public get rtti(): RTTI {
+    const value = new RTTI(this);
+
+    Object.defineProperty(this, 'rtti', { configurable: false, value });
+
+    return value;
+  }
+
+  /**
+   * Validates a set of named signatures against the image: every match of each one, and which
+   * match more than once or not at all. Meant for checking signatures against a new build of a
+   * module before the game runs, e.g. on CI. Runs `Process.scan`, so each section is read once for
+   * all the signatures.
+   * @param signatures Patterns by name, in any `pattern()` notation or compiled, or a prebuilt `SignatureScanner`.
+   * @param sections Names of the sections to search (defaults to all of them).
+   * @returns The matches by name, with the ambiguous and unmatched names in input order.
+   * @example
+   * ```ts
+   * const report = new PEImage('client.dll').scan({ dwEntityList: '48 8B 0D ? ? ? ? 48 89 7C 24', dwViewMatrix: '48 8D 0D ? ? ? ? 48 C1 E0 06' }, ['.text']);
+   * console.log(report.unmatched, report.ambiguous, report.matches['dwEntityList']![0]?.rva);
+   * ```
+   */
+  public scan(signatures: Readonly<Record<string, Signature | string>> | SignatureScanner, sections?: readonly string[]): SignatureReport {
+    const included = this.sectionList
+      .map(({ Name, VirtualAddress, VirtualSize }) => ({ length: Math.min(VirtualSize, this.SizeOfImage - VirtualAddress), Name, VirtualAddress }))
+      .filter(({ length, Name }) => length > 0x00 && (sections === undefined || sections.includes(Name)));
+
+    const report = this.#scan().scan(signatures, { ranges: included.map(({ length, VirtualAddress }) => ({ address: this.base + BigInt(VirtualAddress), length })) }, { limit: Number.POSITIVE_INFINITY });
+
+    const matches: Record<string, readonly PEMatch[]> = {};
+
+    for (const [name, addresses] of Object.entries(report.matches)) {
+      matches[name] = Object.freeze(
+        addresses.map((address) => {
+          const rva = Number(address - this.base);
+          const { Name } = included.find(({ length, VirtualAddress }) => rva >= VirtualAddress && rva < VirtualAddress + length)!;
+
+          return Object.freeze({ address, rva, section: Name });
+        }),
+      );
+    }
+
+    return Object.freeze({ ambiguous: report.ambiguous, matches: Object.freeze(matches), unmatched: report.unmatched });
+  }
+
+  /**
+   * Formats a 16-byte GUID (little-endian `Data1`–`Data3`, then `Data4`) as uppercase
+   * `XXXXXXXX-XXXX-XXXX-XXXX-XXXXXXXXXXXX`.
+   * @param bytes The GUID bytes, as stored in a CodeView record or a PDB info stream.
+   * @returns The formatted GUID.
+   * @example
+   * ```ts
+   * PEImage.formatGuid(record.subarray(0x04, 0x14));
+   * ```
+   */
+  public static formatGuid(bytes: Buffer): string {
+    const hex = (value: number, digits: number) => value.toString(16).toUpperCase().padStart(digits, '0');
+    const data4 = bytes.toString('hex', 0x08, 0x10).toUpperCase();
+
+    return `${hex(bytes.readUInt32LE(0x00), 0x08)}-${hex(bytes.readUInt16LE(0x04), 0x04)}-${hex(bytes.readUInt16LE(0x06), 0x04)}-${data4.slice(0x00, 0x04)}-${data4.slice(0x04)}`;
+  }
+
+  /**
+   * Reads a NUL-terminated ASCII string at an RVA, in chunks that never cross into an unmapped page
+   * (or past the end of a Buffer source) beyond the terminator.
+   */
+  #cString(rva: number): string {
+    const chunks: Buffer[] = [];
+
+    for (let cursor = rva; cursor - rva < 0x1000; ) {
+      const chunk = this.read(cursor, Math.min(this.#extent(cursor), 0x1000));
+      const terminator = chunk.indexOf(0x00);
+
+      if (terminator !== -1 || chunk.length === 0) {
+        chunks.push(terminator !== -1 ? chunk.subarray(0, terminator) : chunk);
+
+        break;
+      }
+
+      chunks.push(chunk);
+
+      cursor += chunk.length;
+    }
+
+    return Buffer.concat(chunks).toString('latin1');
+  }
+
+  /**
+   * Returns the process pattern() and scan() search: each section at its address, read-only.
+   */
+  #scan(): Process {
+    if (this.#scanner !== undefined) {
+      return this.#scanner;
+    }
+
+    const image = this.map(this.ImageBase);
+    const backend = new BufferBackend({ is32Bit: this.is32Bit });
+
+    for (const { VirtualAddress, VirtualSize } of this.sectionList) {
+      const length = Math.min(VirtualSize, this.SizeOfImage - VirtualAddress);
+
+      if (length > 0x00) {
+        backend.map(this.base + BigInt(VirtualAddress), image.subarray(VirtualAddress, VirtualAddress + length), MemoryProtection.PAGE_READONLY, MEM_IMAGE);
+      }
+    }
+
+    this.#scanner = new Process(backend, { readOnly: true });
+
+    return this.#scanner;
+  }
+
+  /**
+   * Walks an import name table and its address table in step, appending one import per thunk.
+   */
+  #thunks(imports: PEImport[], dll: string, nameTable: number, addressTable: number, delayed: boolean, toRva: (value: number) => number): void {
+    const width = this.is32Bit ? 0x04 : 0x08;
+    const ordinalFlag = this.is32Bit ? 0x8000_0000n : 0x8000_0000_0000_0000n;
+
+    const thunk = (rva: number): bigint => {
+      const buffer = this.read(rva, width);
+
+      return this.is32Bit ? BigInt(buffer.readUInt32LE(0x00)) : buffer.readBigUInt64LE(0x00);
+    };
+
+    for (let index = 0; ; index++) {
+      const name = thunk(nameTable + index * width);
+
+      if (name === 0x00n) {
+        break;
+      }
+
+      const byOrdinal = (name & ordinalFlag) !== 0x00n;
+      const slot = addressTable + index * width;
+
+      imports.push(
+        Object.freeze({
+          delayed,
+          dll,
+          // IMAGE_IMPORT_BY_NAME: a u16 hint, then the name.
+          Name: byOrdinal ? undefined : this.#cString(toRva(Number(name & 0x7fff_ffffn)) + 0x02),
+          Ordinal: byOrdinal ? Number(name & 0xffffn) : undefined,
+          slot: this.base + BigInt(slot),
+          target: thunk(slot),
+        }),
+      );
+    }
+
+    return;
+  }
+
+  /**
+   * Reads an UNWIND_INFO; a chained one is followed to the primary function it continues.
+   */
+  #unwindInfo(rva: number): PEUnwindInfo {
+    const header = this.read(rva, 0x04);
+
+    const CountOfCodes = header[0x02]!;
+    const Flags = header[0x00]! >> 0x03;
+
+    // Unwind codes are 16-bit slots, padded to an even count; the handler RVA or the chained
+    // RUNTIME_FUNCTION follows them.
+    const tail = rva + 0x04 + ((CountOfCodes + 0x01) & ~0x01) * 0x02;
+
+    let handler: bigint | undefined;
+    let parent: PEFunction | undefined;
+
+    if ((Flags & (UNW_FLAG_EHANDLER | UNW_FLAG_UHANDLER)) !== 0x00) {
+      handler = this.base + BigInt(this.read(tail, 0x04).readUInt32LE(0x00));
+    } else if ((Flags & UNW_FLAG_CHAININFO) !== 0x00) {
+      let entry = this.read(tail, 0x0c);
+
+      // Chains are short; a cycle in a corrupt image should not hang the lookup.
+      for (let depth = 0x00; depth < 0x20; depth++) {
+        const BeginAddress = entry.readUInt32LE(0x00);
+        const EndAddress = entry.readUInt32LE(0x04);
+        const UnwindInfoAddress = entry.readUInt32LE(0x08);
+
+        parent = Object.freeze({ BeginAddress, end: this.base + BigInt(EndAddress), EndAddress, start: this.base + BigInt(BeginAddress), UnwindInfoAddress });
+
+        const next = this.read(UnwindInfoAddress, 0x04);
+
+        if (((next[0x00]! >> 0x03) & UNW_FLAG_CHAININFO) === 0x00) {
+          break;
+        }
+
+        entry = this.read(UnwindInfoAddress + 0x04 + ((next[0x02]! + 0x01) & ~0x01) * 0x02, 0x0c);
+      }
+    }
+
+    return Object.freeze({
+      CountOfCodes,
+      Flags,
+      FrameOffset: header[0x03]! >> 0x04,
+      FrameRegister: header[0x03]! & 0x0f,
+      handler,
+      parent,
+      SizeOfProlog: header[0x01]!,
+      Version: header[0x00]! & 0x07,
+    });
+  }
+
+  /**
+   * Finds the index of the first function that ends after an address, or `functions.length`.
+   */
+  static #firstEndingAfter(functions: readonly PEFunction[], address: bigint): number {
+    let low = 0;
+    let high = functions.length;
+
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+
+      if (functions[middle]!.end <= address) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    return low;
+  }
+
+  /**
+   * Returns a bounds-checked view into a Buffer source.
+   */
+  static #slice(buffer: Buffer, offset: number, length: number): Buffer {
+    if (offset < 0 || offset + length > buffer.length) {
+      throw new RangeError(`0x${length.toString(16)} bytes at offset 0x${offset.toString(16)} lie outside the 0x${buffer.length.toString(16)}-byte image.`);
+    }
+
+    return buffer.subarray(offset, offset + length);
+  }
+}
+
+export default PEImage;
+export { ImageDirectoryEntry, PEImage };
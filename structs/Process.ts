@@ -1,56 +1,58 @@
 import '../runtime/extensions';
 
 import { CString, FFIType, ptr, read } from 'bun:ffi';
-
-import Kernel32, { MemoryAllocationType, MemoryProtection, ProcessAccessRights, ToolhelpSnapshotFlags } from '@bun-win32/kernel32';
-
-import type { BufferLike, CallArguments, CallPointer, CallReturn, CallSignature, Point, QAngle, Quaternion, RGB, RGBA, UPtr, UPtrArray, Vector2, Vector3, Vector4 } from '../types/Process';
+import { EventEmitter } from 'node:events';
+import { existsSync, statSync } from 'node:fs';
+import { dirname, win32 } from 'node:path';
+
+import { MemoryAllocationType, MemoryProtection, ProcessAccessRights } from '@bun-win32/kernel32';
+
+import type { Backend } from '../types/Backend';
+import type { ImportPatch, PEFunction, PESection, PEUnwindInfo } from '../types/PE';
+import type {
+  BufferLike,
+  CallArguments,
+  CallPointer,
+  CallReturn,
+  CallSignature,
+  DumpOptions,
+  PatternString,
+  Point,
+  ProcessEntry,
+  ProcessEvents,
+  ProcessFilter,
+  ProcessOptions,
+  ProcessTreeNode,
+  QAngle,
+  Quaternion,
+  RGB,
+  RGBA,
+  ScanRange,
+  ScanScope,
+  SuperviseOptions,
+  UPtr,
+  UPtrArray,
+  Vector2,
+  Vector3,
+  Vector4,
+  WaitForModuleOptions,
+  WaitForOptions,
+} from '../types/Process';
+import type { ScanOptions, ScanReport, SignatureResolver } from '../types/Signature';
+import AccessError from './AccessError';
+import Kernel32Backend from './Kernel32Backend';
 import MemoryBasicInformation from './MemoryBasicInformation';
+import MinidumpWriter from './MinidumpWriter';
 import Module from './Module';
+import PDB from './PDB';
+import RecordingBackend from './RecordingBackend';
+import ResolveError from './ResolveError';
+import RTTI from './RTTI';
 import Scratch from './Scratch';
+import Signature from './Signature';
+import SignatureScanner from './SignatureScanner';
 import Win32Error from './Win32Error';
 
-// Preload FFI symbols to avoid lazy-loading overhead during hot paths
-Kernel32.Preload([
-  'CloseHandle',
-  'CreateRemoteThread',
-  'CreateToolhelp32Snapshot',
-  'GetLastError',
-  'IsWow64Process2',
-  'Module32FirstW',
-  'Module32NextW',
-  'OpenProcess',
-  'Process32FirstW',
-  'Process32NextW',
-  'ReadProcessMemory',
-  'VirtualAllocEx',
-  'VirtualFreeEx',
-  'VirtualProtectEx',
-  'VirtualQueryEx',
-  'WaitForSingleObject',
-  'WriteProcessMemory',
-]);
-
-const {
-  CloseHandle,
-  CreateRemoteThread,
-  CreateToolhelp32Snapshot,
-  GetLastError,
-  IsWow64Process2,
-  Module32FirstW,
-  Module32NextW,
-  OpenProcess,
-  Process32FirstW,
-  Process32NextW,
-  ReadProcessMemory,
-  VirtualAllocEx,
-  VirtualFreeEx,
-  VirtualProtectEx,
-  VirtualQueryEx,
-  WaitForSingleObject,
-  WriteProcessMemory,
-} = Kernel32;
-
 const FFITypeByName: Readonly<Record<string, FFIType>> = {
   bool: FFIType.bool,
   buffer: FFIType.buffer,
@@ -95,16 +97,48 @@ const FFITypeByName: Readonly<Record<string, FFIType>> = {
   'void*': FFIType.ptr,
 };
 
-const INFINITE = 0xffff_ffff;
-const INVALID_HANDLE_VALUE = 0xffff_ffff_ffff_ffffn;
-const WAIT_FAILED = 0xffff_ffff;
-const WAIT_OBJECT_0 = 0x0000_0000;
+/**
+ * Most bytes a scan reads at once when `options.chunkSize` is not given.
+ */
+const DefaultChunkSize = 0x40_0000;
+
+/**
+ * Milliseconds between liveness checks when `options.pollInterval` is not given.
+ */
+const DefaultPollInterval = 500;
+
+/**
+ * Win32 error a module snapshot fails with while the target is still starting up.
+ */
+const ERROR_PARTIAL_COPY = 0x12b;
+
+/**
+ * Granularity of the per-page retry when a scan chunk cannot be read whole.
+ */
+const PageSize = 0x1000;
+
+/**
+ * Rights the liveness poller needs on a Kernel32Backend handle (GetExitCodeProcess); either one is enough.
+ */
+const LivenessAccess = ProcessAccessRights.PROCESS_QUERY_INFORMATION | ProcessAccessRights.PROCESS_QUERY_LIMITED_INFORMATION;
+
+/**
+ * Rights a read-only attach opens the process with: reads and region queries.
+ */
+const ReadOnlyAccess = ProcessAccessRights.PROCESS_QUERY_INFORMATION | ProcessAccessRights.PROCESS_VM_READ;
 
 /**
  * Provides cross-process memory manipulation for native applications.
  *
  * Use this class to read and write memory, access modules, and work with common data structures in external processes.
  *
+ * Every accessor funnels through a `Backend` (read, write, query, modules, alloc/free/protect). A PID or
+ * executable name attaches through the default `Kernel32Backend`; pass a `BufferBackend` (or any other
+ * `Backend`) to run the same accessors against a different target, such as plain buffers in a unit test.
+ * `options.access` narrows the rights the process handle is opened with, and `options.readOnly`
+ * refuses every write, `alloc`, `free`, `protection`, and `call` with an `AccessError` before the
+ * backend is reached.
+ *
  * Number-returning scalar reads decode through a `TypedArray` scratch view, which beats a second
  * `bun:ffi.read.*` FFI hop. The 64-bit BigInt reads (`u64`/`i64`, and `follow`/`vFunction`) instead use
  * `bun:ffi.read.u64`/`read.i64`, which is faster than the BigInt-lane view's boxing.
@@ -127,128 +161,317 @@ const WAIT_OBJECT_0 = 0x0000_0000;
  */
 class Process {
   /**
-   * Opens a process by PID or executable name.
-   * @param identifier Process ID or executable name.
-   * @throws If the process cannot be found or opened.
+   * Opens a process by PID, executable name, or an entry from `Process.list()`, or wraps an existing backend.
+   * @param identifier Process ID, executable name, process entry, or a Backend to read and write through.
+   * @param options Access rights to open the process with, whether to attach read-only, and how many
+   *   bytes a scan reads at once.
+   * @throws If the process cannot be found or opened, AmbiguousProcessError if several processes
+   *   share the executable name, or RangeError if `chunkSize` is not a positive integer.
    * @example
    * ```ts
    * const cs2 = new Process('cs2.exe');
+   * const second = new Process(Process.list('cs2.exe')[1]!);
+   * const fake = new Process(new BufferBackend());
+   * const overlay = new Process('cs2.exe', { readOnly: true });
+   * const limited = new Process('cs2.exe', { access: ProcessAccessRights.PROCESS_VM_READ | ProcessAccessRights.PROCESS_QUERY_LIMITED_INFORMATION });
    * ```
    */
-  constructor(identifier: number | string) {
-    const dwFlags = ToolhelpSnapshotFlags.TH32CS_SNAPPROCESS;
+  constructor(identifier: Backend | ProcessEntry | number | string, options: ProcessOptions = {}) {
+    const readOnly = options.readOnly ?? false;
+    const access = options.access ?? (readOnly ? ReadOnlyAccess : ProcessAccessRights.PROCESS_ALL_ACCESS);
+    const chunkSize = options.chunkSize ?? DefaultChunkSize;
 
-    const hSnapshot = CreateToolhelp32Snapshot(dwFlags, 0);
-
-    if (hSnapshot === INVALID_HANDLE_VALUE) {
-      throw new Win32Error('CreateToolhelp32Snapshot', GetLastError());
+    if (!Number.isInteger(chunkSize) || chunkSize < 0x01) {
+      throw new RangeError(`chunkSize must be a positive integer, got ${chunkSize}.`);
     }
 
-    using snapshot = { handle: hSnapshot, [Symbol.dispose]: () => CloseHandle(hSnapshot) };
+    const backend = typeof identifier === 'object' && 'read' in identifier ? identifier : new Kernel32Backend(identifier, { access });
 
-    const lppeBuffer = Buffer.allocUnsafe(0x238 /* sizeof(PROCESSENTRY32W) */);
-    /* */ lppeBuffer.writeUInt32LE(0x238 /* sizeof(PROCESSENTRY32W) */);
+    this.#backend = backend;
+    this.#modules = {};
+    this.#pollInterval = options.pollInterval ?? DefaultPollInterval;
 
-    const lppe = lppeBuffer.ptr;
+    this.chunkSize = chunkSize;
+    this.readOnly = readOnly;
 
-    const bProcess32FirstW = Process32FirstW(snapshot.handle, lppe);
+    try {
+      this.refresh();
+    } catch (error) {
+      backend.close();
 
-    if (!bProcess32FirstW) {
-      throw new Win32Error('Process32FirstW', GetLastError());
+      throw error;
     }
+  }
 
-    do {
-      const szExeFile = lppeBuffer.toString('utf16le', 0x2c, 0x234).replace(Process.#Patterns.ReplaceTrailingNull, '');
-      const th32ProcessID = lppeBuffer.readUInt32LE(0x08);
-
-      if (
-        (typeof identifier === 'number' && identifier !== th32ProcessID) || //
-        (typeof identifier === 'string' && identifier !== szExeFile)
-      ) {
-        continue;
-      }
-
-      const desiredAccess = ProcessAccessRights.PROCESS_ALL_ACCESS;
-      const inheritHandle = 0;
-
-      const hProcess = OpenProcess(desiredAccess, inheritHandle, th32ProcessID);
+  /**
+   * Creates a Process instance from a process identifier.
+   * @param identifier Process ID, executable name, process entry, or a Backend to read and write through.
+   * @param options Access rights to open the process with, and whether to attach read-only.
+   * @returns A new Process instance.
+   * @throws If the process cannot be found or opened, or AmbiguousProcessError if several processes
+   *   share the executable name.
+   * @example
+   * ```ts
+   * const cs2 = Process.from('cs2.exe');
+   * const byPid = Process.from(1234);
+   * const overlay = Process.from('cs2.exe', { readOnly: true });
+   * ```
+   */
+  public static from(identifier: Backend | ProcessEntry | number | string, options: ProcessOptions = {}): Process {
+    return new Process(identifier, options);
+  }
 
-      if (hProcess === 0n) {
-        throw new Win32Error('OpenProcess', GetLastError());
-      }
+  /**
+   * Lists running processes without opening any of them.
+   * @param filter Executable name (case-insensitive, `*` and `?` globs), RegExp, or predicate; omit for every process.
+   * @returns Matching process entries, in snapshot order.
+   * @throws If the process snapshot cannot be taken.
+   * @example
+   * ```ts
+   * const all = Process.list();
+   * const instances = Process.list('cs2.exe');
+   * const steam = Process.list('steam*.exe');
+   * const busy = Process.list(({ cntThreads }) => cntThreads > 100);
+   * ```
+   */
+  public static list(filter?: ProcessFilter): ProcessEntry[] {
+    const entries = Kernel32Backend.list();
 
-      this.#modules = {};
+    return filter === undefined ? entries : entries.filter(Process.#matcher(filter));
+  }
 
-      this.cntThreads = lppeBuffer.readUInt32LE(0x1c);
-      this.hProcess = hProcess;
-      this.pcPriClassBase = lppeBuffer.readInt32LE(0x24);
-      this.szExeFile = szExeFile;
-      this.th32ParentProcessID = lppeBuffer.readUInt32LE(0x20);
-      this.th32ProcessID = th32ProcessID;
+  /**
+   * Attaches like `new Process(identifier)` and records every backend call — reads with their bytes,
+   * writes, `query()` results, and module snapshots — to an NDJSON trace that `ReplayBackend` serves back.
+   * @param identifier Process ID, executable name, or a Backend to record.
+   * @param path Trace file to create; buffered lines are flushed on `close()`.
+   * @returns A new Process instance.
+   * @example
+   * ```ts
+   * const cs2 = Process.record('cs2.exe', 'session.ndjson');
+   * cs2.tArrayChar(0x12345678n);
+   * cs2.close();
+   *
+   * const replay = new Process(new ReplayBackend('session.ndjson'));
+   * replay.tArrayChar(0x12345678n);
+   * ```
+   */
+  public static record(identifier: Backend | ProcessEntry | number | string, path: string): Process {
+    const backend = typeof identifier === 'object' && 'read' in identifier ? identifier : new Kernel32Backend(identifier);
 
-      const machineBuffer = Buffer.allocUnsafe(0x04);
-      const bIsWow64Process2 = IsWow64Process2(hProcess, ptr(machineBuffer), ptr(machineBuffer, 0x02));
+    return new Process(new RecordingBackend(backend, path));
+  }
 
-      if (!bIsWow64Process2) {
-        const lastError = GetLastError();
+  /**
+   * Arranges running processes by parent, without opening any of them.
+   * @param filter Executable name (case-insensitive, `*` and `?` globs), RegExp, or predicate. When
+   *   given, every matching process is returned with its descendants; otherwise the roots are.
+   * @returns Process nodes with their `children`, in snapshot order.
+   * @throws If the process snapshot cannot be taken.
+   * @example
+   * ```ts
+   * const forest = Process.tree();
+   * const [explorer] = Process.tree('explorer.exe');
+   * console.log(explorer?.children.map(({ szExeFile }) => szExeFile));
+   * ```
+   */
+  public static tree(filter?: ProcessFilter): ProcessTreeNode[] {
+    const nodes = new Map<number, ProcessTreeNode>(Kernel32Backend.list().map((entry) => [entry.th32ProcessID, { ...entry, children: [] }]));
+    const roots: ProcessTreeNode[] = [];
 
-        CloseHandle(hProcess);
+    for (const node of nodes.values()) {
+      const parent = nodes.get(node.th32ParentProcessID);
 
-        throw new Win32Error('IsWow64Process2', lastError);
+      if (parent === undefined || parent === node) {
+        roots.push(node);
+      } else {
+        parent.children.push(node);
       }
+    }
 
-      // pProcessMachine is IMAGE_FILE_MACHINE_UNKNOWN (0) for a native process; a non-zero
-      // WOW64 machine (e.g. IMAGE_FILE_MACHINE_I386) means a 32-bit target with 32-bit pointers.
-      this.is32Bit = machineBuffer.readUInt16LE(0x00) !== 0x0000;
+    // A recycled parent PID can close a loop that no root reaches; cut each such loop into a root.
+    const reached = new Set<ProcessTreeNode>();
+    const reach = (node: ProcessTreeNode): void => {
+      reached.add(node);
+      node.children.forEach(reach);
+    };
 
-      try {
-        this.refresh();
-      } catch (error) {
-        CloseHandle(hProcess);
+    roots.forEach(reach);
 
-        throw error;
+    for (const node of nodes.values()) {
+      if (reached.has(node)) {
+        continue;
       }
 
-      return;
-    } while (Process32NextW(snapshot.handle, lppe));
+      const siblings = nodes.get(node.th32ParentProcessID)!.children;
+
+      siblings.splice(siblings.indexOf(node), 0x01);
+      roots.push(node);
+      reach(node);
+    }
 
-    throw new Error(`Process not found: ${identifier}.`);
+    return filter === undefined ? roots : [...nodes.values()].filter(Process.#matcher(filter));
   }
 
   /**
-   * Creates a Process instance from a process identifier.
+   * Waits for a process to start, then attaches to it.
    * @param identifier Process ID or executable name.
-   * @returns A new Process instance.
-   * @throws If the process cannot be found or opened.
+   * @param options How often to look (`pollInterval`, also kept by the attached instance), how long
+   *   (`timeout`), an abort `signal`, and the options to attach with.
+   * @returns The attached Process.
+   * @throws (rejects) On timeout or abort, if several processes share the executable name, or if the
+   *   process is found but cannot be opened.
    * @example
    * ```ts
-   * const cs2 = Process.from('cs2.exe');
-   * const byPid = Process.from(1234);
+   * const cs2 = await Process.waitFor('cs2.exe', { timeout: 60_000 });
+   * const controller = new AbortController();
+   * const game = await Process.waitFor('game.exe', { readOnly: true, signal: controller.signal });
    * ```
    */
-  public static from(identifier: number | string): Process {
-    return new Process(identifier);
+  public static waitFor(identifier: number | string, options: WaitForOptions = {}): Promise<Process> {
+    const { pollInterval = DefaultPollInterval, signal, timeout } = options;
+
+    return new Promise((resolve, reject) => {
+      const deadline = timeout === undefined ? Infinity : performance.now() + timeout;
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const settle = (): void => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+
+        return;
+      };
+
+      const onAbort = (): void => {
+        settle();
+        reject(signal!.reason);
+
+        return;
+      };
+
+      const attempt = (): void => {
+        try {
+          if (Kernel32Backend.list().some(({ szExeFile, th32ProcessID }) => identifier === (typeof identifier === 'number' ? th32ProcessID : szExeFile))) {
+            const process = new Process(identifier, options);
+
+            settle();
+            resolve(process);
+
+            return;
+          }
+        } catch (error) {
+          if (!Process.#isStarting(error)) {
+            settle();
+            reject(error);
+
+            return;
+          }
+        }
+
+        if (performance.now() >= deadline) {
+          settle();
+          reject(new Error(`Timed out after ${timeout} ms waiting for process ${identifier}.`));
+
+          return;
+        }
+
+        timer = setTimeout(attempt, pollInterval);
+
+        return;
+      };
+
+      if (signal?.aborted) {
+        reject(signal.reason);
+
+        return;
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      attempt();
+
+      return;
+    });
   }
 
   /**
-   * Regex patterns for matching hex strings and wildcards in memory scans.
+   * Regex patterns for process name globs and error messages.
    */
   static readonly #Patterns = {
-    PatternMatchAll: /(?:[0-9A-Fa-f]{2})+/g,
-    PatternTest: /^(?=.*[0-9A-Fa-f]{2})(?:\*{2}|\?{2}|[0-9A-Fa-f]{2})+$/,
-    ReplaceTrailingNull: /\0+$/,
+    ApiSet: /^(?:api|ext)-ms-/i,
+    Glob: /[*?]/,
+    GlobEscape: /[$()+.[\\\]^{|}]/g,
+    GlobWildcard: /[*?]/g,
+    TrailingPeriod: /\.$/,
   };
 
+  /**
+   * Opens the relaunched target for the supervisor, or undefined when not supervised.
+   */
+  #attach: ((previous: ProcessEntry) => Backend | undefined) | undefined;
+
+  /**
+   * Memory primitives every accessor funnels through; replaced when the supervisor re-attaches.
+   */
+  #backend: Backend;
+
+  /**
+   * Class names identified by className(), per vtable, until the next refresh().
+   */
+  readonly #classNames = new Map<bigint, string>();
+
   /**
    * Whether close() has already released the process handle.
    */
   #closed = false;
 
+  /**
+   * Listeners for `'error'`, `'exit'`, `'load'`, `'reattach'`, and `'unload'`.
+   */
+  readonly #events = new EventEmitter();
+
+  /**
+   * Whether the poller has seen the current target exit.
+   */
+  #exited = false;
+
+  /**
+   * Loaded modules in snapshot order, duplicates included.
+   */
+  #moduleList: readonly Module[] = [];
+
+  /**
+   * Loaded modules sorted by base address, for moduleAt().
+   */
+  #moduleSpans: readonly Module[] = [];
+
   /**
    * Map of loaded modules in the process, keyed by module name.
    */
   #modules: Readonly<Record<string, Module>>;
 
+  /**
+   * Resolved export addresses, per module, until the next refresh().
+   */
+  readonly #procAddresses = new Map<Module, Map<number | string, bigint>>();
+
+  /**
+   * PDBs loaded by loadSymbols(), by lowercase module name, with the base they were loaded for.
+   */
+  readonly #symbols = new Map<string, { base: bigint; pdb: PDB }>();
+
+  /**
+   * Milliseconds between liveness checks.
+   */
+  readonly #pollInterval: number;
+
+  /**
+   * Interval timer polling liveness and modules while `'exit'`, `'load'`, or `'unload'` listeners or
+   * a supervisor are attached.
+   */
+  #poller: ReturnType<typeof setInterval> | undefined;
+
   /**
    * Scratch buffers for temporary FFI reads/writes.
    */
@@ -260,31 +483,98 @@ class Process {
   readonly #Scratch12 = new Scratch(0x0c);
   readonly #Scratch16 = new Scratch(0x10);
 
-  readonly #Scratch1080 = new Scratch(0x438);
-
   /**
-   * Reusable, grow-on-demand haystack buffer for indexOf() reads.
+   * Reusable haystack buffer for streamed scans; grows to at most one chunk plus its overlap.
    */
-  #indexOfHaystack = Buffer.allocUnsafe(0x1000);
+  #haystack = Buffer.allocUnsafe(0x1000);
+
+  static #TextDecoderUTF8 = new TextDecoder('utf-8');
+  static #TextEncoderUTF8 = new TextEncoder();
+
+  /** Most bytes `indexOf()`, `pattern()`, and `scan()` read at once. */
+  public readonly chunkSize: number;
+  /** Whether writes, `alloc`, `free`, `protection`, and `call` are refused. */
+  public readonly readOnly: boolean;
+
+  /** Thread count of the target at attach. */
+  public get cntThreads(): number {
+    return this.#backend.cntThreads;
+  }
+
+  /** Native process handle, or 0n when the backend has none. */
+  public get hProcess(): bigint {
+    return this.#backend.hProcess;
+  }
+
+  /** Whether the target uses 32-bit pointers. */
+  public get is32Bit(): boolean {
+    return this.#backend.is32Bit;
+  }
+
+  /** Base priority of the target's threads. */
+  public get pcPriClassBase(): number {
+    return this.#backend.pcPriClassBase;
+  }
+
+  /** Executable name of the target. */
+  public get szExeFile(): string {
+    return this.#backend.szExeFile;
+  }
+
+  /** Parent process ID of the target. */
+  public get th32ParentProcessID(): number {
+    return this.#backend.th32ParentProcessID;
+  }
+
+  /** Process ID of the target; changes when a supervisor re-attaches. */
+  public get th32ProcessID(): number {
+    return this.#backend.th32ProcessID;
+  }
 
   /**
-   * Reusable, grow-on-demand haystack buffer for pattern() region scans.
+   * Gets the exit code of the target once it has exited, or undefined while it runs (or when the
+   * backend cannot read one).
+   * @example
+   * ```ts
+   * if (!cs2.isAlive) {
+   *   console.log(`cs2 exited with ${cs2.exitCode}`);
+   * }
+   * ```
    */
-  #patternHaystack = Buffer.allocUnsafe(0x1000);
+  public get exitCode(): number | undefined {
+    return this.#backend.exitCode?.();
+  }
 
-  static #TextDecoderUTF8 = new TextDecoder('utf-8');
-  static #TextEncoderUTF8 = new TextEncoder();
+  /**
+   * Gets whether the target is still running. Always false after `close()`; backends without a live
+   * target always report true.
+   * @example
+   * ```ts
+   * while (cs2.isAlive) {
+   *   await Bun.sleep(1_000);
+   * }
+   * ```
+   */
+  public get isAlive(): boolean {
+    return !this.#closed && (this.#backend.isAlive?.() ?? true);
+  }
 
-  public readonly cntThreads: number;
-  public readonly hProcess: bigint;
-  public readonly is32Bit: boolean;
-  public readonly pcPriClassBase: number;
-  public readonly szExeFile: string;
-  public readonly th32ParentProcessID: number;
-  public readonly th32ProcessID: number;
+  /**
+   * Gets every loaded module in snapshot order, keeping modules that share a file name (which
+   * `modules` collapses to the last one).
+   * @example
+   * ```ts
+   * const copies = cs2.moduleList.filter(({ szModule }) => szModule.toLowerCase() === 'd3dcompiler_47.dll');
+   * console.log(copies.map(({ szExePath }) => szExePath));
+   * ```
+   */
+  public get moduleList(): readonly Module[] {
+    return this.#moduleList;
+  }
 
   /**
-   * Gets all loaded modules in the process.
+   * Gets all loaded modules in the process, keyed by `szModule`. Names are case-sensitive here and
+   * a repeated name keeps the last module; see `findModule()` and `moduleList`.
    * @example
    * ```ts
    * const cs2 = new Process('cs2.exe');
@@ -295,6 +585,18 @@ class Process {
     return this.#modules;
   }
 
+  /**
+   * Gets the backend this instance reads and writes through.
+   * @example
+   * ```ts
+   * const cs2 = new Process('cs2.exe');
+   * console.log(cs2.backend instanceof Kernel32Backend); // true
+   * ```
+   */
+  public get backend(): Backend {
+    return this.#backend;
+  }
+
   /**
    * Disposes resources held by this Process instance.
    * Called automatically when using `using` blocks.
@@ -336,24 +638,16 @@ class Process {
    * ```
    */
   public alloc(length: number, protect: number = MemoryProtection.PAGE_READWRITE): bigint {
-    const { hProcess } = this;
+    this.#assertWritable('alloc');
 
     if (length <= 0) {
       throw new RangeError('length must be greater than 0.');
     }
 
     const dwSize = BigInt(length);
-    const flAllocationType = MemoryAllocationType.MEM_COMMIT | MemoryAllocationType.MEM_RESERVE;
     const flProtect = protect;
-    const lpAddress = 0n;
 
-    const lpBaseAddress = VirtualAllocEx(hProcess, lpAddress, dwSize, flAllocationType, flProtect);
-
-    if (lpBaseAddress === 0n) {
-      throw new Win32Error('VirtualAllocEx', GetLastError());
-    }
-
-    return lpBaseAddress;
+    return this.#backend.alloc(dwSize, flProtect);
   }
 
   /**
@@ -371,6 +665,8 @@ class Process {
    * ```
    */
   public call<const Signature extends CallSignature>(address: CallPointer, signature: Signature, ...args: CallArguments<Signature>): CallReturn<Signature> {
+    this.#assertWritable('call');
+
     if (this.is32Bit) {
       throw new Error('Remote call() is not supported on 32-bit (WOW64) targets.');
     }
@@ -544,23 +840,7 @@ class Process {
 
       this.write(remoteCallAddress, shellcode);
 
-      const hThread = CreateRemoteThread(this.hProcess, null, 0n, remoteCallAddress, 0n, 0x00, null);
-
-      if (hThread === 0n) {
-        throw new Win32Error('CreateRemoteThread', GetLastError());
-      }
-
-      using thread = { handle: hThread, [Symbol.dispose]: () => CloseHandle(hThread) };
-
-      const waitResult = WaitForSingleObject(thread.handle, INFINITE);
-
-      if (waitResult === WAIT_FAILED) {
-        throw new Win32Error('WaitForSingleObject', GetLastError());
-      }
-
-      if (waitResult !== WAIT_OBJECT_0) {
-        throw new Error(`WaitForSingleObject returned ${waitResult}.`);
-      }
+      this.#backend.execute(remoteCallAddress);
 
       if (returns === FFIType.void) {
         return undefined as CallReturn<Signature>;
@@ -611,6 +891,75 @@ class Process {
     }
   }
 
+  /**
+   * Identifies an object's dynamic type through MSVC RTTI: the complete object locator stored just
+   * before its vtable names the most-derived class. Handles both the x64 (image-relative) and x86
+   * (absolute) locator formats. Results are cached per vtable until the next refresh().
+   * @param address Address of the object, or of any of its subobjects that holds a vtable pointer.
+   * @returns The undecorated class name, or undefined if the vtable carries no RTTI locator.
+   * @example
+   * ```ts
+   * const cs2 = new Process('cs2.exe');
+   * if (cs2.className(entity) === 'C_CSPlayerPawn') {
+   *   console.log(cs2.vFunction(entity, 0x00).toString(16));
+   * }
+   * ```
+   */
+  public className(address: bigint): string | undefined {
+    const vtable = this.vTable(address);
+
+    let name = this.#classNames.get(vtable);
+
+    if (name !== undefined) {
+      return name;
+    }
+
+    // The vtable pointer may be anything for a non-polymorphic object; a chain that cannot be
+    // followed just means there is no RTTI to report.
+    try {
+      const width = this.is32Bit ? 0x04n : 0x08n;
+
+      const locator = this.uPtr(vtable - width);
+      const signature = this.u32(locator);
+
+      if (signature !== (this.is32Bit ? 0x00 : 0x01)) {
+        return undefined;
+      }
+
+      // x64 fields are image-relative, and pSelf (the locator's own RVA) recovers the image base.
+      const imageBase = this.is32Bit ? 0x00n : locator - BigInt(this.u32(locator + 0x14n));
+      const typeDescriptor = imageBase + BigInt(this.u32(locator + 0x0cn));
+
+      let decoratedName = '';
+
+      // Read in small chunks that stop at page boundaries, until the terminator.
+      for (let cursor = typeDescriptor + width * 0x02n; decoratedName.length < 0x1000; ) {
+        const chunk = this.buffer(cursor, Math.min(0x100, 0x1000 - Number(cursor & 0xfffn)));
+        const terminator = chunk.indexOf(0x00);
+
+        decoratedName += chunk.toString('latin1', 0x00, terminator !== -1 ? terminator : chunk.length);
+
+        if (terminator !== -1) {
+          break;
+        }
+
+        cursor += BigInt(chunk.length);
+      }
+
+      if (!decoratedName.startsWith('.?AV') && !decoratedName.startsWith('.?AU')) {
+        return undefined;
+      }
+
+      name = RTTI.undecorate(decoratedName);
+    } catch {
+      return undefined;
+    }
+
+    this.#classNames.set(vtable, name);
+
+    return name;
+  }
+
   /**
    * Closes the process handle.
    * @example
@@ -626,11 +975,65 @@ class Process {
 
     this.#closed = true;
 
-    CloseHandle(this.hProcess);
+    clearInterval(this.#poller);
+    this.#poller = undefined;
+
+    this.#backend.close();
+
+    return;
+  }
+
+  /**
+   * Writes a minidump of the process: its modules, its region map, the memory of its committed
+   * regions, its architecture, and optionally its thread IDs. Opens in WinDbg and in `MinidumpBackend`.
+   * @param path Destination `.dmp` file (replaced if it exists).
+   * @param options Which regions to capture (by protection, type, module, or predicate) and whether to include threads.
+   * @example
+   * ```ts
+   * const cs2 = new Process('cs2.exe');
+   * cs2.dump('cs2.dmp');
+   * // Only client.dll's image, plus the thread list
+   * cs2.dump('client.dmp', { modules: ['client.dll'], threads: true });
+   * ```
+   */
+  public dump(path: string, options: DumpOptions = {}): void {
+    MinidumpWriter.write(path, this.#backend, options);
 
     return;
   }
 
+  /**
+   * Finds a loaded module by name, ignoring case as Windows does, or by full path when the argument
+   * holds a path separator (`\` and `/` are treated alike). With several matches, the first in
+   * `moduleList` is returned.
+   * @param nameOrPath Module name (`client.dll`) or full path (`C:\game\bin\win64\client.dll`).
+   * @returns The module, or undefined when none matches.
+   * @example
+   * ```ts
+   * const client = cs2.findModule('CLIENT.DLL');
+   * const ours = cs2.findModule('C:/game/bin/win64/d3dcompiler_47.dll');
+   * ```
+   */
+  public findModule(nameOrPath: string): Module | undefined {
+    return this.#moduleList.find(Process.#moduleMatcher(nameOrPath));
+  }
+
+  /**
+   * Formats an absolute address for logging: `module+0xRVA` inside a loaded module, or plain hex
+   * (`0x…`) elsewhere.
+   * @param address Absolute address.
+   * @returns The formatted address.
+   * @example
+   * ```ts
+   * console.log(cs2.formatAddress(returnAddress)); // client.dll+0x1a2b3c
+   * ```
+   */
+  public formatAddress(address: bigint): string {
+    const module = this.moduleAt(address);
+
+    return module === undefined ? `0x${address.toString(16)}` : `${module.szModule}+0x${(address - module.modBaseAddr).toString(16)}`;
+  }
+
   /**
    * Frees memory allocated in the remote process.
    * @param address Allocation base address.
@@ -641,35 +1044,276 @@ class Process {
    * ```
    */
   public free(address: bigint): void {
-    const { hProcess } = this;
+    this.#assertWritable('free');
 
-    const dwFreeType = MemoryAllocationType.MEM_RELEASE;
-    const dwSize = 0x00n;
     const lpAddress = address;
 
-    const bVirtualFreeEx = !!VirtualFreeEx(hProcess, lpAddress, dwSize, dwFreeType);
-
-    if (!bVirtualFreeEx) {
-      throw new Win32Error('VirtualFreeEx', GetLastError());
-    }
+    this.#backend.free(lpAddress);
 
     return;
   }
 
   /**
-   * Changes the page protection of a region.
-   * @param address Base address to protect.
-   * @param length Bytes to protect.
-   * @param protect New protection flags.
-   * @returns Previous protection flags.
+   * Finds the function containing an address through the exception directory (`.pdata`) of the x64
+   * module that holds it, with its unwind information.
+   * @param address Absolute address.
+   * @returns The containing function, or undefined outside every module or every function entry.
    * @example
    * ```ts
-   * const cs2 = new Process('cs2.exe');
-   * const previous = cs2.protection(0x12345678n, 0x1000, 0x40);
+   * const fn = cs2.functionAt(crashAddress);
+   * if (fn) console.log(`${cs2.formatAddress(fn.start)}..${cs2.formatAddress(fn.end)}`);
    * ```
    */
-  public protection(address: bigint, length: number, protect: number): number {
-    const { hProcess } = this;
+  public functionAt(address: bigint): (PEFunction & { readonly unwind: PEUnwindInfo }) | undefined {
+    return this.moduleAt(address)?.functionAt(address);
+  }
+
+  /**
+   * Resolves an exported function to its absolute address in the target, like `GetProcAddress`.
+   * Forwarded exports (`NTDLL.RtlAllocateHeap`, `NTDLL.#12`) are followed into the forwarding
+   * module; API set forwarders (`api-ms-win-core-libraryloader-l1-1-0.AddDllDirectory`) are followed
+   * into the host the target's API set schema names, or into kernelbase.dll when the backend cannot
+   * locate the schema. Results are cached per module until `refresh()`.
+   * @param module Module, or module name (case-insensitive).
+   * @param name Exported name (case-sensitive) or ordinal.
+   * @returns Absolute address of the function.
+   * @throws If the module (or a module it forwards to) is not loaded, or does not export the function,
+   *   or if an API set it forwards to has no host.
+   * @example
+   * ```ts
+   * const loadLibraryW = cs2.getProcAddress('kernel32.dll', 'LoadLibraryW');
+   * cs2.call(loadLibraryW, { args: [FFIType.ptr], returns: FFIType.ptr }, path);
+   * ```
+   */
+  public getProcAddress(module: Module | string, name: number | string): bigint {
+    const target = typeof module === 'string' ? this.#module(module) : module;
+
+    let cache = this.#procAddresses.get(target);
+
+    if (cache === undefined) {
+      cache = new Map();
+
+      this.#procAddresses.set(target, cache);
+    }
+
+    let address = cache.get(name);
+
+    if (address === undefined) {
+      address = this.#resolveExport(target, name, 0x00);
+
+      cache.set(name, address);
+    }
+
+    return address;
+  }
+
+  /**
+   * Loads a module's PDB so `symbol()` and `symbolAt()` can name its addresses. Without a path, the
+   * PDB is looked for at the path its CodeView record names, next to the module, and in the local
+   * directories of `_NT_SYMBOL_PATH`; a directory path is searched as a symbol store or a flat
+   * folder; a file path is read as is. A PDB whose GUID and age differ from the module's CodeView
+   * record is refused. The PDB stays loaded until a `refresh()` finds the module unloaded or moved.
+   * @param module Module name (case-insensitive) or Module.
+   * @param path PDB file, or a directory to search.
+   * @returns The loaded PDB.
+   * @throws If no PDB is found, or the one found does not match the module.
+   * @example
+   * ```ts
+   * const cs2 = new Process('cs2.exe');
+   * cs2.loadSymbols('client.dll', 'C:/symbols');
+   * const frameStageNotify = cs2.symbol('client.dll!CSource2Client::FrameStageNotify');
+   * ```
+   */
+  public loadSymbols(module: Module | string, path?: string): PDB {
+    const target = typeof module === 'string' ? this.#module(module) : module;
+    const { codeView } = target.pe;
+
+    let file = path;
+
+    if (path === undefined || (existsSync(path) && statSync(path).isDirectory())) {
+      if (codeView === undefined) {
+        throw new Error(`${target.szModule} has no CodeView debug record; pass the path of its PDB.`);
+      }
+
+      file = PDB.locate(codeView, path !== undefined ? [path] : [dirname(target.szExePath), ...PDB.searchPath(process.env._NT_SYMBOL_PATH ?? '')]);
+
+      if (file === undefined) {
+        throw new Error(`No PDB found for ${target.szModule}: ${win32.basename(codeView.path)} ${codeView.guid} age ${codeView.age}.`);
+      }
+    }
+
+    const pdb = new PDB(file!);
+
+    if (codeView !== undefined && (pdb.guid !== codeView.guid || pdb.age !== codeView.age)) {
+      throw new Error(`${file} does not match ${target.szModule}: expected ${codeView.guid} age ${codeView.age}, found ${pdb.guid} age ${pdb.age}.`);
+    }
+
+    this.#symbols.set(target.szModule.toLowerCase(), { base: target.modBaseAddr, pdb });
+
+    return pdb;
+  }
+
+  /**
+   * Finds the loaded module whose image contains an address, by binary search over the modules
+   * sorted by `modBaseAddr`.
+   * @param address Absolute address.
+   * @returns The module with `modBaseAddr <= address < modEndAddr`, or undefined.
+   * @example
+   * ```ts
+   * const owner = cs2.moduleAt(cs2.vTable(entity));
+   * console.log(owner?.szModule);
+   * ```
+   */
+  public moduleAt(address: bigint): Module | undefined {
+    const spans = this.#moduleSpans;
+
+    let low = 0;
+    let high = spans.length - 1;
+
+    while (low <= high) {
+      const middle = (low + high) >>> 1;
+      const module = spans[middle]!;
+
+      if (address < module.modBaseAddr) {
+        high = middle - 1;
+      } else if (address >= module.modEndAddr) {
+        low = middle + 1;
+      } else {
+        return module;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Removes a listener added with `on()` or `once()`.
+   * @param event `'error'`, `'exit'`, `'load'`, `'reattach'`, or `'unload'`.
+   * @param listener The listener to remove.
+   * @returns This instance.
+   * @example
+   * ```ts
+   * const onExit = () => console.log('cs2 exited');
+   * cs2.on('exit', onExit);
+   * cs2.off('exit', onExit);
+   * ```
+   */
+  public off<Event extends keyof ProcessEvents>(event: Event, listener: (...args: ProcessEvents[Event]) => void): this {
+    this.#events.off(event, listener as (...args: unknown[]) => void);
+
+    return this;
+  }
+
+  /**
+   * Adds a listener. An `'exit'` listener starts polling the target's liveness every `pollInterval`
+   * milliseconds until it exits or `close()` is called; a `'load'` or `'unload'` listener also has each
+   * poll compare the module list with `modules`, refreshing it when a module loaded, unloaded, or moved.
+   * A liveness check that fails is reported through `'error'` when it has listeners, and otherwise
+   * stops the poller.
+   * @param event `'error'`, `'exit'`, `'load'`, `'reattach'`, or `'unload'`.
+   * @param listener Called with the event's arguments.
+   * @returns This instance.
+   * @throws AccessError for `'exit'`, `'load'`, or `'unload'` when the process handle cannot read the
+   *   exit code (neither PROCESS_QUERY_INFORMATION nor PROCESS_QUERY_LIMITED_INFORMATION).
+   * @example
+   * ```ts
+   * const cs2 = new Process('cs2.exe');
+   * cs2.on('exit', (exitCode) => console.log(`cs2 exited with ${exitCode}`));
+   * cs2.on('unload', ({ szModule }) => console.log(`${szModule} unloaded`));
+   * ```
+   */
+  public on<Event extends keyof ProcessEvents>(event: Event, listener: (...args: ProcessEvents[Event]) => void): this {
+    this.#assertPollable(event);
+
+    this.#events.on(event, listener as (...args: unknown[]) => void);
+
+    this.#watch();
+
+    return this;
+  }
+
+  /**
+   * Adds a listener that is removed after its first call.
+   * @param event `'error'`, `'exit'`, `'load'`, `'reattach'`, or `'unload'`.
+   * @param listener Called with the event's arguments.
+   * @returns This instance.
+   * @throws AccessError for `'exit'`, `'load'`, or `'unload'` when the process handle cannot read the exit code.
+   * @example
+   * ```ts
+   * cs2.once('exit', () => bot.stop());
+   * ```
+   */
+  public once<Event extends keyof ProcessEvents>(event: Event, listener: (...args: ProcessEvents[Event]) => void): this {
+    this.#assertPollable(event);
+
+    this.#events.once(event, listener as (...args: unknown[]) => void);
+
+    this.#watch();
+
+    return this;
+  }
+
+  /**
+   * Redirects one of a module's imports by overwriting its IAT slot (a forced write, so read-only
+   * IATs work). Disposing the result writes the original pointer back.
+   * @param module Module whose imports to patch, or its name (case-insensitive).
+   * @param dll Imported module name (case-insensitive), e.g. `USER32.dll`.
+   * @param name Imported function name (case-sensitive) or ordinal.
+   * @param address Pointer to store in the slot.
+   * @returns The patch: its `slot`, the `original` pointer, and `Symbol.dispose` to restore it.
+   * @throws AccessError if the instance is read-only; if the module does not import the function.
+   * @example
+   * ```ts
+   * using patch = cs2.patchImport('client.dll', 'USER32.dll', 'MessageBoxW', detour);
+   * // ...the IAT slot points at detour until the end of the block
+   * ```
+   */
+  public patchImport(module: Module | string, dll: string, name: number | string, address: bigint): ImportPatch {
+    this.#assertWritable('patchImport');
+
+    const target = typeof module === 'string' ? this.#module(module) : module;
+    const entry = target.pe.imports.find((candidate) => candidate.dll.toLowerCase() === dll.toLowerCase() && (typeof name === 'number' ? candidate.Ordinal === name : candidate.Name === name));
+
+    if (entry === undefined) {
+      throw new Error(`${target.szModule} does not import ${dll}!${typeof name === 'number' ? `#${name}` : name}.`);
+    }
+
+    const slot = entry.slot;
+    const original = this.uPtr(slot);
+
+    this.uPtr(slot, address, true);
+
+    let restored = false;
+
+    return {
+      original,
+      slot,
+      [Symbol.dispose]: () => {
+        if (!restored) {
+          restored = true;
+
+          this.uPtr(slot, original, true);
+        }
+
+        return;
+      },
+    };
+  }
+
+  /**
+   * Changes the page protection of a region.
+   * @param address Base address to protect.
+   * @param length Bytes to protect.
+   * @param protect New protection flags.
+   * @returns Previous protection flags.
+   * @example
+   * ```ts
+   * const cs2 = new Process('cs2.exe');
+   * const previous = cs2.protection(0x12345678n, 0x1000, 0x40);
+   * ```
+   */
+  public protection(address: bigint, length: number, protect: number): number {
+    this.#assertWritable('protection');
 
     if (length <= 0) {
       throw new RangeError('length must be greater than 0.');
@@ -678,15 +1322,8 @@ class Process {
     const dwSize = BigInt(length);
     const flNewProtect = protect;
     const lpAddress = address;
-    const lpflOldProtect = this.#Scratch4.ptr;
 
-    const bVirtualProtectEx = VirtualProtectEx(hProcess, lpAddress, dwSize, flNewProtect, lpflOldProtect);
-
-    if (!bVirtualProtectEx) {
-      throw new Win32Error('VirtualProtectEx', GetLastError());
-    }
-
-    return this.#Scratch4.u32[0x00]!;
+    return this.#backend.protect(lpAddress, dwSize, flNewProtect);
   }
 
   /**
@@ -701,24 +1338,18 @@ class Process {
    * ```
    */
   public read<T extends BufferLike>(address: bigint, scratch: T): T {
-    const { hProcess } = this;
-
     const lpBaseAddress = address;
     const lpBuffer = ptr(scratch);
     const nSize = BigInt(scratch.byteLength);
-    const numberOfBytesRead = null;
 
-    const bReadProcessMemory = ReadProcessMemory(hProcess, lpBaseAddress, lpBuffer, nSize, numberOfBytesRead);
-
-    if (!bReadProcessMemory) {
-      throw new Win32Error('ReadProcessMemory', GetLastError());
-    }
+    this.#backend.read(lpBaseAddress, lpBuffer, nSize);
 
     return scratch;
   }
 
   /**
-   * Refreshes the module list for the process.
+   * Refreshes the module list for the process, binding each module to this instance so `module.pe` can read it.
+   * Emits `'unload'` for each module that is gone (or moved) and then `'load'` for each new (or moved) one.
    * @example
    * ```ts
    * const cs2 = new Process('cs2.exe');
@@ -726,43 +1357,210 @@ class Process {
    * ```
    */
   public refresh(): void {
-    const { th32ProcessID } = this;
+    this.#refresh(this.#backend.modules());
+
+    return;
+  }
+
+  /**
+   * Keeps this instance attached across restarts of the target. After the target exits (and `'exit'`
+   * is emitted), the supervisor polls for a relaunch, swaps in a backend for the new process, calls
+   * `refresh()`, and emits `'reattach'` so caches and resolved signatures can be rebuilt. Failed
+   * attempts are retried on the next poll and reported through `'error'` when it has listeners.
+   * Stops on `close()`.
+   * @param options `attach`: opens the relaunched target. Defaults to the one process with the same
+   *   executable name and a new PID, opened with the same access rights; required for other backends.
+   * @returns This instance.
+   * @throws If the instance was not attached through a Kernel32Backend and no `attach` is given, or
+   *   AccessError when the process handle cannot read the exit code.
+   * @example
+   * ```ts
+   * const cs2 = (await Process.waitFor('cs2.exe')).supervise();
+   * cs2.on('reattach', () => {
+   *   dwLocalPlayerPawn = cs2.pattern('48 8b 05 ?? ?? ?? ??', client.modBaseAddr, client.modBaseSize);
+   * });
+   * ```
+   */
+  public supervise(options: SuperviseOptions = {}): this {
+    const attach = options.attach ?? (this.#backend instanceof Kernel32Backend ? Process.#relaunched(this.#backend.access) : undefined);
+
+    if (attach === undefined) {
+      throw new Error('supervise() needs an attach function for a process not attached by PID, name, or entry.');
+    }
+
+    this.#assertPollable('exit');
+
+    this.#attach = attach;
 
-    const dwFlags = ToolhelpSnapshotFlags.TH32CS_SNAPMODULE | ToolhelpSnapshotFlags.TH32CS_SNAPMODULE32;
+    this.#watch();
 
-    const hSnapshot = CreateToolhelp32Snapshot(dwFlags, th32ProcessID)!;
+    return this;
+  }
+
+  /**
+   * Resolves a symbol of a module with loaded symbols to an absolute address, loading the module's
+   * PDB from the default locations (see `loadSymbols()`) on first use.
+   * @param name `module!name`, where the name is undecorated (`CSource2Client::FrameStageNotify`) or
+   *   decorated (`?FrameStageNotify@CSource2Client@@UEAAXW4ClientFrameStage_t@@@Z`).
+   * @returns Absolute address of the symbol.
+   * @throws If the module is not loaded, its PDB cannot be loaded, or it has no such symbol.
+   * @example
+   * ```ts
+   * const cs2 = new Process('cs2.exe');
+   * const frameStageNotify = cs2.symbol('client.dll!CSource2Client::FrameStageNotify');
+   * ```
+   */
+  public symbol(name: string): bigint {
+    const separator = name.indexOf('!');
 
-    if (hSnapshot === INVALID_HANDLE_VALUE) {
-      throw new Win32Error('CreateToolhelp32Snapshot', GetLastError());
+    if (separator === -1) {
+      throw new Error(`Symbol names take the form module!name: ${name}.`);
     }
 
-    using snapshot = { handle: hSnapshot, [Symbol.dispose]: () => CloseHandle(hSnapshot) };
+    const target = this.#module(name.slice(0x00, separator));
+    const symbolName = name.slice(separator + 0x01);
+
+    const pdb = this.#symbols.get(target.szModule.toLowerCase())?.pdb ?? this.loadSymbols(target);
+    const symbol = pdb.find(symbolName);
+
+    if (symbol === undefined) {
+      throw new Error(`${target.szModule} has no symbol ${symbolName}.`);
+    }
 
-    const lpme = this.#Scratch1080;
-    const lpmeBuffer = lpme.buffer;
-    /* */ lpmeBuffer.writeUInt32LE(0x438 /* sizeof(MODULEENTRY32W) */);
+    return target.modBaseAddr + BigInt(symbol.rva);
+  }
 
-    const bModule32FirstW = Module32FirstW(snapshot.handle, lpme.ptr);
+  /**
+   * Names an address as `module!symbol+0xdisplacement` from the nearest symbol at or below it, using
+   * the PDBs already loaded by `loadSymbols()` or `symbol()`.
+   * @param address Absolute address.
+   * @returns The name, or undefined if the address is in no module with loaded symbols, or precedes
+   *   all of its symbols.
+   * @example
+   * ```ts
+   * const cs2 = new Process('cs2.exe');
+   * cs2.loadSymbols('client.dll');
+   * console.log(cs2.symbolAt(returnAddress)); // client.dll!CSource2Client::FrameStageNotify+0x4c
+   * ```
+   */
+  public symbolAt(address: bigint): string | undefined {
+    const module = this.moduleAt(address);
 
-    if (!bModule32FirstW) {
-      throw new Win32Error('Module32FirstW', GetLastError());
+    if (module === undefined) {
+      return undefined;
     }
 
-    const modules: Record<string, Module> = {};
+    const rva = Number(address - module.modBaseAddr);
+    const symbol = this.#symbols.get(module.szModule.toLowerCase())?.pdb.symbolAt(rva);
 
-    do {
-      const buffer = Buffer.allocUnsafe(0x438);
-      lpmeBuffer.copy(buffer);
+    if (symbol === undefined) {
+      return undefined;
+    }
 
-      const module = new Module(buffer);
-      const szModule = module.szModule;
+    return rva === symbol.rva ? `${module.szModule}!${symbol.name}` : `${module.szModule}!${symbol.name}+0x${(rva - symbol.rva).toString(16)}`;
+  }
 
-      modules[szModule] = module;
-    } while (Module32NextW(snapshot.handle, lpme.ptr));
+  /**
+   * Waits for a module to load. The module list is checked at once and then every `pollInterval`
+   * milliseconds, refreshing `modules` (and emitting `'load'` / `'unload'`) whenever it changes.
+   * @param szModule Module name, matched case-insensitively.
+   * @param options How long to wait (`timeout`) and an abort `signal`.
+   * @returns The loaded module.
+   * @throws (rejects) On timeout or abort, when the target exits first, when the module list cannot be
+   *   read, or with an AccessError when the process handle cannot read the exit code.
+   * @example
+   * ```ts
+   * const cs2 = await Process.waitFor('cs2.exe');
+   * const client = await cs2.waitForModule('client.dll', { timeout: 30_000 });
+   * ```
+   */
+  public waitForModule(szModule: string, options: WaitForModuleOptions = {}): Promise<Module> {
+    const { signal, timeout } = options;
+    const matches = Process.#moduleMatcher(szModule);
 
-    this.#modules = Object.freeze(modules);
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
 
-    return;
+      const settle = (): void => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+
+        this.off('exit', onExit);
+        this.off('load', onLoad);
+
+        return;
+      };
+
+      const onAbort = (): void => {
+        settle();
+        reject(signal!.reason);
+
+        return;
+      };
+
+      const onExit = (): void => {
+        settle();
+        reject(new Error(`The process exited before ${szModule} loaded.`));
+
+        return;
+      };
+
+      const onLoad = (module: Module): void => {
+        if (matches(module)) {
+          settle();
+          resolve(module);
+        }
+
+        return;
+      };
+
+      if (signal?.aborted) {
+        reject(signal.reason);
+
+        return;
+      }
+
+      try {
+        this.#pollModules();
+      } catch (error) {
+        reject(error);
+
+        return;
+      }
+
+      const loaded = this.findModule(szModule);
+
+      if (loaded !== undefined) {
+        resolve(loaded);
+
+        return;
+      }
+
+      // Before the timer and the abort listener exist, so a handle that cannot poll leaves nothing behind.
+      try {
+        this.#assertPollable('load');
+      } catch (error) {
+        reject(error);
+
+        return;
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          settle();
+          reject(new Error(`Timed out after ${timeout} ms waiting for module ${szModule}.`));
+
+          return;
+        }, timeout);
+      }
+
+      this.on('exit', onExit);
+      this.on('load', onLoad);
+
+      return;
+    });
   }
 
   /**
@@ -780,47 +1578,27 @@ class Process {
    * ```
    */
   public write(address: bigint, scratch: BufferLike, force: boolean = false): this {
-    const { hProcess } = this;
+    this.#assertWritable('write');
 
     const lpBaseAddress = address;
     const lpBuffer = ptr(scratch);
     const nSize = BigInt(scratch.byteLength);
-    const numberOfBytesWritten = null;
 
     if (!force) {
-      const bWriteProcessMemory = WriteProcessMemory(hProcess, lpBaseAddress, lpBuffer, nSize, numberOfBytesWritten);
-
-      if (!bWriteProcessMemory) {
-        throw new Win32Error('WriteProcessMemory', GetLastError());
-      }
+      this.#backend.write(lpBaseAddress, lpBuffer, nSize);
 
       return this;
     }
 
     const dwSize = nSize;
     const flNewProtect = MemoryProtection.PAGE_EXECUTE_READWRITE;
-    const lpflOldProtect = Buffer.allocUnsafe(0x04);
 
-    const bVirtualProtectEx = VirtualProtectEx(hProcess, lpBaseAddress, dwSize, flNewProtect, lpflOldProtect.ptr);
-
-    if (!bVirtualProtectEx) {
-      throw new Win32Error('VirtualProtectEx', GetLastError());
-    }
+    const flOldProtect = this.#backend.protect(lpBaseAddress, dwSize, flNewProtect);
 
     try {
-      const bWriteProcessMemory = WriteProcessMemory(hProcess, lpBaseAddress, lpBuffer, nSize, numberOfBytesWritten);
-
-      if (!bWriteProcessMemory) {
-        throw new Win32Error('WriteProcessMemory', GetLastError());
-      }
+      this.#backend.write(lpBaseAddress, lpBuffer, nSize);
     } finally {
-      const flNewProtect2 = lpflOldProtect.readUInt32LE(0x00);
-
-      const bVirtualProtectEx2 = VirtualProtectEx(hProcess, lpBaseAddress, dwSize, flNewProtect2, lpflOldProtect.ptr);
-
-      if (!bVirtualProtectEx2) {
-        throw new Win32Error('VirtualProtectEx', GetLastError());
-      }
+      this.#backend.protect(lpBaseAddress, dwSize, flOldProtect);
     }
 
     return this;
@@ -842,14 +1620,8 @@ class Process {
   public bool(address: bigint): boolean;
   public bool(address: bigint, value: boolean, force?: boolean): this;
   public bool(address: bigint, value?: boolean, force?: boolean): boolean | this {
-    const { hProcess } = this;
-
     if (value === undefined) {
-      const bReadProcessMemory = !!ReadProcessMemory(hProcess, address, this.#Scratch1.ptr, 0x01n, null);
-
-      if (!bReadProcessMemory) {
-        throw new Win32Error('ReadProcessMemory', GetLastError());
-      }
+      this.#backend.read(address, this.#Scratch1.ptr, 0x01n);
 
       return this.#Scratch1.u8[0x00]! !== 0;
     }
@@ -874,13 +1646,7 @@ class Process {
    * ```
    */
   public bits(address: bigint, startBit: number, bitCount: number): number {
-    const { hProcess } = this;
-
-    const bReadProcessMemory = !!ReadProcessMemory(hProcess, address, this.#Scratch4.ptr, 0x04n, null);
-
-    if (!bReadProcessMemory) {
-      throw new Win32Error('ReadProcessMemory', GetLastError());
-    }
+    this.#backend.read(address, this.#Scratch4.ptr, 0x04n);
 
     const mask = (1 << bitCount) - 1,
       value = this.#Scratch4.u32[0x00]!;
@@ -971,14 +1737,8 @@ class Process {
   public f16(address: bigint): number;
   public f16(address: bigint, value: number, force?: boolean): this;
   public f16(address: bigint, value?: number, force?: boolean): number | this {
-    const { hProcess } = this;
-
     if (value === undefined) {
-      const bReadProcessMemory = !!ReadProcessMemory(hProcess, address, this.#Scratch2.ptr, 0x02n, null);
-
-      if (!bReadProcessMemory) {
-        throw new Win32Error('ReadProcessMemory', GetLastError());
-      }
+      this.#backend.read(address, this.#Scratch2.ptr, 0x02n);
 
       return this.#Scratch2.f16[0x00]!;
     }
@@ -1038,14 +1798,8 @@ class Process {
   public f32(address: bigint): number;
   public f32(address: bigint, value: number, force?: boolean): this;
   public f32(address: bigint, value?: number, force?: boolean): number | this {
-    const { hProcess } = this;
-
     if (value === undefined) {
-      const bReadProcessMemory = !!ReadProcessMemory(hProcess, address, this.#Scratch4.ptr, 0x04n, null);
-
-      if (!bReadProcessMemory) {
-        throw new Win32Error('ReadProcessMemory', GetLastError());
-      }
+      this.#backend.read(address, this.#Scratch4.ptr, 0x04n);
 
       return this.#Scratch4.f32[0x00]!;
     }
@@ -1105,14 +1859,8 @@ class Process {
   public f64(address: bigint): number;
   public f64(address: bigint, value: number, force?: boolean): this;
   public f64(address: bigint, value?: number, force?: boolean): number | this {
-    const { hProcess } = this;
-
     if (value === undefined) {
-      const bReadProcessMemory = !!ReadProcessMemory(hProcess, address, this.#Scratch8.ptr, 0x08n, null);
-
-      if (!bReadProcessMemory) {
-        throw new Win32Error('ReadProcessMemory', GetLastError());
-      }
+      this.#backend.read(address, this.#Scratch8.ptr, 0x08n);
 
       return this.#Scratch8.f64[0x00]!;
     }
@@ -1172,14 +1920,8 @@ class Process {
   public i16(address: bigint): number;
   public i16(address: bigint, value: number, force?: boolean): this;
   public i16(address: bigint, value?: number, force?: boolean): number | this {
-    const { hProcess } = this;
-
     if (value === undefined) {
-      const bReadProcessMemory = !!ReadProcessMemory(hProcess, address, this.#Scratch2.ptr, 0x02n, null);
-
-      if (!bReadProcessMemory) {
-        throw new Win32Error('ReadProcessMemory', GetLastError());
-      }
+      this.#backend.read(address, this.#Scratch2.ptr, 0x02n);
 
       return this.#Scratch2.i16[0x00]!;
     }
@@ -1239,14 +1981,8 @@ class Process {
   public i32(address: bigint): number;
   public i32(address: bigint, value: number, force?: boolean): this;
   public i32(address: bigint, value?: number, force?: boolean): number | this {
-    const { hProcess } = this;
-
     if (value === undefined) {
-      const bReadProcessMemory = !!ReadProcessMemory(hProcess, address, this.#Scratch4.ptr, 0x04n, null);
-
-      if (!bReadProcessMemory) {
-        throw new Win32Error('ReadProcessMemory', GetLastError());
-      }
+      this.#backend.read(address, this.#Scratch4.ptr, 0x04n);
 
       return this.#Scratch4.i32[0x00]!;
     }
@@ -1306,14 +2042,8 @@ class Process {
   public i64(address: bigint): bigint;
   public i64(address: bigint, value: bigint, force?: boolean): this;
   public i64(address: bigint, value?: bigint, force?: boolean): bigint | this {
-    const { hProcess } = this;
-
     if (value === undefined) {
-      const bReadProcessMemory = !!ReadProcessMemory(hProcess, address, this.#Scratch8.ptr, 0x08n, null);
-
-      if (!bReadProcessMemory) {
-        throw new Win32Error('ReadProcessMemory', GetLastError());
-      }
+      this.#backend.read(address, this.#Scratch8.ptr, 0x08n);
 
       return read.i64(this.#Scratch8.ptr, 0x00);
     }
@@ -1373,14 +2103,8 @@ class Process {
   public i8(address: bigint): number;
   public i8(address: bigint, value: number, force?: boolean): this;
   public i8(address: bigint, value?: number, force?: boolean): number | this {
-    const { hProcess } = this;
-
     if (value === undefined) {
-      const bReadProcessMemory = !!ReadProcessMemory(hProcess, address, this.#Scratch1.ptr, 0x01n, null);
-
-      if (!bReadProcessMemory) {
-        throw new Win32Error('ReadProcessMemory', GetLastError());
-      }
+      this.#backend.read(address, this.#Scratch1.ptr, 0x01n);
 
       return this.#Scratch1.i8[0x00]!;
     }
@@ -1539,14 +2263,8 @@ class Process {
   public point(address: bigint): Point;
   public point(address: bigint, value: Point, force?: boolean): this;
   public point(address: bigint, value?: Point, force?: boolean): Point | this {
-    const { hProcess } = this;
-
     if (value === undefined) {
-      const bReadProcessMemory = !!ReadProcessMemory(hProcess, address, this.#Scratch8.ptr, 0x08n, null);
-
-      if (!bReadProcessMemory) {
-        throw new Win32Error('ReadProcessMemory', GetLastError());
-      }
+      this.#backend.read(address, this.#Scratch8.ptr, 0x08n);
 
       const x = this.#Scratch8.f32[0x00]!,
         y = this.#Scratch8.f32[0x01]!;
@@ -1656,14 +2374,8 @@ class Process {
   public qAngle(address: bigint): QAngle;
   public qAngle(address: bigint, value: QAngle, force?: boolean): this;
   public qAngle(address: bigint, value?: QAngle, force?: boolean): QAngle | this {
-    const { hProcess } = this;
-
     if (value === undefined) {
-      const bReadProcessMemory = !!ReadProcessMemory(hProcess, address, this.#Scratch12.ptr, 0x0cn, null);
-
-      if (!bReadProcessMemory) {
-        throw new Win32Error('ReadProcessMemory', GetLastError());
-      }
+      this.#backend.read(address, this.#Scratch12.ptr, 0x0cn);
 
       const pitch = this.#Scratch12.f32[0x00]!,
         roll = this.#Scratch12.f32[0x02]!,
@@ -1777,14 +2489,8 @@ class Process {
   public quaternion(address: bigint): Quaternion;
   public quaternion(address: bigint, value: Quaternion, force?: boolean): this;
   public quaternion(address: bigint, value?: Quaternion, force?: boolean): Quaternion | this {
-    const { hProcess } = this;
-
     if (value === undefined) {
-      const bReadProcessMemory = !!ReadProcessMemory(hProcess, address, this.#Scratch16.ptr, 0x10n, null);
-
-      if (!bReadProcessMemory) {
-        throw new Win32Error('ReadProcessMemory', GetLastError());
-      }
+      this.#backend.read(address, this.#Scratch16.ptr, 0x10n);
 
       const w = this.#Scratch16.f32[0x03]!,
         x = this.#Scratch16.f32[0x00]!,
@@ -1902,14 +2608,8 @@ class Process {
   public rgb(address: bigint): RGB;
   public rgb(address: bigint, value: RGB, force?: boolean): this;
   public rgb(address: bigint, value?: RGB, force?: boolean): RGB | this {
-    const { hProcess } = this;
-
     if (value === undefined) {
-      const bReadProcessMemory = !!ReadProcessMemory(hProcess, address, this.#Scratch3.ptr, 0x03n, null);
-
-      if (!bReadProcessMemory) {
-        throw new Win32Error('ReadProcessMemory', GetLastError());
-      }
+      this.#backend.read(address, this.#Scratch3.ptr, 0x03n);
 
       const r = this.#Scratch3.u8[0x00]!,
         g = this.#Scratch3.u8[0x01]!,
@@ -1972,14 +2672,8 @@ class Process {
   public rgba(address: bigint): RGBA;
   public rgba(address: bigint, value: RGBA, force?: boolean): this;
   public rgba(address: bigint, value?: RGBA, force?: boolean): RGBA | this {
-    const { hProcess } = this;
-
     if (value === undefined) {
-      const bReadProcessMemory = !!ReadProcessMemory(hProcess, address, this.#Scratch4.ptr, 0x04n, null);
-
-      if (!bReadProcessMemory) {
-        throw new Win32Error('ReadProcessMemory', GetLastError());
-      }
+      this.#backend.read(address, this.#Scratch4.ptr, 0x04n);
 
       const r = this.#Scratch4.u8[0x00]!,
         g = this.#Scratch4.u8[0x01]!,
@@ -2811,14 +3505,8 @@ class Process {
   public u16(address: bigint): number;
   public u16(address: bigint, value: number, force?: boolean): this;
   public u16(address: bigint, value?: number, force?: boolean): number | this {
-    const { hProcess } = this;
-
     if (value === undefined) {
-      const bReadProcessMemory = !!ReadProcessMemory(hProcess, address, this.#Scratch2.ptr, 0x02n, null);
-
-      if (!bReadProcessMemory) {
-        throw new Win32Error('ReadProcessMemory', GetLastError());
-      }
+      this.#backend.read(address, this.#Scratch2.ptr, 0x02n);
 
       return this.#Scratch2.u16[0x00]!;
     }
@@ -2878,14 +3566,8 @@ class Process {
   public u32(address: bigint): number;
   public u32(address: bigint, value: number, force?: boolean): this;
   public u32(address: bigint, value?: number, force?: boolean): number | this {
-    const { hProcess } = this;
-
     if (value === undefined) {
-      const bReadProcessMemory = !!ReadProcessMemory(hProcess, address, this.#Scratch4.ptr, 0x04n, null);
-
-      if (!bReadProcessMemory) {
-        throw new Win32Error('ReadProcessMemory', GetLastError());
-      }
+      this.#backend.read(address, this.#Scratch4.ptr, 0x04n);
 
       return this.#Scratch4.u32[0x00]!;
     }
@@ -2945,14 +3627,8 @@ class Process {
   public u64(address: bigint): bigint;
   public u64(address: bigint, value: bigint, force?: boolean): this;
   public u64(address: bigint, value?: bigint, force?: boolean): bigint | this {
-    const { hProcess } = this;
-
     if (value === undefined) {
-      const bReadProcessMemory = !!ReadProcessMemory(hProcess, address, this.#Scratch8.ptr, 0x08n, null);
-
-      if (!bReadProcessMemory) {
-        throw new Win32Error('ReadProcessMemory', GetLastError());
-      }
+      this.#backend.read(address, this.#Scratch8.ptr, 0x08n);
 
       return read.u64(this.#Scratch8.ptr, 0x00);
     }
@@ -3012,14 +3688,8 @@ class Process {
   public u8(address: bigint): number;
   public u8(address: bigint, value: number, force?: boolean): this;
   public u8(address: bigint, value?: number, force?: boolean): number | this {
-    const { hProcess } = this;
-
     if (value === undefined) {
-      const bReadProcessMemory = !!ReadProcessMemory(hProcess, address, this.#Scratch1.ptr, 0x01n, null);
-
-      if (!bReadProcessMemory) {
-        throw new Win32Error('ReadProcessMemory', GetLastError());
-      }
+      this.#backend.read(address, this.#Scratch1.ptr, 0x01n);
 
       return this.#Scratch1.u8[0x00]!;
     }
@@ -3383,21 +4053,11 @@ class Process {
       return BigInt(this.u32(vtablePointer + BigInt(index * 0x04)));
     }
 
-    const { hProcess } = this;
-
-    const bReadProcessMemory = !!ReadProcessMemory(hProcess, address, this.#Scratch8.ptr, 0x08n, null);
-
-    if (!bReadProcessMemory) {
-      throw new Win32Error('ReadProcessMemory', GetLastError());
-    }
+    this.#backend.read(address, this.#Scratch8.ptr, 0x08n);
 
     const vtablePtr = read.u64(this.#Scratch8.ptr, 0x00);
 
-    const bReadProcessMemory2 = !!ReadProcessMemory(hProcess, vtablePtr + BigInt(index * 0x08), this.#Scratch8.ptr, 0x08n, null);
-
-    if (!bReadProcessMemory2) {
-      throw new Win32Error('ReadProcessMemory', GetLastError());
-    }
+    this.#backend.read(vtablePtr + BigInt(index * 0x08), this.#Scratch8.ptr, 0x08n);
 
     return read.u64(this.#Scratch8.ptr, 0x00);
   }
@@ -3526,14 +4186,8 @@ class Process {
   public vector3(address: bigint): Vector3;
   public vector3(address: bigint, value: Vector3, force?: boolean): this;
   public vector3(address: bigint, value?: Vector3, force?: boolean): Vector3 | this {
-    const { hProcess } = this;
-
     if (value === undefined) {
-      const bReadProcessMemory = !!ReadProcessMemory(hProcess, address, this.#Scratch12.ptr, 0x0cn, null);
-
-      if (!bReadProcessMemory) {
-        throw new Win32Error('ReadProcessMemory', GetLastError());
-      }
+      this.#backend.read(address, this.#Scratch12.ptr, 0x0cn);
 
       const x = this.#Scratch12.f32[0x00]!,
         y = this.#Scratch12.f32[0x01]!,
@@ -3836,14 +4490,8 @@ class Process {
       return address + offsets[last]!;
     }
 
-    const { hProcess } = this;
-
     for (let i = 0; i < last; i++) {
-      const bReadProcessMemory = !!ReadProcessMemory(hProcess, address + offsets[i]!, this.#Scratch8.ptr, 0x08n, null);
-
-      if (!bReadProcessMemory) {
-        throw new Win32Error('ReadProcessMemory', GetLastError());
-      }
+      this.#backend.read(address + offsets[i]!, this.#Scratch8.ptr, 0x08n);
 
       address = read.u64(this.#Scratch8.ptr, 0x00);
 
@@ -3856,7 +4504,13 @@ class Process {
   }
 
   /**
-   * Finds the address of a buffer within a memory region.
+   * Finds the address of a buffer within a memory region, or within a scan scope: a module or one of
+   * its sections, every module, the regions `query()` reports (filtered by protection, state, or
+   * type), or explicit ranges. Memory is streamed in chunks of at most `chunkSize` bytes that overlap
+   * by the needle's length, so a match across a chunk boundary is still found. An address range is
+   * read as one span, and a chunk that cannot be read whole is retried page by page, skipping the
+   * unreadable pages. A scope is read region by region, skipping guard and `PAGE_NOACCESS` pages; a
+   * match never spans two regions.
    * @param needle Buffer or typed array to search for.
    * @param address Start address.
    * @param length Number of bytes to search.
@@ -3873,48 +4527,63 @@ class Process {
    * const address = cs2.indexOf(needle, 0x10000000n, 100);
    * // Find all matches
    * const allAddressess = cs2.indexOf(needle, 0x10000000n, 100, true);
+   * // Search a scope
+   * const name = cs2.indexOf(needle, { module: 'client.dll', section: '.rdata' });
    * ```
    */
   public indexOf(needle: BufferLike, address: bigint, length: number): bigint;
   public indexOf(needle: BufferLike, address: bigint, length: number, all: false): bigint;
   public indexOf(needle: BufferLike, address: bigint, length: number, all: true): bigint[];
-  public indexOf(needle: BufferLike, address: bigint, length: number, all: boolean = false): bigint | bigint[] {
-    if (length > this.#indexOfHaystack.byteLength) {
-      this.#indexOfHaystack = Buffer.allocUnsafe(length);
-    }
-
-    const haystack = this.#indexOfHaystack.subarray(0, length);
-
+  public indexOf(needle: BufferLike, scope: ScanScope, all?: false): bigint;
+  public indexOf(needle: BufferLike, scope: ScanScope, all: true): bigint[];
+  public indexOf(needle: BufferLike, addressOrScope: ScanScope | bigint, lengthOrAll: boolean | number = false, all: boolean = false): bigint | bigint[] {
     const needleBuffer = ArrayBuffer.isView(needle) //
       ? Buffer.from(needle.buffer, needle.byteOffset, needle.byteLength)
       : Buffer.from(needle);
 
-    this.read(address, haystack);
+    const overlap = Math.max(needleBuffer.length - 0x01, 0x00);
 
-    if (!all) {
-      const indexOf = haystack.indexOf(needleBuffer);
+    // Offsets at or past `end` lie in the overlap and are left to the next chunk.
+    const search = (results: bigint[], every: boolean) => (start: bigint, haystack: Buffer, end: number) => {
+      for (let offset = haystack.indexOf(needleBuffer); offset !== -1 && offset < end; offset = haystack.indexOf(needleBuffer, offset + 0x01)) {
+        results.push(start + BigInt(offset));
 
-      return indexOf !== -1 ? BigInt(indexOf) + address : -1n;
-    }
+        if (!every) {
+          return true;
+        }
+      }
 
-    const results: bigint[] = [];
+      return false;
+    };
+
+    if (typeof addressOrScope !== 'bigint') {
+      return this.#scoped(addressOrScope, lengthOrAll === true, (address, length, every) => {
+        const results: bigint[] = [];
 
-    let start = haystack.indexOf(needleBuffer);
+        this.#walk(address, length, search(results, every), overlap, this.chunkSize);
 
-    if (start === -1) {
-      return results;
+        return results;
+      });
     }
 
-    do {
-      results.push(address + BigInt(start));
-    } while ((start = haystack.indexOf(needleBuffer, start + 0x01)) !== -1);
+    const results: bigint[] = [];
+
+    this.#stream(addressOrScope, Number(lengthOrAll), search(results, all), overlap, this.chunkSize);
 
-    return results;
+    return !all ? (results[0] ?? -1n) : results;
   }
 
   /**
-   * Finds the address of a byte pattern in memory. `**` and `??` match any byte.
-   * @param needle Hex string pattern to search for (e.g., 'deadbeed', 'dead**ef', 'dead??ef').
+   * Finds the address of a byte pattern in memory. Accepts contiguous hex with `**` or `??` for any
+   * byte (`dead**ef`), IDA / x64dbg notation with `?` for a byte or a nibble (`48 8B 05 ? ? ? ? 4?`),
+   * or a compiled {@link Signature} for patterns scanned repeatedly. A malformed string matches
+   * nothing; string literals are also checked at compile time. Searches an address range or a scan
+   * scope (a module or section, every module, filtered `query()` regions, or explicit ranges);
+   * either way each region is searched on its own and guard and `PAGE_NOACCESS` pages are skipped.
+   * Regions are streamed in chunks of at most `chunkSize` bytes that overlap by the pattern's length,
+   * so a match across a chunk boundary is still found; a chunk that cannot be read whole is retried
+   * page by page.
+   * @param needle Pattern to search for (e.g., 'deadbeef', 'dead**ef', 'DE AD ? EF', 'DE A? ?? EF').
    * @param address Start address to search.
    * @param length Number of bytes to search.
    * @param all If true, returns all matches as an array. If false or omitted, returns the first match or -1n.
@@ -3925,174 +4594,853 @@ class Process {
    * // Find first match
    * const address = cs2.pattern('dead**ef', 0x10000000n, 0x1000);
    * // Find all matches
-   * const allAddresses = cs2.pattern('dead**ef', 0x10000000n, 0x1000, true);
+   * const allAddresses = cs2.pattern('DE AD ? EF', 0x10000000n, 0x1000, true);
+   * // Parse once, scan many times
+   * const signature = new Signature('\x48\x8B\x05\x00\x00\x00\x00', 'xxx????');
+   * const addresses = regions.map(({ BaseAddress, RegionSize }) => cs2.pattern(signature, BaseAddress, Number(RegionSize)));
+   * // Search a scope
+   * const text = cs2.pattern(signature, { module: 'client.dll', section: '.text' });
+   * const jit = cs2.pattern(signature, { regions: { protect: 0xf0, type: MemoryAllocationType.MEM_PRIVATE } }, true);
    * ```
    */
-  public pattern(needle: string, address: bigint, length: number): bigint;
-  public pattern(needle: string, address: bigint, length: number, all: false): bigint;
-  public pattern(needle: string, address: bigint, length: number, all: true): bigint[];
-  public pattern(needle: string, address: bigint, length: number, all: boolean = false): bigint | bigint[] {
-    const test = Process.#Patterns.PatternTest.test(needle);
+  public pattern<S extends string>(needle: PatternString<S> | Signature, address: bigint, length: number): bigint;
+  public pattern<S extends string>(needle: PatternString<S> | Signature, address: bigint, length: number, all: false): bigint;
+  public pattern<S extends string>(needle: PatternString<S> | Signature, address: bigint, length: number, all: true): bigint[];
+  public pattern<S extends string>(needle: PatternString<S> | Signature, scope: ScanScope, all?: false): bigint;
+  public pattern<S extends string>(needle: PatternString<S> | Signature, scope: ScanScope, all: true): bigint[];
+  public pattern(needle: Signature | string, addressOrScope: ScanScope | bigint, lengthOrAll: boolean | number = false, all: boolean = false): bigint | bigint[] {
+    let signature: Signature;
 
-    if (!test) {
-      return !all ? -1n : [];
+    try {
+      signature = typeof needle === 'string' ? new Signature(needle) : needle;
+    } catch {
+      return !(typeof addressOrScope === 'bigint' ? all : lengthOrAll === true) ? -1n : [];
     }
 
-    // The RegExp test ensures that we have at least one token…
+    // Each range goes back through pattern(), so a subclass that scans elsewhere (RemoteProcess)
+    // serves scopes too.
+    if (typeof addressOrScope !== 'bigint') {
+      return this.#scoped(addressOrScope, lengthOrAll === true, (address, length, every) => (every ? this.pattern(signature, address, length, true) : [this.pattern(signature, address, length)].filter((match) => match !== -1n)));
+    }
 
-    const tokens = [...needle.matchAll(Process.#Patterns.PatternMatchAll)]
-      .map((match) => ({ buffer: Buffer.from(match[0], 'hex'), index: match.index >>> 1, length: match[0].length >>> 1 })) //
-      .sort(({ length: a }, { length: b }) => b - a);
+    const results: bigint[] = [];
 
-    const anchor = tokens.shift()!;
+    this.#walk(
+      addressOrScope,
+      Number(lengthOrAll),
+      (start, haystack, end) => {
+        for (let offset = signature.indexOf(haystack); offset !== -1 && offset < end; offset = signature.indexOf(haystack, offset + 0x01)) {
+          results.push(start + BigInt(offset));
 
-    const { hProcess } = this;
+          if (!all) {
+            return true;
+          }
+        }
 
-    const mbi = new MemoryBasicInformation();
-    const dwLength = 0x30n; /* sizeof(MEMORY_BASIC_INFORMATION) */
+        return false;
+      },
+      signature.length - 0x01,
+      this.chunkSize,
+    );
 
-    const end = address + BigInt(length);
-    let lpAddress = address;
+    return !all ? (results[0] ?? -1n) : results;
+  }
 
-    const results: bigint[] = [];
+  /**
+   * Enumerates all memory regions in the process.
+   * @returns Array of memory regions.
+   * @example
+   * ```ts
+   * const cs2 = new Process('cs2.exe');
+   * const regions = cs2.query();
+   * ```
+   */
+  public query(): MemoryBasicInformation[] {
+    const lpBufferBuffer = Buffer.allocUnsafe(0x30);
 
-    // Re-pin ptr(mbi.buffer) every call: the GC can relocate the buffer's backing store between
-    // iterations, which would leave the cached mbi.ptr writing to a stale address while the getters
-    // read the moved buffer — freezing lpAddress and looping forever on any multi-region span.
-    while (lpAddress < end && VirtualQueryEx(hProcess, lpAddress, ptr(mbi.buffer), dwLength) === dwLength) {
-      const base = mbi.BaseAddress;
-      const size = mbi.RegionSize;
-      const state = mbi.State;
+    const query: ReturnType<Process['query']> = [];
 
-      lpAddress = base + size;
+    let lpAddress = 0n;
 
-      if (state !== MemoryAllocationType.MEM_COMMIT) {
-        continue;
+    while (this.#backend.query(lpAddress, lpBufferBuffer)) {
+      const memoryBasicInformation = new MemoryBasicInformation(Buffer.from(lpBufferBuffer));
+
+      query.push(memoryBasicInformation);
+
+      lpAddress = memoryBasicInformation.BaseAddress + memoryBasicInformation.RegionSize;
+    }
+
+    return query;
+  }
+
+  /**
+   * Runs a signature resolver: finds the first match of its pattern in the module (or one of its
+   * sections), then applies each step in turn — `add`, `rip` (rel32 displacement to target), and
+   * `deref` (a pointer read, 4 or 8 bytes by `is32Bit`). Addresses wrap at the pointer width.
+   * @param resolver Module, pattern, optional section, and steps.
+   * @returns The address the last step produced.
+   * @throws {ResolveError} When the module, section, or match is missing (`step` undefined), or a step
+   *   fails: a null `deref` or a read that faults (`step` is its index, the read error its `cause`).
+   * @example
+   * ```ts
+   * const { add, deref, rip } = Signature;
+   * const dwLocalPlayerPawn = cs2.resolve({ module: 'client.dll', pattern: '48 8B 05 ? ? ? ? 48 85 C0', section: '.text', steps: [add(3), rip(4)] });
+   * const pawn = cs2.resolve({ module: 'client.dll', pattern: '48 8B 05 ? ? ? ? 48 85 C0', steps: [add(3), rip(4), deref(), add(0x10)] });
+   * ```
+   */
+  public resolve(resolver: SignatureResolver): bigint {
+    const { module: name, pattern, section, steps = [] } = resolver;
+
+    const module = this.findModule(name);
+
+    if (module === undefined) {
+      throw new ResolveError(resolver, undefined, undefined, `${name} is not loaded`);
+    }
+
+    let length = module.modBaseSize;
+    let start = module.modBaseAddr;
+
+    if (section !== undefined) {
+      let header: PESection | undefined;
+
+      try {
+        header = module.pe.sections[section];
+      } catch (error) {
+        throw new ResolveError(resolver, undefined, undefined, `the headers of ${module.szModule} could not be read`, error);
       }
 
-      const regionStart = base > address ? base : address;
-      const regionEnd = lpAddress < end ? lpAddress : end;
-      const regionLength = Number(regionEnd - regionStart);
+      if (header === undefined) {
+        throw new ResolveError(resolver, undefined, undefined, `${module.szModule} has no ${section} section`);
+      }
 
-      if (regionLength <= 0) {
-        continue;
+      length = header.VirtualSize;
+      start = header.start;
+    }
+
+    let signature: Signature;
+
+    try {
+      signature = typeof pattern === 'string' ? new Signature(pattern) : pattern;
+    } catch (error) {
+      throw new ResolveError(resolver, undefined, undefined, (error as Error).message, error);
+    }
+
+    let address = this.pattern(signature, start, length);
+
+    if (address === -1n) {
+      throw new ResolveError(resolver, undefined, undefined, `no match in ${section === undefined ? module.szModule : `${module.szModule} ${section}`}`);
+    }
+
+    const width = this.is32Bit ? 0x20 : 0x40;
+
+    for (const [index, step] of steps.entries()) {
+      let next: bigint;
+
+      try {
+        switch (step.type) {
+          case 'add':
+            next = address + BigInt(step.value);
+            break;
+          case 'deref':
+            next = this.uPtr(address);
+            break;
+          case 'rip':
+            next = address + BigInt(step.length) + BigInt(this.i32(address));
+            break;
+        }
+      } catch (error) {
+        throw new ResolveError(resolver, index, address, error instanceof Error ? error.message.replace(Process.#Patterns.TrailingPeriod, '') : String(error), error);
       }
 
-      if (regionLength > this.#patternHaystack.byteLength) {
-        this.#patternHaystack = Buffer.allocUnsafe(regionLength);
+      if (step.type === 'deref' && next === 0n) {
+        throw new ResolveError(resolver, index, address, 'null pointer');
       }
 
-      const haystack = this.#patternHaystack.subarray(0, regionLength);
-      this.read(regionStart, haystack);
+      address = BigInt.asUintN(width, next);
+    }
+
+    return address;
+  }
+
+  /**
+   * Searches a scan scope for many signatures in one pass: each region is read once, in chunks of
+   * at most `chunkSize` bytes, and a `SignatureScanner` finds every signature's anchor in a single
+   * sweep. Reports the matches of each signature and which matched nowhere or more than once. A
+   * malformed signature string matches nothing, as with `pattern()`.
+   * @param signatures Signatures by name (compiled or in any `pattern()` notation), or a prebuilt `SignatureScanner`.
+   * @param scope Where to search: a module or section, every module, filtered regions, or ranges.
+   * @param options `chunkSize` (defaults to the instance's) caps the bytes held at once; `limit` (default 256) the matches kept per signature.
+   * @returns The matches by name, with the ambiguous and unmatched names in input order.
+   * @throws RangeError if `chunkSize` is not a positive integer.
+   * @example
+   * ```ts
+   * const { ambiguous, matches, unmatched } = cs2.scan(
+   *   { dwEntityList: '48 8B 0D ? ? ? ? 48 89 7C 24', dwViewMatrix: '48 8D 0D ? ? ? ? 48 C1 E0 06' },
+   *   { module: 'client.dll', section: '.text' },
+   * );
+   * if (unmatched.length !== 0 || ambiguous.length !== 0) {
+   *   console.warn('outdated signatures:', [...unmatched, ...ambiguous]);
+   * }
+   * ```
+   */
+  public scan(signatures: Readonly<Record<string, Signature | string>> | SignatureScanner, scope: ScanScope, options: ScanOptions = {}): ScanReport {
+    const { chunkSize = this.chunkSize, limit = 0x100 } = options;
+
+    if (!Number.isInteger(chunkSize) || chunkSize < 0x01) {
+      throw new RangeError(`chunkSize must be a positive integer, got ${chunkSize}.`);
+    }
+
+    let names: readonly string[];
+    let scanner: SignatureScanner;
+
+    if (signatures instanceof SignatureScanner) {
+      names = signatures.names;
+      scanner = signatures;
+    } else {
+      const compiled: Record<string, Signature> = {};
+
+      names = Object.keys(signatures);
+
+      for (const name of names) {
+        const signature = signatures[name]!;
+
+        try {
+          compiled[name] = typeof signature === 'string' ? new Signature(signature) : signature;
+        } catch {
+          // Malformed: left out of the scanner, so it is reported unmatched.
+        }
+      }
+
+      scanner = new SignatureScanner(compiled);
+    }
+
+    const counts = new Array<number>(scanner.names.length).fill(0x00);
+    const found = scanner.names.map((): bigint[] => []);
+
+    for (const { address, length } of this.#ranges(scope)) {
+      this.#walk(
+        address,
+        length,
+        (start, haystack, end) => {
+          scanner.search(
+            haystack,
+            (index, offset) => {
+              if (counts[index]!++ < limit) {
+                found[index]!.push(start + BigInt(offset));
+              }
+            },
+            end,
+          );
+
+          return false;
+        },
+        Math.max(scanner.length - 0x01, 0x00),
+        chunkSize,
+      );
+    }
+
+    const ambiguous: string[] = [];
+    const matches: Record<string, readonly bigint[]> = {};
+    const unmatched: string[] = [];
+
+    const byName = new Map(scanner.names.map((name, index) => [name, index]));
+
+    for (const name of names) {
+      const index = byName.get(name);
+      const count = index === undefined ? 0x00 : counts[index]!;
+
+      matches[name] = Object.freeze(index === undefined ? [] : found[index]!);
+
+      if (count === 0x00) {
+        unmatched.push(name);
+      } else if (count > 0x01) {
+        ambiguous.push(name);
+      }
+    }
+
+    return Object.freeze({ ambiguous: Object.freeze(ambiguous), matches: Object.freeze(matches), unmatched: Object.freeze(unmatched) });
+  }
+
+  /**
+   * Whether an attach failed only because the target is still starting up.
+   */
+  static #isStarting(error: unknown): boolean {
+    return error instanceof Win32Error && error.code === ERROR_PARTIAL_COPY;
+  }
+
+  /**
+   * Turns a process filter into a predicate over entries.
+   */
+  static #matcher(filter: ProcessFilter): (entry: ProcessEntry) => boolean {
+    if (typeof filter === 'function') {
+      return filter;
+    }
+
+    if (filter instanceof RegExp) {
+      return ({ szExeFile }) => {
+        filter.lastIndex = 0;
+
+        return filter.test(szExeFile);
+      };
+    }
+
+    if (!Process.#Patterns.Glob.test(filter)) {
+      const name = filter.toLowerCase();
+
+      return ({ szExeFile }) => szExeFile.toLowerCase() === name;
+    }
+
+    const glob = new RegExp(`^${filter.replace(Process.#Patterns.GlobEscape, '\\$&').replace(Process.#Patterns.GlobWildcard, (wildcard) => (wildcard === '*' ? '.*' : '.'))}$`, 'is');
+
+    return ({ szExeFile }) => glob.test(szExeFile);
+  }
+
+  /**
+   * Identifies one mapping of a module across snapshots: a module that moved is another mapping.
+   */
+  static #moduleKey({ modBaseAddr, modBaseSize, szExePath, szModule }: Module): string {
+    return `${modBaseAddr.toString(16)}+${modBaseSize.toString(16)} ${szModule} ${szExePath}`;
+  }
+
+  /**
+   * Turns a module name (matched ignoring case) or full path (matched ignoring case and separator
+   * style) into a predicate over modules.
+   */
+  static #moduleMatcher(nameOrPath: string): (module: Module) => boolean {
+    const target = nameOrPath.replaceAll('/', '\\').toLowerCase();
+
+    if (target.includes('\\')) {
+      return ({ szExePath }) => szExePath.replaceAll('/', '\\').toLowerCase() === target;
+    }
+
+    return ({ szModule }) => szModule.toLowerCase() === target;
+  }
+
+  /**
+   * Opens the one running process that shares the exited target's name under a new PID, if there is exactly one.
+   */
+  static #relaunched(access: number): (previous: ProcessEntry) => Backend | undefined {
+    return (previous) => {
+      const candidates = Kernel32Backend.list().filter(({ szExeFile, th32ProcessID }) => szExeFile === previous.szExeFile && th32ProcessID !== previous.th32ProcessID);
+
+      return candidates.length === 1 ? new Kernel32Backend(candidates[0]!, { access }) : undefined;
+    };
+  }
 
-      const last = regionLength - (needle.length >>> 1);
-      let start = haystack.indexOf(anchor.buffer);
+  /**
+   * Looks an API set up in the schema the target's PEB points at (ApiSetMap, version 6 since
+   * Windows 10) and returns the host `importer` gets, or else the set's default host. Only the part
+   * of the name before its last hyphen is compared, as the loader does.
+   * @returns The host module name, '' when the set is unknown or has no host, or undefined when the
+   *   backend cannot locate the schema.
+   */
+  #apiSetHost(name: string, importer: string): string | undefined {
+    const peb = this.#backend.peb?.();
 
-      if (start === -1) {
+    if (peb === undefined) {
+      return undefined;
+    }
+
+    const map = this.u64(peb + 0x68n);
+    const header = this.buffer(map, 0x1c);
+
+    if (header.readUInt32LE(0x00) !== 0x06) {
+      return undefined;
+    }
+
+    // API_SET_NAMESPACE: Version, Size, Flags, Count, EntryOffset, HashOffset, HashFactor. Every
+    // offset below is relative to the map, and every name is UTF-16 without a terminator.
+    const schema = this.buffer(map, header.readUInt32LE(0x04));
+    // Reads the name whose offset and byte length are stored at `offsetAt` and `lengthAt`.
+    const text = (offsetAt: number, lengthAt: number): string => {
+      const offset = schema.readUInt32LE(offsetAt);
+
+      return schema.toString('utf16le', offset, offset + schema.readUInt32LE(lengthAt)).toLowerCase();
+    };
+
+    const lowered = name.toLowerCase();
+    const hashed = lowered.slice(0x00, lowered.lastIndexOf('-'));
+
+    for (let index = 0x00, count = header.readUInt32LE(0x0c); index < count; index++) {
+      // API_SET_NAMESPACE_ENTRY: Flags, NameOffset, NameLength, HashedLength, ValueOffset, ValueCount.
+      const entry = header.readUInt32LE(0x10) + index * 0x18;
+
+      if (text(entry + 0x04, entry + 0x0c) !== hashed) {
         continue;
       }
 
-      if (!all) {
-        outer: do {
-          const base = start - anchor.index;
+      const values = schema.readUInt32LE(entry + 0x10);
+      const valueCount = schema.readUInt32LE(entry + 0x14);
 
-          if (base < 0) {
-            continue;
-          }
+      // API_SET_VALUE_ENTRY: Flags, NameOffset, NameLength, ValueOffset, ValueLength. The first value is
+      // the default; the rest name the importer they apply to.
+      for (let valueIndex = 0x01; valueIndex < valueCount; valueIndex++) {
+        const value = values + valueIndex * 0x14;
 
-          if (base > last) {
-            break;
-          }
+        if (text(value + 0x04, value + 0x08) === importer.toLowerCase()) {
+          return text(value + 0x0c, value + 0x10);
+        }
+      }
+
+      return valueCount === 0x00 ? '' : text(values + 0x0c, values + 0x10);
+    }
+
+    return '';
+  }
+
+  /**
+   * Throws an AccessError when a listener for `event` needs the liveness poller and the handle cannot
+   * read the exit code, instead of letting every poll fail.
+   */
+  #assertPollable(event: keyof ProcessEvents): void {
+    const backend = this.#backend;
+
+    if ((event === 'exit' || event === 'load' || event === 'unload') && backend instanceof Kernel32Backend && (backend.access & LivenessAccess) === 0) {
+      throw new AccessError('GetExitCodeProcess', ['PROCESS_QUERY_LIMITED_INFORMATION']);
+    }
+
+    return;
+  }
+
+  /**
+   * Throws an AccessError when the instance was attached read-only.
+   */
+  #assertWritable(what: string): void {
+    if (this.readOnly) {
+      throw new AccessError(what, []);
+    }
+
+    return;
+  }
+
+  /**
+   * Finds the module an export forwarder names (without its `.dll`). An API set such as
+   * `api-ms-win-core-libraryloader-l1-1-0` is never loaded itself: it is looked up in the target's API
+   * set schema, or taken to be kernelbase.dll, which hosts nearly all of them, when the backend cannot
+   * locate the schema.
+   * @throws If the module is not loaded, or the API set has no host.
+   */
+  #forwardTarget(name: string, importer: Module): Module {
+    if (!Process.#Patterns.ApiSet.test(name)) {
+      return this.#module(`${name}.dll`);
+    }
+
+    const host = this.#apiSetHost(name, importer.szModule);
+
+    if (host === '') {
+      throw new Error(`API set ${name} has no host in the target.`);
+    }
+
+    return this.#module(host ?? 'kernelbase.dll');
+  }
+
+  /**
+   * Finds a loaded module by name (ignoring case) or full path.
+   * @throws If no module matches.
+   */
+  #module(szModule: string): Module {
+    const module = this.findModule(szModule);
+
+    if (module === undefined) {
+      throw new Error(`Module not loaded: ${szModule}.`);
+    }
+
+    return module;
+  }
+
+  /**
+   * Checks the target once: emits `'exit'` when it has exited, then (when supervised) tries to
+   * re-attach to its relaunch. While the target runs, compares its modules when anyone listens for
+   * `'load'` or `'unload'`.
+   */
+  #poll(): void {
+    const watchingModules = this.#events.listenerCount('load') !== 0 || this.#events.listenerCount('unload') !== 0;
 
-          for (const { buffer, index, length } of tokens) {
-            const sourceEnd = base + index + length,
-              sourceStart = base + index,
-              target = buffer,
-              targetEnd = length,
-              targetStart = 0;
+    if (this.#attach === undefined && this.#events.listenerCount('exit') === 0 && !watchingModules) {
+      clearInterval(this.#poller);
+      this.#poller = undefined;
+
+      return;
+    }
 
-            const compare = haystack.compare(target, targetStart, targetEnd, sourceStart, sourceEnd);
+    if (!this.#exited) {
+      let alive: boolean;
 
-            if (compare !== 0) {
-              continue outer;
+      // A failing check (e.g. GetExitCodeProcess on a handle that lost its rights) must not escape the timer.
+      try {
+        alive = this.isAlive;
+      } catch (error) {
+        if (this.#events.listenerCount('error') !== 0) {
+          this.#events.emit('error', error);
+        } else {
+          clearInterval(this.#poller);
+          this.#poller = undefined;
+        }
+
+        return;
+      }
+
+      if (alive) {
+        if (watchingModules) {
+          try {
+            this.#pollModules();
+          } catch (error) {
+            if (!Process.#isStarting(error) && this.#events.listenerCount('error') !== 0) {
+              this.#events.emit('error', error);
             }
           }
+        }
+
+        return;
+      }
+
+      this.#exited = true;
+
+      this.#events.emit('exit', this.exitCode);
+    }
+
+    if (this.#attach === undefined) {
+      clearInterval(this.#poller);
+      this.#poller = undefined;
+
+      return;
+    }
+
+    if (this.#closed) {
+      return;
+    }
+
+    const stale = this.#backend;
+    const previous: ProcessEntry = {
+      cntThreads: stale.cntThreads,
+      pcPriClassBase: stale.pcPriClassBase,
+      szExeFile: stale.szExeFile,
+      th32ParentProcessID: stale.th32ParentProcessID,
+      th32ProcessID: stale.th32ProcessID,
+    };
+
+    let backend: Backend | undefined;
+
+    try {
+      backend = this.#attach(previous);
+
+      if (backend === undefined) {
+        return;
+      }
+
+      // An attach that finds the exited process again (e.g. a zombie still listed) has not found the relaunch.
+      if (!(backend.isAlive?.() ?? true)) {
+        backend.close();
+
+        return;
+      }
+
+      this.#backend = backend;
 
-          return regionStart + BigInt(base);
-        } while ((start = haystack.indexOf(anchor.buffer, start + 0x01)) !== -1);
+      this.refresh();
+    } catch (error) {
+      if (backend !== undefined) {
+        this.#backend = stale;
+
+        backend.close();
+      }
+
+      if (!Process.#isStarting(error) && this.#events.listenerCount('error') !== 0) {
+        this.#events.emit('error', error);
+      }
+
+      return;
+    }
+
+    stale.close();
+
+    this.#exited = false;
+
+    this.#events.emit('reattach', previous);
+
+    return;
+  }
+
+  /**
+   * Takes a module snapshot and refreshes `modules` from it when a module loaded, unloaded, or moved.
+   */
+  #pollModules(): void {
+    const snapshot = this.#backend.modules();
+    const keys = new Set(this.#moduleList.map(Process.#moduleKey));
+
+    const changed = snapshot.length !== this.#moduleList.length || snapshot.some((module) => !keys.has(Process.#moduleKey(module)));
+
+    if (changed) {
+      this.#refresh(snapshot);
+    }
+
+    return;
+  }
+
+  /**
+   * Turns a scan scope into the address ranges it covers.
+   */
+  #ranges(scope: ScanScope): ScanRange[] {
+    if ('ranges' in scope) {
+      return [...scope.ranges];
+    }
+
+    if ('regions' in scope) {
+      const { filter, protect, state, type } = scope.regions;
+
+      return this.query()
+        .filter(
+          (region) => (protect === undefined || (region.Protect & protect) !== 0) && (state === undefined || (region.State & state) !== 0) && (type === undefined || (region.Type & type) !== 0) && (filter === undefined || filter(region)),
+        )
+        .map(({ BaseAddress, RegionSize }) => ({ address: BaseAddress, length: Number(RegionSize) }));
+    }
+
+    const { section } = scope;
+    const single = 'module' in scope;
+
+    const ranges: ScanRange[] = [];
+
+    for (const module of single ? [this.#module(scope.module)] : this.#moduleSpans) {
+      if (section === undefined) {
+        ranges.push({ address: module.modBaseAddr, length: module.modBaseSize });
 
         continue;
       }
 
-      outer: do {
-        const base = start - anchor.index;
+      let header: PESection | undefined;
 
-        if (base < 0) {
-          continue;
+      // Across every module, one whose headers cannot be read or that lacks the section is skipped.
+      try {
+        header = module.pe.sections[section];
+      } catch (error) {
+        if (single) {
+          throw error;
         }
 
-        if (base > last) {
-          break;
+        continue;
+      }
+
+      if (header === undefined) {
+        if (single) {
+          throw new Error(`${module.szModule} has no ${section} section.`);
         }
 
-        for (const { buffer, index, length } of tokens) {
-          const sourceEnd = base + index + length,
-            sourceStart = base + index,
-            target = buffer,
-            targetEnd = length,
-            targetStart = 0;
+        continue;
+      }
 
-          const compare = haystack.compare(target, targetStart, targetEnd, sourceStart, sourceEnd);
+      ranges.push({ address: header.start, length: header.VirtualSize });
+    }
 
-          if (compare !== 0) {
-            continue outer;
-          }
-        }
+    return ranges;
+  }
+
+  /**
+   * Replaces `modules` with a snapshot, drops what was cached for the old list, and emits `'unload'`
+   * and `'load'` for the modules that differ.
+   */
+  #refresh(snapshot: Module[]): void {
+    const previous = this.#moduleList;
+    const moduleList = Object.freeze(snapshot.map((module) => module.bind(this)));
+    const modules: Record<string, Module> = {};
+
+    for (const module of moduleList) {
+      const szModule = module.szModule;
+
+      modules[szModule] = module;
+    }
+
+    this.#moduleList = moduleList;
+    this.#moduleSpans = Object.freeze([...moduleList].sort((a, b) => (a.modBaseAddr < b.modBaseAddr ? -1 : a.modBaseAddr > b.modBaseAddr ? 1 : 0)));
+    this.#modules = Object.freeze(modules);
+    this.#classNames.clear();
+    this.#procAddresses.clear();
+
+    // A module that unloaded or moved may be another build by now; its PDB has to be loaded again.
+    for (const [key, { base }] of this.#symbols) {
+      if (!Object.values(modules).some((module) => module.szModule.toLowerCase() === key && module.modBaseAddr === base)) {
+        this.#symbols.delete(key);
+      }
+    }
+
+    const before = new Set(previous.map(Process.#moduleKey));
+    const after = new Set(moduleList.map(Process.#moduleKey));
+
+    for (const module of previous) {
+      if (!after.has(Process.#moduleKey(module))) {
+        this.#events.emit('unload', module);
+      }
+    }
+
+    for (const module of moduleList) {
+      if (!before.has(Process.#moduleKey(module))) {
+        this.#events.emit('load', module);
+      }
+    }
+
+    return;
+  }
+
+  /**
+   * Resolves an export, following forwarders up to 16 modules deep.
+   */
+  #resolveExport(module: Module, name: number | string, depth: number): bigint {
+    const entry = module.pe.findExport(name);
 
-        results.push(regionStart + BigInt(base));
-      } while ((start = haystack.indexOf(anchor.buffer, start + 0x01)) !== -1);
+    if (entry === undefined) {
+      throw new Error(`${module.szModule} does not export ${typeof name === 'number' ? `ordinal ${name}` : name}.`);
+    }
+
+    if (entry.address !== undefined) {
+      return entry.address;
+    }
+
+    if (depth === 0x10) {
+      throw new Error(`Export forwarder chain is too deep at ${module.szModule}!${entry.forwarder}.`);
+    }
+
+    // "NTDLL.RtlAllocateHeap", "NTDLL.#12" or "api-ms-win-core-heap-l1-1-0.HeapAlloc": the module
+    // or API set name (without .dll), then a name or ordinal.
+    const forwarder = entry.forwarder!;
+    const separator = forwarder.lastIndexOf('.');
+    const forwardedName = forwarder.slice(separator + 0x01);
+
+    return this.#resolveExport(this.#forwardTarget(forwarder.slice(0, separator), module), forwardedName.startsWith('#') ? Number(forwardedName.slice(0x01)) : forwardedName, depth + 0x01);
+  }
+
+  /**
+   * Searches each range of a scan scope, in order; `search` returns at most one match unless `all`.
+   */
+  #scoped(scope: ScanScope, all: boolean, search: (address: bigint, length: number, all: boolean) => bigint[]): bigint | bigint[] {
+    const results: bigint[] = [];
+
+    for (const { address, length } of this.#ranges(scope)) {
+      const found = search(address, length, all);
+
+      if (!all && found.length !== 0) {
+        return found[0]!;
+      }
+
+      for (const match of found) {
+        results.push(match);
+      }
     }
 
     return !all ? -1n : results;
   }
 
   /**
-   * Enumerates all memory regions in the process.
-   * @returns Array of memory regions.
-   * @example
-   * ```ts
-   * const cs2 = new Process('cs2.exe');
-   * const regions = cs2.query();
-   * ```
+   * Reads a span in chunks of `chunkSize` bytes plus `overlap` bytes of the next, handing each to
+   * `visit` until it returns true; `visit` gets the chunk's own length as `end`, so a match starting
+   * in the overlap is left to the next chunk. A chunk that cannot be read whole is read page by page
+   * and each readable run of it visited on its own. The bytes live in a shared buffer, valid until
+   * the next call. Returns whether `visit` stopped the stream.
    */
-  public query(): MemoryBasicInformation[] {
-    const { hProcess } = this;
+  #stream(address: bigint, length: number, visit: (start: bigint, haystack: Buffer, end: number) => boolean, overlap: number, chunkSize: number): boolean {
+    for (let offset = 0; offset < length; offset += chunkSize) {
+      const chunkLength = Math.min(chunkSize, length - offset);
+      const readLength = Math.min(chunkLength + overlap, length - offset);
 
-    const lpBufferBuffer = Buffer.allocUnsafe(0x30);
+      if (readLength > this.#haystack.byteLength) {
+        this.#haystack = Buffer.allocUnsafe(readLength);
+      }
 
-    const dwLength = 0x30n; /* sizeof(MEMORY_BASIC_INFORMATION) */
+      const haystack = this.#haystack.subarray(0, readLength);
+      const start = address + BigInt(offset);
 
-    const query: ReturnType<Process['query']> = [];
+      let readable = true;
 
-    let lpAddress = 0n;
+      try {
+        this.read(start, haystack);
+      } catch {
+        // Retried page by page below.
+        readable = false;
+      }
 
-    // Re-pin ptr(lpBufferBuffer) every call: the GC can relocate the buffer between iterations, so a
-    // cached pointer would go stale (see pattern()) and corrupt the walk.
-    const bVirtualQueryEx = VirtualQueryEx(hProcess, lpAddress, ptr(lpBufferBuffer), dwLength);
+      if (readable) {
+        if (visit(start, haystack, chunkLength)) {
+          return true;
+        }
+
+        continue;
+      }
 
-    if (!bVirtualQueryEx) {
-      throw new Win32Error('VirtualQueryEx', GetLastError());
+      // Pages follow the target's page boundaries, so a span that starts mid-page reads a short first page.
+      let run = 0;
+
+      for (let page = 0; page < readLength; ) {
+        const pageEnd = Math.min(page + PageSize - Number((start + BigInt(page)) % BigInt(PageSize)), readLength);
+
+        try {
+          this.read(start + BigInt(page), haystack.subarray(page, pageEnd));
+        } catch {
+          if (run < page && run < chunkLength && visit(start + BigInt(run), haystack.subarray(run, page), chunkLength - run)) {
+            return true;
+          }
+
+          run = pageEnd;
+        }
+
+        page = pageEnd;
+      }
+
+      if (run < readLength && run < chunkLength && visit(start + BigInt(run), haystack.subarray(run), chunkLength - run)) {
+        return true;
+      }
     }
 
-    do {
-      const memoryBasicInformation = new MemoryBasicInformation(Buffer.from(lpBufferBuffer));
+    return false;
+  }
 
-      query.push(memoryBasicInformation);
+  /**
+   * Streams each committed region overlapping a range through `#stream`, skipping guard and
+   * `PAGE_NOACCESS` pages, until `visit` returns true.
+   */
+  #walk(address: bigint, length: number, visit: (start: bigint, haystack: Buffer, end: number) => boolean, overlap: number, chunkSize: number): void {
+    const mbi = new MemoryBasicInformation();
 
-      lpAddress = memoryBasicInformation.BaseAddress + memoryBasicInformation.RegionSize;
-    } while (!!VirtualQueryEx(hProcess, lpAddress, ptr(lpBufferBuffer), dwLength));
+    const end = address + BigInt(length);
+    let lpAddress = address;
 
-    return query;
+    // Pass mbi.buffer rather than the cached mbi.ptr: the backend re-pins it on every call, since the
+    // GC can relocate the buffer's backing store between iterations and a stale pointer would freeze
+    // lpAddress and loop forever on any multi-region span.
+    while (lpAddress < end && this.#backend.query(lpAddress, mbi.buffer)) {
+      const base = mbi.BaseAddress;
+      const protect = mbi.Protect;
+      const size = mbi.RegionSize;
+      const state = mbi.State;
+
+      lpAddress = base + size;
+
+      if (state !== MemoryAllocationType.MEM_COMMIT || protect === MemoryProtection.PAGE_NOACCESS || (protect & MemoryProtection.PAGE_GUARD) !== 0) {
+        continue;
+      }
+
+      const regionStart = base > address ? base : address;
+      const regionEnd = lpAddress < end ? lpAddress : end;
+      const regionLength = Number(regionEnd - regionStart);
+
+      if (regionLength <= 0) {
+        continue;
+      }
+
+      if (this.#stream(regionStart, regionLength, visit, overlap, chunkSize)) {
+        return;
+      }
+    }
+
+    return;
+  }
+
+  /**
+   * Starts the liveness and module poller unless it is running or the instance is closed.
+   */
+  #watch(): void {
+    if (this.#poller === undefined && !this.#closed) {
+      this.#poller = setInterval(() => this.#poll(), this.#pollInterval);
+    }
+
+    return;
   }
 }
 
@@ -0,0 +1,305 @@
+import type { RTTIBaseClass, RTTIClass, RTTIVTable } from '../types/RTTI';
+import type PEImage from './PEImage';
+
+const IMAGE_SCN_CNT_CODE = 0x0000_0020;
+const IMAGE_SCN_CNT_INITIALIZED_DATA = 0x0000_0040;
+
+/**
+ * RTTICompleteObjectLocator signature: 0 for x86 (absolute addresses), 1 for x64 (image-relative).
+ */
+const COL_SIG_REV0 = 0x00;
+const COL_SIG_REV1 = 0x01;
+
+/**
+ * A complete object locator found while scanning, keyed back to its TypeDescriptor.
+ */
+type Locator = {
+  classDescriptor: number;
+  offset: number;
+  rva: number;
+  typeDescriptor: number;
+};
+
+/**
+ * Initialized, non-code section bytes the scan reads once.
+ */
+type Section = {
+  bytes: Buffer;
+  rva: number;
+};
+
+/**
+ * MSVC run-time type information of a PE image: every polymorphic class with its vtables and bases.
+ *
+ * The scan reads each initialized data section (`.data`, `.rdata`) once. It finds TypeDescriptors by
+ * their decorated names (`.?AV…@@` for classes, `.?AU…@@` for structs), then the
+ * RTTICompleteObjectLocators that reference them, then the vtables whose slot -1 points at a locator.
+ * Bases come from the locator's ClassHierarchyDescriptor and its base class array. x64 locators are
+ * image-relative (signature 1, with a self RVA to confirm the match); x86 locators hold absolute
+ * addresses (signature 0). Classes whose TypeDescriptor no locator references (types that are only
+ * thrown or `typeid`'d) are left out.
+ *
+ * @example
+ * ```ts
+ * const { classes } = cs2.modules['client.dll']!.pe.rtti;
+ * const pawn = classes['C_CSPlayerPawn']!;
+ * console.log(pawn.vtables[0]!.address.toString(16), pawn.bases.map(({ name }) => name));
+ * ```
+ */
+class RTTI {
+  /**
+   * Scans a PE image for MSVC RTTI.
+   * @param image The image to scan; absolute addresses are relative to its `base`.
+   * @example
+   * ```ts
+   * const rtti = new RTTI(new PEImage(readFileSync('client.dll')));
+   * ```
+   */
+  constructor(image: PEImage) {
+    this.#image = image;
+    this.#width = image.is32Bit ? 0x04 : 0x08;
+
+    this.#sections = image.sectionList
+      .filter(({ Characteristics }) => (Characteristics & IMAGE_SCN_CNT_INITIALIZED_DATA) !== 0x00 && (Characteristics & IMAGE_SCN_CNT_CODE) === 0x00)
+      .map(({ SizeOfRawData, VirtualAddress, VirtualSize }) => ({ bytes: image.read(VirtualAddress, Math.min(SizeOfRawData, VirtualSize)), rva: VirtualAddress }));
+
+    const typeDescriptors = this.#typeDescriptors();
+    const locators = this.#locators(typeDescriptors);
+    const vtables = this.#vtables(locators);
+
+    const locatorsByType = Map.groupBy(locators, ({ typeDescriptor }) => typeDescriptor);
+
+    const classList: RTTIClass[] = [];
+    const classes: Record<string, RTTIClass> = {};
+
+    for (const [rva, decoratedName] of typeDescriptors) {
+      const owned = locatorsByType.get(rva);
+
+      if (owned === undefined) {
+        continue;
+      }
+
+      const entry: RTTIClass = Object.freeze({
+        bases: this.#bases(owned[0]!.classDescriptor, typeDescriptors),
+        decoratedName,
+        name: RTTI.undecorate(decoratedName),
+        typeDescriptor: image.base + BigInt(rva),
+        vtables: Object.freeze(
+          owned
+            .flatMap((locator) => (vtables.get(locator.rva) ?? []).map((address): RTTIVTable => Object.freeze({ address, locator: image.base + BigInt(locator.rva), offset: locator.offset })))
+            .sort((a, b) => a.offset - b.offset || Number(a.address - b.address)),
+        ),
+      });
+
+      classList.push(entry);
+
+      // Distinct decorated names can undecorate alike; the map keeps the first, `classList` keeps them all.
+      classes[entry.name] ??= entry;
+    }
+
+    this.classList = Object.freeze(classList);
+    this.classes = Object.freeze(classes);
+  }
+
+  /**
+   * The scanned image.
+   */
+  readonly #image: PEImage;
+
+  /**
+   * Initialized, non-code sections, read once.
+   */
+  readonly #sections: readonly Section[];
+
+  /**
+   * Pointer size of the image.
+   */
+  readonly #width: number;
+
+  /** Every class found, in TypeDescriptor order. */
+  public readonly classList: readonly RTTIClass[];
+  /** Classes by undecorated name; the first of any repeated name. */
+  public readonly classes: Readonly<Record<string, RTTIClass>>;
+
+  /**
+   * Undecorates a TypeDescriptor name: `.?AVCBaseEntity@@` becomes `CBaseEntity` and
+   * `.?AVCBase@game@@` becomes `game::CBase`. Names holding templates or anonymous namespaces keep
+   * their decorated form minus the `.?AV`/`.?AU` prefix and `@@` suffix.
+   * @param decoratedName Decorated name.
+   * @returns The undecorated name.
+   * @example
+   * ```ts
+   * RTTI.undecorate('.?AUIOther@@'); // 'IOther'
+   * ```
+   */
+  public static undecorate(decoratedName: string): string {
+    const body = decoratedName.slice(0x04, decoratedName.endsWith('@@') ? -0x02 : undefined);
+
+    return body.includes('?') ? body : body.split('@').reverse().join('::');
+  }
+
+  /**
+   * Reads the base class array of a ClassHierarchyDescriptor, skipping its first entry (the class itself).
+   */
+  #bases(classDescriptor: number, typeDescriptors: Map<number, string>): readonly RTTIBaseClass[] {
+    const bases: RTTIBaseClass[] = [];
+
+    const numBaseClasses = this.#u32(classDescriptor + 0x08);
+    const baseClassArray = this.#rva(this.#u32(classDescriptor + 0x0c));
+
+    // A corrupt or misidentified descriptor should not turn into an enormous walk.
+    for (let index = 1; index < Math.min(numBaseClasses, 0x400); index++) {
+      const descriptor = this.#rva(this.#u32(baseClassArray + index * 0x04));
+      const decoratedName = typeDescriptors.get(this.#rva(this.#u32(descriptor)));
+
+      if (decoratedName === undefined) {
+        continue;
+      }
+
+      bases.push(
+        Object.freeze({
+          decoratedName,
+          name: RTTI.undecorate(decoratedName),
+          offset: this.#i32(descriptor + 0x08),
+          // PMD.pdisp is -1 unless the base lives in a virtual base.
+          virtual: this.#i32(descriptor + 0x0c) !== -1,
+        }),
+      );
+    }
+
+    return Object.freeze(bases);
+  }
+
+  /**
+   * Reads a signed 32-bit value at an RVA.
+   */
+  #i32(rva: number): number {
+    return this.#u32(rva) | 0x00;
+  }
+
+  /**
+   * Finds every complete object locator that references a known TypeDescriptor.
+   */
+  #locators(typeDescriptors: Map<number, string>): Locator[] {
+    const locators: Locator[] = [];
+
+    const signature = this.#image.is32Bit ? COL_SIG_REV0 : COL_SIG_REV1;
+    const size = this.#image.is32Bit ? 0x14 : 0x18;
+
+    for (const { bytes, rva } of this.#sections) {
+      for (let offset = 0x00; offset + size <= bytes.length; offset += 0x04) {
+        if (bytes.readUInt32LE(offset) !== signature) {
+          continue;
+        }
+
+        const typeDescriptor = this.#rva(bytes.readUInt32LE(offset + 0x0c));
+
+        if (!typeDescriptors.has(typeDescriptor)) {
+          continue;
+        }
+
+        // x64 locators carry their own RVA, which rules out a coincidental match.
+        if (!this.#image.is32Bit && bytes.readUInt32LE(offset + 0x14) !== rva + offset) {
+          continue;
+        }
+
+        locators.push({ classDescriptor: this.#rva(bytes.readUInt32LE(offset + 0x10)), offset: bytes.readUInt32LE(offset + 0x04), rva: rva + offset, typeDescriptor });
+      }
+    }
+
+    return locators;
+  }
+
+  /**
+   * Converts a locator field to an RVA: x86 fields are absolute, x64 fields already image-relative.
+   * An absolute field holds an address at `base` in a loaded image, and at ImageBase in a file the
+   * loader has not relocated.
+   */
+  #rva(value: number): number {
+    if (!this.#image.is32Bit) {
+      return value;
+    }
+
+    const { base, ImageBase, SizeOfImage } = this.#image;
+    const address = BigInt(value);
+
+    return Number(address - (address >= base && address < base + BigInt(SizeOfImage) ? base : ImageBase));
+  }
+
+  /**
+   * Finds every TypeDescriptor by its decorated name, keyed by RVA.
+   */
+  #typeDescriptors(): Map<number, string> {
+    const typeDescriptors = new Map<number, string>();
+
+    // The name follows the type_info vftable pointer and the spare pointer.
+    const nameOffset = this.#width * 0x02;
+
+    for (const { bytes, rva } of this.#sections) {
+      for (const prefix of ['.?AV', '.?AU']) {
+        for (let index = bytes.indexOf(prefix, nameOffset, 'latin1'); index !== -1; index = bytes.indexOf(prefix, index + 0x01, 'latin1')) {
+          const terminator = bytes.indexOf(0x00, index);
+
+          if (index % this.#width !== 0x00 || terminator === -1) {
+            continue;
+          }
+
+          typeDescriptors.set(rva + index - nameOffset, bytes.toString('latin1', index, terminator));
+        }
+      }
+    }
+
+    return new Map([...typeDescriptors].sort(([a], [b]) => a - b));
+  }
+
+  /**
+   * Reads an unsigned 32-bit value at an RVA, from the scanned sections when it lies in one.
+   */
+  #u32(rva: number): number {
+    for (const { bytes, rva: start } of this.#sections) {
+      if (rva >= start && rva + 0x04 <= start + bytes.length) {
+        return bytes.readUInt32LE(rva - start);
+      }
+    }
+
+    return this.#image.read(rva, 0x04).readUInt32LE(0x00);
+  }
+
+  /**
+   * Finds the vtables of each locator: pointer-aligned slots holding the locator's address mark the
+   * slot before a vtable.
+   */
+  #vtables(locators: Locator[]): Map<number, bigint[]> {
+    const vtables = new Map<number, bigint[]>();
+
+    // Slots hold the locator's address at base, or at ImageBase in an unrelocated file.
+    const byAddress = new Map(locators.flatMap(({ rva }) => [this.#image.ImageBase, this.#image.base].map((base): [bigint, number] => [base + BigInt(rva), rva])));
+    // Comparing the low dword first keeps the scan from allocating a bigint per slot.
+    const lows = new Set([...byAddress.keys()].map((address) => Number(address & 0xffff_ffffn)));
+
+    for (const { bytes, rva } of this.#sections) {
+      for (let offset = 0x00; offset + this.#width * 0x02 <= bytes.length; offset += this.#width) {
+        if (!lows.has(bytes.readUInt32LE(offset))) {
+          continue;
+        }
+
+        const locator = byAddress.get(this.#width === 0x04 ? BigInt(bytes.readUInt32LE(offset)) : bytes.readBigUInt64LE(offset));
+
+        if (locator === undefined) {
+          continue;
+        }
+
+        const list = vtables.get(locator) ?? [];
+
+        list.push(this.#image.base + BigInt(rva + offset + this.#width));
+
+        vtables.set(locator, list);
+      }
+    }
+
+    return vtables;
+  }
+}
+
+export default RTTI;
+export { RTTI };
@@ -0,0 +1,251 @@
+import { closeSync, openSync, writeSync } from 'node:fs';
+
+import { type Pointer, toArrayBuffer } from 'bun:ffi';
+
+import type { Backend } from '../types/Backend';
+import type { TraceEvent } from '../types/Trace';
+import type Module from './Module';
+
+/**
+ * Characters of NDJSON buffered before they are written to the trace file.
+ */
+const FlushThreshold = 0x10_0000;
+
+/**
+ * A `Process` backend that forwards every call to another backend and logs it to an NDJSON trace.
+ *
+ * Reads (with the bytes returned), writes, `query()` results, module and thread snapshots, and the
+ * allocation calls are appended in call order, failures included, so `ReplayBackend` can serve the
+ * session back byte-for-byte — e.g. a session recorded against a live game on Windows replayed as a
+ * Bun test on Linux. Lines are buffered and written in batches; `close()` flushes the rest.
+ *
+ * @example
+ * ```ts
+ * const cs2 = new Process(new RecordingBackend(new Kernel32Backend('cs2.exe'), 'session.ndjson'));
+ * cs2.follow(cs2.modules['client.dll'].modBaseAddr + 0x1234n, [0x10n, 0x20n]);
+ * cs2.close();
+ * ```
+ */
+class RecordingBackend implements Backend {
+  /**
+   * Starts recording a backend.
+   * @param backend Backend to forward to and record.
+   * @param path Trace file to create (replaced if it exists).
+   * @example
+   * ```ts
+   * const backend = new RecordingBackend(new Kernel32Backend('cs2.exe'), 'session.ndjson');
+   * ```
+   */
+  constructor(backend: Backend, path: string) {
+    this.#backend = backend;
+    this.#fd = openSync(path, 'w');
+
+    this.cntThreads = backend.cntThreads;
+    this.hProcess = backend.hProcess;
+    this.is32Bit = backend.is32Bit;
+    this.pcPriClassBase = backend.pcPriClassBase;
+    this.szExeFile = backend.szExeFile;
+    this.th32ParentProcessID = backend.th32ParentProcessID;
+    this.th32ProcessID = backend.th32ProcessID;
+
+    this.#push({
+      t: 'attach',
+      cntThreads: this.cntThreads,
+      is32Bit: this.is32Bit,
+      pcPriClassBase: this.pcPriClassBase,
+      szExeFile: this.szExeFile,
+      th32ParentProcessID: this.th32ParentProcessID,
+      th32ProcessID: this.th32ProcessID,
+      version: 1,
+    });
+  }
+
+  /**
+   * The recorded backend.
+   */
+  readonly #backend: Backend;
+
+  /**
+   * Descriptor of the trace file, or undefined once closed.
+   */
+  #fd: number | undefined;
+
+  /**
+   * NDJSON lines not yet written.
+   */
+  #pending = '';
+
+  public readonly cntThreads: number;
+  public readonly hProcess: bigint;
+  public readonly is32Bit: boolean;
+  public readonly pcPriClassBase: number;
+  public readonly szExeFile: string;
+  public readonly th32ParentProcessID: number;
+  public readonly th32ProcessID: number;
+
+  public alloc(dwSize: bigint, flProtect: number): bigint {
+    const event: TraceEvent & { t: 'alloc' } = { t: 'alloc', protect: flProtect, size: RecordingBackend.#hex(dwSize) };
+
+    return this.#record(event, () => {
+      const address = this.#backend.alloc(dwSize, flProtect);
+
+      event.address = RecordingBackend.#hex(address);
+
+      return address;
+    });
+  }
+
+  public close(): void {
+    try {
+      this.flush();
+    } finally {
+      if (this.#fd !== undefined) {
+        closeSync(this.#fd);
+
+        this.#fd = undefined;
+      }
+
+      this.#backend.close();
+    }
+
+    return;
+  }
+
+  public execute(lpStartAddress: bigint): void {
+    return this.#record({ t: 'execute', address: RecordingBackend.#hex(lpStartAddress) }, () => this.#backend.execute(lpStartAddress));
+  }
+
+  // Liveness is not memory, so it passes through without a trace line.
+  public exitCode(): number | undefined {
+    return this.#backend.exitCode?.();
+  }
+
+  /**
+   * Writes buffered trace lines to disk.
+   * @example
+   * ```ts
+   * backend.flush();
+   * ```
+   */
+  public flush(): void {
+    if (this.#fd !== undefined && this.#pending.length !== 0) {
+      writeSync(this.#fd, this.#pending);
+    }
+
+    this.#pending = '';
+
+    return;
+  }
+
+  public free(lpAddress: bigint): void {
+    return this.#record({ t: 'free', address: RecordingBackend.#hex(lpAddress) }, () => this.#backend.free(lpAddress));
+  }
+
+  public isAlive(): boolean {
+    return this.#backend.isAlive?.() ?? true;
+  }
+
+  public modules(): Module[] {
+    const event: TraceEvent & { t: 'modules' } = { t: 'modules' };
+
+    return this.#record(event, () => {
+      const modules = this.#backend.modules();
+
+      event.modules = modules.map(({ modBaseAddr, modBaseSize, szExePath, szModule }) => ({ modBaseAddr: RecordingBackend.#hex(modBaseAddr), modBaseSize, szExePath, szModule }));
+
+      return modules;
+    });
+  }
+
+  public protect(lpAddress: bigint, dwSize: bigint, flNewProtect: number): number {
+    const event: TraceEvent & { t: 'protect' } = { t: 'protect', address: RecordingBackend.#hex(lpAddress), protect: flNewProtect, size: RecordingBackend.#hex(dwSize) };
+
+    return this.#record(event, () => {
+      const previous = this.#backend.protect(lpAddress, dwSize, flNewProtect);
+
+      event.previous = previous;
+
+      return previous;
+    });
+  }
+
+  public query(lpAddress: bigint, lpBuffer: Buffer): boolean {
+    const event: TraceEvent & { t: 'query' } = { t: 'query', address: RecordingBackend.#hex(lpAddress) };
+
+    return this.#record(event, () => {
+      const found = this.#backend.query(lpAddress, lpBuffer);
+
+      event.mbi = found ? lpBuffer.toString('base64', 0x00, 0x30) : null;
+
+      return found;
+    });
+  }
+
+  public read(lpBaseAddress: bigint, lpBuffer: Pointer, nSize: bigint): void {
+    const event: TraceEvent & { t: 'read' } = { t: 'read', address: RecordingBackend.#hex(lpBaseAddress), size: RecordingBackend.#hex(nSize) };
+
+    return this.#record(event, () => {
+      this.#backend.read(lpBaseAddress, lpBuffer, nSize);
+
+      event.data = nSize === 0n ? '' : Buffer.from(toArrayBuffer(lpBuffer, 0, Number(nSize))).toString('base64');
+
+      return;
+    });
+  }
+
+  public threads(): number[] {
+    const event: TraceEvent & { t: 'threads' } = { t: 'threads' };
+
+    return this.#record(event, () => {
+      const threads = this.#backend.threads?.() ?? [];
+
+      event.threads = threads;
+
+      return threads;
+    });
+  }
+
+  public write(lpBaseAddress: bigint, lpBuffer: Pointer, nSize: bigint): void {
+    const data = nSize === 0n ? '' : Buffer.from(toArrayBuffer(lpBuffer, 0, Number(nSize))).toString('base64');
+
+    return this.#record({ t: 'write', address: RecordingBackend.#hex(lpBaseAddress), data }, () => this.#backend.write(lpBaseAddress, lpBuffer, nSize));
+  }
+
+  /**
+   * Formats a bigint as a `0x`-prefixed hex string.
+   */
+  static #hex(value: bigint): string {
+    return `0x${value.toString(16)}`;
+  }
+
+  /**
+   * Queues one trace line, flushing once enough has accumulated.
+   */
+  #push(event: TraceEvent): void {
+    this.#pending += `${JSON.stringify(event)}\n`;
+
+    if (this.#pending.length >= FlushThreshold) {
+      this.flush();
+    }
+
+    return;
+  }
+
+  /**
+   * Runs a forwarded call and records its event, with the error message if the call throws.
+   */
+  #record<T>(event: Exclude<TraceEvent, { t: 'attach' }>, call: () => T): T {
+    try {
+      return call();
+    } catch (error) {
+      event.error = (error as Error).message;
+
+      throw error;
+    } finally {
+      this.#push(event);
+    }
+  }
+}
+
+export default RecordingBackend;
+export { RecordingBackend };
@@ -0,0 +1,397 @@
+import { type Pointer, toArrayBuffer } from 'bun:ffi';
+
+import type { Backend } from '../types/Backend';
+import MemoryBasicInformation from './MemoryBasicInformation';
+import MemoryError from './MemoryError';
+import { Opcode, Status } from './MemoryServer';
+import Module from './Module';
+import Socket from './Socket';
+
+/**
+ * Protocol version sent in the hello.
+ */
+const ProtocolVersion = 0x01;
+
+/**
+ * Why the server refused a request, by response status.
+ */
+const ReasonByStatus: Readonly<Record<number, string>> = {
+  [Status.ReadOnly]: 'the server is read-only',
+  [Status.TooLarge]: 'the request exceeds the server size limit',
+  [Status.Unauthorized]: 'the server rejected the request as unauthorized',
+  [Status.Unsupported]: 'the server does not support the request',
+};
+
+/**
+ * A `Process` backend for a target served by a `MemoryServer` on another machine.
+ *
+ * Each backend call is one round trip over a blocking TCP connection. `RemoteProcess` builds on it
+ * to run `pattern`, `follow`, and `query` on the server, and adds batched reads and writes; plain
+ * `new Process(new RemoteBackend(…))` works too, one round trip per accessor. The server cannot
+ * allocate or run code for a client, so `alloc`, `free`, and `execute` throw.
+ *
+ * @example
+ * ```ts
+ * const cs2 = new Process(new RemoteBackend('10.0.0.2:7878', { token: 'secret' }));
+ * cs2.u32(0x12345678n);
+ * ```
+ */
+class RemoteBackend implements Backend {
+  /**
+   * Connects to a server and presents the token.
+   * @param address `host:port` of the server (IPv4 or `localhost`).
+   * @param options `token` the server expects, and `timeout`, the milliseconds a round trip may take
+   *   (defaults to 5000).
+   * @throws If the connection fails or the server rejects the token.
+   * @example
+   * ```ts
+   * const backend = new RemoteBackend('127.0.0.1:7878', { token: 'secret', timeout: 10_000 });
+   * ```
+   */
+  constructor(address: string, options: { timeout?: number; token?: string } = {}) {
+    const separator = address.lastIndexOf(':');
+
+    this.#socket = new Socket(address.slice(0, separator), Number(address.slice(separator + 0x01)), options);
+
+    try {
+      const token = Buffer.from(options.token ?? '', 'utf8');
+      const request = Buffer.allocUnsafe(0x02 + token.byteLength);
+
+      request.writeUInt16LE(ProtocolVersion, 0x00);
+      request.set(token, 0x02);
+
+      const hello = this.#request('hello', 0n, Opcode.Hello, request);
+
+      this.is32Bit = hello.readUInt8(0x02) !== 0x00;
+      this.readOnly = hello.readUInt8(0x03) !== 0x00;
+      this.maxRequestSize = hello.readUInt32LE(0x04);
+      this.th32ProcessID = hello.readUInt32LE(0x08);
+      this.th32ParentProcessID = hello.readUInt32LE(0x0c);
+      this.cntThreads = hello.readUInt32LE(0x10);
+      this.pcPriClassBase = hello.readInt32LE(0x14);
+      this.szExeFile = hello.toString('utf8', 0x18);
+    } catch (error) {
+      this.#socket.close();
+
+      throw error;
+    }
+  }
+
+  /**
+   * Response bytes received but not yet parsed into a frame.
+   */
+  #inbox = Buffer.alloc(0);
+
+  /**
+   * Receive buffer.
+   */
+  readonly #Scratch65536 = Buffer.allocUnsafe(0x1_0000);
+
+  readonly #socket: Socket;
+
+  public readonly cntThreads: number;
+  public readonly hProcess = 0n;
+  public readonly is32Bit: boolean;
+
+  /**
+   * Largest request frame, and largest read batch, the server accepts.
+   */
+  public readonly maxRequestSize: number;
+
+  public readonly pcPriClassBase: number;
+
+  /**
+   * Whether the server refuses writes and protection changes.
+   */
+  public readonly readOnly: boolean;
+
+  public readonly szExeFile: string;
+  public readonly th32ParentProcessID: number;
+  public readonly th32ProcessID: number;
+
+  public alloc(): bigint {
+    throw new MemoryError('alloc', 0n, 'a memory server cannot allocate memory for a client');
+  }
+
+  public close(): void {
+    this.#socket.close();
+
+    return;
+  }
+
+  public execute(lpStartAddress: bigint): void {
+    throw new MemoryError('execute', lpStartAddress, 'a memory server cannot run code for a client');
+  }
+
+  /**
+   * Follows a pointer chain on the server in one round trip, like `Process.follow`.
+   * @param address Base address.
+   * @param offsets Pointer offsets.
+   * @returns Final address, or -1n if any pointer is null.
+   * @example
+   * ```ts
+   * const address = backend.follow(0x10000000n, [0x10n, 0x20n]);
+   * ```
+   */
+  public follow(address: bigint, offsets: readonly bigint[]): bigint {
+    const request = Buffer.allocUnsafe(0x0c + offsets.length * 0x08);
+
+    request.writeBigUInt64LE(address, 0x00);
+    request.writeUInt32LE(offsets.length, 0x08);
+    offsets.forEach((offset, index) => request.writeBigInt64LE(BigInt.asIntN(0x40, offset), 0x0c + index * 0x08));
+
+    return this.#request('follow', address, Opcode.Follow, request).readBigInt64LE(0x00);
+  }
+
+  public free(lpAddress: bigint): void {
+    throw new MemoryError('free', lpAddress, 'a memory server cannot free memory for a client');
+  }
+
+  public modules(): Module[] {
+    const response = this.#request('modules', 0n, Opcode.Modules);
+    const modules: Module[] = [];
+
+    for (let index = 0, offset = 0x04; index < response.readUInt32LE(0x00); index++) {
+      const modBaseAddr = response.readBigUInt64LE(offset);
+      const modBaseSize = response.readUInt32LE(offset + 0x08);
+      const nameLength = response.readUInt16LE(offset + 0x0c);
+      const szModule = response.toString('utf8', offset + 0x0e, offset + 0x0e + nameLength);
+      const pathLength = response.readUInt16LE(offset + 0x0e + nameLength);
+      const szExePath = response.toString('utf8', offset + 0x10 + nameLength, offset + 0x10 + nameLength + pathLength);
+
+      modules.push(Module.from({ modBaseAddr, modBaseSize, szExePath, szModule }));
+
+      offset += 0x10 + nameLength + pathLength;
+    }
+
+    return modules;
+  }
+
+  /**
+   * Runs a pattern scan on the server, like `Process.pattern`.
+   * @param needle Pattern in any `Process.pattern` notation.
+   * @param address Start address.
+   * @param length Number of bytes to search.
+   * @param all Whether to return every match rather than the first.
+   * @returns Matching addresses, in address order (at most one unless `all`).
+   * @example
+   * ```ts
+   * const [address] = backend.pattern('dead**ef', 0x10000000n, 0x1000);
+   * ```
+   */
+  public pattern(needle: string, address: bigint, length: number, all: boolean = false): bigint[] {
+    const request = Buffer.allocUnsafe(0x0d + needle.length);
+
+    request.writeBigUInt64LE(address, 0x00);
+    request.writeUInt32LE(length, 0x08);
+    request.writeUInt8(all ? 0x01 : 0x00, 0x0c);
+    request.write(needle, 0x0d, 'latin1');
+
+    const response = this.#request('pattern', address, Opcode.Pattern, request);
+
+    return Array.from({ length: response.readUInt32LE(0x00) }, (_, index) => response.readBigUInt64LE(0x04 + index * 0x08));
+  }
+
+  public protect(lpAddress: bigint, dwSize: bigint, flNewProtect: number): number {
+    const request = Buffer.allocUnsafe(0x14);
+
+    request.writeBigUInt64LE(lpAddress, 0x00);
+    request.writeBigUInt64LE(dwSize, 0x08);
+    request.writeUInt32LE(flNewProtect >>> 0, 0x10);
+
+    return this.#request('protect', lpAddress, Opcode.Protect, request).readUInt32LE(0x00);
+  }
+
+  public query(lpAddress: bigint, lpBuffer: Buffer): boolean {
+    const [region] = this.regions(lpAddress, 0x01);
+
+    if (region === undefined) {
+      return false;
+    }
+
+    region.buffer.copy(lpBuffer, 0x00, 0x00, 0x30);
+
+    return true;
+  }
+
+  public read(lpBaseAddress: bigint, lpBuffer: Pointer, nSize: bigint): void {
+    if (nSize === 0n) {
+      return;
+    }
+
+    const [result] = this.readMany([{ address: lpBaseAddress, length: Number(nSize) }]);
+
+    if (result instanceof MemoryError) {
+      throw result;
+    }
+
+    new Uint8Array(toArrayBuffer(lpBuffer, 0, Number(nSize))).set(result!);
+
+    return;
+  }
+
+  public write(lpBaseAddress: bigint, lpBuffer: Pointer, nSize: bigint): void {
+    if (nSize === 0n) {
+      return;
+    }
+
+    this.writeMany([{ address: lpBaseAddress, data: Buffer.from(toArrayBuffer(lpBuffer, 0, Number(nSize))) }]);
+
+    return;
+  }
+
+  /**
+   * Reads several ranges in one round trip. Each range succeeds or fails on its own.
+   * @param requests Ranges to read.
+   * @returns The bytes of each range, or the `MemoryError` it failed with, in request order.
+   * @throws MemoryError if the server refuses the whole batch (e.g. over its size limit).
+   * @example
+   * ```ts
+   * const [health, armor] = backend.readMany([{ address: 0x1000n, length: 4 }, { address: 0x1004n, length: 4 }]);
+   * ```
+   */
+  public readMany(requests: readonly { address: bigint; length: number }[]): (Buffer | MemoryError)[] {
+    const request = Buffer.allocUnsafe(0x04 + requests.length * 0x0c);
+
+    request.writeUInt32LE(requests.length, 0x00);
+
+    requests.forEach(({ address, length }, index) => {
+      request.writeBigUInt64LE(address, 0x04 + index * 0x0c);
+      request.writeUInt32LE(length, 0x0c + index * 0x0c);
+    });
+
+    const response = this.#request('read', requests[0]?.address ?? 0n, Opcode.Read, request);
+    const results: (Buffer | MemoryError)[] = [];
+
+    for (let index = 0, offset = 0; index < requests.length; index++) {
+      const { address, length } = requests[index]!;
+
+      if (response[offset] === 0x00) {
+        results.push(Buffer.from(response.subarray(offset + 0x01, offset + 0x01 + length)));
+
+        offset += 0x01 + length;
+
+        continue;
+      }
+
+      const messageLength = response.readUInt16LE(offset + 0x01);
+
+      results.push(new MemoryError('read', address, RemoteBackend.#reason(response.toString('utf8', offset + 0x03, offset + 0x03 + messageLength))));
+
+      offset += 0x03 + messageLength;
+    }
+
+    return results;
+  }
+
+  /**
+   * Walks the target's region map on the server, from an address.
+   * @param lpAddress Address to start at.
+   * @param limit Most regions to return; 0 for all of them.
+   * @returns The regions, in address order.
+   * @example
+   * ```ts
+   * const regions = backend.regions(0n);
+   * ```
+   */
+  public regions(lpAddress: bigint = 0n, limit: number = 0): MemoryBasicInformation[] {
+    const request = Buffer.allocUnsafe(0x0c);
+
+    request.writeBigUInt64LE(lpAddress, 0x00);
+    request.writeUInt32LE(limit, 0x08);
+
+    const response = this.#request('query', lpAddress, Opcode.Query, request);
+
+    return Array.from({ length: response.readUInt32LE(0x00) }, (_, index) => new MemoryBasicInformation(Buffer.from(response.subarray(0x04 + index * 0x30, 0x34 + index * 0x30))));
+  }
+
+  /**
+   * Writes several ranges in one round trip. The server stops at the first range that fails.
+   * @param requests Ranges and the bytes to write to each.
+   * @throws MemoryError if the server is read-only or a write fails.
+   * @example
+   * ```ts
+   * backend.writeMany([{ address: 0x1000n, data: Buffer.from([0x64, 0x00, 0x00, 0x00]) }]);
+   * ```
+   */
+  public writeMany(requests: readonly { address: bigint; data: Uint8Array }[]): void {
+    const parts: Buffer[] = [Buffer.allocUnsafe(0x04)];
+
+    parts[0]!.writeUInt32LE(requests.length, 0x00);
+
+    for (const { address, data } of requests) {
+      const header = Buffer.allocUnsafe(0x0c);
+
+      header.writeBigUInt64LE(address, 0x00);
+      header.writeUInt32LE(data.byteLength, 0x08);
+
+      parts.push(header, Buffer.from(data.buffer, data.byteOffset, data.byteLength));
+    }
+
+    this.#request('write', requests[0]?.address ?? 0n, Opcode.Write, Buffer.concat(parts));
+
+    return;
+  }
+
+  /**
+   * Strips the trailing period of a server message so it reads as a MemoryError reason.
+   */
+  static #reason(message: string): string {
+    return message.endsWith('.') ? message.slice(0, -1) : message;
+  }
+
+  /**
+   * Receives one complete response frame.
+   * @throws If the connection drops or the round trip times out.
+   */
+  #receive(): Buffer {
+    while (true) {
+      if (this.#inbox.byteLength >= 0x04) {
+        const length = this.#inbox.readUInt32LE(0x00);
+
+        if (this.#inbox.byteLength >= 0x04 + length) {
+          const body = this.#inbox.subarray(0x04, 0x04 + length);
+
+          this.#inbox = this.#inbox.subarray(0x04 + length);
+
+          return body;
+        }
+      }
+
+      const received = this.#socket.recv(this.#Scratch65536);
+
+      if (received === 0) {
+        throw new Error('The memory server closed the connection.');
+      }
+
+      this.#inbox = Buffer.concat([this.#inbox, this.#Scratch65536.subarray(0, received)]);
+    }
+  }
+
+  /**
+   * Sends one request and returns the result of a successful response.
+   * @throws MemoryError if the server refuses or fails the request.
+   */
+  #request(what: string, address: bigint, opcode: number, operands: Buffer = Buffer.alloc(0)): Buffer {
+    const header = Buffer.allocUnsafe(0x05);
+
+    header.writeUInt32LE(0x01 + operands.byteLength, 0x00);
+    header.writeUInt8(opcode, 0x04);
+
+    this.#socket.send(Buffer.concat([header, operands]));
+
+    const response = this.#receive();
+    const status = response[0x00]!;
+
+    if (status === Status.Ok) {
+      return response.subarray(0x01);
+    }
+
+    const message = response.toString('utf8', 0x01);
+
+    throw new MemoryError(what, address, status === Status.Failed ? RemoteBackend.#reason(message) : `${ReasonByStatus[status] ?? `status ${status}`} (${RemoteBackend.#reason(message)})`);
+  }
+}
+
+export default RemoteBackend;
+export { RemoteBackend };
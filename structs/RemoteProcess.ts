@@ -0,0 +1,149 @@
+import type { PatternString, ScanScope } from '../types/Process';
+import AccessError from './AccessError';
+import type MemoryBasicInformation from './MemoryBasicInformation';
+import type MemoryError from './MemoryError';
+import Process from './Process';
+import RemoteBackend from './RemoteBackend';
+import type Signature from './Signature';
+
+/**
+ * A `Process` attached to a target served by a `MemoryServer` on another machine.
+ *
+ * Every accessor works as it does locally, one round trip per call. `pattern`, `follow`, and
+ * `query` run on the server in a single round trip instead of one per region or pointer, and
+ * `readMany` / `writeMany` batch several ranges into one. Attached to a read-only server, the
+ * instance is `readOnly` and refuses writes locally with an `AccessError`.
+ *
+ * @example
+ * ```ts
+ * import { RemoteProcess } from 'bun-memory';
+ * const cs2 = new RemoteProcess('10.0.0.2:7878', { token: 'secret' });
+ * const health = cs2.i32(cs2.follow(cs2.modules['client.dll'].modBaseAddr + 0x1234n, [0x10n, 0x344n]));
+ * cs2.close();
+ * ```
+ */
+class RemoteProcess extends Process {
+  /**
+   * Connects to a memory server.
+   * @param address `host:port` of the server (IPv4 or `localhost`).
+   * @param options `token` the server expects, and `timeout`, the milliseconds a round trip may take
+   *   (defaults to 5000).
+   * @throws If the connection fails or the server rejects the token.
+   * @example
+   * ```ts
+   * const cs2 = new RemoteProcess('127.0.0.1:7878', { token: 'secret' });
+   * ```
+   */
+  constructor(address: string, options: { timeout?: number; token?: string } = {}) {
+    const backend = new RemoteBackend(address, options);
+
+    // A read-only server refuses writes anyway; refusing them here saves the round trip.
+    super(backend, { readOnly: backend.readOnly });
+  }
+
+  readonly #remote = this.backend as RemoteBackend;
+
+  /**
+   * Largest request frame, and largest `readMany` batch in bytes, the server accepts.
+   * @example
+   * ```ts
+   * console.log(cs2.maxRequestSize);
+   * ```
+   */
+  public get maxRequestSize(): number {
+    return this.#remote.maxRequestSize;
+  }
+
+  /**
+   * Follows a pointer chain on the server in one round trip.
+   * @param address Base address.
+   * @param offsets Array of pointer offsets.
+   * @returns Final address after following the chain, or -1n if any pointer is null.
+   * @example
+   * ```ts
+   * const myAddress = cs2.follow(0x10000000n, [0x10n, 0x20n]);
+   * ```
+   */
+  public override follow(address: bigint, offsets: readonly bigint[]): bigint {
+    return offsets.length === 0 ? address : this.#remote.follow(address, offsets);
+  }
+
+  /**
+   * Finds a byte pattern on the server in one round trip, in any `Process.pattern` notation. A
+   * compiled `Signature` is sent in its `toString()` form. A scan scope is resolved locally and each
+   * of its ranges scanned on the server.
+   * @param needle Pattern to search for (e.g., 'deadbeef', 'dead**ef', 'DE AD ? EF', 'DE A? ?? EF').
+   * @param address Start address to search.
+   * @param length Number of bytes to search.
+   * @param all If true, returns all matches as an array. If false or omitted, returns the first match or -1n.
+   * @returns Address of the pattern if found, or -1n. If all is true, returns an array of addresses.
+   * @example
+   * ```ts
+   * const address = cs2.pattern('dead**ef', 0x10000000n, 0x1000);
+   * const text = cs2.pattern('48 8B 05 ? ? ? ?', { module: 'client.dll', section: '.text' });
+   * ```
+   */
+  public override pattern<S extends string>(needle: PatternString<S> | Signature, address: bigint, length: number): bigint;
+  public override pattern<S extends string>(needle: PatternString<S> | Signature, address: bigint, length: number, all: false): bigint;
+  public override pattern<S extends string>(needle: PatternString<S> | Signature, address: bigint, length: number, all: true): bigint[];
+  public override pattern<S extends string>(needle: PatternString<S> | Signature, scope: ScanScope, all?: false): bigint;
+  public override pattern<S extends string>(needle: PatternString<S> | Signature, scope: ScanScope, all: true): bigint[];
+  public override pattern(needle: Signature | string, addressOrScope: ScanScope | bigint, lengthOrAll: boolean | number = false, all: boolean = false): bigint | bigint[] {
+    if (typeof addressOrScope !== 'bigint') {
+      return lengthOrAll === true ? super.pattern(needle, addressOrScope, true) : super.pattern(needle, addressOrScope);
+    }
+
+    const matches = this.#remote.pattern(String(needle), addressOrScope, Number(lengthOrAll), all);
+
+    return !all ? (matches[0] ?? -1n) : matches;
+  }
+
+  /**
+   * Enumerates all memory regions of the target in one round trip.
+   * @returns Array of memory regions.
+   * @example
+   * ```ts
+   * const regions = cs2.query();
+   * ```
+   */
+  public override query(): MemoryBasicInformation[] {
+    return this.#remote.regions();
+  }
+
+  /**
+   * Reads several ranges in one round trip. Each range succeeds or fails on its own.
+   * @param requests Ranges to read.
+   * @returns The bytes of each range, or the `MemoryError` it failed with, in request order.
+   * @throws MemoryError if the server refuses the whole batch (e.g. over `maxRequestSize`).
+   * @example
+   * ```ts
+   * const [health, armor] = cs2.readMany([{ address: pawn + 0x344n, length: 4 }, { address: pawn + 0x348n, length: 4 }]);
+   * ```
+   */
+  public readMany(requests: readonly { address: bigint; length: number }[]): (Buffer | MemoryError)[] {
+    return this.#remote.readMany(requests);
+  }
+
+  /**
+   * Writes several ranges in one round trip. The server stops at the first range that fails.
+   * @param requests Ranges and the bytes to write to each.
+   * @returns this
+   * @throws AccessError if the instance is read-only; MemoryError if a write fails.
+   * @example
+   * ```ts
+   * cs2.writeMany([{ address: pawn + 0x344n, data: new Int32Array([100]) }]);
+   * ```
+   */
+  public writeMany(requests: readonly { address: bigint; data: ArrayBufferView }[]): this {
+    if (this.readOnly) {
+      throw new AccessError('writeMany', []);
+    }
+
+    this.#remote.writeMany(requests.map(({ address, data }) => ({ address, data: new Uint8Array(data.buffer, data.byteOffset, data.byteLength) })));
+
+    return this;
+  }
+}
+
+export default RemoteProcess;
+export { RemoteProcess };
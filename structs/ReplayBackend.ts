@@ -0,0 +1,344 @@
+import { readFileSync } from 'node:fs';
+
+import { type Pointer, toArrayBuffer } from 'bun:ffi';
+
+import type { Backend } from '../types/Backend';
+import type { TraceEvent } from '../types/Trace';
+import MemoryError from './MemoryError';
+import Module from './Module';
+
+/**
+ * Granularity of the address-mode memory image.
+ */
+const PageSize = 0x1000;
+
+/**
+ * A page of the address-mode memory image, with a mask of which bytes the trace has seen.
+ */
+type Page = {
+  data: Uint8Array;
+  known: Uint8Array;
+};
+
+/**
+ * A `Process` backend that serves a trace recorded by `RecordingBackend`.
+ *
+ * In `'sequential'` mode (the default) every call must match the next recorded event — same
+ * operation, address, and size — and gets that event's result back, including recorded failures;
+ * any divergence throws `MemoryError`, which makes it a strict regression check. In `'address'`
+ * mode the recorded reads and writes are folded into a sparse memory image (later bytes win), so
+ * calls may come in any order: reads are served by address, writes update the image, and `query()`
+ * is answered from the recorded results for that address. The other calls are served in recorded
+ * order in both modes, and must match the event they get (a divergence throws `MemoryError`).
+ *
+ * @example
+ * ```ts
+ * const replay = new Process(new ReplayBackend('session.ndjson'));
+ * replay.follow(replay.modules['client.dll'].modBaseAddr + 0x1234n, [0x10n, 0x20n]);
+ * ```
+ */
+class ReplayBackend implements Backend {
+  /**
+   * Loads a trace.
+   * @param source Path of the NDJSON trace, or the parsed events.
+   * @param options `mode`: `'sequential'` (strict call order) or `'address'` (serve memory by address).
+   * @throws If the trace does not start with an attach event.
+   * @example
+   * ```ts
+   * const backend = new ReplayBackend('session.ndjson', { mode: 'address' });
+   * ```
+   */
+  constructor(source: readonly TraceEvent[] | string, options: { mode?: 'address' | 'sequential' } = {}) {
+    const events =
+      typeof source === 'string'
+        ? readFileSync(source, 'utf8')
+            .split('\n')
+            .filter((line) => line.length !== 0)
+            .map((line) => JSON.parse(line) as TraceEvent)
+        : [...source];
+
+    const attach = events.shift();
+
+    if (attach?.t !== 'attach') {
+      throw new Error('Trace does not start with an attach event.');
+    }
+
+    this.cntThreads = attach.cntThreads;
+    this.is32Bit = attach.is32Bit;
+    this.pcPriClassBase = attach.pcPriClassBase;
+    this.szExeFile = attach.szExeFile;
+    this.th32ParentProcessID = attach.th32ParentProcessID;
+    this.th32ProcessID = attach.th32ProcessID;
+
+    this.#mode = options.mode ?? 'sequential';
+
+    if (this.#mode === 'sequential') {
+      this.#events = events;
+
+      return;
+    }
+
+    for (const event of events) {
+      if ('error' in event && event.error !== undefined) {
+        if (event.t !== 'read' && event.t !== 'write' && event.t !== 'query') {
+          this.#queue(event).push(event);
+        }
+
+        continue;
+      }
+
+      switch (event.t) {
+        case 'query':
+          this.#queries.set(BigInt(event.address), event);
+          break;
+        case 'read':
+          this.#fill(BigInt(event.address), Buffer.from(event.data!, 'base64'));
+          break;
+        case 'write':
+          this.#fill(BigInt(event.address), Buffer.from(event.data, 'base64'));
+          break;
+        default:
+          this.#queue(event).push(event);
+      }
+    }
+  }
+
+  /**
+   * Remaining events, in order (sequential mode).
+   */
+  #events: TraceEvent[] = [];
+
+  /**
+   * Index of the next event to serve (sequential mode).
+   */
+  #index = 0;
+
+  readonly #mode: 'address' | 'sequential';
+
+  /**
+   * Sparse memory image keyed by page number (address mode).
+   */
+  readonly #pages = new Map<bigint, Page>();
+
+  /**
+   * Recorded query() results keyed by address (address mode).
+   */
+  readonly #queries = new Map<bigint, TraceEvent & { t: 'query' }>();
+
+  /**
+   * Recorded events of the other calls, per operation, in order (address mode).
+   */
+  readonly #queues = new Map<TraceEvent['t'], TraceEvent[]>();
+
+  public readonly cntThreads: number;
+  public readonly hProcess = 0n;
+  public readonly is32Bit: boolean;
+  public readonly pcPriClassBase: number;
+  public readonly szExeFile: string;
+  public readonly th32ParentProcessID: number;
+  public readonly th32ProcessID: number;
+
+  public alloc(dwSize: bigint, flProtect: number): bigint {
+    const event = this.#next('alloc', 0n, (event) => BigInt(event.size) === dwSize && event.protect === flProtect);
+
+    return BigInt(event.address!);
+  }
+
+  public close(): void {
+    return;
+  }
+
+  public execute(lpStartAddress: bigint): void {
+    this.#next('execute', lpStartAddress, (event) => BigInt(event.address) === lpStartAddress);
+
+    return;
+  }
+
+  public free(lpAddress: bigint): void {
+    this.#next('free', lpAddress, (event) => BigInt(event.address) === lpAddress);
+
+    return;
+  }
+
+  public modules(): Module[] {
+    const event = this.#next('modules', 0n, () => true, true);
+
+    return event.modules!.map(({ modBaseAddr, modBaseSize, szExePath, szModule }) => Module.from({ modBaseAddr: BigInt(modBaseAddr), modBaseSize, szExePath, szModule }));
+  }
+
+  public protect(lpAddress: bigint, dwSize: bigint, flNewProtect: number): number {
+    const event = this.#next('protect', lpAddress, (event) => BigInt(event.address) === lpAddress && BigInt(event.size) === dwSize && event.protect === flNewProtect);
+
+    return event.previous!;
+  }
+
+  public query(lpAddress: bigint, lpBuffer: Buffer): boolean {
+    const event = this.#mode === 'sequential' ? this.#next('query', lpAddress, (event) => BigInt(event.address) === lpAddress) : this.#queries.get(lpAddress);
+
+    if (event === undefined) {
+      throw new MemoryError('query', lpAddress, 'address was not queried in the trace');
+    }
+
+    if (event.mbi === null || event.mbi === undefined) {
+      return false;
+    }
+
+    lpBuffer.write(event.mbi, 0x00, 'base64');
+
+    return true;
+  }
+
+  public read(lpBaseAddress: bigint, lpBuffer: Pointer, nSize: bigint): void {
+    if (this.#mode === 'sequential') {
+      const event = this.#next('read', lpBaseAddress, (event) => BigInt(event.address) === lpBaseAddress && BigInt(event.size) === nSize);
+
+      if (nSize !== 0n) {
+        new Uint8Array(toArrayBuffer(lpBuffer, 0, Number(nSize))).set(Buffer.from(event.data!, 'base64'));
+      }
+
+      return;
+    }
+
+    if (nSize === 0n) {
+      return;
+    }
+
+    const target = new Uint8Array(toArrayBuffer(lpBuffer, 0, Number(nSize)));
+
+    for (let offset = 0; offset < target.byteLength; ) {
+      const address = lpBaseAddress + BigInt(offset);
+      const page = this.#pages.get(address / BigInt(PageSize));
+      const start = Number(address % BigInt(PageSize));
+      const length = Math.min(PageSize - start, target.byteLength - offset);
+
+      if (page === undefined || page.known.subarray(start, start + length).includes(0)) {
+        throw new MemoryError('read', address, 'address was not read in the trace');
+      }
+
+      target.set(page.data.subarray(start, start + length), offset);
+      offset += length;
+    }
+
+    return;
+  }
+
+  public threads(): number[] {
+    const event = this.#next('threads', 0n, () => true, true);
+
+    return [...event.threads!];
+  }
+
+  public write(lpBaseAddress: bigint, lpBuffer: Pointer, nSize: bigint): void {
+    const data = nSize === 0n ? new Uint8Array(0) : new Uint8Array(toArrayBuffer(lpBuffer, 0, Number(nSize)));
+
+    if (this.#mode === 'sequential') {
+      this.#next('write', lpBaseAddress, (event) => BigInt(event.address) === lpBaseAddress && event.data === Buffer.from(data).toString('base64'));
+
+      return;
+    }
+
+    this.#fill(lpBaseAddress, data);
+
+    return;
+  }
+
+  /**
+   * Lays bytes into the address-mode memory image.
+   */
+  #fill(address: bigint, data: Uint8Array): void {
+    for (let offset = 0; offset < data.byteLength; ) {
+      const at = address + BigInt(offset);
+      const pageNumber = at / BigInt(PageSize);
+      const start = Number(at % BigInt(PageSize));
+      const length = Math.min(PageSize - start, data.byteLength - offset);
+
+      let page = this.#pages.get(pageNumber);
+
+      if (page === undefined) {
+        page = { data: new Uint8Array(PageSize), known: new Uint8Array(PageSize) };
+
+        this.#pages.set(pageNumber, page);
+      }
+
+      page.data.set(data.subarray(offset, offset + length), start);
+      page.known.fill(1, start, start + length);
+
+      offset += length;
+    }
+
+    return;
+  }
+
+  /**
+   * Takes the next recorded event of an operation and checks that the call matches it.
+   * @param sticky In address mode, keep serving the last event once the queue runs dry (snapshots).
+   * @throws MemoryError if the trace has no such event, the call diverges, or the recorded call failed.
+   */
+  #next<T extends TraceEvent['t']>(t: T, address: bigint, matches: (event: TraceEvent & { t: T }) => boolean, sticky = false): TraceEvent & { t: T } {
+    let event: TraceEvent | undefined;
+
+    if (this.#mode === 'sequential') {
+      event = this.#events[this.#index];
+
+      if (event === undefined) {
+        throw new MemoryError(t, address, 'the trace has ended');
+      }
+
+      if (event.t !== t || !matches(event as TraceEvent & { t: T })) {
+        throw new MemoryError(t, address, `trace diverged at line ${this.#index + 0x02}: expected ${ReplayBackend.#describe(event)}`);
+      }
+
+      this.#index++;
+    } else {
+      const queue = this.#queue({ t } as TraceEvent);
+
+      event = queue[0];
+
+      if (event === undefined) {
+        throw new MemoryError(t, address, `the trace has no further ${t} events`);
+      }
+
+      if (!matches(event as TraceEvent & { t: T })) {
+        throw new MemoryError(t, address, `trace diverged: the next recorded ${t} is ${ReplayBackend.#describe(event)}`);
+      }
+
+      if (!sticky || queue.length !== 1) {
+        queue.shift();
+      }
+    }
+
+    if (event.t !== 'attach' && event.error !== undefined) {
+      throw new MemoryError(t, address, `recorded failure: ${event.error}`);
+    }
+
+    return event as TraceEvent & { t: T };
+  }
+
+  /**
+   * Returns the address-mode queue for an event's operation.
+   */
+  #queue(event: TraceEvent): TraceEvent[] {
+    let queue = this.#queues.get(event.t);
+
+    if (queue === undefined) {
+      queue = [];
+
+      this.#queues.set(event.t, queue);
+    }
+
+    return queue;
+  }
+
+  /**
+   * Summarizes an event for divergence messages.
+   */
+  static #describe(event: TraceEvent): string {
+    const address = 'address' in event && event.address !== undefined ? ` at ${event.address}` : '';
+    const size = 'size' in event ? ` of ${event.size} bytes` : '';
+
+    return `${event.t}${size}${address}`;
+  }
+}
+
+export default ReplayBackend;
+export { ReplayBackend };
@@ -0,0 +1,82 @@
+import type { SignatureResolver } from '../types/Signature';
+
+/**
+ * Represents a signature resolver that could not produce an address.
+ *
+ * `step` tells which part failed: undefined when the module, the section, or the pattern match was
+ * missing, otherwise the index of the failing entry in `resolver.steps`. A failed read is kept as
+ * the `cause`.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   cs2.resolve({ module: 'client.dll', pattern: '48 8B 05 ? ? ? ?', steps: [add(3), rip(4), deref()] });
+ * } catch (error) {
+ *   if (error instanceof ResolveError) {
+ *     console.log(error.step, error.address?.toString(16));
+ *   }
+ * }
+ * ```
+ */
+class ResolveError extends Error {
+  /**
+   * Address the failing step started from, or undefined when nothing was matched.
+   * @example
+   * ```ts
+   * if (error instanceof ResolveError) {
+   *   console.log(error.address?.toString(16));
+   * }
+   * ```
+   */
+  public readonly address: bigint | undefined;
+
+  /**
+   * The resolver that failed.
+   * @example
+   * ```ts
+   * if (error instanceof ResolveError) {
+   *   console.log(error.resolver.module, String(error.resolver.pattern));
+   * }
+   * ```
+   */
+  public readonly resolver: SignatureResolver;
+
+  /**
+   * Index of the failing step in `resolver.steps`, or undefined when the match itself failed.
+   * @example
+   * ```ts
+   * if (error instanceof ResolveError && error.step !== undefined) {
+   *   console.log(error.resolver.steps![error.step]);
+   * }
+   * ```
+   */
+  public readonly step: number | undefined;
+
+  /**
+   * Creates a new ResolveError.
+   * @param resolver The resolver that failed.
+   * @param step Index of the failing step, or undefined when the match failed.
+   * @param address Address the failing step started from.
+   * @param reason Why it failed.
+   * @param cause The underlying error, if any.
+   * @example
+   * ```ts
+   * throw new ResolveError(resolver, 2, 0x7ffa_0000_1234n, 'null pointer');
+   * ```
+   */
+  constructor(resolver: SignatureResolver, step: number | undefined, address: bigint | undefined, reason: string, cause?: unknown) {
+    const where = step === undefined ? '' : ` at step ${step} (${resolver.steps?.[step]?.type}) from 0x${address?.toString(16)}`;
+
+    super(`Resolving ${String(resolver.pattern)} in ${resolver.module} failed${where}: ${reason}.`, cause === undefined ? undefined : { cause });
+
+    this.address = address;
+    this.name = 'ResolveError';
+    this.resolver = resolver;
+    this.step = step;
+
+    Error.captureStackTrace?.(this, ResolveError);
+  }
+}
+
+export default ResolveError;
+export { ResolveError };
@@ -0,0 +1,351 @@
+import type { ResolveStep } from '../types/Signature';
+
+/**
+ * A run of fully specified bytes within a signature.
+ */
+type Run = {
+  buffer: Buffer;
+  index: number;
+};
+
+/**
+ * A byte of a signature with one known nibble.
+ */
+type Nibble = {
+  index: number;
+  mask: number;
+  value: number;
+};
+
+/**
+ * A byte signature, parsed and validated once and reusable across any number of scans.
+ *
+ * Three notations are accepted:
+ * - Contiguous hex with `**` or `??` for any byte: `488b05????????4885c0`.
+ * - IDA / x64dbg style, separated by whitespace, with `?` (or `??`) for any byte and `?` for either
+ *   nibble: `48 8B 05 ? ? ? ? 48 85 C0`, `4? ?F`.
+ * - Code style, a byte string and a mask of `x` (match) and `?` (any byte):
+ *   `new Signature('\x48\x8B\x05\x00\x00\x00\x00', 'xxx????')`. The bytes may also be a Buffer, or
+ *   text holding literal `\x48` escapes as copied from source files.
+ *
+ * The longest run of fully specified bytes anchors the search (found with `Buffer.indexOf`); the
+ * other runs and the half-known bytes are compared at each anchor hit.
+ *
+ * @example
+ * ```ts
+ * const signature = new Signature('48 8B 05 ? ? ? ? 48 85 C0');
+ * for (const client of clients) {
+ *   const address = cs2.pattern(signature, client.modBaseAddr, client.modBaseSize);
+ * }
+ * ```
+ */
+class Signature {
+  /**
+   * Parses a signature.
+   * @param pattern Pattern in contiguous or whitespace-separated notation.
+   * @throws If the pattern is malformed or has no fully specified byte.
+   * @example
+   * ```ts
+   * const signature = new Signature('48 8B 0D ? ? ? ? E8 ? ? ? ? 4? 8B');
+   * ```
+   */
+  constructor(pattern: string);
+  /**
+   * Builds a signature from code-style bytes and mask.
+   * @param bytes Byte values (a Buffer, a string of `\x00`–`\xff` characters, or literal `\x..` escapes).
+   * @param mask One character per byte: `x` to match the byte, `?` for any byte.
+   * @throws If the mask is malformed, its length differs from the bytes', or it matches no byte.
+   * @example
+   * ```ts
+   * const signature = new Signature('\x48\x8B\x05\x00\x00\x00\x00\xC3', 'xxx????x');
+   * ```
+   */
+  constructor(bytes: Buffer | string, mask: string);
+  constructor(patternOrBytes: Buffer | string, mask?: string) {
+    const [bytes, masks] = mask === undefined ? Signature.#parse(String(patternOrBytes)) : Signature.#code(patternOrBytes, mask);
+
+    if (!masks.includes(0xff)) {
+      throw new Error(`Invalid signature ${mask === undefined ? `"${String(patternOrBytes)}"` : `mask "${mask}"`}: at least one byte must be fully specified.`);
+    }
+
+    this.bytes = bytes;
+    this.length = bytes.length;
+    this.mask = masks;
+
+    const runs: Run[] = [];
+    const nibbles: Nibble[] = [];
+
+    for (let index = 0x00; index < masks.length; index++) {
+      if (masks[index] === 0xff) {
+        let end = index + 0x01;
+
+        while (masks[end] === 0xff) {
+          end++;
+        }
+
+        runs.push({ buffer: bytes.subarray(index, end), index });
+
+        index = end - 0x01;
+      } else if (masks[index] !== 0x00) {
+        nibbles.push({ index, mask: masks[index]!, value: bytes[index]! });
+      }
+    }
+
+    runs.sort((a, b) => b.buffer.length - a.buffer.length);
+
+    this.anchor = runs.shift()!;
+    this.#nibbles = nibbles;
+    this.#runs = runs;
+  }
+
+  /**
+   * Regex patterns for the notations.
+   */
+  static readonly #Patterns = {
+    Escapes: /^(?:\\x[0-9A-Fa-f]{2})+$/,
+    Hex: /^[0-9A-Fa-f]$/,
+    Mask: /^[x?]*$/,
+    Whitespace: /\s+/,
+  };
+
+  /**
+   * Bytes with one known nibble.
+   */
+  readonly #nibbles: readonly Nibble[];
+
+  /**
+   * The other runs of fully specified bytes.
+   */
+  readonly #runs: readonly Run[];
+
+  /** The longest run of fully specified bytes (the first if several tie) and its offset in the signature; scans search for it first. */
+  public readonly anchor: { readonly buffer: Buffer; readonly index: number };
+  /** Byte values; wildcard bits are zero. */
+  public readonly bytes: Buffer;
+  /** Number of bytes the signature spans. */
+  public readonly length: number;
+  /** Per-byte masks: 0xff to match the byte, 0xf0 or 0x0f for one nibble, 0x00 for any byte. */
+  public readonly mask: Buffer;
+
+  /**
+   * A resolver step that adds an offset to the address.
+   * @param value Offset to add; may be negative.
+   * @returns The step.
+   * @example
+   * ```ts
+   * const { add, deref, rip } = Signature;
+   * cs2.resolve({ module: 'client.dll', pattern: '48 8B 05 ? ? ? ? 48 85 C0', steps: [add(3), rip(4), deref(), add(0x10)] });
+   * ```
+   */
+  public static add(value: number): ResolveStep {
+    return { type: 'add', value };
+  }
+
+  /**
+   * A resolver step that reads the pointer at the address, 4 or 8 bytes wide by `is32Bit`.
+   * @returns The step.
+   * @example
+   * ```ts
+   * cs2.resolve({ module: 'client.dll', pattern: 'A1 ? ? ? ? 85 C0', steps: [Signature.add(1), Signature.deref(), Signature.deref()] });
+   * ```
+   */
+  public static deref(): ResolveStep {
+    return { type: 'deref' };
+  }
+
+  /**
+   * A resolver step that turns the rel32 displacement at the address into the address it points
+   * to: `address + length + displacement`.
+   * @param length Bytes from the displacement to the end of the instruction (4 unless an immediate follows).
+   * @returns The step.
+   * @example
+   * ```ts
+   * // 83 3D <rel32> 00: cmp dword ptr [rip+rel32], 0 — one immediate byte follows the displacement
+   * cs2.resolve({ module: 'client.dll', pattern: '83 3D ? ? ? ? 00 74', steps: [Signature.add(2), Signature.rip(5)] });
+   * ```
+   */
+  public static rip(length: number = 0x04): ResolveStep {
+    return { length, type: 'rip' };
+  }
+
+  /**
+   * Finds the first match in a buffer.
+   * @param haystack Bytes to search.
+   * @param start Offset to start at.
+   * @returns Offset of the first match at or after `start`, or -1.
+   * @example
+   * ```ts
+   * const offset = new Signature('E8 ? ? ? ? 48 8B D8').indexOf(text);
+   * ```
+   */
+  public indexOf(haystack: Buffer, start: number = 0): number {
+    const anchor = this.anchor;
+    const last = haystack.length - this.length;
+
+    for (let hit = haystack.indexOf(anchor.buffer, Math.max(start, 0) + anchor.index); hit !== -1; hit = haystack.indexOf(anchor.buffer, hit + 0x01)) {
+      const base = hit - anchor.index;
+
+      if (base > last) {
+        break;
+      }
+
+      if (this.#matchesAt(haystack, base)) {
+        return base;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Tests whether the signature matches at an offset.
+   * @param haystack Bytes to test.
+   * @param offset Offset of the first signature byte.
+   * @returns True when every byte matches and the signature fits in the buffer.
+   * @example
+   * ```ts
+   * new Signature('E8 ? ? ? ? 90').matchesAt(Buffer.from('e80000000090', 'hex'), 0); // true
+   * ```
+   */
+  public matchesAt(haystack: Buffer, offset: number): boolean {
+    const { buffer, index } = this.anchor;
+
+    if (offset < 0x00 || offset + this.length > haystack.length) {
+      return false;
+    }
+
+    return haystack.compare(buffer, 0x00, buffer.length, offset + index, offset + index + buffer.length) === 0x00 && this.#matchesAt(haystack, offset);
+  }
+
+  /**
+   * Formats the signature in IDA / x64dbg notation: `?` for any byte, `4?` / `?F` for one nibble.
+   * @returns The signature, e.g. `48 8B 05 ? ? ? ? 4? ?F`.
+   * @example
+   * ```ts
+   * new Signature('\x48\x8B\x05\x00', 'xxx?').toString(); // '48 8B 05 ?'
+   * ```
+   */
+  public toString(): string {
+    const tokens: string[] = [];
+
+    for (let index = 0x00; index < this.length; index++) {
+      const mask = this.mask[index]!;
+
+      if (mask === 0x00) {
+        tokens.push('?');
+
+        continue;
+      }
+
+      const hex = this.bytes[index]!.toString(16).toUpperCase().padStart(0x02, '0');
+
+      tokens.push(`${(mask & 0xf0) !== 0x00 ? hex[0x00] : '?'}${(mask & 0x0f) !== 0x00 ? hex[0x01] : '?'}`);
+    }
+
+    return tokens.join(' ');
+  }
+
+  /**
+   * Reads code-style bytes and mask.
+   */
+  static #code(source: Buffer | string, mask: string): [bytes: Buffer, masks: Buffer] {
+    let bytes: Buffer;
+
+    if (typeof source !== 'string') {
+      bytes = Buffer.from(source);
+    } else if (Signature.#Patterns.Escapes.test(source)) {
+      bytes = Buffer.from(source.replaceAll('\\x', ''), 'hex');
+    } else {
+      if ([...source].some((character) => character.charCodeAt(0x00) > 0xff)) {
+        throw new Error('Invalid signature bytes: every character must be in \\x00-\\xff.');
+      }
+
+      bytes = Buffer.from(source, 'latin1');
+    }
+
+    if (!Signature.#Patterns.Mask.test(mask)) {
+      throw new Error(`Invalid signature mask "${mask}": use x to match a byte and ? for any byte.`);
+    }
+
+    if (mask.length !== bytes.length) {
+      throw new Error(`Invalid signature mask "${mask}": ${mask.length} characters for ${bytes.length} bytes.`);
+    }
+
+    const masks = Buffer.from([...mask].map((character) => (character === 'x' ? 0xff : 0x00)));
+
+    for (let index = 0x00; index < bytes.length; index++) {
+      bytes[index]! &= masks[index]!;
+    }
+
+    return [bytes, masks];
+  }
+
+  /**
+   * Parses contiguous or whitespace-separated notation.
+   */
+  static #parse(pattern: string): [bytes: Buffer, masks: Buffer] {
+    const values: number[] = [];
+    const masks: number[] = [];
+
+    const tokens = pattern.trim().split(Signature.#Patterns.Whitespace);
+
+    for (const token of tokens) {
+      if (token === '?' || token === '*') {
+        values.push(0x00);
+        masks.push(0x00);
+
+        continue;
+      }
+
+      if (token.length === 0x00 || token.length % 0x02 !== 0x00) {
+        throw new Error(`Invalid signature "${pattern}": "${token}" is not a byte; use two hex digits, ? or * for a nibble, or a lone ? for a byte.`);
+      }
+
+      for (let index = 0x00; index < token.length; index += 0x02) {
+        let mask = 0x00;
+        let value = 0x00;
+
+        for (const [offset, shift] of [
+          [0x00, 0x04],
+          [0x01, 0x00],
+        ] as const) {
+          const character = token[index + offset]!;
+
+          if (Signature.#Patterns.Hex.test(character)) {
+            mask |= 0x0f << shift;
+            value |= Number.parseInt(character, 0x10) << shift;
+          } else if (character !== '?' && character !== '*') {
+            throw new Error(`Invalid signature "${pattern}": "${character}" is neither a hex digit nor a wildcard.`);
+          }
+        }
+
+        values.push(value);
+        masks.push(mask);
+      }
+    }
+
+    return [Buffer.from(values), Buffer.from(masks)];
+  }
+
+  /**
+   * Compares everything but the anchor at an offset.
+   */
+  #matchesAt(haystack: Buffer, base: number): boolean {
+    for (const { buffer, index } of this.#runs) {
+      if (haystack.compare(buffer, 0x00, buffer.length, base + index, base + index + buffer.length) !== 0x00) {
+        return false;
+      }
+    }
+
+    for (const { index, mask, value } of this.#nibbles) {
+      if ((haystack[base + index]! & mask) !== value) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+}
+
+export default Signature;
+export { Signature };
@@ -0,0 +1,168 @@
+import Signature from './Signature';
+
+/**
+ * Many signatures searched in one pass over a buffer.
+ *
+ * The anchors the signatures pick (their longest fully specified runs) form an Aho–Corasick
+ * automaton, expanded into a 256-way transition table so the scan costs one table lookup per byte
+ * however many signatures there are. At each anchor hit the rest of that signature is compared in
+ * place. Build it once and pass it to `process.scan()` as often as needed.
+ *
+ * @example
+ * ```ts
+ * const scanner = new SignatureScanner({
+ *   dwEntityList: '48 8B 0D ? ? ? ? 48 89 7C 24',
+ *   dwLocalPlayerPawn: new Signature('\x48\x8B\x05\x00\x00\x00\x00\x48\x85\xC0', 'xxx????xxx'),
+ * });
+ * scanner.search(text, (index, offset) => console.log(scanner.names[index], offset));
+ * ```
+ */
+class SignatureScanner {
+  /**
+   * Compiles the automaton.
+   * @param signatures Signatures by name, compiled or in any `pattern()` notation.
+   * @throws If a signature string is malformed; the error names the signature.
+   * @example
+   * ```ts
+   * const scanner = new SignatureScanner({ entry: '48 8B 05 ? ? ? ? C3', vtable: '48 8D 05 ? ? ? ? 48 89 01' });
+   * ```
+   */
+  constructor(signatures: Readonly<Record<string, Signature | string>>) {
+    this.names = Object.freeze(Object.keys(signatures));
+    this.signatures = Object.freeze(
+      this.names.map((name) => {
+        const signature = signatures[name]!;
+
+        try {
+          return typeof signature === 'string' ? new Signature(signature) : signature;
+        } catch (error) {
+          throw new Error(`Invalid signature ${name}: ${(error as Error).message}`, { cause: error });
+        }
+      }),
+    );
+    this.length = this.signatures.reduce((length, signature) => Math.max(length, signature.length), 0x00);
+
+    // A trie of the anchors…
+    const children: Map<number, number>[] = [new Map()];
+    const outputs: number[][] = [[]];
+
+    this.signatures.forEach(({ anchor }, index) => {
+      let node = 0x00;
+
+      for (const byte of anchor.buffer) {
+        let next = children[node]!.get(byte);
+
+        if (next === undefined) {
+          next = children.length;
+
+          children.push(new Map());
+          outputs.push([]);
+
+          children[node]!.set(byte, next);
+        }
+
+        node = next;
+      }
+
+      outputs[node]!.push(index);
+    });
+
+    // …turned breadth-first into a transition table, each node's failure link resolved through its
+    // parent's. A node inherits the outputs of its failure target, which is shallower and so done.
+    const table = new Int32Array(children.length * 0x100);
+    const failure = new Int32Array(children.length);
+    const queue: number[] = [];
+
+    for (const [byte, child] of children[0x00]!) {
+      table[byte] = child;
+
+      queue.push(child);
+    }
+
+    for (let head = 0x00; head < queue.length; head++) {
+      const node = queue[head]!;
+      const fallback = failure[node]! << 0x08;
+
+      outputs[node]!.push(...outputs[failure[node]!]!);
+
+      for (let byte = 0x00; byte < 0x100; byte++) {
+        const child = children[node]!.get(byte);
+
+        if (child === undefined) {
+          table[(node << 0x08) | byte] = table[fallback | byte]!;
+
+          continue;
+        }
+
+        failure[child] = table[fallback | byte]!;
+        table[(node << 0x08) | byte] = child;
+
+        queue.push(child);
+      }
+    }
+
+    this.#outputs = outputs.map((output) => (output.length === 0x00 ? undefined : output));
+    this.#table = table;
+  }
+
+  /**
+   * Signature indices ending at each node, or undefined for nodes that end none.
+   */
+  readonly #outputs: readonly (readonly number[] | undefined)[];
+
+  /**
+   * Next node by `node << 8 | byte`.
+   */
+  readonly #table: Int32Array;
+
+  /** Bytes spanned by the longest signature. */
+  public readonly length: number;
+  /** Signature names, in input order; `search` reports indices into this list. */
+  public readonly names: readonly string[];
+  /** The compiled signatures, parallel to `names`. */
+  public readonly signatures: readonly Signature[];
+
+  /**
+   * Finds every match of every signature in a buffer, in order of where each anchor ends.
+   * @param haystack Bytes to search.
+   * @param visit Called with the signature's index in `names` and the match offset.
+   * @param end Report only matches starting before this offset (defaults to the buffer length);
+   *   chunked scans use it to leave matches in the overlap to the next chunk.
+   * @example
+   * ```ts
+   * const matches = scanner.names.map((): number[] => []);
+   * scanner.search(text, (index, offset) => matches[index]!.push(offset));
+   * ```
+   */
+  public search(haystack: Buffer, visit: (index: number, offset: number) => void, end: number = haystack.length): void {
+    const outputs = this.#outputs;
+    const signatures = this.signatures;
+    const table = this.#table;
+
+    let node = 0x00;
+
+    for (let position = 0x00; position < haystack.length; position++) {
+      node = table[(node << 0x08) | haystack[position]!]!;
+
+      const output = outputs[node];
+
+      if (output === undefined) {
+        continue;
+      }
+
+      for (const index of output) {
+        const signature = signatures[index]!;
+        const offset = position + 0x01 - signature.anchor.buffer.length - signature.anchor.index;
+
+        if (offset < end && signature.matchesAt(haystack, offset)) {
+          visit(index, offset);
+        }
+      }
+    }
+
+    return;
+  }
+}
+
+export default SignatureScanner;
+export { SignatureScanner };
@@ -0,0 +1,281 @@
+import { dlopen, type FFIFunction, FFIType, type Library, ptr, read } from 'bun:ffi';
+
+const LibCSymbols = {
+  __errno_location: { args: [], returns: FFIType.ptr },
+  close: { args: [FFIType.i32], returns: FFIType.i32 },
+  connect: { args: [FFIType.i32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+  recv: { args: [FFIType.i32, FFIType.ptr, FFIType.u64, FFIType.i32], returns: FFIType.i64 },
+  send: { args: [FFIType.i32, FFIType.ptr, FFIType.u64, FFIType.i32], returns: FFIType.i64 },
+  setsockopt: { args: [FFIType.i32, FFIType.i32, FFIType.i32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+  socket: { args: [FFIType.i32, FFIType.i32, FFIType.i32], returns: FFIType.i32 },
+} as const satisfies Record<string, FFIFunction>;
+
+const Ws2_32Symbols = {
+  WSAGetLastError: { args: [], returns: FFIType.i32 },
+  WSAStartup: { args: [FFIType.u16, FFIType.ptr], returns: FFIType.i32 },
+  closesocket: { args: [FFIType.u64], returns: FFIType.i32 },
+  connect: { args: [FFIType.u64, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
+  recv: { args: [FFIType.u64, FFIType.ptr, FFIType.i32, FFIType.i32], returns: FFIType.i32 },
+  send: { args: [FFIType.u64, FFIType.ptr, FFIType.i32, FFIType.i32], returns: FFIType.i32 },
+  setsockopt: { args: [FFIType.u64, FFIType.i32, FFIType.i32, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
+  socket: { args: [FFIType.i32, FFIType.i32, FFIType.i32], returns: FFIType.u64 },
+} as const satisfies Record<string, FFIFunction>;
+
+const AF_INET = 0x02;
+const EINTR = 0x04;
+const INVALID_SOCKET = 0xffff_ffff_ffff_ffffn;
+const IPPROTO_TCP = 0x06;
+const SOCK_STREAM = 0x01;
+const TCP_NODELAY = 0x01;
+
+/**
+ * libc socket symbols (Linux), bound on first use.
+ */
+let libc: Library<typeof LibCSymbols>['symbols'] | undefined;
+
+/**
+ * Winsock symbols (Windows), bound and started on first use.
+ */
+let ws2_32: Library<typeof Ws2_32Symbols>['symbols'] | undefined;
+
+/**
+ * A blocking IPv4 TCP client socket.
+ *
+ * `Backend` calls are synchronous, so backends that talk to a target over the network cannot use
+ * Bun's event-loop sockets; this drives the OS socket API directly through `bun:ffi` (libc on Linux,
+ * Winsock on Windows). Nagle is disabled, since request/response protocols send many small packets,
+ * and a timeout bounds every send and receive so a dead peer cannot hang the caller.
+ *
+ * @example
+ * ```ts
+ * const socket = new Socket('127.0.0.1', 1234);
+ * socket.send(Buffer.from('$?#3f'));
+ * const length = socket.recv(Buffer.alloc(0x100));
+ * socket.close();
+ * ```
+ */
+class Socket {
+  /**
+   * Connects to a TCP endpoint.
+   * @param host IPv4 address (or `localhost`).
+   * @param port TCP port.
+   * @param options `timeout`: milliseconds a send or receive may block (defaults to 5000).
+   * @throws If the platform is unsupported, the host is not an IPv4 address, or the connection fails.
+   * @example
+   * ```ts
+   * const socket = new Socket('127.0.0.1', 1234, { timeout: 1000 });
+   * ```
+   */
+  constructor(host: string, port: number, options: { timeout?: number } = {}) {
+    const octets = (host === 'localhost' ? '127.0.0.1' : host).split('.').map(Number);
+
+    if (octets.length !== 0x04 || octets.some((octet) => !Number.isInteger(octet) || octet < 0 || octet > 0xff)) {
+      throw new TypeError(`Expected an IPv4 address, got ${host}.`);
+    }
+
+    this.#name = `${host}:${port}`;
+
+    const timeout = options.timeout ?? 5_000;
+
+    // struct sockaddr_in: family, port (big-endian), address, padding.
+    const sockaddr = Buffer.alloc(0x10);
+
+    sockaddr.writeUInt16LE(AF_INET, 0x00);
+    sockaddr.writeUInt16BE(port, 0x02);
+    sockaddr.set(octets, 0x04);
+
+    const nodelay = Buffer.alloc(0x04);
+
+    nodelay.writeInt32LE(0x01);
+
+    if (process.platform === 'win32') {
+      if (ws2_32 === undefined) {
+        const symbols = dlopen('ws2_32.dll', Ws2_32Symbols).symbols;
+
+        if (symbols.WSAStartup(0x0202, ptr(Buffer.alloc(0x190 /* sizeof(WSADATA) */))) !== 0) {
+          throw new Error('WSAStartup failed.');
+        }
+
+        ws2_32 = symbols;
+      }
+
+      const socket = ws2_32.socket(AF_INET, SOCK_STREAM, IPPROTO_TCP) as bigint;
+
+      if (socket === INVALID_SOCKET) {
+        throw new Error(`socket failed (WSA error ${ws2_32.WSAGetLastError()}).`);
+      }
+
+      this.#socket = socket;
+
+      // SO_RCVTIMEO / SO_SNDTIMEO take a DWORD of milliseconds on Windows.
+      const dwTimeout = Buffer.alloc(0x04);
+
+      dwTimeout.writeUInt32LE(timeout);
+
+      ws2_32.setsockopt(socket, 0xffff /* SOL_SOCKET */, 0x1006 /* SO_RCVTIMEO */, ptr(dwTimeout), 0x04);
+      ws2_32.setsockopt(socket, 0xffff /* SOL_SOCKET */, 0x1005 /* SO_SNDTIMEO */, ptr(dwTimeout), 0x04);
+      ws2_32.setsockopt(socket, IPPROTO_TCP, TCP_NODELAY, ptr(nodelay), 0x04);
+
+      if (ws2_32.connect(socket, ptr(sockaddr), sockaddr.byteLength) !== 0) {
+        const error = ws2_32.WSAGetLastError();
+
+        this.close();
+
+        throw new Error(`connect to ${this.#name} failed (WSA error ${error}).`);
+      }
+
+      return;
+    }
+
+    if (process.platform !== 'linux') {
+      throw new Error(`Socket is not supported on ${process.platform}.`);
+    }
+
+    libc ??= dlopen('libc.so.6', LibCSymbols).symbols;
+
+    const socket = libc.socket(AF_INET, SOCK_STREAM, IPPROTO_TCP);
+
+    if (socket === -1) {
+      throw new Error(`socket failed (errno ${Socket.#errno()}).`);
+    }
+
+    this.#socket = socket;
+
+    // SO_RCVTIMEO / SO_SNDTIMEO take a struct timeval on Linux.
+    const timeval = Buffer.alloc(0x10);
+
+    timeval.writeBigInt64LE(BigInt(Math.floor(timeout / 1_000)), 0x00);
+    timeval.writeBigInt64LE(BigInt((timeout % 1_000) * 1_000), 0x08);
+
+    libc.setsockopt(socket, 0x01 /* SOL_SOCKET */, 0x14 /* SO_RCVTIMEO */, ptr(timeval), timeval.byteLength);
+    libc.setsockopt(socket, 0x01 /* SOL_SOCKET */, 0x15 /* SO_SNDTIMEO */, ptr(timeval), timeval.byteLength);
+    libc.setsockopt(socket, IPPROTO_TCP, TCP_NODELAY, ptr(nodelay), 0x04);
+
+    if (libc.connect(socket, ptr(sockaddr), sockaddr.byteLength) !== 0) {
+      const error = Socket.#errno();
+
+      this.close();
+
+      throw new Error(`connect to ${this.#name} failed (errno ${error}).`);
+    }
+  }
+
+  /**
+   * `host:port`, for error messages.
+   */
+  readonly #name: string;
+
+  /**
+   * The socket descriptor (a file descriptor on Linux, a SOCKET on Windows), or undefined once closed.
+   */
+  #socket: bigint | number | undefined;
+
+  /**
+   * Closes the connection. Safe to call more than once.
+   * @example
+   * ```ts
+   * socket.close();
+   * ```
+   */
+  public close(): void {
+    if (this.#socket === undefined) {
+      return;
+    }
+
+    if (typeof this.#socket === 'bigint') {
+      ws2_32!.closesocket(this.#socket);
+    } else {
+      libc!.close(this.#socket);
+    }
+
+    this.#socket = undefined;
+
+    return;
+  }
+
+  /**
+   * Receives up to `buffer.byteLength` bytes, blocking until at least one arrives.
+   * @param buffer Destination.
+   * @returns Bytes received; 0 once the peer has closed the connection.
+   * @throws If the socket is closed, the receive times out, or it fails.
+   * @example
+   * ```ts
+   * const length = socket.recv(buffer);
+   * ```
+   */
+  public recv(buffer: Buffer): number {
+    const socket = this.#open();
+
+    while (true) {
+      const received = typeof socket === 'bigint' ? ws2_32!.recv(socket, ptr(buffer), buffer.byteLength, 0x00) : Number(libc!.recv(socket, ptr(buffer), BigInt(buffer.byteLength), 0x00));
+
+      if (received >= 0) {
+        return received;
+      }
+
+      const error = typeof socket === 'bigint' ? ws2_32!.WSAGetLastError() : Socket.#errno();
+
+      if (typeof socket !== 'bigint' && error === EINTR) {
+        continue;
+      }
+
+      throw new Error(`recv from ${this.#name} failed (${typeof socket === 'bigint' ? 'WSA error' : 'errno'} ${error}).`);
+    }
+  }
+
+  /**
+   * Sends every byte of `buffer`, blocking until the OS has accepted all of it.
+   * @param buffer Bytes to send.
+   * @throws If the socket is closed, the send times out, or it fails.
+   * @example
+   * ```ts
+   * socket.send(Buffer.from('+'));
+   * ```
+   */
+  public send(buffer: Buffer): void {
+    const socket = this.#open();
+
+    for (let offset = 0; offset < buffer.byteLength; ) {
+      const chunk = buffer.subarray(offset);
+      const sent = typeof socket === 'bigint' ? ws2_32!.send(socket, ptr(chunk), chunk.byteLength, 0x00) : Number(libc!.send(socket, ptr(chunk), BigInt(chunk.byteLength), 0x4000 /* MSG_NOSIGNAL */));
+
+      if (sent >= 0) {
+        offset += sent;
+
+        continue;
+      }
+
+      const error = typeof socket === 'bigint' ? ws2_32!.WSAGetLastError() : Socket.#errno();
+
+      if (typeof socket !== 'bigint' && error === EINTR) {
+        continue;
+      }
+
+      throw new Error(`send to ${this.#name} failed (${typeof socket === 'bigint' ? 'WSA error' : 'errno'} ${error}).`);
+    }
+
+    return;
+  }
+
+  /**
+   * Reads the calling thread's errno (Linux).
+   */
+  static #errno(): number {
+    return read.i32(libc!.__errno_location()!, 0);
+  }
+
+  /**
+   * Returns the open descriptor.
+   * @throws If the socket has been closed.
+   */
+  #open(): bigint | number {
+    if (this.#socket === undefined) {
+      throw new Error(`Socket to ${this.#name} is closed.`);
+    }
+
+    return this.#socket;
+  }
+}
+
+export default Socket;
+export { Socket };
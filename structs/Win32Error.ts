@@ -2,10 +2,6 @@ import { ptr } from 'bun:ffi';
 
 import Kernel32 from '@bun-win32/kernel32';
 
-Kernel32.Preload(['FormatMessageW']);
-
-const { FormatMessageW } = Kernel32;
-
 /**
  * Represents a Windows (Win32) system error.
  *
@@ -58,7 +54,7 @@ class Win32Error extends Error {
       const lpBuffer = Win32Error.#scratch4096;
       const nSize = lpBuffer.byteLength / 2;
 
-      const tChars = FormatMessageW(dwFlags, null, dwMessageId, 0, ptr(lpBuffer), nSize, null);
+      const tChars = Kernel32.FormatMessageW(dwFlags, null, dwMessageId, 0, ptr(lpBuffer), nSize, null);
 
       message =
         tChars !== 0
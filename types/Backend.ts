@@ -0,0 +1,103 @@
+import type { Pointer } from 'bun:ffi';
+
+import type Module from '../structs/Module';
+
+/**
+ * The memory primitives a `Process` is built on.
+ *
+ * Every accessor on `Process` funnels through these few calls, so swapping the backend swaps the
+ * target: `Kernel32Backend` drives a live Windows process, `BufferBackend` serves plain buffers.
+ * Failing calls throw; they never return a status code.
+ * @example
+ * ```ts
+ * const backend = new BufferBackend();
+ * const process = new Process(backend);
+ * ```
+ */
+export interface Backend {
+  /** Thread count of the target, or 0 when the backend has none. */
+  readonly cntThreads: number;
+  /** Native process handle, or 0n when the backend has none. */
+  readonly hProcess: bigint;
+  /** Whether the target uses 32-bit pointers. */
+  readonly is32Bit: boolean;
+  /** Base priority of the target's threads, or 0 when the backend has none. */
+  readonly pcPriClassBase: number;
+  /** Executable name of the target. */
+  readonly szExeFile: string;
+  /** Parent process ID, or 0 when the backend has none. */
+  readonly th32ParentProcessID: number;
+  /** Process ID, or 0 when the backend has none. */
+  readonly th32ProcessID: number;
+
+  /**
+   * Commits `dwSize` bytes of new memory with the given protection.
+   * @returns Base address of the allocation.
+   */
+  alloc(dwSize: bigint, flProtect: number): bigint;
+
+  /**
+   * Releases everything the backend holds. Called once by `Process.close()`.
+   */
+  close(): void;
+
+  /**
+   * Runs the code at `lpStartAddress` on a new thread and waits for it to return.
+   */
+  execute(lpStartAddress: bigint): void;
+
+  /**
+   * Exit code of the target once it has exited, or undefined while it runs. Optional: backends that
+   * cannot read one omit it.
+   */
+  exitCode?(): number | undefined;
+
+  /**
+   * Releases an allocation made by `alloc`.
+   */
+  free(lpAddress: bigint): void;
+
+  /**
+   * Whether the target is still running. Optional: backends without a live target omit it, and are
+   * treated as always alive.
+   */
+  isAlive?(): boolean;
+
+  /**
+   * Enumerates the modules currently loaded in the target.
+   */
+  modules(): Module[];
+
+  /**
+   * Address of the target's native (64-bit) PEB, even for a WOW64 target. Optional: backends without
+   * a Windows process behind them omit it.
+   */
+  peb?(): bigint;
+
+  /**
+   * Changes the protection of `dwSize` bytes at `lpAddress`.
+   * @returns The previous protection flags.
+   */
+  protect(lpAddress: bigint, dwSize: bigint, flNewProtect: number): number;
+
+  /**
+   * Fills `lpBuffer` with the 48-byte MEMORY_BASIC_INFORMATION of the region containing `lpAddress`.
+   * @returns false once `lpAddress` lies past the last region of the address space.
+   */
+  query(lpAddress: bigint, lpBuffer: Buffer): boolean;
+
+  /**
+   * Enumerates the IDs of the target's threads. Optional: backends that cannot see threads omit it.
+   */
+  threads?(): number[];
+
+  /**
+   * Copies `nSize` bytes at `lpBaseAddress` into the local memory at `lpBuffer`.
+   */
+  read(lpBaseAddress: bigint, lpBuffer: Pointer, nSize: bigint): void;
+
+  /**
+   * Copies `nSize` bytes from the local memory at `lpBuffer` to `lpBaseAddress`.
+   */
+  write(lpBaseAddress: bigint, lpBuffer: Pointer, nSize: bigint): void;
+}
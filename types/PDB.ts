@@ -0,0 +1,49 @@
+/**
+ * One section contribution of a PDB: a range of the image that one compiland (object file) supplied.
+ * @property Characteristics `IMAGE_SCN_*` flags of the contribution.
+ * @property module Name of the contributing module, usually the object file path.
+ * @property rva RVA of the range.
+ * @property size Size of the range in bytes.
+ * @example
+ * ```ts
+ * const owner = pdb.contributionAt(rva)?.module;
+ * ```
+ */
+export type PDBContribution = {
+  /** `IMAGE_SCN_*` flags. */
+  readonly Characteristics: number;
+  /** Contributing module. */
+  readonly module: string;
+  /** RVA. */
+  readonly rva: number;
+  /** Size in bytes. */
+  readonly size: number;
+};
+
+/**
+ * One named address of a PDB.
+ * @property decoratedName Name as the record holds it: decorated (`?Tick@game@@YAXXZ`) for a public
+ *   symbol, as written in source (`game::Tick`) for a global one.
+ * @property kind `'public'` (S_PUB32), `'function'` (a global or module-local procedure), or `'data'`
+ *   (a global or module-local variable).
+ * @property name Undecorated name (`game::Tick`); equal to `decoratedName` when it is not decorated.
+ * @property rva RVA of the symbol.
+ * @property size Code size for a function, otherwise undefined.
+ * @example
+ * ```ts
+ * const tick = pdb.find('game::Tick')!;
+ * console.log(tick.kind, tick.rva.toString(16), tick.size);
+ * ```
+ */
+export type PDBSymbol = {
+  /** Name as recorded. */
+  readonly decoratedName: string;
+  /** Record kind. */
+  readonly kind: 'data' | 'function' | 'public';
+  /** Undecorated name. */
+  readonly name: string;
+  /** RVA. */
+  readonly rva: number;
+  /** Code size of a function, or undefined. */
+  readonly size: number | undefined;
+};
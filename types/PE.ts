@@ -0,0 +1,288 @@
+/**
+ * A patched IAT slot, as returned by `process.patchImport()`. Disposing it writes the original pointer back.
+ * @property original Pointer the slot held before the patch.
+ * @property slot Absolute address of the patched IAT slot.
+ * @example
+ * ```ts
+ * using patch = cs2.patchImport('client.dll', 'USER32.dll', 'MessageBoxW', detour);
+ * console.log(patch.original.toString(16));
+ * ```
+ */
+export type ImportPatch = Disposable & {
+  /** Pointer the slot held before the patch. */
+  readonly original: bigint;
+  /** Absolute address of the patched slot. */
+  readonly slot: bigint;
+};
+
+/**
+ * The CodeView (RSDS) record of a PE image's debug directory: what identifies its PDB.
+ * @property age PDB age; with `guid`, the key a symbol store files the PDB under.
+ * @property guid PDB signature GUID, as uppercase `XXXXXXXX-XXXX-XXXX-XXXX-XXXXXXXXXXXX`.
+ * @property path PDB path as the linker wrote it (usually an absolute path on the build machine).
+ * @example
+ * ```ts
+ * const { age, guid, path } = cs2.modules['client.dll']!.pe.codeView!;
+ * console.log(`${path} ${guid.replaceAll('-', '')}${age.toString(16)}`);
+ * ```
+ */
+export type PECodeView = {
+  /** PDB age. */
+  readonly age: number;
+  /** PDB signature GUID. */
+  readonly guid: string;
+  /** PDB path as linked. */
+  readonly path: string;
+};
+
+/**
+ * One IMAGE_DATA_DIRECTORY entry of a PE optional header.
+ * @property Size Size of the directory in bytes.
+ * @property VirtualAddress RVA of the directory, or 0 when the image has none.
+ * @example
+ * ```ts
+ * const { VirtualAddress, Size } = client.pe.DataDirectory[ImageDirectoryEntry.Export]!;
+ * ```
+ */
+export type PEDataDirectory = {
+  /** Size in bytes. */
+  readonly Size: number;
+  /** RVA, or 0 when absent. */
+  readonly VirtualAddress: number;
+};
+
+/**
+ * One entry of a PE export table.
+ * @property address Absolute address of the function, or undefined for a forwarder.
+ * @property forwarder `module.function` or `module.#ordinal` the export forwards to, or undefined.
+ * @property Name Exported name, or undefined for an export by ordinal only.
+ * @property Ordinal Biased ordinal (the one `GetProcAddress` takes).
+ * @property rva RVA of the function, or of the forwarder string.
+ * @example
+ * ```ts
+ * const forwarded = cs2.modules['kernel32.dll']!.pe.exports.filter(({ forwarder }) => forwarder !== undefined);
+ * ```
+ */
+export type PEExport = {
+  /** Absolute address, or undefined for a forwarder. */
+  readonly address: bigint | undefined;
+  /** Forwarder string, or undefined. */
+  readonly forwarder: string | undefined;
+  /** Exported name, or undefined. */
+  readonly Name: string | undefined;
+  /** Biased ordinal. */
+  readonly Ordinal: number;
+  /** RVA of the function or forwarder string. */
+  readonly rva: number;
+};
+
+/**
+ * One RUNTIME_FUNCTION of an x64 image's exception directory (`.pdata`): the exact extent of a
+ * function, or of a fragment of one, and where its unwind information lives.
+ * @property BeginAddress RVA of the first byte.
+ * @property end Absolute address one past the last byte.
+ * @property EndAddress RVA one past the last byte.
+ * @property start Absolute address of the first byte.
+ * @property UnwindInfoAddress RVA of the UNWIND_INFO.
+ * @example
+ * ```ts
+ * const largest = client.pe.functions.reduce((a, b) => (b.EndAddress - b.BeginAddress > a.EndAddress - a.BeginAddress ? b : a));
+ * ```
+ */
+export type PEFunction = {
+  /** RVA of the first byte. */
+  readonly BeginAddress: number;
+  /** Absolute end address (exclusive). */
+  readonly end: bigint;
+  /** RVA of the end (exclusive). */
+  readonly EndAddress: number;
+  /** Absolute start address. */
+  readonly start: bigint;
+  /** RVA of the UNWIND_INFO. */
+  readonly UnwindInfoAddress: number;
+};
+
+/**
+ * One imported function: a slot of a module's import address table (IAT), regular or delay-loaded.
+ * @property delayed Whether the import is delay-loaded; its slot points at the delay-load helper until first call.
+ * @property dll Name of the imported module, as written in the image (e.g. `KERNEL32.dll`).
+ * @property Name Imported name, or undefined for an import by ordinal.
+ * @property Ordinal Imported ordinal, or undefined for an import by name.
+ * @property slot Absolute address of the IAT slot.
+ * @property target Pointer currently stored in the slot.
+ * @example
+ * ```ts
+ * const client = cs2.modules['client.dll']!;
+ * const hooked = client.pe.imports.filter(({ dll, target }) => !cs2.modules[dll.toLowerCase()]?.pe.sectionList.some(({ end, start }) => target >= start && target < end));
+ * ```
+ */
+export type PEImport = {
+  /** Whether the import is delay-loaded. */
+  readonly delayed: boolean;
+  /** Imported module name. */
+  readonly dll: string;
+  /** Imported name, or undefined. */
+  readonly Name: string | undefined;
+  /** Imported ordinal, or undefined. */
+  readonly Ordinal: number | undefined;
+  /** Absolute address of the IAT slot. */
+  readonly slot: bigint;
+  /** Pointer stored in the slot. */
+  readonly target: bigint;
+};
+
+/**
+ * One match of a byte pattern in a PE image, from `pe.pattern()` or `pe.scan()`.
+ * @property address Absolute address of the match, relative to the image's `base`.
+ * @property rva RVA of the match.
+ * @property section Name of the section holding the match.
+ * @example
+ * ```ts
+ * const match = new PEImage('client.dll').pattern('488b05????????');
+ * console.log(match?.section, match?.rva.toString(16));
+ * ```
+ */
+export type PEMatch = {
+  /** Absolute address of the match. */
+  readonly address: bigint;
+  /** RVA of the match. */
+  readonly rva: number;
+  /** Name of the holding section. */
+  readonly section: string;
+};
+
+/**
+ * One base relocation of a PE image: a location the loader adjusts when the image is not mapped at
+ * its preferred `ImageBase`.
+ * @property rva RVA of the value to adjust.
+ * @property type `IMAGE_REL_BASED_*` type: 1 (HIGH), 2 (LOW), 3 (HIGHLOW, a 32-bit pointer), or
+ *   10 (DIR64, a 64-bit pointer). ABSOLUTE padding entries are left out.
+ * @example
+ * ```ts
+ * const pointers = image.relocations.filter(({ type }) => type === 0x0a).length;
+ * ```
+ */
+export type PERelocation = {
+  /** RVA of the adjusted value. */
+  readonly rva: number;
+  /** `IMAGE_REL_BASED_*` type. */
+  readonly type: number;
+};
+
+/**
+ * One IMAGE_SECTION_HEADER of a PE image, with its absolute address range in the target.
+ * @property Characteristics `IMAGE_SCN_*` flags.
+ * @property end Absolute address one past the section's last byte.
+ * @property Name Section name, such as `.text`.
+ * @property PointerToRawData File offset of the section's bytes.
+ * @property SizeOfRawData Size of the section's bytes in the file.
+ * @property start Absolute address of the section.
+ * @property VirtualAddress RVA of the section.
+ * @property VirtualSize Size of the section once mapped.
+ * @example
+ * ```ts
+ * const text = cs2.modules['client.dll']!.pe.sections['.text']!;
+ * const address = cs2.pattern('48 8b 05 ?? ?? ?? ??', text.start, text.VirtualSize);
+ * ```
+ */
+export type PESection = {
+  /** `IMAGE_SCN_*` flags. */
+  readonly Characteristics: number;
+  /** Absolute address one past the last byte. */
+  readonly end: bigint;
+  /** Section name. */
+  readonly Name: string;
+  /** File offset of the raw bytes. */
+  readonly PointerToRawData: number;
+  /** Size of the raw bytes. */
+  readonly SizeOfRawData: number;
+  /** Absolute address. */
+  readonly start: bigint;
+  /** RVA. */
+  readonly VirtualAddress: number;
+  /** Mapped size. */
+  readonly VirtualSize: number;
+};
+
+/**
+ * The UNWIND_INFO of an x64 function, as `functionAt()` returns it.
+ * @property CountOfCodes Number of 16-bit unwind code slots.
+ * @property Flags `UNW_FLAG_*`: 1 (EHANDLER), 2 (UHANDLER), 4 (CHAININFO).
+ * @property FrameOffset Scaled offset of the frame register from RSP, in 16-byte units.
+ * @property FrameRegister Number of the frame register (5 is RBP), or 0 for none.
+ * @property handler Absolute address of the exception or termination handler, or undefined.
+ * @property parent The function a chained fragment belongs to (its primary entry), or undefined.
+ * @property SizeOfProlog Prolog length in bytes.
+ * @property Version Unwind info version (1 or 2).
+ * @example
+ * ```ts
+ * const { SizeOfProlog } = cs2.functionAt(address)!.unwind;
+ * const hookable = SizeOfProlog >= 0x05;
+ * ```
+ */
+export type PEUnwindInfo = {
+  /** Number of unwind code slots. */
+  readonly CountOfCodes: number;
+  /** `UNW_FLAG_*` flags. */
+  readonly Flags: number;
+  /** Scaled frame register offset. */
+  readonly FrameOffset: number;
+  /** Frame register number, or 0. */
+  readonly FrameRegister: number;
+  /** Absolute address of the language handler, or undefined. */
+  readonly handler: bigint | undefined;
+  /** Primary function of a chained fragment, or undefined. */
+  readonly parent: PEFunction | undefined;
+  /** Prolog length. */
+  readonly SizeOfProlog: number;
+  /** Unwind info version. */
+  readonly Version: number;
+};
+
+/**
+ * A range of a module's read-only section whose bytes in memory differ from the on-disk image, as
+ * returned by `module.verify()`.
+ * @property address Absolute address of the range.
+ * @property current Bytes in memory.
+ * @property original Bytes the loader would have mapped (relocated for the module's base).
+ * @property rva RVA of the range.
+ * @property section Name of the section holding the range.
+ * @example
+ * ```ts
+ * for (const { current, original, rva, section } of cs2.modules['client.dll']!.verify()) {
+ *   console.log(`${section}+0x${rva.toString(16)}: ${original.toString('hex')} -> ${current.toString('hex')}`);
+ * }
+ * ```
+ */
+export type SectionDiff = {
+  /** Absolute address. */
+  readonly address: bigint;
+  /** Bytes in memory. */
+  readonly current: Buffer;
+  /** Bytes from the file. */
+  readonly original: Buffer;
+  /** RVA. */
+  readonly rva: number;
+  /** Section name. */
+  readonly section: string;
+};
+
+/**
+ * Outcome of validating a set of named signatures against a PE image with `pe.scan()`.
+ * @property ambiguous Names of the signatures matching more than once.
+ * @property matches Every match of each signature, by name.
+ * @property unmatched Names of the signatures matching nowhere (invalid patterns included).
+ * @example
+ * ```ts
+ * const { ambiguous, unmatched } = new PEImage('client.dll').scan(signatures);
+ * if (ambiguous.length !== 0 || unmatched.length !== 0) throw new Error(`Stale: ${[...ambiguous, ...unmatched]}`);
+ * ```
+ */
+export type SignatureReport = {
+  /** Signatures matching more than once. */
+  readonly ambiguous: readonly string[];
+  /** Matches by signature name. */
+  readonly matches: Readonly<Record<string, readonly PEMatch[]>>;
+  /** Signatures matching nowhere. */
+  readonly unmatched: readonly string[];
+};
@@ -1,5 +1,9 @@
 import type { FFIType, FFITypeOrString, FFITypeToArgsType, FFITypeToReturnsType, Pointer, ToFFIType } from 'bun:ffi';
 
+import type MemoryBasicInformation from '../structs/MemoryBasicInformation';
+import type Module from '../structs/Module';
+import type { Backend } from './Backend';
+
 /**
  * Any typed array or buffer that can be used as a memory region for reading/writing.
  * @example
@@ -29,20 +33,80 @@ export type CallSignature = {
   readonly returns: FFITypeOrString;
 };
 
+/**
+ * Selects what `Process.dump` captures. Committed, readable regions are captured unless filtered out.
+ * @property filter Predicate over each candidate region; return false to leave it out.
+ * @property modules Capture only memory inside these modules (names as keyed in `modules`).
+ * @property protect Capture only regions whose protection shares a bit with this mask.
+ * @property threads Include the thread list (thread IDs only; no contexts or stacks).
+ * @property type Capture only regions whose type shares a bit with this mask (`MEM_IMAGE`, `MEM_MAPPED`, `MEM_PRIVATE`).
+ * @example
+ * ```ts
+ * const cs2 = new Process('cs2.exe');
+ * cs2.dump('client.dmp', { modules: ['client.dll'], threads: true });
+ * ```
+ */
+export type DumpOptions = {
+  /** Predicate over each candidate region. */
+  filter?: (region: MemoryBasicInformation) => boolean;
+  /** Capture only memory inside these modules (names match case-insensitively). */
+  modules?: readonly string[];
+  /** Protection mask (e.g. `PAGE_EXECUTE_READ | PAGE_READWRITE`). */
+  protect?: number;
+  /** Include the thread list. */
+  threads?: boolean;
+  /** Region type mask. */
+  type?: number;
+};
+
 /**
  * A single hexadecimal character (0-9, a-f, A-F).
  */
 export type HexChar = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | 'a' | 'b' | 'c' | 'd' | 'e' | 'f' | 'A' | 'B' | 'C' | 'D' | 'E' | 'F';
 
 /**
- * A single byte in a pattern (two hex chars or a wildcard).
+ * A single byte in a pattern: two hex chars, a nibble wildcard on either side (`4?`, `?F`), or a
+ * wildcard that matches any byte.
+ */
+export type PatternByte = `${PatternNibble}${PatternNibble}` | PatternWildcard;
+
+/**
+ * Half of a pattern byte: a hex char, or `?` / `*` to match any nibble.
+ */
+export type PatternNibble = HexChar | '*' | '?';
+
+/**
+ * A pattern string accepted by `pattern()`: contiguous bytes (`dead**ef`) or whitespace-separated
+ * bytes (`DE AD ? EF`). Literals that do not parse resolve to `never`, so typos fail to compile;
+ * strings only known at run time pass through and are checked when parsed.
+ * @example
+ * ```ts
+ * cs2.pattern('48 8B 05 ? ? ? ? 4?', address, length); // OK
+ * cs2.pattern('48 8G', address, length); // Type error
+ * ```
  */
-export type PatternByte = `${HexChar}${HexChar}` | PatternWildcard;
+export type PatternString<S extends string> = string extends S ? S : IsPattern<S> extends true ? S : never;
 
 /**
- * A wildcard byte pattern that matches any byte.
+ * A wildcard byte pattern that matches any byte. The single-character forms are valid only between
+ * whitespace.
  */
-export type PatternWildcard = '**' | '??';
+export type PatternWildcard = '**' | '??' | '*' | '?';
+
+/**
+ * Whether a string is a run of whole pattern bytes with no separators.
+ */
+type IsPairs<S extends string> = S extends '' ? true : S extends `${PatternNibble}${PatternNibble}${infer Rest}` ? IsPairs<Rest> : false;
+
+/**
+ * Whether a string is a whitespace-separated list of pattern tokens.
+ */
+type IsPattern<S extends string> = S extends `${infer Token} ${infer Rest}` ? (IsToken<Token> extends true ? IsPattern<Rest> : false) : IsToken<S>;
+
+/**
+ * Whether a string is a single pattern token: a lone wildcard or a run of whole bytes.
+ */
+type IsToken<S extends string> = S extends '' ? false : S extends '*' | '?' ? true : IsPairs<S>;
 
 /**
  * Represents a 2D point.
@@ -61,6 +125,112 @@ export type Point = {
   y: number;
 };
 
+/**
+ * A running process as listed by `Process.list()`, before anything is opened. Pass it to
+ * `new Process(entry)` to attach to exactly that instance.
+ * @property cntThreads Thread count.
+ * @property pcPriClassBase Base priority of the process's threads.
+ * @property szExeFile Executable name.
+ * @property th32ParentProcessID Parent process ID.
+ * @property th32ProcessID Process ID.
+ * @example
+ * ```ts
+ * const [entry] = Process.list('cs2.exe');
+ * const cs2 = new Process(entry);
+ * ```
+ */
+export type ProcessEntry = {
+  /** Thread count. */
+  readonly cntThreads: number;
+  /** Base priority of the process's threads. */
+  readonly pcPriClassBase: number;
+  /** Executable name. */
+  readonly szExeFile: string;
+  /** Parent process ID. */
+  readonly th32ParentProcessID: number;
+  /** Process ID. */
+  readonly th32ProcessID: number;
+};
+
+/**
+ * Events a `Process` emits, with their listener arguments.
+ * @property error A supervisor re-attach attempt or a module snapshot failed; it is retried on the next poll.
+ * @property exit The target exited, with its exit code when the backend can read one.
+ * @property load A module appeared in the module list (or moved), as found by a poll or `refresh()`.
+ * @property reattach A supervisor attached to the relaunched target and refreshed its modules; receives the exited process.
+ * @property unload A module left the module list (or moved); receives the module as it was.
+ * @example
+ * ```ts
+ * cs2.on('exit', (exitCode) => console.log(`cs2 exited with ${exitCode}`));
+ * cs2.on('load', (module) => console.log(`${module.szModule} loaded at 0x${module.modBaseAddr.toString(16)}`));
+ * cs2.on('reattach', (previous) => console.log(`cs2 restarted (was PID ${previous.th32ProcessID})`));
+ * ```
+ */
+export type ProcessEvents = {
+  /** A supervisor re-attach attempt or a module snapshot failed. */
+  error: [error: unknown];
+  /** The target exited. */
+  exit: [exitCode: number | undefined];
+  /** A module loaded. */
+  load: [module: Module];
+  /** The supervisor attached to the relaunched target. */
+  reattach: [previous: ProcessEntry];
+  /** A module unloaded. */
+  unload: [module: Module];
+};
+
+/**
+ * Selects processes in `Process.list()` / `Process.tree()`: an executable name (case-insensitive,
+ * with `*` and `?` globs), a RegExp tested against the name, or a predicate over the entry.
+ * @example
+ * ```ts
+ * Process.list('cs2.exe');
+ * Process.list('*.exe');
+ * Process.list(/^steam/i);
+ * Process.list(({ cntThreads }) => cntThreads > 100);
+ * ```
+ */
+export type ProcessFilter = RegExp | string | ((entry: ProcessEntry) => boolean);
+
+/**
+ * How `new Process(identifier, options)` attaches.
+ * @property access `ProcessAccessRights` to open the handle with. Ignored when attaching through a Backend.
+ * @property chunkSize Most bytes `indexOf()`, `pattern()`, and `scan()` read at once; longer spans are streamed in
+ *   chunks that overlap by the needle's length, so memory use stays bounded.
+ * @property pollInterval Milliseconds between liveness and module checks while `'exit'`, `'load'`, or `'unload'`
+ *   listeners, a supervisor, or a `waitForModule()` are attached.
+ * @property readOnly Refuse every write, `alloc`, `free`, `protection`, and `call` with an `AccessError`.
+ * @example
+ * ```ts
+ * const cs2 = new Process('cs2.exe', { readOnly: true });
+ * const scanner = new Process('cs2.exe', { chunkSize: 0x10_0000 });
+ * ```
+ */
+export type ProcessOptions = {
+  /** Access rights (defaults to PROCESS_ALL_ACCESS, or PROCESS_VM_READ | PROCESS_QUERY_INFORMATION when read-only). */
+  access?: number;
+  /** Most bytes a scan reads at once (defaults to 4 MiB). */
+  chunkSize?: number;
+  /** Milliseconds between liveness and module checks (defaults to 500). */
+  pollInterval?: number;
+  /** Refuse everything that would modify the target. */
+  readOnly?: boolean;
+};
+
+/**
+ * A process in `Process.tree()`, with the processes it started.
+ * @property children Child processes, in snapshot order.
+ * @example
+ * ```ts
+ * const [explorer] = Process.tree('explorer.exe');
+ * console.log(explorer.children.map(({ szExeFile }) => szExeFile));
+ * ```
+ */
+export type ProcessTreeNode = ProcessEntry & {
+  /** Child processes. */
+  readonly children: ProcessTreeNode[];
+};
+
 /**
  * Represents an orientation using Euler angles.
  * @property pitch Pitch (X axis).
@@ -104,6 +274,30 @@ export type Quaternion = {
   z: number;
 };
 
+/**
+ * Selects the regions a `{ regions }` scan scope covers. Whatever the filter, only committed regions
+ * are read, and guard and `PAGE_NOACCESS` pages are skipped.
+ * @property filter Predicate over each region; return false to leave it out.
+ * @property protect Only regions whose protection shares a bit with this mask.
+ * @property state Only regions whose state shares a bit with this mask (`MEM_COMMIT` is the only one read).
+ * @property type Only regions whose type shares a bit with this mask (`MEM_IMAGE`, `MEM_MAPPED`, `MEM_PRIVATE`).
+ * @example
+ * ```ts
+ * // Executable private memory, e.g. JIT code or manually mapped images
+ * const regions: RegionFilter = { protect: 0xf0, type: MemoryAllocationType.MEM_PRIVATE };
+ * ```
+ */
+export type RegionFilter = {
+  /** Predicate over each region. */
+  filter?: (region: MemoryBasicInformation) => boolean;
+  /** Protection mask (e.g. `PAGE_EXECUTE | PAGE_EXECUTE_READ | PAGE_EXECUTE_READWRITE | PAGE_EXECUTE_WRITECOPY`). */
+  protect?: number;
+  /** State mask. */
+  state?: number;
+  /** Region type mask. */
+  type?: number;
+};
+
 /**
  * Represents an RGB color.
  * @property r Red.
@@ -147,6 +341,58 @@ export type RGBA = {
   a: number;
 };
 
+/**
+ * An address range to scan.
+ * @property address Start address.
+ * @property length Number of bytes.
+ * @example
+ * ```ts
+ * const ranges: ScanRange[] = [{ address: 0x1000_0000n, length: 0x1000 }, { address: 0x2000_0000n, length: 0x800 }];
+ * ```
+ */
+export type ScanRange = {
+  /** Start address. */
+  address: bigint;
+  /** Number of bytes. */
+  length: number;
+};
+
+/**
+ * Where `pattern()` and `indexOf()` search when given a scope instead of an address and length:
+ * - `{ module, section? }`: one module (by name or full path), or one of its sections.
+ * - `{ modules: 'all', section? }`: every module in address order, or the named section of each that has one.
+ * - `{ regions }`: every region from `query()` that passes a `RegionFilter`.
+ * - `{ ranges }`: explicit ranges, in the order given.
+ *
+ * Matches keep the usual semantics (the first, or every one in scope order with `all`), and guard
+ * and `PAGE_NOACCESS` pages inside a scope are skipped.
+ * @example
+ * ```ts
+ * cs2.pattern('48 8B 05 ? ? ? ? 48 85 C0', { module: 'client.dll', section: '.text' });
+ * cs2.indexOf(Buffer.from('CCSPlayerController'), { modules: 'all', section: '.rdata' }, true);
+ * cs2.pattern('E8 ? ? ? ? 90', { regions: { protect: 0xf0, type: MemoryAllocationType.MEM_PRIVATE } }, true);
+ * ```
+ */
+export type ScanScope =
+  | { readonly module: string; readonly section?: string | undefined }
+  | { readonly modules: 'all'; readonly section?: string | undefined }
+  | { readonly ranges: readonly ScanRange[] }
+  | { readonly regions: RegionFilter };
+
+/**
+ * How `process.supervise()` re-attaches after the target exits.
+ * @property attach Opens the relaunched target, or returns undefined while it has not started yet.
+ *   Defaults to the one running process with the same executable name and a new PID.
+ * @example
+ * ```ts
+ * const cs2 = new Process(new LinuxBackend('cs2.exe')).supervise({ attach: () => new LinuxBackend('cs2.exe') });
+ * ```
+ */
+export type SuperviseOptions = {
+  /** Opens the relaunched target, or returns undefined to try again on the next poll. */
+  attach?: (previous: ProcessEntry) => Backend | undefined;
+};
+
 export type UPtr = bigint;
 
 export type UPtrArray = BigUint64Array;
@@ -210,3 +456,35 @@ export type Vector4 = {
   /** Z component. */
   z: number;
 };
+
+/**
+ * How `process.waitForModule()` waits.
+ * @property signal Rejects the wait with the signal's reason when aborted.
+ * @property timeout Milliseconds to wait before rejecting; omit to wait indefinitely.
+ * @example
+ * ```ts
+ * const client = await cs2.waitForModule('client.dll', { timeout: 30_000 });
+ * ```
+ */
+export type WaitForModuleOptions = {
+  /** Aborts the wait. */
+  signal?: AbortSignal;
+  /** Milliseconds to wait before rejecting. */
+  timeout?: number;
+};
+
+/**
+ * How `Process.waitFor()` waits, plus the options the process is attached with.
+ * @property signal Rejects the wait with the signal's reason when aborted.
+ * @property timeout Milliseconds to wait before rejecting; omit to wait indefinitely.
+ * @example
+ * ```ts
+ * const cs2 = await Process.waitFor('cs2.exe', { timeout: 60_000, pollInterval: 1_000 });
+ * ```
+ */
+export type WaitForOptions = ProcessOptions & {
+  /** Aborts the wait. */
+  signal?: AbortSignal;
+  /** Milliseconds to wait before rejecting. */
+  timeout?: number;
+};
@@ -0,0 +1,69 @@
+/**
+ * One base class of an MSVC RTTI class, from its hierarchy descriptor's base class array.
+ * @property decoratedName Decorated name of the base's TypeDescriptor (e.g. `.?AVC_BaseEntity@@`).
+ * @property name Undecorated name (e.g. `C_BaseEntity`).
+ * @property offset Offset of the base subobject within the class (`mdisp`); for a virtual base,
+ *   the offset within the virtual base it is reached through.
+ * @property virtual Whether the base is reached through a virtual base table.
+ * @example
+ * ```ts
+ * const pawn = cs2.modules['client.dll']!.pe.rtti.classes['C_CSPlayerPawn']!;
+ * console.log(pawn.bases.map(({ name, offset }) => `${name} @ 0x${offset.toString(16)}`));
+ * ```
+ */
+export type RTTIBaseClass = {
+  /** Decorated TypeDescriptor name. */
+  readonly decoratedName: string;
+  /** Undecorated name. */
+  readonly name: string;
+  /** Offset of the base subobject. */
+  readonly offset: number;
+  /** Whether the base is virtual. */
+  readonly virtual: boolean;
+};
+
+/**
+ * A polymorphic class found through MSVC RTTI: its TypeDescriptor, its vtables, and its bases.
+ * @property bases Every base class, direct and indirect, in the order of the base class array.
+ * @property decoratedName Decorated TypeDescriptor name (e.g. `.?AVC_CSPlayerPawn@@`).
+ * @property name Undecorated name (e.g. `C_CSPlayerPawn`, or `game::CBase` for a nested name).
+ * @property typeDescriptor Absolute address of the TypeDescriptor.
+ * @property vtables The class's vtables, the primary one (offset 0) first.
+ * @example
+ * ```ts
+ * const pawn = cs2.modules['client.dll']!.pe.rtti.classes['C_CSPlayerPawn']!;
+ * const vtable = pawn.vtables[0]!.address;
+ * ```
+ */
+export type RTTIClass = {
+  /** Base classes, direct and indirect. */
+  readonly bases: readonly RTTIBaseClass[];
+  /** Decorated TypeDescriptor name. */
+  readonly decoratedName: string;
+  /** Undecorated name. */
+  readonly name: string;
+  /** Absolute address of the TypeDescriptor. */
+  readonly typeDescriptor: bigint;
+  /** vtables, primary first. */
+  readonly vtables: readonly RTTIVTable[];
+};
+
+/**
+ * One vtable of an MSVC RTTI class. A class with multiple polymorphic bases has one vtable per
+ * subobject that holds a vtable pointer.
+ * @property address Absolute address of the vtable's first slot (what an object's vtable pointer holds).
+ * @property locator Absolute address of the RTTICompleteObjectLocator stored just before the vtable.
+ * @property offset Offset of the subobject whose vtable pointer holds `address`.
+ * @example
+ * ```ts
+ * const isPawn = cs2.vTable(entity) === pawn.vtables[0]!.address;
+ * ```
+ */
+export type RTTIVTable = {
+  /** Absolute address of the first slot. */
+  readonly address: bigint;
+  /** Absolute address of the complete object locator. */
+  readonly locator: bigint;
+  /** Offset of the owning subobject. */
+  readonly offset: number;
+};
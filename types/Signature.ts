@@ -0,0 +1,79 @@
+import type Signature from '../structs/Signature';
+
+/**
+ * One step of a signature resolver, applied to the address the previous step produced.
+ * Build them with `Signature.add`, `Signature.deref`, and `Signature.rip`, or write them as data.
+ * - `add`: adds `value` (may be negative).
+ * - `deref`: reads a pointer (4 or 8 bytes, following `is32Bit`); a null pointer fails the step.
+ * - `rip`: reads the signed 32-bit displacement at the address and returns
+ *   `address + length + displacement`, the target of a RIP-relative operand or a rel32 `call`/`jmp`.
+ *   `length` counts the bytes from the displacement to the end of the instruction (4 unless an
+ *   immediate follows it).
+ * @example
+ * ```ts
+ * // 48 8B 05 <rel32>: mov rax, [rip+rel32]
+ * const steps: ResolveStep[] = [{ type: 'add', value: 3 }, { type: 'rip', length: 4 }, { type: 'deref' }];
+ * ```
+ */
+export type ResolveStep = { readonly type: 'add'; readonly value: number } | { readonly type: 'deref' } | { readonly type: 'rip'; readonly length: number };
+
+/**
+ * Tunes `process.scan()`.
+ * @property chunkSize Most bytes read at once (defaults to the process's `chunkSize`, 4 MiB unless set at
+ *   attach); a region larger than this is read in chunks that overlap by the longest signature's length, so
+ *   no match is lost at a boundary.
+ * @property limit Most matches kept per signature (default 256); matches beyond it are still counted.
+ * @example
+ * ```ts
+ * const report = cs2.scan(signatures, { modules: 'all', section: '.text' }, { chunkSize: 0x10_0000, limit: 0x02 });
+ * ```
+ */
+export type ScanOptions = {
+  /** Most bytes read at once. */
+  chunkSize?: number;
+  /** Most matches kept per signature. */
+  limit?: number;
+};
+
+/**
+ * The result of `process.scan()`.
+ * @property ambiguous Signatures that matched more than once, in input order.
+ * @property matches Match addresses by signature name, in address order within each range; at most `limit` each.
+ * @property unmatched Signatures that matched nowhere (malformed ones included), in input order.
+ * @example
+ * ```ts
+ * const { ambiguous, matches, unmatched } = cs2.scan(signatures, { module: 'client.dll', section: '.text' });
+ * const dwEntityList = matches['dwEntityList']![0];
+ * ```
+ */
+export type ScanReport = {
+  /** Signatures matching more than once. */
+  readonly ambiguous: readonly string[];
+  /** Match addresses by signature name. */
+  readonly matches: Readonly<Record<string, readonly bigint[]>>;
+  /** Signatures matching nowhere. */
+  readonly unmatched: readonly string[];
+};
+
+/**
+ * A signature and the steps from its match to the address it stands for, run by `process.resolve()`.
+ * @property module Module to scan, by name or full path.
+ * @property pattern Pattern in any `pattern()` notation, or a compiled `Signature`.
+ * @property section Section of the module to scan (defaults to the whole module).
+ * @property steps Steps applied to the first match, in order.
+ * @example
+ * ```ts
+ * const { add, deref, rip } = Signature;
+ * const dwLocalPlayerPawn: SignatureResolver = { module: 'client.dll', pattern: '48 8B 05 ? ? ? ? 48 85 C0', section: '.text', steps: [add(3), rip(4)] };
+ * ```
+ */
+export type SignatureResolver = {
+  /** Module to scan. */
+  readonly module: string;
+  /** Pattern to find. */
+  readonly pattern: Signature | string;
+  /** Section to scan. */
+  readonly section?: string | undefined;
+  /** Steps applied to the match. */
+  readonly steps?: readonly ResolveStep[] | undefined;
+};
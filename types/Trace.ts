@@ -0,0 +1,32 @@
+/**
+ * A module as stored in a trace.
+ */
+export type TraceModule = {
+  modBaseAddr: string;
+  modBaseSize: number;
+  szExePath: string;
+  szModule: string;
+};
+
+/**
+ * One line of a recorded session, as written by `RecordingBackend` and served by `ReplayBackend`.
+ *
+ * Traces are NDJSON: one event per line, in call order. Addresses and sizes are `0x`-prefixed hex
+ * strings (JSON has no 64-bit integers), memory bytes and MEMORY_BASIC_INFORMATION buffers are base64.
+ * A call that threw is recorded with its `error` message and no result.
+ * @example
+ * ```ts
+ * const events = (await Bun.file('session.ndjson').text()).trimEnd().split('\n').map((line) => JSON.parse(line) as TraceEvent);
+ * ```
+ */
+export type TraceEvent =
+  | { t: 'attach'; cntThreads: number; is32Bit: boolean; pcPriClassBase: number; szExeFile: string; th32ParentProcessID: number; th32ProcessID: number; version: 1 }
+  | { t: 'alloc'; address?: string; error?: string; protect: number; size: string }
+  | { t: 'execute'; address: string; error?: string }
+  | { t: 'free'; address: string; error?: string }
+  | { t: 'modules'; error?: string; modules?: TraceModule[] }
+  | { t: 'protect'; address: string; error?: string; previous?: number; protect: number; size: string }
+  | { t: 'query'; address: string; error?: string; mbi?: string | null }
+  | { t: 'read'; address: string; data?: string; error?: string; size: string }
+  | { t: 'threads'; error?: string; threads?: number[] }
+  | { t: 'write'; address: string; data: string; error?: string };